@@ -1,15 +1,81 @@
 import express from 'express';
+import swaggerUi from 'swagger-ui-express';
 import validatorRoutes from './routes/validators.js';
 import blockRoutes from './routes/blocks.js';
+import syncRoutes from './routes/sync.js';
+import reorgRoutes from './routes/reorgs.js';
+import alertRoutes from './routes/alerts.js';
+import notificationRoutes from './routes/notifications.js';
+import streamRoutes from './routes/stream.js';
+import authRoutes from './routes/auth.js';
+import userRoutes from './routes/users.js';
+import meRoutes from './routes/me.js';
+import committeeRoutes from './routes/committee.js';
+import transactionRoutes from './routes/transactions.js';
+import analyticsRoutes from './routes/analytics.js';
+import mempoolRoutes from './routes/mempool.js';
+import networkRoutes from './routes/network.js';
+import upstreamRoutes from './routes/upstreams.js';
 import { ValidatorService } from '../services/ValidatorService.js';
 import { BlockService } from '../services/BlockService.js';
+import { AlertService } from '../services/AlertService.js';
+import { NotificationService } from '../services/NotificationService.js';
+import { AuthService } from '../services/AuthService.js';
+import { WatchlistService } from '../services/WatchlistService.js';
+import { CommitteeService } from '../services/CommitteeService.js';
+import { RewardService } from '../services/RewardService.js';
+import { RollupService } from '../services/RollupService.js';
+import { LeaderboardService } from '../services/LeaderboardService.js';
+import { TransactionService } from '../services/TransactionService.js';
+import { AnalyticsService } from '../services/AnalyticsService.js';
+import { MempoolService } from '../services/MempoolService.js';
+import { NetworkService } from '../services/NetworkService.js';
+import { AleoSDKService } from '../services/AleoSDKService.js';
 import { errorHandler } from './middleware/errorHandler.js';
+import { authMiddleware } from './middleware/auth.js';
+import { getOpenApiDocument } from './openapi.js';
 
 const router = express.Router();
 
-export default (validatorService: ValidatorService, blockService: BlockService) => {
-  router.use('/validators', validatorRoutes(validatorService));
-  router.use('/blocks', blockRoutes(blockService));
+export default (
+  validatorService: ValidatorService,
+  blockService: BlockService,
+  alertService: AlertService,
+  notificationService: NotificationService,
+  authService: AuthService,
+  watchlistService: WatchlistService,
+  committeeService: CommitteeService,
+  rewardService: RewardService,
+  rollupService: RollupService,
+  leaderboardService: LeaderboardService,
+  transactionService: TransactionService,
+  analyticsService: AnalyticsService,
+  mempoolService: MempoolService,
+  networkService: NetworkService,
+  aleoSDKService: AleoSDKService
+) => {
+  router.use(express.json());
+  router.get('/openapi.json', (req, res) => {
+    res.json(getOpenApiDocument());
+  });
+  router.use('/docs', swaggerUi.serve, swaggerUi.setup(undefined, { swaggerOptions: { url: '/api/openapi.json' } }));
+  router.use(authMiddleware(authService));
+  router.use('/auth', authRoutes(authService));
+  router.use('/users', userRoutes(authService));
+  router.use('/me', meRoutes(watchlistService, notificationService));
+  router.use('/committee', committeeRoutes(committeeService));
+  router.use('/validators', validatorRoutes(validatorService, rewardService, rollupService, leaderboardService));
+  router.use('/blocks', blockRoutes(blockService, transactionService));
+  router.use('/transactions', transactionRoutes(transactionService));
+  router.use('/analytics', analyticsRoutes(analyticsService));
+  router.use('/mempool', mempoolRoutes(mempoolService));
+  router.use('/network', networkRoutes(networkService));
+  router.use('/upstreams', upstreamRoutes(aleoSDKService));
+  router.use('/sync', syncRoutes(blockService));
+  router.use('/reorgs', reorgRoutes(blockService));
+  router.use('/alerts', alertRoutes(alertService));
+  router.use('/notifications', notificationRoutes(notificationService));
+  router.use('/stream', streamRoutes());
   router.use(errorHandler);
   return router;
 };
\ No newline at end of file
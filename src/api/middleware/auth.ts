@@ -1,19 +1,37 @@
 import { Request, Response, NextFunction } from 'express';
-import jwt from 'jsonwebtoken';
-import { config } from '../../config/index.js';
+import { AuthError, AuthService, hasRole } from '../../services/AuthService.js';
+import { Role } from '../../types/Auth.js';
 
-export const authMiddleware = (req: Request, res: Response, next: NextFunction) => {
-  const token = req.header('Authorization')?.replace('Bearer ', '');
+// Resolves `Authorization: Bearer <jwt>` or `X-API-Key: <key>` into req.user. Requests without
+// credentials pass through anonymously; invalid credentials are rejected outright.
+export const authMiddleware = (authService: AuthService) =>
+  async (req: Request, res: Response, next: NextFunction) => {
+    if (req.user) return next();
+    const token = req.header('Authorization')?.replace('Bearer ', '');
+    const apiKey = req.header('X-API-Key');
 
-  if (!token) {
-    return res.status(401).json({ error: "Yetkilendirme token'ı gerekli" });
-  }
+    try {
+      if (token) {
+        req.user = await authService.verifyAccessToken(token);
+      } else if (apiKey) {
+        req.user = await authService.verifyApiKey(apiKey);
+      }
+      next();
+    } catch (error) {
+      if (error instanceof AuthError) {
+        res.status(error.status).json({ error: error.message });
+      } else {
+        next(error);
+      }
+    }
+  };
 
-  try {
-    const decoded = jwt.verify(token, config.jwt.secret);
-    (req as Request).user = decoded;
-    next();
-  } catch (error) {
-    res.status(401).json({ error: 'Geçersiz token' });
+export const requireRole = (role: Role) => (req: Request, res: Response, next: NextFunction) => {
+  if (!req.user) {
+    return res.status(401).json({ error: 'Authentication required' });
+  }
+  if (!hasRole(req.user.role, role)) {
+    return res.status(403).json({ error: `Requires ${role} role` });
   }
+  next();
 };
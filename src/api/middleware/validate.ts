@@ -0,0 +1,36 @@
+import { Request, Response, NextFunction } from 'express';
+import { ZodError, ZodTypeAny } from 'zod';
+
+export interface RequestSchemas {
+  params?: ZodTypeAny;
+  query?: ZodTypeAny;
+  body?: ZodTypeAny;
+}
+
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+const toFieldErrors = (location: string, error: ZodError): FieldError[] =>
+  error.issues.map(issue => ({
+    field: [location, ...issue.path].join('.'),
+    message: issue.message,
+  }));
+
+// Rejects the request with 400 and one entry per invalid field before the handler runs. Schemas only
+// check the input; handlers keep reading the raw strings Express parsed.
+export const validateRequest = (schemas: RequestSchemas) => (req: Request, res: Response, next: NextFunction) => {
+  const errors: FieldError[] = [];
+  for (const location of ['params', 'query', 'body'] as const) {
+    const schema = schemas[location];
+    if (!schema) continue;
+    const result = schema.safeParse(req[location] ?? {});
+    if (!result.success) errors.push(...toFieldErrors(location, result.error));
+  }
+  if (errors.length > 0) {
+    res.status(400).json({ error: 'Invalid request', details: errors });
+    return;
+  }
+  next();
+};
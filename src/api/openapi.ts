@@ -0,0 +1,141 @@
+import express, { RequestHandler } from 'express';
+import { OpenAPIRegistry, OpenApiGeneratorV3, RouteConfig, extendZodWithOpenApi } from '@asteasolutions/zod-to-openapi';
+import { z, ZodTypeAny } from 'zod';
+import logger from '../utils/logger.js';
+import { jsonReplacer } from '../utils/json.js';
+import { config } from '../config/index.js';
+import { Role } from '../types/Auth.js';
+import { requireRole } from './middleware/auth.js';
+import { validateRequest } from './middleware/validate.js';
+
+extendZodWithOpenApi(z);
+
+export const registry = new OpenAPIRegistry();
+
+registry.registerComponent('securitySchemes', 'bearerAuth', { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' });
+registry.registerComponent('securitySchemes', 'apiKey', { type: 'apiKey', in: 'header', name: 'X-API-Key' });
+
+const ErrorResponse = registry.register('Error', z.object({ error: z.string() }));
+
+const ValidationErrorResponse = registry.register('ValidationError', z.object({
+  error: z.string(),
+  details: z.array(z.object({ field: z.string(), message: z.string() })),
+}));
+
+type Method = 'get' | 'post' | 'put' | 'patch' | 'delete';
+
+export interface RouteSpec {
+  summary: string;
+  description?: string;
+  params?: z.AnyZodObject;
+  query?: z.AnyZodObject;
+  body?: ZodTypeAny;
+  // Success body; omit for responses without content (204)
+  response?: ZodTypeAny;
+  status?: number;
+  contentType?: string;
+  // Minimum role, documented as a security requirement and checked before the request is validated
+  role?: Role;
+  // Error statuses the handler can produce besides 400 and 500
+  errors?: number[];
+}
+
+const ERROR_DESCRIPTIONS: Record<number, string> = {
+  400: 'Invalid request',
+  401: 'Authentication required',
+  403: 'Insufficient role',
+  404: 'Not found',
+  409: 'Conflict',
+  500: 'Internal error',
+  502: 'Upstream delivery failed',
+};
+
+// Responses are checked against their schema outside production; a mismatch is logged rather than
+// failing the request, since it points at a stale schema more often than at a broken client contract.
+const checkResponse = (method: Method, path: string, schema: ZodTypeAny): RequestHandler => (req, res, next) => {
+  const json = res.json.bind(res);
+  res.json = (body: any) => {
+    if (res.statusCode < 300) {
+      const result = schema.safeParse(JSON.parse(JSON.stringify(body ?? null, jsonReplacer)));
+      if (!result.success) {
+        logger.warn(`Response for ${method.toUpperCase()} ${path} does not match its schema: ${result.error.issues
+          .slice(0, 5).map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`).join('; ')}`);
+      }
+    }
+    return json(body);
+  };
+  next();
+};
+
+// Registers handlers on the router and the matching operation in the OpenAPI registry, with request
+// validation in front. `basePath` is the full public prefix the router is mounted under.
+export const documentedRouter = (router: express.Router | express.Application, basePath: string, tag: string) => {
+  const add = (method: Method, path: string, spec: RouteSpec, handlers: RequestHandler[]) => {
+    const fullPath = `${basePath}${path === '/' ? '' : path}` || '/';
+    const status = spec.status ?? (spec.response ? 200 : 204);
+    const responses: RouteConfig['responses'] = {
+      [status]: spec.response
+        ? { description: 'Success', content: { [spec.contentType ?? 'application/json']: { schema: spec.response } } }
+        : { description: 'No content' },
+    };
+    if (spec.params || spec.query || spec.body) {
+      responses[400] = { description: ERROR_DESCRIPTIONS[400], content: { 'application/json': { schema: ValidationErrorResponse } } };
+    }
+    for (const errorStatus of [...(spec.role ? [401, 403] : []), ...(spec.errors ?? []), 500]) {
+      responses[errorStatus] = {
+        description: ERROR_DESCRIPTIONS[errorStatus] ?? 'Error',
+        content: { 'application/json': { schema: ErrorResponse } },
+      };
+    }
+
+    registry.registerPath({
+      method,
+      path: fullPath.replace(/:(\w+)/g, '{$1}'),
+      tags: [tag],
+      summary: spec.summary,
+      description: spec.role ? `${spec.description ? `${spec.description}\n\n` : ''}Requires the \`${spec.role}\` role.` : spec.description,
+      security: spec.role ? [{ bearerAuth: [] }, { apiKey: [] }] : undefined,
+      request: {
+        params: spec.params,
+        query: spec.query,
+        body: spec.body ? { content: { 'application/json': { schema: spec.body } } } : undefined,
+      },
+      responses,
+    });
+
+    // The role is checked first so that unauthenticated callers get a 401 rather than a 400
+    const middleware: RequestHandler[] = [
+      ...(spec.role ? [requireRole(spec.role)] : []),
+      validateRequest({ params: spec.params, query: spec.query, body: spec.body }),
+    ];
+    if (spec.response && config.api.validateResponses) {
+      middleware.push(checkResponse(method, fullPath, spec.response));
+    }
+    (router as express.Router)[method](path, ...middleware, ...handlers);
+  };
+
+  return {
+    get: (path: string, spec: RouteSpec, ...handlers: RequestHandler[]) => add('get', path, spec, handlers),
+    post: (path: string, spec: RouteSpec, ...handlers: RequestHandler[]) => add('post', path, spec, handlers),
+    put: (path: string, spec: RouteSpec, ...handlers: RequestHandler[]) => add('put', path, spec, handlers),
+    patch: (path: string, spec: RouteSpec, ...handlers: RequestHandler[]) => add('patch', path, spec, handlers),
+    delete: (path: string, spec: RouteSpec, ...handlers: RequestHandler[]) => add('delete', path, spec, handlers),
+  };
+};
+
+let document: ReturnType<OpenApiGeneratorV3['generateDocument']> | null = null;
+
+// Generated on first request, after every router has registered its routes.
+export const getOpenApiDocument = () => {
+  if (!document) {
+    document = new OpenApiGeneratorV3(registry.definitions).generateDocument({
+      openapi: '3.0.3',
+      info: {
+        title: 'Aleo Validator Monitor API',
+        version: process.env.npm_package_version || '1.0.0',
+        description: 'Validator, block, reward and network monitoring for the Aleo network.',
+      },
+    });
+  }
+  return document;
+};
@@ -0,0 +1,149 @@
+import express from 'express';
+import { z } from 'zod';
+import { AlertService } from '../../services/AlertService.js';
+import { AlertStatus } from '../../types/Alert.js';
+import { documentedRouter } from '../openapi.js';
+import { IdParams } from '../schemas/common.js';
+import { AlertListQuery, AlertRuleBody, AlertRuleSchema, AlertSchema } from '../schemas/alerts.js';
+
+const router = express.Router();
+
+export default (alertService: AlertService) => {
+  const routes = documentedRouter(router, '/api/alerts', 'Alerts');
+
+  routes.get('/', {
+    summary: 'List alerts, newest first',
+    query: AlertListQuery,
+    response: z.array(AlertSchema),
+  }, async (req, res) => {
+    try {
+      const alerts = await alertService.getAlerts({
+        status: req.query.status as AlertStatus | undefined,
+        ruleId: req.query.ruleId ? parseInt(req.query.ruleId as string) : undefined,
+        limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
+      });
+      res.json(alerts);
+    } catch (error) {
+      if (error instanceof Error) {
+        res.status(500).json({ error: error.message });
+      } else {
+        res.status(500).json({ error: 'Bilinmeyen bir hata oluştu' });
+      }
+    }
+  });
+
+  routes.get('/rules', {
+    summary: 'List alert rules',
+    response: z.array(AlertRuleSchema),
+  }, async (req, res) => {
+    try {
+      const rules = await alertService.getRules();
+      res.json(rules);
+    } catch (error) {
+      if (error instanceof Error) {
+        res.status(500).json({ error: error.message });
+      } else {
+        res.status(500).json({ error: 'Bilinmeyen bir hata oluştu' });
+      }
+    }
+  });
+
+  routes.get('/rules/:id', {
+    summary: 'Fetch an alert rule',
+    params: IdParams,
+    response: AlertRuleSchema,
+    errors: [404],
+  }, async (req, res) => {
+    try {
+      const rule = await alertService.getRule(parseInt(req.params.id));
+      if (!rule) {
+        res.status(404).json({ error: 'Alert rule not found' });
+      } else {
+        res.json(rule);
+      }
+    } catch (error) {
+      if (error instanceof Error) {
+        res.status(500).json({ error: error.message });
+      } else {
+        res.status(500).json({ error: 'Bilinmeyen bir hata oluştu' });
+      }
+    }
+  });
+
+  routes.post('/rules', {
+    summary: 'Create an alert rule',
+    body: AlertRuleBody,
+    response: AlertRuleSchema,
+    status: 201,
+    role: 'operator',
+  }, async (req, res) => {
+    try {
+      const validationError = await alertService.validateRule(req.body);
+      if (validationError) {
+        res.status(400).json({ error: validationError });
+        return;
+      }
+      const rule = await alertService.createRule(req.body);
+      res.status(201).json(rule);
+    } catch (error) {
+      if (error instanceof Error) {
+        res.status(500).json({ error: error.message });
+      } else {
+        res.status(500).json({ error: 'Bilinmeyen bir hata oluştu' });
+      }
+    }
+  });
+
+  routes.put('/rules/:id', {
+    summary: 'Replace an alert rule',
+    params: IdParams,
+    body: AlertRuleBody,
+    response: AlertRuleSchema,
+    role: 'operator',
+    errors: [404],
+  }, async (req, res) => {
+    try {
+      const validationError = await alertService.validateRule(req.body);
+      if (validationError) {
+        res.status(400).json({ error: validationError });
+        return;
+      }
+      const rule = await alertService.updateRule(parseInt(req.params.id), req.body);
+      if (!rule) {
+        res.status(404).json({ error: 'Alert rule not found' });
+      } else {
+        res.json(rule);
+      }
+    } catch (error) {
+      if (error instanceof Error) {
+        res.status(500).json({ error: error.message });
+      } else {
+        res.status(500).json({ error: 'Bilinmeyen bir hata oluştu' });
+      }
+    }
+  });
+
+  routes.delete('/rules/:id', {
+    summary: 'Delete an alert rule and its alerts',
+    params: IdParams,
+    role: 'operator',
+    errors: [404],
+  }, async (req, res) => {
+    try {
+      const deleted = await alertService.deleteRule(parseInt(req.params.id));
+      if (!deleted) {
+        res.status(404).json({ error: 'Alert rule not found' });
+      } else {
+        res.status(204).end();
+      }
+    } catch (error) {
+      if (error instanceof Error) {
+        res.status(500).json({ error: error.message });
+      } else {
+        res.status(500).json({ error: 'Bilinmeyen bir hata oluştu' });
+      }
+    }
+  });
+
+  return router;
+};
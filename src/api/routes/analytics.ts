@@ -0,0 +1,88 @@
+import express from 'express';
+import { z } from 'zod';
+import { AnalyticsService } from '../../services/AnalyticsService.js';
+import { AnalyticsBucket } from '../../types/Analytics.js';
+import { parseTimeParam } from '../../utils/time.js';
+import { documentedRouter } from '../openapi.js';
+import { LimitQuery, TimeRangeQuery } from '../schemas/common.js';
+import {
+  ProgramAnalytics,
+  ProgramDeploymentSchema,
+  ProgramParams,
+  ProgramQuery,
+  TopPrograms,
+  TopProgramsQuery,
+} from '../schemas/network.js';
+
+const router = express.Router();
+
+export default (analyticsService: AnalyticsService) => {
+  const routes = documentedRouter(router, '/api/analytics', 'Analytics');
+
+  routes.get('/programs', {
+    summary: 'Most used programs over a time range',
+    query: TopProgramsQuery,
+    response: TopPrograms,
+  }, async (req, res) => {
+    try {
+      const programs = await analyticsService.getTopPrograms({
+        limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
+        bucket: req.query.bucket as AnalyticsBucket | undefined,
+        from: parseTimeParam(req.query.from),
+        to: parseTimeParam(req.query.to),
+      });
+      res.json(programs);
+    } catch (error) {
+      if (error instanceof Error) {
+        res.status(500).json({ error: error.message });
+      } else {
+        res.status(500).json({ error: 'Bilinmeyen bir hata oluştu' });
+      }
+    }
+  });
+
+  routes.get('/programs/:programId', {
+    summary: 'Usage of a single program, per function and over time',
+    params: ProgramParams,
+    query: ProgramQuery,
+    response: ProgramAnalytics,
+  }, async (req, res) => {
+    try {
+      const program = await analyticsService.getProgram(req.params.programId, {
+        bucket: req.query.bucket as AnalyticsBucket | undefined,
+        from: parseTimeParam(req.query.from),
+        to: parseTimeParam(req.query.to),
+      });
+      res.json(program);
+    } catch (error) {
+      if (error instanceof Error) {
+        res.status(500).json({ error: error.message });
+      } else {
+        res.status(500).json({ error: 'Bilinmeyen bir hata oluştu' });
+      }
+    }
+  });
+
+  routes.get('/deployments', {
+    summary: 'Program deployments, newest first',
+    query: TimeRangeQuery.merge(LimitQuery),
+    response: z.array(ProgramDeploymentSchema),
+  }, async (req, res) => {
+    try {
+      const deployments = await analyticsService.getDeployments({
+        from: parseTimeParam(req.query.from),
+        to: parseTimeParam(req.query.to),
+        limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
+      });
+      res.json(deployments);
+    } catch (error) {
+      if (error instanceof Error) {
+        res.status(500).json({ error: error.message });
+      } else {
+        res.status(500).json({ error: 'Bilinmeyen bir hata oluştu' });
+      }
+    }
+  });
+
+  return router;
+};
@@ -0,0 +1,152 @@
+import express from 'express';
+import { z } from 'zod';
+import { AuthError, AuthService } from '../../services/AuthService.js';
+import { documentedRouter } from '../openapi.js';
+import { IdParams } from '../schemas/common.js';
+import {
+  ApiKeySchema,
+  CreateApiKeyBody,
+  CreatedApiKey,
+  CurrentUser,
+  LoginBody,
+  RefreshBody,
+  RegisterBody,
+  TokensSchema,
+  UserSchema,
+} from '../schemas/auth.js';
+
+const router = express.Router();
+
+export default (authService: AuthService) => {
+  const routes = documentedRouter(router, '/api/auth', 'Auth');
+
+  const handleError = (error: unknown, res: express.Response) => {
+    if (error instanceof AuthError) {
+      res.status(error.status).json({ error: error.message });
+    } else if (error instanceof Error) {
+      res.status(500).json({ error: error.message });
+    } else {
+      res.status(500).json({ error: 'Bilinmeyen bir hata oluştu' });
+    }
+  };
+
+  routes.post('/register', {
+    summary: 'Register a viewer account',
+    description: 'Only available when AUTH_ALLOW_REGISTRATION is enabled. Administrators are created from AUTH_ADMIN_USERNAME, AUTH_ADMIN_EMAIL and AUTH_ADMIN_PASSWORD.',
+    body: RegisterBody,
+    response: UserSchema,
+    status: 201,
+    errors: [403, 409],
+  }, async (req, res) => {
+    try {
+      const user = await authService.register(req.body || {});
+      res.status(201).json(user);
+    } catch (error) {
+      handleError(error, res);
+    }
+  });
+
+  routes.post('/login', {
+    summary: 'Exchange credentials for an access and refresh token',
+    body: LoginBody,
+    response: TokensSchema,
+    errors: [401, 403],
+  }, async (req, res) => {
+    try {
+      const { username, email, password } = req.body || {};
+      const tokens = await authService.login(username ?? email, password);
+      res.json(tokens);
+    } catch (error) {
+      handleError(error, res);
+    }
+  });
+
+  routes.post('/refresh', {
+    summary: 'Rotate a refresh token',
+    body: RefreshBody,
+    response: TokensSchema,
+    errors: [401],
+  }, async (req, res) => {
+    try {
+      const tokens = await authService.refresh(req.body?.refreshToken);
+      res.json(tokens);
+    } catch (error) {
+      handleError(error, res);
+    }
+  });
+
+  routes.post('/logout', {
+    summary: 'Revoke a refresh token',
+    body: RefreshBody,
+  }, async (req, res) => {
+    try {
+      await authService.logout(req.body?.refreshToken);
+      res.status(204).end();
+    } catch (error) {
+      handleError(error, res);
+    }
+  });
+
+  routes.get('/me', {
+    summary: 'The authenticated user',
+    response: CurrentUser,
+    role: 'viewer',
+  }, async (req, res) => {
+    try {
+      const user = await authService.getUser(req.user!.userId);
+      res.json({ ...user, authMethod: req.user!.method, effectiveRole: req.user!.role });
+    } catch (error) {
+      handleError(error, res);
+    }
+  });
+
+  routes.get('/api-keys', {
+    summary: "List the authenticated user's API keys",
+    response: z.array(ApiKeySchema),
+    role: 'viewer',
+  }, async (req, res) => {
+    try {
+      const apiKeys = await authService.listApiKeys(req.user!.userId);
+      res.json(apiKeys);
+    } catch (error) {
+      handleError(error, res);
+    }
+  });
+
+  // The plaintext key is only returned here; it cannot be recovered afterwards
+  routes.post('/api-keys', {
+    summary: 'Create an API key',
+    description: 'The plaintext key is only returned in this response.',
+    body: CreateApiKeyBody,
+    response: CreatedApiKey,
+    status: 201,
+    role: 'viewer',
+  }, async (req, res) => {
+    try {
+      const created = await authService.createApiKey(req.user!, req.body || {});
+      res.status(201).json(created);
+    } catch (error) {
+      handleError(error, res);
+    }
+  });
+
+  routes.delete('/api-keys/:id', {
+    summary: 'Revoke an API key',
+    params: IdParams,
+    role: 'viewer',
+    errors: [404],
+  }, async (req, res) => {
+    try {
+      const revoked = await authService.revokeApiKey(req.user!.userId, parseInt(req.params.id));
+      if (!revoked) {
+        res.status(404).json({ error: 'API key not found' });
+      } else {
+        res.status(204).end();
+      }
+    } catch (error) {
+      handleError(error, res);
+    }
+  });
+
+  return router;
+};
@@ -1,10 +1,42 @@
 import express from 'express';
+import { z } from 'zod';
 import { BlockService } from '../../services/BlockService.js';
+import { TransactionService } from '../../services/TransactionService.js';
+import { documentedRouter } from '../openapi.js';
+import { HeightParams } from '../schemas/common.js';
+import { BlockListQuery, BlockPage, BlockSchema, TransactionRow } from '../schemas/blocks.js';
 
 const router = express.Router();
 
-export default (blockService: BlockService) => {
-  router.get('/latest', async (req, res) => {
+export default (blockService: BlockService, transactionService: TransactionService) => {
+  const routes = documentedRouter(router, '/api/blocks', 'Blocks');
+
+  routes.get('/', {
+    summary: 'List synced blocks, newest first by default',
+    query: BlockListQuery,
+    response: BlockPage,
+  }, async (req, res) => {
+    try {
+      const validationError = blockService.validateListQuery(req.query);
+      if (validationError) {
+        res.status(400).json({ error: validationError });
+        return;
+      }
+      const page = await blockService.listBlocks(req.query);
+      res.json(page);
+    } catch (error) {
+      if (error instanceof Error) {
+        res.status(500).json({ error: error.message });
+      } else {
+        res.status(500).json({ error: 'Bilinmeyen bir hata oluştu' });
+      }
+    }
+  });
+
+  routes.get('/latest', {
+    summary: 'Fetch the latest block from the upstream node',
+    response: BlockSchema,
+  }, async (req, res) => {
     try {
       const latestBlock = await blockService.getLatestBlock();
       res.json(latestBlock);
@@ -17,7 +49,12 @@ export default (blockService: BlockService) => {
     }
   });
 
-  router.get('/:height', async (req, res) => {
+  routes.get('/:height', {
+    summary: 'Fetch a block by height from the upstream node',
+    params: HeightParams,
+    response: BlockSchema,
+    errors: [404],
+  }, async (req, res) => {
     try {
       const { height } = req.params;
       const block = await blockService.getBlockByHeight(parseInt(height));
@@ -35,5 +72,22 @@ export default (blockService: BlockService) => {
     }
   });
 
+  routes.get('/:height/transactions', {
+    summary: 'List the indexed transactions of a block',
+    params: HeightParams,
+    response: z.array(TransactionRow),
+  }, async (req, res) => {
+    try {
+      const transactions = await transactionService.getBlockTransactions(parseInt(req.params.height));
+      res.json(transactions);
+    } catch (error) {
+      if (error instanceof Error) {
+        res.status(500).json({ error: error.message });
+      } else {
+        res.status(500).json({ error: 'Bilinmeyen bir hata oluştu' });
+      }
+    }
+  });
+
   return router;
-};
\ No newline at end of file
+};
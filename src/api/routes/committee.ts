@@ -0,0 +1,57 @@
+import express from 'express';
+import { CommitteeService } from '../../services/CommitteeService.js';
+import { documentedRouter } from '../openapi.js';
+import { HeightParams } from '../schemas/common.js';
+import { CommitteeAtHeight, CommitteeHistory, CommitteeHistoryQuery } from '../schemas/validators.js';
+
+const router = express.Router();
+
+export default (committeeService: CommitteeService) => {
+  const routes = documentedRouter(router, '/api/committee', 'Committee');
+
+  routes.get('/history', {
+    summary: 'Committee snapshots with the diff against the previous snapshot, newest first by default',
+    query: CommitteeHistoryQuery,
+    response: CommitteeHistory,
+  }, async (req, res) => {
+    try {
+      const validationError = committeeService.validateHistoryQuery(req.query);
+      if (validationError) {
+        res.status(400).json({ error: validationError });
+        return;
+      }
+      const page = await committeeService.getHistory(req.query);
+      res.json(page);
+    } catch (error) {
+      if (error instanceof Error) {
+        res.status(500).json({ error: error.message });
+      } else {
+        res.status(500).json({ error: 'Bilinmeyen bir hata oluştu' });
+      }
+    }
+  });
+
+  routes.get('/:height', {
+    summary: 'The committee in effect at a block height',
+    params: HeightParams,
+    response: CommitteeAtHeight,
+    errors: [404],
+  }, async (req, res) => {
+    try {
+      const snapshot = await committeeService.getAtHeight(parseInt(req.params.height));
+      if (!snapshot) {
+        res.status(404).json({ error: 'No committee snapshot at or below this height' });
+      } else {
+        res.json(snapshot);
+      }
+    } catch (error) {
+      if (error instanceof Error) {
+        res.status(500).json({ error: error.message });
+      } else {
+        res.status(500).json({ error: 'Bilinmeyen bir hata oluştu' });
+      }
+    }
+  });
+
+  return router;
+};
@@ -0,0 +1,243 @@
+import express from 'express';
+import { z } from 'zod';
+import { WatchlistService } from '../../services/WatchlistService.js';
+import { NotificationService } from '../../services/NotificationService.js';
+import { requireRole } from '../middleware/auth.js';
+import { documentedRouter } from '../openapi.js';
+import { IdParams } from '../schemas/common.js';
+import { NotificationChannelBody, NotificationChannelSchema, NotificationDeliverySchema } from '../schemas/alerts.js';
+import {
+  SubscriptionBody,
+  SubscriptionSchema,
+  WatchlistEntryBody,
+  WatchlistEntrySchema,
+  WatchlistParams,
+  WatchlistSchema,
+} from '../schemas/auth.js';
+
+const router = express.Router();
+
+// Per-user resources: the caller's watchlist, personal notification channels and the
+// subscriptions that route watchlist alerts to those channels.
+export default (watchlistService: WatchlistService, notificationService: NotificationService) => {
+  const routes = documentedRouter(router, '/api/me', 'Me');
+
+  router.use(requireRole('viewer'));
+
+  const handleError = (error: unknown, res: express.Response) => {
+    if (error instanceof Error) {
+      res.status(500).json({ error: error.message });
+    } else {
+      res.status(500).json({ error: 'Bilinmeyen bir hata oluştu' });
+    }
+  };
+
+  const findOwnChannel = async (req: express.Request) => {
+    const channel = await notificationService.getChannel(parseInt(req.params.id));
+    return channel && channel.owner_id === req.user!.userId ? channel : null;
+  };
+
+  routes.get('/watchlist', {
+    summary: "The caller's watchlist with stake, participation and recent alerts",
+    response: WatchlistSchema,
+    role: 'viewer',
+  }, async (req, res) => {
+    try {
+      const watchlist = await watchlistService.getWatchlist(req.user!.userId);
+      res.json(watchlist);
+    } catch (error) {
+      handleError(error, res);
+    }
+  });
+
+  routes.put('/watchlist/:address', {
+    summary: 'Add a validator to the watchlist or change its label',
+    params: WatchlistParams,
+    body: WatchlistEntryBody,
+    response: WatchlistEntrySchema,
+    role: 'viewer',
+  }, async (req, res) => {
+    try {
+      const validationError = watchlistService.validateEntry(req.params.address, req.body);
+      if (validationError) {
+        res.status(400).json({ error: validationError });
+        return;
+      }
+      const entry = await watchlistService.addEntry(req.user!.userId, req.params.address, req.body?.label ?? null);
+      res.json(entry);
+    } catch (error) {
+      handleError(error, res);
+    }
+  });
+
+  routes.delete('/watchlist/:address', {
+    summary: 'Remove a validator from the watchlist',
+    params: WatchlistParams,
+    errors: [404],
+    role: 'viewer',
+  }, async (req, res) => {
+    try {
+      const removed = await watchlistService.removeEntry(req.user!.userId, req.params.address);
+      if (!removed) {
+        res.status(404).json({ error: 'Validator is not on your watchlist' });
+      } else {
+        res.status(204).end();
+      }
+    } catch (error) {
+      handleError(error, res);
+    }
+  });
+
+  routes.get('/channels', {
+    summary: "List the caller's notification channels",
+    response: z.array(NotificationChannelSchema),
+    role: 'viewer',
+  }, async (req, res) => {
+    try {
+      const channels = await notificationService.getChannelsByOwner(req.user!.userId);
+      res.json(channels);
+    } catch (error) {
+      handleError(error, res);
+    }
+  });
+
+  routes.post('/channels', {
+    summary: 'Create a personal notification channel',
+    body: NotificationChannelBody,
+    response: NotificationChannelSchema,
+    status: 201,
+    role: 'viewer',
+  }, async (req, res) => {
+    try {
+      const validationError = notificationService.validateChannel(req.body, true);
+      if (validationError) {
+        res.status(400).json({ error: validationError });
+        return;
+      }
+      const channel = await notificationService.createChannel(req.body, req.user!.userId);
+      res.status(201).json(channel);
+    } catch (error) {
+      handleError(error, res);
+    }
+  });
+
+  routes.put('/channels/:id', {
+    summary: 'Replace a personal notification channel',
+    params: IdParams,
+    body: NotificationChannelBody,
+    response: NotificationChannelSchema,
+    errors: [404],
+    role: 'viewer',
+  }, async (req, res) => {
+    try {
+      if (!(await findOwnChannel(req))) {
+        res.status(404).json({ error: 'Notification channel not found' });
+        return;
+      }
+      const validationError = notificationService.validateChannel(req.body, true);
+      if (validationError) {
+        res.status(400).json({ error: validationError });
+        return;
+      }
+      const channel = await notificationService.updateChannel(parseInt(req.params.id), req.body);
+      res.json(channel);
+    } catch (error) {
+      handleError(error, res);
+    }
+  });
+
+  routes.delete('/channels/:id', {
+    summary: 'Delete a personal notification channel',
+    params: IdParams,
+    errors: [404],
+    role: 'viewer',
+  }, async (req, res) => {
+    try {
+      if (!(await findOwnChannel(req))) {
+        res.status(404).json({ error: 'Notification channel not found' });
+        return;
+      }
+      await notificationService.deleteChannel(parseInt(req.params.id));
+      res.status(204).end();
+    } catch (error) {
+      handleError(error, res);
+    }
+  });
+
+  routes.post('/channels/:id/test', {
+    summary: 'Send a test notification through a personal channel',
+    params: IdParams,
+    response: NotificationDeliverySchema,
+    errors: [404, 502],
+    role: 'viewer',
+  }, async (req, res) => {
+    try {
+      const channel = await findOwnChannel(req);
+      if (!channel) {
+        res.status(404).json({ error: 'Notification channel not found' });
+        return;
+      }
+      // The upstream error stays in the server log; it could describe hosts the caller cannot reach
+      const delivery = await notificationService.sendTestNotification(channel);
+      res.status(delivery.status === 'delivered' ? 200 : 502).json({
+        ...delivery,
+        last_error: delivery.last_error !== null ? 'Delivery failed' : null,
+      });
+    } catch (error) {
+      handleError(error, res);
+    }
+  });
+
+  routes.get('/subscriptions', {
+    summary: 'List watchlist alert subscriptions',
+    response: z.array(SubscriptionSchema),
+    role: 'viewer',
+  }, async (req, res) => {
+    try {
+      const subscriptions = await watchlistService.getSubscriptions(req.user!.userId);
+      res.json(subscriptions);
+    } catch (error) {
+      handleError(error, res);
+    }
+  });
+
+  routes.post('/subscriptions', {
+    summary: 'Route watchlist alerts to a personal channel',
+    body: SubscriptionBody,
+    response: SubscriptionSchema,
+    status: 201,
+    role: 'viewer',
+  }, async (req, res) => {
+    try {
+      const validationError = await watchlistService.validateSubscription(req.user!.userId, req.body);
+      if (validationError) {
+        res.status(400).json({ error: validationError });
+        return;
+      }
+      const subscription = await watchlistService.createSubscription(req.user!.userId, req.body);
+      res.status(201).json(subscription);
+    } catch (error) {
+      handleError(error, res);
+    }
+  });
+
+  routes.delete('/subscriptions/:id', {
+    summary: 'Delete a watchlist alert subscription',
+    params: IdParams,
+    errors: [404],
+    role: 'viewer',
+  }, async (req, res) => {
+    try {
+      const deleted = await watchlistService.deleteSubscription(req.user!.userId, parseInt(req.params.id));
+      if (!deleted) {
+        res.status(404).json({ error: 'Subscription not found' });
+      } else {
+        res.status(204).end();
+      }
+    } catch (error) {
+      handleError(error, res);
+    }
+  });
+
+  return router;
+};
@@ -0,0 +1,74 @@
+import express from 'express';
+import { z } from 'zod';
+import { MempoolService } from '../../services/MempoolService.js';
+import { parseTimeParam } from '../../utils/time.js';
+import { documentedRouter } from '../openapi.js';
+import { LimitQuery, TimeRangeQuery } from '../schemas/common.js';
+import { MempoolSnapshotSchema, MempoolStatsSchema, MempoolTransactionSchema } from '../schemas/network.js';
+
+const router = express.Router();
+
+export default (mempoolService: MempoolService) => {
+  const routes = documentedRouter(router, '/api/mempool', 'Mempool');
+
+  routes.get('/stats', {
+    summary: 'Mempool size, inclusion latency and drop counts over a time range',
+    query: TimeRangeQuery,
+    response: MempoolStatsSchema,
+  }, async (req, res) => {
+    try {
+      const stats = await mempoolService.getStats(parseTimeParam(req.query.from), parseTimeParam(req.query.to));
+      res.json(stats);
+    } catch (error) {
+      if (error instanceof Error) {
+        res.status(500).json({ error: error.message });
+      } else {
+        res.status(500).json({ error: 'Bilinmeyen bir hata oluştu' });
+      }
+    }
+  });
+
+  routes.get('/history', {
+    summary: 'Mempool size samples',
+    query: TimeRangeQuery.merge(LimitQuery),
+    response: z.array(MempoolSnapshotSchema),
+  }, async (req, res) => {
+    try {
+      const history = await mempoolService.getHistory(
+        parseTimeParam(req.query.from),
+        parseTimeParam(req.query.to),
+        req.query.limit ? parseInt(req.query.limit as string) : undefined
+      );
+      res.json(history);
+    } catch (error) {
+      if (error instanceof Error) {
+        res.status(500).json({ error: error.message });
+      } else {
+        res.status(500).json({ error: 'Bilinmeyen bir hata oluştu' });
+      }
+    }
+  });
+
+  routes.get('/dropped', {
+    summary: 'Transactions that left the mempool without being included',
+    query: TimeRangeQuery.merge(LimitQuery),
+    response: z.array(MempoolTransactionSchema),
+  }, async (req, res) => {
+    try {
+      const dropped = await mempoolService.getDropped(
+        parseTimeParam(req.query.from),
+        parseTimeParam(req.query.to),
+        req.query.limit ? parseInt(req.query.limit as string) : undefined
+      );
+      res.json(dropped);
+    } catch (error) {
+      if (error instanceof Error) {
+        res.status(500).json({ error: error.message });
+      } else {
+        res.status(500).json({ error: 'Bilinmeyen bir hata oluştu' });
+      }
+    }
+  });
+
+  return router;
+};
@@ -0,0 +1,49 @@
+import express from 'express';
+import { NetworkService } from '../../services/NetworkService.js';
+import { NetworkSeriesBucket, NetworkWindow } from '../../types/Network.js';
+import { documentedRouter } from '../openapi.js';
+import { NetworkSeries, NetworkSeriesQuery, NetworkStatsResponse } from '../schemas/network.js';
+
+const router = express.Router();
+
+export default (networkService: NetworkService) => {
+  const routes = documentedRouter(router, '/api/network', 'Network');
+
+  routes.get('/stats', {
+    summary: 'Network health statistics over rolling windows',
+    response: NetworkStatsResponse,
+  }, async (req, res) => {
+    try {
+      const stats = await networkService.getStats();
+      res.json(stats);
+    } catch (error) {
+      if (error instanceof Error) {
+        res.status(500).json({ error: error.message });
+      } else {
+        res.status(500).json({ error: 'Bilinmeyen bir hata oluştu' });
+      }
+    }
+  });
+
+  routes.get('/stats/series', {
+    summary: 'Network health statistics as a time series',
+    query: NetworkSeriesQuery,
+    response: NetworkSeries,
+  }, async (req, res) => {
+    try {
+      const series = await networkService.getSeries(
+        (req.query.window || '24h') as NetworkWindow,
+        req.query.bucket as NetworkSeriesBucket | undefined
+      );
+      res.json(series);
+    } catch (error) {
+      if (error instanceof Error) {
+        res.status(500).json({ error: error.message });
+      } else {
+        res.status(500).json({ error: 'Bilinmeyen bir hata oluştu' });
+      }
+    }
+  });
+
+  return router;
+};
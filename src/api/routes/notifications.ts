@@ -0,0 +1,190 @@
+import express from 'express';
+import { z } from 'zod';
+import { NotificationService } from '../../services/NotificationService.js';
+import { requireRole } from '../middleware/auth.js';
+import { documentedRouter } from '../openapi.js';
+import { IdParams } from '../schemas/common.js';
+import {
+  DeliveryListQuery,
+  NotificationChannelBody,
+  NotificationChannelSchema,
+  NotificationDeliverySchema,
+} from '../schemas/alerts.js';
+
+const router = express.Router();
+
+export default (notificationService: NotificationService) => {
+  const routes = documentedRouter(router, '/api/notifications', 'Notifications');
+
+  // Channel configs hold webhook URLs, bot tokens and SMTP credentials
+  router.use(requireRole('operator'));
+
+  // Personal channels belong to their owners and are managed through /api/me
+  const findSharedChannel = async (req: express.Request) => {
+    const channel = await notificationService.getChannel(parseInt(req.params.id));
+    return channel && channel.owner_id === null ? channel : null;
+  };
+
+  routes.get('/channels', {
+    summary: 'List notification channels',
+    response: z.array(NotificationChannelSchema),
+    role: 'operator',
+  }, async (req, res) => {
+    try {
+      const channels = await notificationService.getChannels();
+      res.json(channels);
+    } catch (error) {
+      if (error instanceof Error) {
+        res.status(500).json({ error: error.message });
+      } else {
+        res.status(500).json({ error: 'Bilinmeyen bir hata oluştu' });
+      }
+    }
+  });
+
+  routes.get('/channels/:id', {
+    summary: 'Fetch a notification channel',
+    params: IdParams,
+    response: NotificationChannelSchema,
+    role: 'operator',
+    errors: [404],
+  }, async (req, res) => {
+    try {
+      const channel = await findSharedChannel(req);
+      if (!channel) {
+        res.status(404).json({ error: 'Notification channel not found' });
+      } else {
+        res.json(channel);
+      }
+    } catch (error) {
+      if (error instanceof Error) {
+        res.status(500).json({ error: error.message });
+      } else {
+        res.status(500).json({ error: 'Bilinmeyen bir hata oluştu' });
+      }
+    }
+  });
+
+  routes.post('/channels', {
+    summary: 'Create a notification channel',
+    body: NotificationChannelBody,
+    response: NotificationChannelSchema,
+    status: 201,
+    role: 'operator',
+  }, async (req, res) => {
+    try {
+      const validationError = notificationService.validateChannel(req.body);
+      if (validationError) {
+        res.status(400).json({ error: validationError });
+        return;
+      }
+      const channel = await notificationService.createChannel(req.body);
+      res.status(201).json(channel);
+    } catch (error) {
+      if (error instanceof Error) {
+        res.status(500).json({ error: error.message });
+      } else {
+        res.status(500).json({ error: 'Bilinmeyen bir hata oluştu' });
+      }
+    }
+  });
+
+  routes.put('/channels/:id', {
+    summary: 'Replace a notification channel',
+    params: IdParams,
+    body: NotificationChannelBody,
+    response: NotificationChannelSchema,
+    role: 'operator',
+    errors: [404],
+  }, async (req, res) => {
+    try {
+      if (!(await findSharedChannel(req))) {
+        res.status(404).json({ error: 'Notification channel not found' });
+        return;
+      }
+      const validationError = notificationService.validateChannel(req.body);
+      if (validationError) {
+        res.status(400).json({ error: validationError });
+        return;
+      }
+      const channel = await notificationService.updateChannel(parseInt(req.params.id), req.body);
+      res.json(channel);
+    } catch (error) {
+      if (error instanceof Error) {
+        res.status(500).json({ error: error.message });
+      } else {
+        res.status(500).json({ error: 'Bilinmeyen bir hata oluştu' });
+      }
+    }
+  });
+
+  routes.delete('/channels/:id', {
+    summary: 'Delete a notification channel',
+    params: IdParams,
+    role: 'operator',
+    errors: [404],
+  }, async (req, res) => {
+    try {
+      if (!(await findSharedChannel(req))) {
+        res.status(404).json({ error: 'Notification channel not found' });
+        return;
+      }
+      await notificationService.deleteChannel(parseInt(req.params.id));
+      res.status(204).end();
+    } catch (error) {
+      if (error instanceof Error) {
+        res.status(500).json({ error: error.message });
+      } else {
+        res.status(500).json({ error: 'Bilinmeyen bir hata oluştu' });
+      }
+    }
+  });
+
+  routes.post('/channels/:id/test', {
+    summary: 'Send a test notification through a channel',
+    description: 'Responds 502 with the failed delivery record when the channel could not be reached.',
+    params: IdParams,
+    response: NotificationDeliverySchema,
+    role: 'operator',
+    errors: [404, 502],
+  }, async (req, res) => {
+    try {
+      const channel = await findSharedChannel(req);
+      if (!channel) {
+        res.status(404).json({ error: 'Notification channel not found' });
+        return;
+      }
+      const delivery = await notificationService.sendTestNotification(channel);
+      res.status(delivery.status === 'delivered' ? 200 : 502).json(delivery);
+    } catch (error) {
+      if (error instanceof Error) {
+        res.status(500).json({ error: error.message });
+      } else {
+        res.status(500).json({ error: 'Bilinmeyen bir hata oluştu' });
+      }
+    }
+  });
+
+  routes.get('/deliveries', {
+    summary: 'Delivery log of the shared channels, newest first',
+    query: DeliveryListQuery,
+    response: z.array(NotificationDeliverySchema),
+    role: 'operator',
+  }, async (req, res) => {
+    try {
+      const deliveries = await notificationService.getDeliveries({
+        channelId: req.query.channelId ? parseInt(req.query.channelId as string) : undefined,
+        limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
+      });
+      res.json(deliveries);
+    } catch (error) {
+      if (error instanceof Error) {
+        res.status(500).json({ error: error.message });
+      } else {
+        res.status(500).json({ error: 'Bilinmeyen bir hata oluştu' });
+      }
+    }
+  });
+
+  return router;
+};
@@ -0,0 +1,32 @@
+import express from 'express';
+import { z } from 'zod';
+import { BlockService } from '../../services/BlockService.js';
+import { documentedRouter } from '../openapi.js';
+import { LimitQuery } from '../schemas/common.js';
+import { ReorgSchema } from '../schemas/blocks.js';
+
+const router = express.Router();
+
+export default (blockService: BlockService) => {
+  const routes = documentedRouter(router, '/api/reorgs', 'Sync');
+
+  routes.get('/', {
+    summary: 'Recent chain reorganizations',
+    query: LimitQuery,
+    response: z.array(ReorgSchema),
+  }, async (req, res) => {
+    try {
+      const limit = req.query.limit ? parseInt(req.query.limit as string) : 50;
+      const reorgs = await blockService.getReorgs(limit);
+      res.json(reorgs);
+    } catch (error) {
+      if (error instanceof Error) {
+        res.status(500).json({ error: error.message });
+      } else {
+        res.status(500).json({ error: 'Bilinmeyen bir hata oluştu' });
+      }
+    }
+  });
+
+  return router;
+};
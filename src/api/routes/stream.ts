@@ -0,0 +1,51 @@
+import express from 'express';
+import { z } from 'zod';
+import { eventBus, matchesSubscription, parseSubscription } from '../../utils/eventBus.js';
+import { StreamEvent } from '../../types/Event.js';
+import { documentedRouter } from '../openapi.js';
+import { StreamQuery } from '../schemas/blocks.js';
+
+const router = express.Router();
+
+const HEARTBEAT_INTERVAL = 30 * 1000;
+
+export default () => {
+  const routes = documentedRouter(router, '/api/stream', 'Stream');
+
+  // Server-Sent Events. Query: types=block.new,alert.firing & addresses=aleo1...,aleo1...
+  // Resumes after the Last-Event-ID header (sent automatically by EventSource) or ?lastEventId=.
+  routes.get('/events', {
+    summary: 'Live block, validator and alert events as Server-Sent Events',
+    query: StreamQuery,
+    response: z.string(),
+    contentType: 'text/event-stream',
+  }, (req, res) => {
+    const subscription = parseSubscription(req.query);
+    const lastEventId = parseInt((req.header('Last-Event-ID') || req.query.lastEventId || '') as string);
+
+    res.set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+    res.flushHeaders();
+
+    const send = (event: StreamEvent) => {
+      if (!matchesSubscription(event, subscription)) return;
+      res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+    };
+
+    if (!isNaN(lastEventId)) {
+      eventBus.since(lastEventId).forEach(send);
+    }
+    const unsubscribe = eventBus.subscribe(send);
+    const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_INTERVAL);
+
+    req.on('close', () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+  });
+
+  return router;
+};
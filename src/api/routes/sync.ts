@@ -0,0 +1,19 @@
+import express from 'express';
+import { BlockService } from '../../services/BlockService.js';
+import { documentedRouter } from '../openapi.js';
+import { SyncStatusSchema } from '../schemas/blocks.js';
+
+const router = express.Router();
+
+export default (blockService: BlockService) => {
+  const routes = documentedRouter(router, '/api/sync', 'Sync');
+
+  routes.get('/status', {
+    summary: 'Block synchronization progress',
+    response: SyncStatusSchema,
+  }, (req, res) => {
+    res.json(blockService.getSyncStatus());
+  });
+
+  return router;
+};
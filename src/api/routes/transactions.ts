@@ -0,0 +1,60 @@
+import express from 'express';
+import { z } from 'zod';
+import { TransactionService } from '../../services/TransactionService.js';
+import { parseTimeParam } from '../../utils/time.js';
+import { documentedRouter } from '../openapi.js';
+import { TransactionId } from '../schemas/common.js';
+import { TransactionDetail, TransactionListQuery, TransactionRow } from '../schemas/blocks.js';
+
+const router = express.Router();
+
+export default (transactionService: TransactionService) => {
+  const routes = documentedRouter(router, '/api/transactions', 'Transactions');
+
+  routes.get('/', {
+    summary: 'List indexed transactions, filtered by program, function and time range',
+    query: TransactionListQuery,
+    response: z.array(TransactionRow),
+  }, async (req, res) => {
+    try {
+      const transactions = await transactionService.getTransactions({
+        program: req.query.program as string | undefined,
+        function: req.query.function as string | undefined,
+        from: parseTimeParam(req.query.from),
+        to: parseTimeParam(req.query.to),
+        limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
+      });
+      res.json(transactions);
+    } catch (error) {
+      if (error instanceof Error) {
+        res.status(500).json({ error: error.message });
+      } else {
+        res.status(500).json({ error: 'Bilinmeyen bir hata oluştu' });
+      }
+    }
+  });
+
+  routes.get('/:id', {
+    summary: 'Fetch an indexed transaction with its transitions',
+    params: z.object({ id: TransactionId }),
+    response: TransactionDetail,
+    errors: [404],
+  }, async (req, res) => {
+    try {
+      const transaction = await transactionService.getTransaction(req.params.id);
+      if (!transaction) {
+        res.status(404).json({ error: 'İşlem bulunamadı' });
+      } else {
+        res.json(transaction);
+      }
+    } catch (error) {
+      if (error instanceof Error) {
+        res.status(500).json({ error: error.message });
+      } else {
+        res.status(500).json({ error: 'Bilinmeyen bir hata oluştu' });
+      }
+    }
+  });
+
+  return router;
+};
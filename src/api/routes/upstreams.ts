@@ -0,0 +1,28 @@
+import express from 'express';
+import { AleoSDKService } from '../../services/AleoSDKService.js';
+import { documentedRouter } from '../openapi.js';
+import { UpstreamCacheStatsSchema, UpstreamOverviewSchema } from '../schemas/network.js';
+
+const router = express.Router();
+
+export default (aleoSDKService: AleoSDKService) => {
+  const routes = documentedRouter(router, '/api/upstreams', 'Network');
+
+  routes.get('/', {
+    summary: 'Health, latency and height of each upstream Aleo endpoint',
+    description: 'Requests go to the `selected` endpoint and fail over in the order of `state` and `score`.',
+    response: UpstreamOverviewSchema,
+  }, (req, res) => {
+    res.json(aleoSDKService.getUpstreamStatus());
+  });
+
+  routes.get('/cache', {
+    summary: 'Hit, miss and coalescing counts of the upstream response cache',
+    description: '`hit_rate` counts coalesced reads as hits, since they did not cause an upstream request of their own.',
+    response: UpstreamCacheStatsSchema,
+  }, (req, res) => {
+    res.json(aleoSDKService.getCacheStats());
+  });
+
+  return router;
+};
@@ -0,0 +1,106 @@
+import express from 'express';
+import { z } from 'zod';
+import { AuthError, AuthService } from '../../services/AuthService.js';
+import { requireRole } from '../middleware/auth.js';
+import { documentedRouter } from '../openapi.js';
+import { IdParams } from '../schemas/common.js';
+import { UpdateUserBody, UserSchema } from '../schemas/auth.js';
+
+const router = express.Router();
+
+export default (authService: AuthService) => {
+  const routes = documentedRouter(router, '/api/users', 'Users');
+
+  router.use(requireRole('admin'));
+
+  const handleError = (error: unknown, res: express.Response) => {
+    if (error instanceof AuthError) {
+      res.status(error.status).json({ error: error.message });
+    } else if (error instanceof Error) {
+      res.status(500).json({ error: error.message });
+    } else {
+      res.status(500).json({ error: 'Bilinmeyen bir hata oluştu' });
+    }
+  };
+
+  routes.get('/', {
+    summary: 'List users',
+    response: z.array(UserSchema),
+    role: 'admin',
+  }, async (req, res) => {
+    try {
+      const users = await authService.listUsers();
+      res.json(users);
+    } catch (error) {
+      handleError(error, res);
+    }
+  });
+
+  routes.get('/:id', {
+    summary: 'Fetch a user',
+    params: IdParams,
+    response: UserSchema,
+    role: 'admin',
+    errors: [404],
+  }, async (req, res) => {
+    try {
+      const user = await authService.getUser(parseInt(req.params.id));
+      if (!user) {
+        res.status(404).json({ error: 'User not found' });
+      } else {
+        res.json(user);
+      }
+    } catch (error) {
+      handleError(error, res);
+    }
+  });
+
+  routes.patch('/:id', {
+    summary: "Change a user's role, email or disabled flag",
+    params: IdParams,
+    body: UpdateUserBody,
+    response: UserSchema,
+    role: 'admin',
+    errors: [404, 409],
+  }, async (req, res) => {
+    try {
+      const { role, disabled } = req.body || {};
+      if (parseInt(req.params.id) === req.user!.userId && ((role !== undefined && role !== 'admin') || disabled === true)) {
+        res.status(400).json({ error: 'Administrators cannot demote or disable their own account' });
+        return;
+      }
+      const user = await authService.updateUser(parseInt(req.params.id), req.body || {});
+      if (!user) {
+        res.status(404).json({ error: 'User not found' });
+      } else {
+        res.json(user);
+      }
+    } catch (error) {
+      handleError(error, res);
+    }
+  });
+
+  routes.delete('/:id', {
+    summary: 'Delete a user',
+    params: IdParams,
+    role: 'admin',
+    errors: [404],
+  }, async (req, res) => {
+    try {
+      if (parseInt(req.params.id) === req.user!.userId) {
+        res.status(400).json({ error: 'Administrators cannot delete their own account' });
+        return;
+      }
+      const deleted = await authService.deleteUser(parseInt(req.params.id));
+      if (!deleted) {
+        res.status(404).json({ error: 'User not found' });
+      } else {
+        res.status(204).end();
+      }
+    } catch (error) {
+      handleError(error, res);
+    }
+  });
+
+  return router;
+};
@@ -1,13 +1,73 @@
 import express from 'express';
 import { ValidatorService } from '../../services/ValidatorService.js';
+import { RewardService, RewardGranularity } from '../../services/RewardService.js';
+import { RollupService } from '../../services/RollupService.js';
+import { LeaderboardService } from '../../services/LeaderboardService.js';
+import { LeaderboardWindow, RollupGranularity } from '../../types/Validator.js';
+import { parseLimit } from '../../utils/pagination.js';
+import { parseTimeParam } from '../../utils/time.js';
+import { documentedRouter } from '../openapi.js';
+import { AddressParams, TimeRangeQuery } from '../schemas/common.js';
+import {
+  Leaderboard,
+  LeaderboardQuery,
+  PerformanceHistory,
+  PerformanceHistoryQuery,
+  RewardQuery,
+  StakeHistory,
+  ValidatorListQuery,
+  ValidatorPage,
+  ValidatorPerformance,
+  ValidatorPerformanceQuery,
+  ValidatorRewards,
+} from '../schemas/validators.js';
 
 const router = express.Router();
 
-export default (validatorService: ValidatorService) => {
-  router.get('/', async (req, res) => {
+export default (
+  validatorService: ValidatorService,
+  rewardService: RewardService,
+  rollupService: RollupService,
+  leaderboardService: LeaderboardService
+) => {
+  const routes = documentedRouter(router, '/api/validators', 'Validators');
+
+  routes.get('/', {
+    summary: 'List validators with sorting, filtering and cursor pagination',
+    query: ValidatorListQuery,
+    response: ValidatorPage,
+  }, async (req, res) => {
+    try {
+      const validationError = validatorService.validateListQuery(req.query);
+      if (validationError) {
+        res.status(400).json({ error: validationError });
+        return;
+      }
+      const page = await validatorService.listValidators(req.query);
+      res.json(page);
+    } catch (error) {
+      if (error instanceof Error) {
+        res.status(500).json({ error: error.message });
+      } else {
+        res.status(500).json({ error: 'Bilinmeyen bir hata oluştu' });
+      }
+    }
+  });
+
+  routes.get('/leaderboard', {
+    summary: 'Validators ranked by a composite reliability score, with its components and the rank change since the previous window',
+    description: 'The score is the weighted average of the components. A component that could not be measured has a null `score` '
+      + 'and counts as 0, so a validator with missing data never outranks an otherwise equal one measured on every component.',
+    query: LeaderboardQuery,
+    response: Leaderboard,
+  }, async (req, res) => {
     try {
-      const validators = await validatorService.snarkOSDBService.getValidators();
-      res.json(validators);
+      const leaderboard = await leaderboardService.getLeaderboard(
+        req.query.window as LeaderboardWindow | undefined,
+        parseTimeParam(req.query.to),
+        req.query.limit !== undefined ? parseLimit(req.query.limit) : undefined
+      );
+      res.json(leaderboard);
     } catch (error) {
       if (error instanceof Error) {
         res.status(500).json({ error: error.message });
@@ -17,18 +77,101 @@ export default (validatorService: ValidatorService) => {
     }
   });
 
-  router.get('/:address', async (req, res) => {
+  routes.get('/:address', {
+    summary: 'Validator details with participation over a round window',
+    description: 'Participation is computed from stored certificates, which the retention policy prunes. `fromRound` and `roundsCovered` '
+      + 'give the range actually covered, shorter than `windowRounds` once older rounds were pruned; use '
+      + '`/api/validators/{address}/performance/history` for longer ranges.',
+    params: AddressParams,
+    query: ValidatorPerformanceQuery,
+    response: ValidatorPerformance,
+    errors: [404],
+  }, async (req, res) => {
     try {
       const { address } = req.params;
-      const performance = await validatorService.getValidatorPerformance(address);
-      res.json(performance);
+      const windowRounds = req.query.rounds ? parseInt(req.query.rounds as string) : undefined;
+      const performance = await validatorService.getValidatorPerformance(address, windowRounds);
+      if (!performance) {
+        res.status(404).json({ error: 'Doğrulayıcı bulunamadı' });
+      } else {
+        res.json(performance);
+      }
+    } catch (error) {
+      if (error instanceof Error) {
+        res.status(500).json({ error: error.message });
+      } else {
+        res.status(500).json({ error: 'Bilinmeyen bir hata oluştu' });
+      }
+    }
+  });
+
+  routes.get('/:address/performance/history', {
+    summary: 'Validator performance over time from hourly or daily rollups',
+    params: AddressParams,
+    query: PerformanceHistoryQuery,
+    response: PerformanceHistory,
+  }, async (req, res) => {
+    try {
+      const validationError = rollupService.validateHistoryQuery(req.query);
+      if (validationError) {
+        res.status(400).json({ error: validationError });
+        return;
+      }
+      const history = await rollupService.getPerformanceHistory(
+        req.params.address,
+        parseTimeParam(req.query.from),
+        parseTimeParam(req.query.to),
+        req.query.bucket as RollupGranularity | undefined
+      );
+      res.json(history);
+    } catch (error) {
+      if (error instanceof Error) {
+        res.status(500).json({ error: error.message });
+      } else {
+        res.status(500).json({ error: 'Bilinmeyen bir hata oluştu' });
+      }
+    }
+  });
+
+  routes.get('/:address/stake-history', {
+    summary: 'Stake snapshots and committee join/leave events of a validator',
+    params: AddressParams,
+    query: TimeRangeQuery,
+    response: StakeHistory,
+  }, async (req, res) => {
+    try {
+      const history = await validatorService.getStakeHistory(
+        req.params.address,
+        parseTimeParam(req.query.from),
+        parseTimeParam(req.query.to)
+      );
+      res.json(history);
     } catch (error) {
       if (error instanceof Error) {
-        if (error.message === 'Doğrulayıcı bulunamadı') {
-          res.status(404).json({ error: error.message });
-        } else {
-          res.status(500).json({ error: error.message });
-        }
+        res.status(500).json({ error: error.message });
+      } else {
+        res.status(500).json({ error: 'Bilinmeyen bir hata oluştu' });
+      }
+    }
+  });
+
+  routes.get('/:address/rewards', {
+    summary: 'Validator rewards aggregated per day or epoch',
+    params: AddressParams,
+    query: RewardQuery,
+    response: ValidatorRewards,
+  }, async (req, res) => {
+    try {
+      const rewards = await rewardService.getValidatorRewards(
+        req.params.address,
+        (req.query.granularity || 'day') as RewardGranularity,
+        parseTimeParam(req.query.from),
+        parseTimeParam(req.query.to)
+      );
+      res.json(rewards);
+    } catch (error) {
+      if (error instanceof Error) {
+        res.status(500).json({ error: error.message });
       } else {
         res.status(500).json({ error: 'Bilinmeyen bir hata oluştu' });
       }
@@ -36,4 +179,4 @@ export default (validatorService: ValidatorService) => {
   });
 
   return router;
-};
\ No newline at end of file
+};
@@ -0,0 +1,81 @@
+import { z } from 'zod';
+import { registry } from '../openapi.js';
+import { IdString, LimitQuery, Timestamp } from './common.js';
+import { ALERT_RULE_TYPES } from '../../types/Alert.js';
+import { NOTIFICATION_CHANNEL_TYPES } from '../../types/Notification.js';
+
+const AlertRuleType = z.enum(ALERT_RULE_TYPES as [string, ...string[]]);
+
+export const AlertRuleSchema = registry.register('AlertRule', z.object({
+  id: z.number().int(),
+  name: z.string(),
+  type: AlertRuleType,
+  params: z.record(z.any()),
+  enabled: z.boolean(),
+  cooldown_seconds: z.number().int(),
+  channel_ids: z.array(z.number().int()),
+  created_at: Timestamp,
+  updated_at: Timestamp,
+}));
+
+// Type-specific params are checked by the alert service, which knows which ones each rule type needs.
+export const AlertRuleBody = z.object({
+  name: z.string().min(1),
+  type: AlertRuleType,
+  params: z.record(z.any()).optional(),
+  enabled: z.boolean().optional(),
+  cooldown_seconds: z.number().int().nonnegative().optional(),
+  channel_ids: z.array(z.number().int()).optional(),
+});
+
+export const AlertSchema = registry.register('Alert', z.object({
+  id: z.number().int(),
+  rule_id: z.number().int(),
+  subject: z.string(),
+  status: z.enum(['firing', 'resolved']),
+  message: z.string(),
+  value: z.number().nullable(),
+  fired_at: Timestamp,
+  resolved_at: Timestamp.nullable(),
+}));
+
+export const AlertListQuery = LimitQuery.extend({
+  status: z.enum(['firing', 'resolved']).optional(),
+  ruleId: IdString.optional(),
+});
+
+export const NotificationChannelSchema = registry.register('NotificationChannel', z.object({
+  id: z.number().int(),
+  name: z.string(),
+  type: z.enum(NOTIFICATION_CHANNEL_TYPES as [string, ...string[]]),
+  config: z.record(z.any()),
+  template: z.string().nullable(),
+  enabled: z.boolean(),
+  owner_id: z.number().int().nullable(),
+  created_at: Timestamp,
+  updated_at: Timestamp,
+}));
+
+// Required config keys depend on the channel type and are checked by the notification service.
+export const NotificationChannelBody = z.object({
+  name: z.string().min(1),
+  type: z.enum(NOTIFICATION_CHANNEL_TYPES as [string, ...string[]]),
+  config: z.record(z.any()),
+  template: z.string().nullable().optional(),
+  enabled: z.boolean().optional(),
+});
+
+export const NotificationDeliverySchema = registry.register('NotificationDelivery', z.object({
+  id: z.number().int(),
+  channel_id: z.number().int(),
+  alert_id: z.number().int().nullable(),
+  event: z.enum(['firing', 'resolved', 'test']),
+  status: z.enum(['delivered', 'failed']),
+  attempts: z.number().int(),
+  last_error: z.string().nullable(),
+  payload: z.string(),
+  created_at: Timestamp,
+  delivered_at: Timestamp.nullable(),
+}));
+
+export const DeliveryListQuery = LimitQuery.extend({ channelId: IdString.optional() });
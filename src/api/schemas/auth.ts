@@ -0,0 +1,113 @@
+import { z } from 'zod';
+import { registry } from '../openapi.js';
+import { AleoAddress, Int64, RoleSchema, Timestamp } from './common.js';
+import { ALERT_RULE_TYPES } from '../../types/Alert.js';
+
+export const UserSchema = registry.register('User', z.object({
+  id: z.number().int(),
+  username: z.string(),
+  email: z.string(),
+  role: RoleSchema,
+  disabled: z.boolean(),
+  createdAt: Timestamp,
+  updatedAt: Timestamp,
+}));
+
+export const CurrentUser = UserSchema.extend({
+  authMethod: z.enum(['jwt', 'api_key']),
+  effectiveRole: RoleSchema,
+});
+
+export const RegisterBody = z.object({
+  username: z.string().regex(/^[A-Za-z0-9_.-]{3,64}$/, 'must be 3-64 letters, digits, dots, dashes or underscores'),
+  email: z.string().email(),
+  password: z.string().min(8),
+});
+
+export const LoginBody = z.object({
+  username: z.string().optional(),
+  email: z.string().optional(),
+  password: z.string(),
+}).refine(body => body.username !== undefined || body.email !== undefined, {
+  message: 'username or email is required',
+  path: ['username'],
+});
+
+export const RefreshBody = z.object({ refreshToken: z.string() });
+
+export const TokensSchema = registry.register('AuthTokens', z.object({
+  accessToken: z.string(),
+  refreshToken: z.string(),
+  expiresIn: z.string(),
+}));
+
+export const ApiKeySchema = registry.register('ApiKey', z.object({
+  id: z.number().int(),
+  name: z.string(),
+  prefix: z.string(),
+  scope: RoleSchema,
+  last_used_at: Timestamp.nullable(),
+  expires_at: Timestamp.nullable(),
+  revoked_at: Timestamp.nullable(),
+  createdAt: Timestamp,
+}));
+
+export const CreateApiKeyBody = z.object({
+  name: z.string().min(1),
+  scope: RoleSchema.optional(),
+  expiresAt: z.string().datetime({ offset: true }).optional(),
+});
+
+export const CreatedApiKey = z.object({ key: z.string(), apiKey: ApiKeySchema });
+
+export const UpdateUserBody = z.object({
+  role: RoleSchema.optional(),
+  disabled: z.boolean().optional(),
+  email: z.string().email().optional(),
+});
+
+export const WatchlistEntrySchema = z.object({
+  address: z.string(),
+  label: z.string().nullable(),
+  created_at: Timestamp,
+}).passthrough();
+
+export const WatchlistSchema = z.object({
+  summary: z.object({
+    validators: z.number().int(),
+    active: z.number().int(),
+    totalStake: Int64,
+    firingAlerts: z.number().int(),
+  }),
+  validators: z.array(WatchlistEntrySchema.extend({
+    stake: Int64.nullable(),
+    bonded: Int64.nullable(),
+    is_active: z.boolean().nullable(),
+    participation: z.object({
+      roundsObserved: z.number().int(),
+      roundsParticipated: z.number().int(),
+      participationRate: z.number(),
+      signatureRate: z.number().nullable(),
+    }),
+    recentAlerts: z.array(z.any()),
+  })),
+});
+
+export const WatchlistEntryBody = z.object({ label: z.string().nullable().optional() });
+
+export const WatchlistParams = z.object({ address: AleoAddress });
+
+export const SubscriptionSchema = registry.register('WatchlistSubscription', z.object({
+  id: z.number().int(),
+  user_id: z.number().int(),
+  channel_id: z.number().int(),
+  rule_types: z.array(z.enum(ALERT_RULE_TYPES as [string, ...string[]])),
+  include_resolved: z.boolean(),
+  created_at: Timestamp,
+}));
+
+export const SubscriptionBody = z.object({
+  channel_id: z.number().int(),
+  rule_types: z.array(z.enum(ALERT_RULE_TYPES as [string, ...string[]])).optional(),
+  include_resolved: z.boolean().optional(),
+});
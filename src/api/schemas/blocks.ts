@@ -0,0 +1,134 @@
+import { z } from 'zod';
+import { registry } from '../openapi.js';
+import { AleoAddress, Int64, IntegerString, LimitQuery, ProgramId, TimeParam, TimeRangeQuery, Timestamp, pageOf } from './common.js';
+import { ValidatorRewardSchema } from './validators.js';
+
+export const BlockRow = registry.register('BlockRow', z.object({
+  height: Int64,
+  hash: z.string(),
+  previous_hash: z.string().nullable(),
+  timestamp: Int64.openapi({ description: 'Unix seconds' }),
+  transactions_count: z.number().int(),
+  validator_address: z.string().nullable(),
+  total_fees: Int64.nullable(),
+  block_reward: Int64.nullable(),
+  puzzle_reward: Int64.nullable(),
+  priority_fees: Int64.nullable(),
+}).passthrough());
+
+export const BlockListQuery = z.object({
+  from_height: IntegerString.optional(),
+  to_height: IntegerString.optional(),
+  from: TimeParam.optional(),
+  to: TimeParam.optional(),
+  validator: AleoAddress.optional(),
+  min_transactions: IntegerString.optional(),
+  order: z.enum(['asc', 'desc']).optional(),
+  cursor: z.string().optional(),
+  limit: IntegerString.optional(),
+});
+
+export const BlockPage = pageOf(BlockRow);
+
+const BatchCertificateSchema = z.object({
+  round: z.number().int(),
+  author: z.string(),
+  batch_id: z.string(),
+  committee_id: z.string().optional(),
+  timestamp: z.number().int().optional(),
+  transmission_count: z.number().int(),
+  signatures: z.array(z.string()),
+  signers: z.array(z.string()).optional(),
+});
+
+const TransitionSummarySchema = z.object({
+  id: z.string(),
+  program_id: z.string(),
+  function_name: z.string(),
+  is_fee: z.boolean(),
+});
+
+const TransactionSummarySchema = z.object({
+  id: z.string(),
+  position: z.number().int(),
+  type: z.enum(['execute', 'deploy', 'fee']),
+  status: z.enum(['accepted', 'rejected']),
+  base_fee: Int64,
+  priority_fee: Int64,
+  fee_payer: z.string().nullable(),
+  deployed_program: z.string().nullable(),
+  program_ids: z.array(z.string()),
+  function_names: z.array(z.string()),
+  transitions: z.array(TransitionSummarySchema),
+});
+
+// A block as decoded from the upstream node, before it is stored.
+export const BlockSchema = registry.register('Block', z.object({
+  height: z.number().int().optional(),
+  hash: z.string().optional(),
+  previous_hash: z.string(),
+  timestamp: Timestamp.optional(),
+  transactions: z.array(z.any()),
+  validator_address: z.string().optional(),
+  total_fees: Int64.optional(),
+  certificates: z.array(BatchCertificateSchema),
+  rewards: z.object({
+    block_reward: Int64,
+    puzzle_reward: Int64,
+    base_fees: Int64,
+    priority_fees: Int64,
+  }),
+  transaction_summaries: z.array(TransactionSummarySchema),
+  validator_rewards: z.array(ValidatorRewardSchema).optional(),
+}));
+
+export const TransactionRow = registry.register('TransactionRow', z.object({
+  id: z.string(),
+  block_height: Int64,
+  position: z.number().int(),
+  type: z.enum(['execute', 'deploy', 'fee']),
+  status: z.enum(['accepted', 'rejected']),
+  base_fee: Int64,
+  priority_fee: Int64,
+  fee: Int64,
+  program_ids: z.array(z.string()),
+  function_names: z.array(z.string()),
+  transition_count: z.number().int(),
+  timestamp: Int64.nullable(),
+  fee_payer: z.string().nullable(),
+  deployed_program: z.string().nullable(),
+}).passthrough());
+
+export const TransactionDetail = TransactionRow.extend({
+  transitions: z.array(TransitionSummarySchema),
+});
+
+export const TransactionListQuery = TimeRangeQuery.merge(LimitQuery).extend({
+  program: ProgramId.optional(),
+  function: z.string().regex(/^[a-zA-Z][a-zA-Z0-9_]*$/, 'must be a function name').optional(),
+});
+
+export const SyncStatusSchema = registry.register('SyncStatus', z.object({
+  running: z.boolean(),
+  currentHeight: z.number().int().nullable(),
+  targetHeight: z.number().int().nullable(),
+  blocksPerSecond: z.number(),
+  etaSeconds: z.number().nullable(),
+  lastError: z.string().nullable(),
+  lastSyncedAt: z.string().nullable(),
+}));
+
+export const ReorgSchema = registry.register('Reorg', z.object({
+  id: z.number().int(),
+  detected_at: Timestamp,
+  common_ancestor_height: z.number().int(),
+  depth: z.number().int(),
+  old_hashes: z.array(z.string()),
+  new_hashes: z.array(z.string()),
+}));
+
+export const StreamQuery = z.object({
+  types: z.string().optional().openapi({ description: 'Comma-separated event types, e.g. block.new,alert.firing' }),
+  addresses: z.string().optional().openapi({ description: 'Comma-separated validator addresses' }),
+  lastEventId: IntegerString.optional(),
+});
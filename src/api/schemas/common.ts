@@ -0,0 +1,51 @@
+import { z } from 'zod';
+import '../openapi.js';
+import {
+  ALEO_ADDRESS_PATTERN,
+  BLOCK_HASH_PATTERN,
+  PROGRAM_ID_PATTERN,
+  TRANSACTION_ID_PATTERN,
+} from '../../utils/validation.js';
+import { ROLES } from '../../types/Auth.js';
+
+// Path and query values arrive as strings; these schemas check their format only.
+export const AleoAddress = z.string()
+  .regex(ALEO_ADDRESS_PATTERN, 'must be an Aleo address (aleo1...)')
+  .openapi({ example: 'aleo1rhgdu77hgyqd3xjj8ucu3jj9r2krwz6mnzyd80gncr5fxcwlh5rsvzp9px' });
+export const BlockHash = z.string().regex(BLOCK_HASH_PATTERN, 'must be a block hash (ab1...)');
+export const TransactionId = z.string().regex(TRANSACTION_ID_PATTERN, 'must be a transaction id (at1...)');
+export const ProgramId = z.string().regex(PROGRAM_ID_PATTERN, 'must be a program id such as credits.aleo');
+// Non-negative integers between `min` and `max`, so that they stay exact once parsed and fit the column
+// they are compared with; values out of range are rejected with a 400 instead of failing in the query.
+export const integerString = (max: number, min = 0) => z.string()
+  .regex(/^\d+$/, 'must be a non-negative integer')
+  .refine(value => !/^\d+$/.test(value) || Number(value) >= min, `must be at least ${min}`)
+  .refine(value => !/^\d+$/.test(value) || Number(value) <= max, `must be at most ${max}`);
+export const IntegerString = integerString(Number.MAX_SAFE_INTEGER);
+// Row ids are SERIAL (32-bit) columns
+export const IdString = integerString(2147483647);
+export const BooleanString = z.enum(['true', 'false']);
+export const TimeParam = z.string()
+  .refine(value => /^\d+$/.test(value) || !isNaN(new Date(value).getTime()), 'must be unix seconds or an ISO 8601 date')
+  .openapi({ description: 'Unix seconds or an ISO 8601 date' });
+
+export const HeightParams = z.object({ height: IntegerString });
+export const IdParams = z.object({ id: IdString });
+export const AddressParams = z.object({ address: AleoAddress });
+export const LimitQuery = z.object({ limit: IntegerString.optional() });
+export const TimeRangeQuery = z.object({ from: TimeParam.optional(), to: TimeParam.optional() });
+
+// Values as they appear in JSON responses. Postgres BIGINT and NUMERIC columns are returned as
+// strings so that values beyond 2^53 survive; timestamps are ISO strings.
+export const Int64 = z.string().regex(/^-?\d+$/).openapi({ description: '64-bit integer encoded as a string' });
+export const Numeric = z.union([z.number(), z.string()]);
+export const Timestamp = z.string().openapi({ format: 'date-time' });
+export const RoleSchema = z.enum(ROLES as [string, ...string[]]);
+
+export const pageOf = <T extends z.ZodTypeAny>(item: T) => z.object({
+  items: z.array(item),
+  nextCursor: z.string().nullable(),
+  total: z.number().int(),
+});
+
+export const Deleted = z.object({ deleted: z.boolean() }).passthrough();
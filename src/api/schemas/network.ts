@@ -0,0 +1,172 @@
+import { z } from 'zod';
+import { registry } from '../openapi.js';
+import { Int64, LimitQuery, Numeric, ProgramId, TimeRangeQuery, Timestamp } from './common.js';
+import { ANALYTICS_BUCKETS } from '../../types/Analytics.js';
+import { NETWORK_SERIES_BUCKETS, NETWORK_WINDOWS } from '../../types/Network.js';
+
+const ProgramUsageFields = {
+  calls: z.number().int(),
+  transactions: z.number().int(),
+  unique_callers: z.number().int(),
+  fees: Int64,
+  block_space_share: z.number(),
+};
+
+const UsageBucket = z.object({ bucket: Timestamp, ...ProgramUsageFields });
+
+const AnalyticsBucketQuery = z.enum(ANALYTICS_BUCKETS as [string, ...string[]]);
+
+export const TopProgramsQuery = TimeRangeQuery.merge(LimitQuery).extend({ bucket: AnalyticsBucketQuery.optional() });
+
+export const TopPrograms = z.object({
+  from: Timestamp,
+  to: Timestamp,
+  bucket: AnalyticsBucketQuery.optional(),
+  programs: z.array(z.object({
+    program_id: z.string(),
+    ...ProgramUsageFields,
+    buckets: z.array(UsageBucket).optional(),
+  })),
+});
+
+export const ProgramParams = z.object({ programId: ProgramId });
+
+export const ProgramQuery = TimeRangeQuery.extend({ bucket: AnalyticsBucketQuery.optional() });
+
+export const ProgramDeploymentSchema = registry.register('ProgramDeployment', z.object({
+  program_id: z.string(),
+  transaction_id: z.string(),
+  block_height: z.number().int(),
+  timestamp: z.number().int().nullable(),
+  deployer: z.string().nullable(),
+}));
+
+export const ProgramAnalytics = z.object({
+  program_id: z.string(),
+  deployment: ProgramDeploymentSchema.nullable(),
+  from: Timestamp,
+  to: Timestamp,
+  bucket: AnalyticsBucketQuery,
+  totals: z.object(ProgramUsageFields),
+  functions: z.array(z.object({ function_name: z.string(), ...ProgramUsageFields })),
+  buckets: z.array(UsageBucket),
+  function_buckets: z.array(UsageBucket.extend({ function_name: z.string() })),
+});
+
+export const MempoolStatsSchema = registry.register('MempoolStats', z.object({
+  from: Timestamp,
+  to: Timestamp,
+  current_size: z.number().int().nullable(),
+  average_size: z.number().nullable(),
+  max_size: z.number().int().nullable(),
+  seen: z.number().int(),
+  included: z.number().int(),
+  pending: z.number().int(),
+  dropped: z.number().int(),
+  inclusion_latency_seconds: z.object({
+    count: z.number().int(),
+    p50: z.number().nullable(),
+    p90: z.number().nullable(),
+    p99: z.number().nullable(),
+    average: z.number().nullable(),
+  }),
+}));
+
+export const MempoolSnapshotSchema = z.object({
+  id: z.number().int(),
+  taken_at: Timestamp,
+  size: z.number().int(),
+  new_count: z.number().int(),
+});
+
+export const MempoolTransactionSchema = z.object({
+  id: z.string(),
+  first_seen_at: Timestamp,
+  last_seen_at: Timestamp,
+  included_height: Int64.nullable(),
+  included_at: Timestamp.nullable(),
+  dropped_at: Timestamp.nullable(),
+});
+
+const NetworkStatsSchema = z.object({
+  blocks: z.number().int(),
+  from_height: z.number().int().nullable(),
+  to_height: z.number().int().nullable(),
+  transactions: z.number().int(),
+  transactions_per_second: z.number(),
+  block_interval_seconds: z.object({
+    p50: z.number().nullable(),
+    p95: z.number().nullable(),
+    max: z.number().nullable(),
+    average: z.number().nullable(),
+  }),
+  rounds_per_block: z.number().nullable(),
+  committee_size: z.number().int().nullable(),
+  total_stake: Numeric.nullable(),
+  stake_participation: z.number().nullable(),
+});
+
+const NetworkWindow = z.enum(Object.keys(NETWORK_WINDOWS) as [string, ...string[]]);
+const NetworkSeriesBucket = z.enum(Object.keys(NETWORK_SERIES_BUCKETS) as [string, ...string[]]);
+
+export const NetworkStatsResponse = registry.register('NetworkStats', z.object({
+  generated_at: Timestamp,
+  current_round: z.number().int().nullable(),
+  windows: z.record(NetworkWindow, NetworkStatsSchema),
+}));
+
+export const NetworkSeriesQuery = z.object({
+  window: NetworkWindow.optional(),
+  bucket: NetworkSeriesBucket.optional(),
+});
+
+export const NetworkSeries = z.object({
+  window: NetworkWindow,
+  bucket: NetworkSeriesBucket,
+  points: z.array(NetworkStatsSchema.extend({ bucket: Timestamp })),
+});
+
+export const UpstreamOverviewSchema = registry.register('UpstreamOverview', z.object({
+  network_height: z.number().int().nullable(),
+  selected: z.string().nullable(),
+  endpoints: z.array(z.object({
+    name: z.string(),
+    url: z.string(),
+    fallback: z.boolean(),
+    state: z.enum(['healthy', 'lagging', 'diverged', 'down']),
+    selected: z.boolean(),
+    score: z.number(),
+    latency_ms: z.number().nullable(),
+    error_rate: z.number(),
+    requests: z.number().int(),
+    failures: z.number().int(),
+    consecutive_failures: z.number().int(),
+    rate_limited: z.number().int(),
+    height: z.number().int().nullable(),
+    lag_blocks: z.number().int().nullable(),
+    height_checked_at: Timestamp.nullable(),
+    diverged_at_height: z.number().int().nullable(),
+    last_error: z.string().nullable(),
+    last_error_at: Timestamp.nullable(),
+  })),
+}));
+
+const CacheCountersSchema = z.object({
+  hits: z.number().int(),
+  misses: z.number().int(),
+  coalesced: z.number().int(),
+  hit_rate: z.number(),
+});
+
+export const UpstreamCacheStatsSchema = registry.register('UpstreamCacheStats', z.object({
+  entries: z.number().int(),
+  max_entries: z.number().int(),
+  evictions: z.number().int(),
+  categories: z.object({
+    block: CacheCountersSchema,
+    transaction: CacheCountersSchema,
+    committee: CacheCountersSchema,
+    latest: CacheCountersSchema,
+    mempool: CacheCountersSchema,
+  }),
+}));
@@ -0,0 +1,184 @@
+import { z } from 'zod';
+import { registry } from '../openapi.js';
+import { BooleanString, Int64, IntegerString, Numeric, TimeParam, TimeRangeQuery, Timestamp, integerString, pageOf } from './common.js';
+import { LEADERBOARD_WINDOWS, ROLLUP_GRANULARITIES, VALIDATOR_SORTS } from '../../types/Validator.js';
+
+export const ValidatorRow = registry.register('Validator', z.object({
+  address: z.string(),
+  stake: Int64.nullable(),
+  previous_stake: Int64.nullable(),
+  is_active: z.boolean().nullable(),
+  bonded: Int64.nullable(),
+  last_seen: Timestamp.nullable(),
+  total_blocks_produced: z.number().int().nullable(),
+  total_rewards: Int64.nullable(),
+}).passthrough());
+
+export const ValidatorListQuery = z.object({
+  sort: z.enum(VALIDATOR_SORTS as [string, ...string[]]).optional(),
+  order: z.enum(['asc', 'desc']).optional(),
+  is_active: BooleanString.optional(),
+  cursor: z.string().optional(),
+  limit: IntegerString.optional(),
+});
+
+export const ValidatorPage = pageOf(ValidatorRow.extend({ participation: z.number() }));
+
+export const ValidatorPerformanceQuery = z.object({ rounds: integerString(100_000, 1).optional() });
+
+export const ValidatorPerformance = z.object({
+  validator: ValidatorRow,
+  performance: z.object({
+    windowRounds: z.number().int(),
+    fromRound: z.number().int().nullable(),
+    toRound: z.number().int().nullable(),
+    roundsCovered: z.number().int(),
+    roundsObserved: z.number().int(),
+    roundsParticipated: z.number().int(),
+    missedRounds: z.number().int(),
+    participationRate: z.number(),
+    signatureRate: z.number().nullable(),
+    totalBlocksProduced: z.number().int().nullable(),
+    totalRewards: Int64.nullable(),
+  }),
+});
+
+export const StakeHistory = z.object({
+  address: z.string(),
+  points: z.array(z.object({
+    block_height: z.number().int(),
+    committee_id: z.string().nullable(),
+    fetched_at: Timestamp,
+    stake: Int64,
+    bonded: Int64.nullable(),
+    is_active: z.boolean().nullable(),
+  })),
+  events: z.array(z.object({
+    type: z.enum(['joined', 'left']),
+    block_height: z.number().int(),
+    fetched_at: Timestamp,
+  })),
+});
+
+export const ValidatorRewardSchema = z.object({
+  address: z.string(),
+  stake: Int64,
+  stake_share: z.number(),
+  commission_rate: z.number().int(),
+  gross_reward: Int64,
+  commission_reward: Int64,
+  delegator_reward: Int64,
+});
+
+export const RewardQuery = TimeRangeQuery.extend({ granularity: z.enum(['day', 'epoch']).optional() });
+
+export const ValidatorRewards = z.object({
+  address: z.string(),
+  granularity: z.enum(['day', 'epoch']),
+  totals: z.object({ gross_reward: Int64, commission_reward: Int64, delegator_reward: Int64 }),
+  buckets: z.array(z.object({
+    day: z.string().optional(),
+    epoch: z.number().int().optional(),
+    from_height: z.number().int(),
+    to_height: z.number().int(),
+    blocks: z.number().int(),
+    gross_reward: Int64,
+    commission_reward: Int64,
+    delegator_reward: Int64,
+    average_stake_share: z.number(),
+  })),
+});
+
+export const PerformanceHistoryQuery = TimeRangeQuery.extend({
+  bucket: z.enum(ROLLUP_GRANULARITIES as [string, ...string[]]).optional(),
+});
+
+const PerformanceTotalsSchema = z.object({
+  blocks_authored: z.number().int(),
+  rounds_observed: z.number().int(),
+  rounds_participated: z.number().int(),
+  participation_rate: z.number(),
+  signature_rate: z.number().nullable(),
+  gross_reward: Int64,
+  commission_reward: Int64,
+  delegator_reward: Int64,
+});
+
+export const PerformanceHistory = z.object({
+  address: z.string(),
+  granularity: z.enum(ROLLUP_GRANULARITIES as [string, ...string[]]),
+  from: Timestamp,
+  to: Timestamp,
+  totals: PerformanceTotalsSchema,
+  points: z.array(PerformanceTotalsSchema.extend({ bucket: Timestamp, stake: Int64.nullable() })),
+});
+
+export const LeaderboardQuery = z.object({
+  window: z.enum(LEADERBOARD_WINDOWS as [string, ...string[]]).optional(),
+  to: TimeParam.optional(),
+  limit: IntegerString.optional(),
+});
+
+const ScoreComponentSchema = z.object({
+  value: z.number().nullable(),
+  score: z.number().nullable(),
+  weight: z.number(),
+});
+
+export const Leaderboard = z.object({
+  window: z.enum(LEADERBOARD_WINDOWS as [string, ...string[]]),
+  from: Timestamp,
+  to: Timestamp,
+  previous_from: Timestamp,
+  items: z.array(z.object({
+    rank: z.number().int(),
+    previous_rank: z.number().int().nullable(),
+    rank_change: z.number().int().nullable(),
+    address: z.string(),
+    score: z.number(),
+    components: z.object({
+      participation: ScoreComponentSchema,
+      signatures: ScoreComponentSchema,
+      commission: ScoreComponentSchema,
+      stake_concentration: ScoreComponentSchema,
+      tenure: ScoreComponentSchema,
+    }),
+  })),
+});
+
+const CommitteeMemberSchema = z.object({
+  address: z.string(),
+  stake: Int64,
+  is_active: z.boolean().nullable(),
+  bonded: Int64.nullable(),
+});
+
+const CommitteeDiffSchema = z.object({
+  joined: z.array(z.string()),
+  left: z.array(z.string()),
+  stakeChanges: z.array(z.object({ address: z.string(), from: Int64, to: Int64, delta: Int64 })),
+});
+
+const CommitteeSnapshotSchema = z.object({
+  id: z.number().int(),
+  committee_id: z.string().nullable(),
+  starting_round: z.number().int().nullable(),
+  block_height: z.number().int(),
+  total_stake: Numeric.nullable(),
+  member_count: z.number().int(),
+  fetched_at: Timestamp,
+});
+
+export const CommitteeHistoryQuery = TimeRangeQuery.extend({
+  order: z.enum(['asc', 'desc']).optional(),
+  cursor: z.string().optional(),
+  limit: IntegerString.optional(),
+});
+
+export const CommitteeHistory = pageOf(CommitteeSnapshotSchema.extend({ diff: CommitteeDiffSchema.nullable() }));
+
+export const CommitteeAtHeight = registry.register('CommitteeSnapshot', CommitteeSnapshotSchema.extend({
+  members: z.array(CommitteeMemberSchema),
+  diff: CommitteeDiffSchema.nullable(),
+}));
+
@@ -0,0 +1,55 @@
+import { Server } from 'http';
+import { WebSocketServer, WebSocket } from 'ws';
+import logger from '../utils/logger.js';
+import { eventBus, matchesSubscription, parseSubscription } from '../utils/eventBus.js';
+import { StreamEvent } from '../types/Event.js';
+
+export const WEBSOCKET_PATH = '/api/stream/ws';
+
+// WebSocket counterpart of the SSE stream at /api/stream/events. The initial subscription comes from
+// the query string (types, addresses, lastEventId); clients may replace it at any time by sending
+// {"types": [...], "addresses": [...]}.
+export function attachWebSocketStream(server: Server): WebSocketServer {
+  const wss = new WebSocketServer({ server, path: WEBSOCKET_PATH });
+
+  wss.on('connection', (socket: WebSocket, req) => {
+    const url = new URL(req.url || WEBSOCKET_PATH, 'http://localhost');
+    let subscription = parseSubscription({
+      types: url.searchParams.get('types') ?? undefined,
+      addresses: url.searchParams.get('addresses') ?? undefined,
+    });
+
+    const send = (event: StreamEvent) => {
+      if (socket.readyState === WebSocket.OPEN && matchesSubscription(event, subscription)) {
+        socket.send(JSON.stringify(event));
+      }
+    };
+
+    const lastEventId = parseInt(url.searchParams.get('lastEventId') || '');
+    if (!isNaN(lastEventId)) {
+      eventBus.since(lastEventId).forEach(send);
+    }
+    const unsubscribe = eventBus.subscribe(send);
+
+    socket.on('message', (raw) => {
+      try {
+        subscription = parseSubscription(JSON.parse(raw.toString()));
+        socket.send(JSON.stringify({
+          type: 'subscribed',
+          types: subscription.types ? [...subscription.types] : null,
+          addresses: subscription.addresses ? [...subscription.addresses] : null,
+        }));
+      } catch (error) {
+        socket.send(JSON.stringify({ type: 'error', error: 'Invalid subscription message' }));
+      }
+    });
+
+    socket.on('close', unsubscribe);
+    socket.on('error', (error) => {
+      logger.error('WebSocket stream error:', error);
+      unsubscribe();
+    });
+  });
+
+  return wss;
+}
@@ -0,0 +1,157 @@
+import crypto from 'crypto';
+import pg from 'pg';
+import logger from '../utils/logger.js';
+import { migrations as defaultMigrations } from './migrations/index.js';
+import { AppliedMigration, Migration, MigrationStatus } from '../types/Migration.js';
+
+const { Pool: PgPool } = pg;
+
+// Arbitrary key for pg_advisory_lock so concurrently starting instances migrate one at a time
+const MIGRATION_LOCK_KEY = 726354;
+
+export class Migrator {
+  private pool: pg.Pool;
+
+  constructor(connectionString: string, private migrations: Migration[] = defaultMigrations) {
+    this.pool = new PgPool({ connectionString });
+    const versions = migrations.map(migration => migration.version);
+    if (versions.some((version, index) => index > 0 && version <= versions[index - 1])) {
+      throw new Error('Migrations must be listed in strictly increasing version order');
+    }
+  }
+
+  private checksum(migration: Migration): string {
+    return crypto.createHash('sha256').update(migration.up).digest('hex');
+  }
+
+  private async getApplied(client: pg.Pool | pg.PoolClient = this.pool): Promise<AppliedMigration[]> {
+    const exists = await client.query(`SELECT to_regclass('schema_migrations') IS NOT NULL AS exists`);
+    if (!exists.rows[0].exists) return [];
+    const result = await client.query('SELECT version, name, checksum, applied_at FROM schema_migrations ORDER BY version');
+    return result.rows;
+  }
+
+  async status(): Promise<MigrationStatus[]> {
+    const applied = new Map((await this.getApplied()).map(row => [row.version, row]));
+    return this.migrations.map(migration => {
+      const row = applied.get(migration.version);
+      return {
+        version: migration.version,
+        name: migration.name,
+        applied: row !== undefined,
+        applied_at: row?.applied_at ?? null,
+        modified: row !== undefined && row.checksum !== this.checksum(migration),
+      };
+    });
+  }
+
+  // Refuses to continue unless every known migration is applied unmodified and the database has
+  // nothing newer than this build knows about.
+  async check(): Promise<void> {
+    const applied = await this.getApplied();
+    const known = new Map(this.migrations.map(migration => [migration.version, migration]));
+    const appliedVersions = new Set(applied.map(row => row.version));
+
+    const unknown = applied.filter(row => !known.has(row.version));
+    if (unknown.length > 0) {
+      throw new Error(`Database has migrations this build does not know: ${unknown.map(row => `${row.version}_${row.name}`).join(', ')}`);
+    }
+    const modified = applied.filter(row => row.checksum !== this.checksum(known.get(row.version)!));
+    if (modified.length > 0) {
+      throw new Error(`Applied migrations were changed afterwards: ${modified.map(row => `${row.version}_${row.name}`).join(', ')}`);
+    }
+    const pending = this.migrations.filter(migration => !appliedVersions.has(migration.version));
+    if (pending.length > 0) {
+      throw new Error(`Database schema is not up to date, pending migrations: ${pending.map(m => `${m.version}_${m.name}`).join(', ')}. Run \`npm run migrate\` first.`);
+    }
+  }
+
+  // Applies pending migrations up to and including `target` (all of them by default).
+  async up(target?: number): Promise<Migration[]> {
+    return this.withLock(async client => {
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS schema_migrations (
+          version INT PRIMARY KEY,
+          name TEXT NOT NULL,
+          checksum TEXT NOT NULL,
+          applied_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+        )
+      `);
+      const appliedVersions = new Set((await this.getApplied(client)).map(row => row.version));
+      const pending = this.migrations.filter(migration =>
+        !appliedVersions.has(migration.version) && (target === undefined || migration.version <= target)
+      );
+
+      for (const migration of pending) {
+        await this.inTransaction(client, `${migration.version}_${migration.name} (up)`, async () => {
+          await client.query(migration.up);
+          await client.query(
+            'INSERT INTO schema_migrations (version, name, checksum) VALUES ($1, $2, $3)',
+            [migration.version, migration.name, this.checksum(migration)]
+          );
+        });
+        logger.info(`Applied migration ${migration.version}_${migration.name}`);
+      }
+      return pending;
+    });
+  }
+
+  // Reverts applied migrations newer than `target`, newest first. Defaults to reverting the latest one.
+  async down(target?: number): Promise<Migration[]> {
+    return this.withLock(async client => {
+      const applied = await this.getApplied(client);
+      if (applied.length === 0) return [];
+      const floor = target ?? (applied.length > 1 ? applied[applied.length - 2].version : 0);
+      const known = new Map(this.migrations.map(migration => [migration.version, migration]));
+      const reverting = applied.filter(row => row.version > floor).reverse();
+
+      const missing = reverting.filter(row => !known.has(row.version));
+      if (missing.length > 0) {
+        throw new Error(`Cannot revert migrations this build does not know: ${missing.map(row => `${row.version}_${row.name}`).join(', ')}`);
+      }
+
+      const reverted: Migration[] = [];
+      for (const row of reverting) {
+        const migration = known.get(row.version)!;
+        await this.inTransaction(client, `${migration.version}_${migration.name} (down)`, async () => {
+          await client.query(migration.down);
+          await client.query('DELETE FROM schema_migrations WHERE version = $1', [migration.version]);
+        });
+        logger.info(`Reverted migration ${migration.version}_${migration.name}`);
+        reverted.push(migration);
+      }
+      return reverted;
+    });
+  }
+
+  private async withLock<T>(run: (client: pg.PoolClient) => Promise<T>): Promise<T> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_KEY]);
+      return await run(client);
+    } finally {
+      await client.query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK_KEY]).catch(() => undefined);
+      client.release();
+    }
+  }
+
+  private async inTransaction(client: pg.PoolClient, label: string, run: () => Promise<void>): Promise<void> {
+    await client.query('BEGIN');
+    try {
+      await run();
+      await client.query('COMMIT');
+    } catch (error: unknown) {
+      await client.query('ROLLBACK');
+      if (error instanceof Error) {
+        throw new Error(`Migration ${label} failed: ${error.message}`);
+      }
+      throw new Error(`Migration ${label} failed: An unknown error occurred`);
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.pool.end();
+  }
+}
+
+export default Migrator;
@@ -1,20 +1,14 @@
-import { Sequelize } from 'sequelize';
-import { config } from '../config/index.js';
-
-export const sequelize = new Sequelize(config.database.url, {
-  dialect: 'postgres',
-  logging: false,
-});
-
-// Define model relations here
-import { Validator } from './models/Validator.js';
-import { Block } from './models/Block.js';
-import { Transaction } from './models/Transaction.js';
-
-Block.belongsTo(Validator, { foreignKey: 'validator_address', as: 'validator' });
-Validator.hasMany(Block, { foreignKey: 'validator_address', as: 'blocks' });
-
-Transaction.belongsTo(Block, { foreignKey: 'block_height', as: 'block' });
-Block.hasMany(Transaction, { foreignKey: 'block_height', as: 'transactions' });
-
-export { Validator, Block, Transaction };
\ No newline at end of file
+// Model relations. Columns, indexes and constraints are defined by the migrations in ./migrations;
+// the models only describe them to Sequelize.
+import { sequelize } from './sequelize.js';
+import { User } from './models/User.js';
+import { ApiKey } from './models/ApiKey.js';
+import { RefreshToken } from './models/RefreshToken.js';
+
+User.hasMany(ApiKey, { foreignKey: 'user_id', onDelete: 'CASCADE' });
+ApiKey.belongsTo(User, { foreignKey: 'user_id' });
+User.hasMany(RefreshToken, { foreignKey: 'user_id', onDelete: 'CASCADE' });
+RefreshToken.belongsTo(User, { foreignKey: 'user_id' });
+
+export { sequelize, User, ApiKey, RefreshToken };
+export { Migrator } from './Migrator.js';
@@ -0,0 +1,48 @@
+// Schema migration CLI:
+//   migrate up [version]    apply pending migrations (up to `version`)
+//   migrate down [version]  revert migrations newer than `version` (the latest one by default)
+//   migrate status          list migrations and whether they are applied
+import { config } from '../config/index.js';
+import logger from '../utils/logger.js';
+import { Migrator } from './Migrator.js';
+
+async function main() {
+  const [command = 'up', versionArg] = process.argv.slice(2);
+  const version = versionArg !== undefined ? parseInt(versionArg) : undefined;
+  if (version !== undefined && !Number.isInteger(version)) {
+    throw new Error(`Invalid migration version: ${versionArg}`);
+  }
+
+  const migrator = new Migrator(config.database.url);
+  try {
+    switch (command) {
+      case 'up': {
+        const applied = await migrator.up(version);
+        logger.info(applied.length > 0 ? `Applied ${applied.length} migration(s)` : 'Database schema is already up to date');
+        break;
+      }
+      case 'down': {
+        const reverted = await migrator.down(version);
+        logger.info(`Reverted ${reverted.length} migration(s)`);
+        break;
+      }
+      case 'status':
+        for (const migration of await migrator.status()) {
+          const state = migration.applied
+            ? `applied ${migration.applied_at!.toISOString()}${migration.modified ? ' (modified since)' : ''}`
+            : 'pending';
+          console.log(`${String(migration.version).padStart(3, '0')}_${migration.name}  ${state}`);
+        }
+        break;
+      default:
+        throw new Error(`Unknown command "${command}", expected up, down or status`);
+    }
+  } finally {
+    await migrator.close();
+  }
+}
+
+main().catch(error => {
+  logger.error('Migration failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,297 @@
+import { Migration } from '../../types/Migration.js';
+
+// The schema as the pre-migration startup code left it. Every statement is idempotent, and the columns
+// added since the baseline schema are added to existing tables, so databases created by any earlier
+// version (including the baseline's Sequelize-synced "Users") are upgraded to this version.
+const migration: Migration = {
+  version: 1,
+  name: 'initial_schema',
+  up: `
+    CREATE TABLE IF NOT EXISTS "Users" (
+      id SERIAL PRIMARY KEY,
+      username VARCHAR(255) NOT NULL UNIQUE,
+      email VARCHAR(255) NOT NULL UNIQUE,
+      password_hash VARCHAR(255),
+      role VARCHAR(255) NOT NULL DEFAULT 'viewer',
+      disabled BOOLEAN NOT NULL DEFAULT FALSE,
+      "createdAt" TIMESTAMPTZ NOT NULL,
+      "updatedAt" TIMESTAMPTZ NOT NULL
+    );
+    ALTER TABLE "Users" ADD COLUMN IF NOT EXISTS password_hash VARCHAR(255);
+    ALTER TABLE "Users" ADD COLUMN IF NOT EXISTS role VARCHAR(255) NOT NULL DEFAULT 'viewer';
+    ALTER TABLE "Users" ADD COLUMN IF NOT EXISTS disabled BOOLEAN NOT NULL DEFAULT FALSE;
+
+    CREATE TABLE IF NOT EXISTS "ApiKeys" (
+      id SERIAL PRIMARY KEY,
+      name VARCHAR(255) NOT NULL,
+      prefix VARCHAR(255) NOT NULL,
+      key_hash VARCHAR(255) NOT NULL UNIQUE,
+      scope VARCHAR(255) NOT NULL,
+      last_used_at TIMESTAMPTZ,
+      expires_at TIMESTAMPTZ,
+      revoked_at TIMESTAMPTZ,
+      "createdAt" TIMESTAMPTZ NOT NULL,
+      "updatedAt" TIMESTAMPTZ NOT NULL,
+      user_id INT REFERENCES "Users"(id) ON DELETE CASCADE ON UPDATE CASCADE
+    );
+    CREATE INDEX IF NOT EXISTS idx_api_keys_user ON "ApiKeys" (user_id);
+
+    CREATE TABLE IF NOT EXISTS "RefreshTokens" (
+      id SERIAL PRIMARY KEY,
+      token_hash VARCHAR(255) NOT NULL UNIQUE,
+      expires_at TIMESTAMPTZ NOT NULL,
+      revoked_at TIMESTAMPTZ,
+      "createdAt" TIMESTAMPTZ NOT NULL,
+      "updatedAt" TIMESTAMPTZ NOT NULL,
+      user_id INT REFERENCES "Users"(id) ON DELETE CASCADE ON UPDATE CASCADE
+    );
+    CREATE INDEX IF NOT EXISTS idx_refresh_tokens_user ON "RefreshTokens" (user_id);
+
+    CREATE TABLE IF NOT EXISTS validators (
+      address TEXT PRIMARY KEY,
+      stake BIGINT,
+      is_active BOOLEAN,
+      bonded BIGINT,
+      previous_stake BIGINT,
+      last_seen TIMESTAMP,
+      total_blocks_produced INTEGER DEFAULT 0,
+      total_rewards BIGINT DEFAULT 0
+    );
+    ALTER TABLE validators ADD COLUMN IF NOT EXISTS is_active BOOLEAN;
+    ALTER TABLE validators ADD COLUMN IF NOT EXISTS bonded BIGINT;
+    ALTER TABLE validators ADD COLUMN IF NOT EXISTS previous_stake BIGINT;
+
+    CREATE TABLE IF NOT EXISTS blocks (
+      height BIGINT PRIMARY KEY,
+      hash TEXT NOT NULL,
+      previous_hash TEXT,
+      -- Unix seconds
+      timestamp BIGINT NOT NULL,
+      transactions_count INT NOT NULL,
+      validator_address TEXT,
+      total_fees BIGINT,
+      block_reward BIGINT,
+      puzzle_reward BIGINT,
+      priority_fees BIGINT
+    );
+    ALTER TABLE blocks ADD COLUMN IF NOT EXISTS block_reward BIGINT;
+    ALTER TABLE blocks ADD COLUMN IF NOT EXISTS puzzle_reward BIGINT;
+    ALTER TABLE blocks ADD COLUMN IF NOT EXISTS priority_fees BIGINT;
+
+    CREATE TABLE IF NOT EXISTS validator_rewards (
+      height BIGINT NOT NULL REFERENCES blocks(height) ON DELETE CASCADE,
+      address TEXT NOT NULL,
+      stake BIGINT NOT NULL,
+      stake_share DOUBLE PRECISION NOT NULL,
+      commission_rate INT NOT NULL,
+      gross_reward BIGINT NOT NULL,
+      commission_reward BIGINT NOT NULL,
+      delegator_reward BIGINT NOT NULL,
+      PRIMARY KEY (height, address)
+    );
+    CREATE INDEX IF NOT EXISTS idx_validator_rewards_address_height ON validator_rewards (address, height);
+
+    CREATE TABLE IF NOT EXISTS transactions (
+      id TEXT PRIMARY KEY,
+      block_height BIGINT NOT NULL REFERENCES blocks(height) ON DELETE CASCADE,
+      position INT NOT NULL,
+      type TEXT NOT NULL,
+      status TEXT NOT NULL,
+      base_fee BIGINT NOT NULL DEFAULT 0,
+      priority_fee BIGINT NOT NULL DEFAULT 0,
+      fee BIGINT NOT NULL DEFAULT 0,
+      program_ids TEXT[] NOT NULL DEFAULT '{}',
+      function_names TEXT[] NOT NULL DEFAULT '{}',
+      transition_count INT NOT NULL DEFAULT 0,
+      timestamp BIGINT,
+      fee_payer TEXT,
+      deployed_program TEXT
+    );
+    ALTER TABLE transactions ADD COLUMN IF NOT EXISTS fee_payer TEXT;
+    ALTER TABLE transactions ADD COLUMN IF NOT EXISTS deployed_program TEXT;
+    CREATE INDEX IF NOT EXISTS idx_transactions_block_height ON transactions (block_height, position);
+    CREATE INDEX IF NOT EXISTS idx_transactions_timestamp ON transactions (timestamp);
+    CREATE INDEX IF NOT EXISTS idx_transactions_program_ids ON transactions USING GIN (program_ids);
+    CREATE INDEX IF NOT EXISTS idx_transactions_deployed_program ON transactions (deployed_program) WHERE deployed_program IS NOT NULL;
+
+    CREATE TABLE IF NOT EXISTS transitions (
+      id TEXT PRIMARY KEY,
+      transaction_id TEXT NOT NULL REFERENCES transactions(id) ON DELETE CASCADE,
+      position INT NOT NULL,
+      program_id TEXT NOT NULL,
+      function_name TEXT NOT NULL,
+      is_fee BOOLEAN NOT NULL DEFAULT FALSE
+    );
+    ALTER TABLE transitions ADD COLUMN IF NOT EXISTS is_fee BOOLEAN NOT NULL DEFAULT FALSE;
+    CREATE INDEX IF NOT EXISTS idx_transitions_program_function ON transitions (program_id, function_name);
+    CREATE INDEX IF NOT EXISTS idx_transitions_transaction ON transitions (transaction_id);
+
+    CREATE TABLE IF NOT EXISTS mempool_transactions (
+      id TEXT PRIMARY KEY,
+      first_seen_at TIMESTAMPTZ NOT NULL,
+      last_seen_at TIMESTAMPTZ NOT NULL,
+      included_height BIGINT,
+      included_at TIMESTAMPTZ,
+      dropped_at TIMESTAMPTZ
+    );
+    CREATE INDEX IF NOT EXISTS idx_mempool_transactions_first_seen ON mempool_transactions (first_seen_at);
+    CREATE INDEX IF NOT EXISTS idx_mempool_transactions_pending ON mempool_transactions (last_seen_at)
+      WHERE included_height IS NULL AND dropped_at IS NULL;
+
+    CREATE TABLE IF NOT EXISTS mempool_snapshots (
+      id SERIAL PRIMARY KEY,
+      taken_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      size INT NOT NULL,
+      new_count INT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS idx_mempool_snapshots_taken_at ON mempool_snapshots (taken_at);
+
+    CREATE TABLE IF NOT EXISTS sync_checkpoints (
+      name TEXT PRIMARY KEY,
+      height BIGINT NOT NULL,
+      updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+    );
+
+    CREATE TABLE IF NOT EXISTS batch_certificates (
+      round BIGINT NOT NULL,
+      author TEXT NOT NULL,
+      block_height BIGINT NOT NULL REFERENCES blocks(height) ON DELETE CASCADE,
+      batch_id TEXT NOT NULL,
+      committee_id TEXT,
+      timestamp BIGINT,
+      transmission_count INT NOT NULL DEFAULT 0,
+      signatures TEXT[] NOT NULL,
+      signature_count INT NOT NULL,
+      PRIMARY KEY (round, author)
+    );
+    CREATE INDEX IF NOT EXISTS idx_batch_certificates_author_round ON batch_certificates (author, round);
+    CREATE INDEX IF NOT EXISTS idx_batch_certificates_block_height ON batch_certificates (block_height);
+
+    CREATE TABLE IF NOT EXISTS reorgs (
+      id SERIAL PRIMARY KEY,
+      detected_at TIMESTAMP NOT NULL DEFAULT NOW(),
+      common_ancestor_height BIGINT NOT NULL,
+      depth INT NOT NULL,
+      old_hashes TEXT[] NOT NULL,
+      new_hashes TEXT[] NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS alert_rules (
+      id SERIAL PRIMARY KEY,
+      name TEXT NOT NULL,
+      type TEXT NOT NULL,
+      params JSONB NOT NULL DEFAULT '{}',
+      enabled BOOLEAN NOT NULL DEFAULT TRUE,
+      cooldown_seconds INT NOT NULL DEFAULT 300,
+      channel_ids INT[] NOT NULL DEFAULT '{}',
+      created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+      updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+    );
+    ALTER TABLE alert_rules ADD COLUMN IF NOT EXISTS channel_ids INT[] NOT NULL DEFAULT '{}';
+
+    CREATE TABLE IF NOT EXISTS alerts (
+      id SERIAL PRIMARY KEY,
+      rule_id INT NOT NULL REFERENCES alert_rules(id) ON DELETE CASCADE,
+      subject TEXT NOT NULL,
+      status TEXT NOT NULL,
+      message TEXT NOT NULL,
+      value DOUBLE PRECISION,
+      fired_at TIMESTAMP NOT NULL DEFAULT NOW(),
+      resolved_at TIMESTAMP
+    );
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_alerts_open ON alerts (rule_id, subject) WHERE status = 'firing';
+    CREATE INDEX IF NOT EXISTS idx_alerts_fired_at ON alerts (fired_at DESC);
+
+    CREATE TABLE IF NOT EXISTS notification_channels (
+      id SERIAL PRIMARY KEY,
+      name TEXT NOT NULL,
+      type TEXT NOT NULL,
+      config JSONB NOT NULL DEFAULT '{}',
+      template TEXT,
+      enabled BOOLEAN NOT NULL DEFAULT TRUE,
+      owner_id INT REFERENCES "Users"(id) ON DELETE CASCADE,
+      created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+      updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+    );
+    ALTER TABLE notification_channels ADD COLUMN IF NOT EXISTS owner_id INT REFERENCES "Users"(id) ON DELETE CASCADE;
+
+    CREATE TABLE IF NOT EXISTS notification_deliveries (
+      id SERIAL PRIMARY KEY,
+      channel_id INT NOT NULL REFERENCES notification_channels(id) ON DELETE CASCADE,
+      alert_id INT REFERENCES alerts(id) ON DELETE SET NULL,
+      event TEXT NOT NULL,
+      status TEXT NOT NULL,
+      attempts INT NOT NULL,
+      last_error TEXT,
+      payload TEXT NOT NULL,
+      created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+      delivered_at TIMESTAMP
+    );
+    CREATE INDEX IF NOT EXISTS idx_notification_deliveries_channel ON notification_deliveries (channel_id, created_at DESC);
+
+    CREATE TABLE IF NOT EXISTS watchlist_entries (
+      user_id INT NOT NULL REFERENCES "Users"(id) ON DELETE CASCADE,
+      address TEXT NOT NULL,
+      label TEXT,
+      created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+      PRIMARY KEY (user_id, address)
+    );
+    CREATE INDEX IF NOT EXISTS idx_watchlist_entries_address ON watchlist_entries (address);
+
+    CREATE TABLE IF NOT EXISTS watchlist_subscriptions (
+      id SERIAL PRIMARY KEY,
+      user_id INT NOT NULL REFERENCES "Users"(id) ON DELETE CASCADE,
+      channel_id INT NOT NULL REFERENCES notification_channels(id) ON DELETE CASCADE,
+      rule_types TEXT[] NOT NULL DEFAULT '{}',
+      include_resolved BOOLEAN NOT NULL DEFAULT TRUE,
+      created_at TIMESTAMP NOT NULL DEFAULT NOW()
+    );
+
+    CREATE TABLE IF NOT EXISTS committee_snapshots (
+      id SERIAL PRIMARY KEY,
+      committee_id TEXT,
+      starting_round BIGINT,
+      block_height BIGINT NOT NULL,
+      total_stake BIGINT,
+      member_count INT NOT NULL,
+      fetched_at TIMESTAMP NOT NULL DEFAULT NOW()
+    );
+    CREATE INDEX IF NOT EXISTS idx_committee_snapshots_height ON committee_snapshots (block_height);
+    CREATE INDEX IF NOT EXISTS idx_committee_snapshots_fetched_at ON committee_snapshots (fetched_at);
+
+    CREATE TABLE IF NOT EXISTS committee_members (
+      snapshot_id INT NOT NULL REFERENCES committee_snapshots(id) ON DELETE CASCADE,
+      address TEXT NOT NULL,
+      stake BIGINT NOT NULL,
+      is_active BOOLEAN,
+      bonded BIGINT,
+      PRIMARY KEY (snapshot_id, address)
+    );
+    CREATE INDEX IF NOT EXISTS idx_committee_members_address ON committee_members (address, snapshot_id);
+  `,
+  down: `
+    DROP TABLE IF EXISTS committee_members;
+    DROP TABLE IF EXISTS committee_snapshots;
+    DROP TABLE IF EXISTS watchlist_subscriptions;
+    DROP TABLE IF EXISTS watchlist_entries;
+    DROP TABLE IF EXISTS notification_deliveries;
+    DROP TABLE IF EXISTS notification_channels;
+    DROP TABLE IF EXISTS alerts;
+    DROP TABLE IF EXISTS alert_rules;
+    DROP TABLE IF EXISTS reorgs;
+    DROP TABLE IF EXISTS batch_certificates;
+    DROP TABLE IF EXISTS sync_checkpoints;
+    DROP TABLE IF EXISTS mempool_snapshots;
+    DROP TABLE IF EXISTS mempool_transactions;
+    DROP TABLE IF EXISTS transitions;
+    DROP TABLE IF EXISTS transactions;
+    DROP TABLE IF EXISTS validator_rewards;
+    DROP TABLE IF EXISTS blocks;
+    DROP TABLE IF EXISTS validators;
+    DROP TABLE IF EXISTS "RefreshTokens";
+    DROP TABLE IF EXISTS "ApiKeys";
+    DROP TABLE IF EXISTS "Users";
+  `,
+};
+
+export default migration;
@@ -0,0 +1,25 @@
+import { Migration } from '../../types/Migration.js';
+
+// Enumerated text columns were only constrained by the code writing them.
+const migration: Migration = {
+  version: 2,
+  name: 'value_constraints',
+  up: `
+    ALTER TABLE transactions ADD CONSTRAINT transactions_type_check CHECK (type IN ('execute', 'deploy', 'fee'));
+    ALTER TABLE transactions ADD CONSTRAINT transactions_status_check CHECK (status IN ('accepted', 'rejected'));
+    ALTER TABLE alerts ADD CONSTRAINT alerts_status_check CHECK (status IN ('firing', 'resolved'));
+    ALTER TABLE notification_deliveries ADD CONSTRAINT notification_deliveries_status_check CHECK (status IN ('delivered', 'failed'));
+    ALTER TABLE "Users" ADD CONSTRAINT users_role_check CHECK (role IN ('viewer', 'operator', 'admin'));
+    ALTER TABLE "ApiKeys" ADD CONSTRAINT api_keys_scope_check CHECK (scope IN ('viewer', 'operator', 'admin'));
+  `,
+  down: `
+    ALTER TABLE "ApiKeys" DROP CONSTRAINT IF EXISTS api_keys_scope_check;
+    ALTER TABLE "Users" DROP CONSTRAINT IF EXISTS users_role_check;
+    ALTER TABLE notification_deliveries DROP CONSTRAINT IF EXISTS notification_deliveries_status_check;
+    ALTER TABLE alerts DROP CONSTRAINT IF EXISTS alerts_status_check;
+    ALTER TABLE transactions DROP CONSTRAINT IF EXISTS transactions_status_check;
+    ALTER TABLE transactions DROP CONSTRAINT IF EXISTS transactions_type_check;
+  `,
+};
+
+export default migration;
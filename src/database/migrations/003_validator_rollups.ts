@@ -0,0 +1,54 @@
+import { Migration } from '../../types/Migration.js';
+
+// Hourly and daily per-validator aggregates, so long-range performance views and raw-data retention
+// do not depend on keeping every block. Buckets start at UTC hour and day boundaries.
+//
+// Signature rates are measured from the signers recovered from each certificate's signatures, one row
+// per signer. `signer_count` stays NULL on certificates whose signers are unknown, which are left out
+// of signature rates.
+const migration: Migration = {
+  version: 3,
+  name: 'validator_rollups',
+  up: `
+    ALTER TABLE batch_certificates ADD COLUMN signer_count INT;
+
+    CREATE TABLE batch_certificate_signers (
+      round BIGINT NOT NULL,
+      author TEXT NOT NULL,
+      signer TEXT NOT NULL,
+      PRIMARY KEY (round, author, signer),
+      FOREIGN KEY (round, author) REFERENCES batch_certificates (round, author) ON DELETE CASCADE
+    );
+    CREATE INDEX idx_batch_certificate_signers_signer_round ON batch_certificate_signers (signer, round);
+
+    CREATE TABLE validator_rollups (
+      granularity TEXT NOT NULL CHECK (granularity IN ('hour', 'day')),
+      bucket TIMESTAMPTZ NOT NULL,
+      address TEXT NOT NULL,
+      blocks_authored INT NOT NULL DEFAULT 0,
+      rounds_observed INT NOT NULL DEFAULT 0,
+      rounds_participated INT NOT NULL DEFAULT 0,
+      -- Signatures the validator gave on other authors' certificates, out of those it could give
+      signatures_given BIGINT NOT NULL DEFAULT 0,
+      signatures_expected BIGINT NOT NULL DEFAULT 0,
+      gross_reward BIGINT NOT NULL DEFAULT 0,
+      commission_reward BIGINT NOT NULL DEFAULT 0,
+      delegator_reward BIGINT NOT NULL DEFAULT 0,
+      stake BIGINT,
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      PRIMARY KEY (granularity, address, bucket)
+    );
+    CREATE INDEX idx_validator_rollups_bucket ON validator_rollups (granularity, bucket);
+
+    CREATE INDEX idx_blocks_timestamp ON blocks (timestamp);
+  `,
+  down: `
+    DROP INDEX IF EXISTS idx_blocks_timestamp;
+    DROP TABLE IF EXISTS validator_rollups;
+
+    DROP TABLE IF EXISTS batch_certificate_signers;
+    ALTER TABLE batch_certificates DROP COLUMN IF EXISTS signer_count;
+  `,
+};
+
+export default migration;
@@ -0,0 +1,13 @@
+import { Migration } from '../../types/Migration.js';
+import initialSchema from './001_initial_schema.js';
+import valueConstraints from './002_value_constraints.js';
+import validatorRollups from './003_validator_rollups.js';
+
+// Applied in this order. Never edit a migration that has shipped; add a new one instead.
+export const migrations: Migration[] = [
+  initialSchema,
+  valueConstraints,
+  validatorRollups,
+];
+
+export default migrations;
@@ -0,0 +1,50 @@
+import { Model, DataTypes } from 'sequelize';
+import { sequelize } from '../sequelize.js';
+
+// Long-lived credentials for machine clients; only a SHA-256 hash of the key is stored
+export class ApiKey extends Model {
+  public id!: number;
+  public user_id!: number;
+  public name!: string;
+  public prefix!: string;
+  public key_hash!: string;
+  public scope!: string;
+  public last_used_at!: Date | null;
+  public expires_at!: Date | null;
+  public revoked_at!: Date | null;
+  public createdAt!: Date;
+  public updatedAt!: Date;
+}
+
+ApiKey.init({
+  id: {
+    type: DataTypes.INTEGER,
+    autoIncrement: true,
+    primaryKey: true,
+  },
+  user_id: DataTypes.INTEGER,
+  name: {
+    type: DataTypes.STRING,
+    allowNull: false,
+  },
+  prefix: {
+    type: DataTypes.STRING,
+    allowNull: false,
+  },
+  key_hash: {
+    type: DataTypes.STRING,
+    allowNull: false,
+    unique: true,
+  },
+  scope: {
+    type: DataTypes.STRING,
+    allowNull: false,
+  },
+  last_used_at: DataTypes.DATE,
+  expires_at: DataTypes.DATE,
+  revoked_at: DataTypes.DATE,
+}, {
+  sequelize,
+  modelName: 'ApiKey',
+  tableName: 'ApiKeys',
+});
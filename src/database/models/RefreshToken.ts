@@ -0,0 +1,36 @@
+import { Model, DataTypes } from 'sequelize';
+import { sequelize } from '../sequelize.js';
+
+// Refresh tokens are single use: each refresh revokes the presented token and issues a new one
+export class RefreshToken extends Model {
+  public id!: number;
+  public user_id!: number;
+  public token_hash!: string;
+  public expires_at!: Date;
+  public revoked_at!: Date | null;
+  public createdAt!: Date;
+  public updatedAt!: Date;
+}
+
+RefreshToken.init({
+  id: {
+    type: DataTypes.INTEGER,
+    autoIncrement: true,
+    primaryKey: true,
+  },
+  user_id: DataTypes.INTEGER,
+  token_hash: {
+    type: DataTypes.STRING,
+    allowNull: false,
+    unique: true,
+  },
+  expires_at: {
+    type: DataTypes.DATE,
+    allowNull: false,
+  },
+  revoked_at: DataTypes.DATE,
+}, {
+  sequelize,
+  modelName: 'RefreshToken',
+  tableName: 'RefreshTokens',
+});
@@ -0,0 +1,49 @@
+import { Model, DataTypes } from 'sequelize';
+import { sequelize } from '../sequelize.js';
+
+export class User extends Model {
+  public id!: number;
+  public username!: string;
+  public email!: string;
+  public password_hash!: string | null;
+  public role!: string;
+  public disabled!: boolean;
+  public createdAt!: Date;
+  public updatedAt!: Date;
+}
+
+User.init({
+  id: {
+    type: DataTypes.INTEGER,
+    autoIncrement: true,
+    primaryKey: true,
+  },
+  username: {
+    type: DataTypes.STRING,
+    allowNull: false,
+    unique: true,
+  },
+  email: {
+    type: DataTypes.STRING,
+    allowNull: false,
+    unique: true,
+  },
+  password_hash: {
+    type: DataTypes.STRING,
+    allowNull: true,
+  },
+  role: {
+    type: DataTypes.STRING,
+    allowNull: false,
+    defaultValue: 'viewer',
+  },
+  disabled: {
+    type: DataTypes.BOOLEAN,
+    allowNull: false,
+    defaultValue: false,
+  },
+}, {
+  sequelize,
+  modelName: 'User',
+  tableName: 'Users',
+});
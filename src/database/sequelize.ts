@@ -0,0 +1,10 @@
+import { Sequelize } from 'sequelize';
+import { config } from '../config/index.js';
+
+// Only used by the auth models. The tables behind them are created by migrations, never by sync().
+export const sequelize = new Sequelize(config.database.url, {
+  dialect: 'postgres',
+  logging: false,
+});
+
+export default sequelize;
@@ -1,39 +1,77 @@
 import express from 'express';
+import { z } from 'zod';
 // import RestApiService from './services/RestApiService.js';
 import ValidatorService from './services/ValidatorService.js';
 import BlockService from './services/BlockService.js';
 import AlertService from './services/AlertService.js';
+import NotificationService from './services/NotificationService.js';
+import MetricsService from './services/MetricsService.js';
 import ConsensusService from './services/ConsensusService.js';
 import PrimaryService from './services/PrimaryService.js';
 import api from './api/index.js';
+import { attachWebSocketStream } from './api/websocket.js';
 import logger from './utils/logger.js';
-import { sequelize, User, config, initDatabase } from './config/index.js';
-// import { authMiddleware } from './api/middleware/auth.js';
+import { httpMetricsMiddleware } from './utils/metrics.js';
+import { DEFAULT_JWT_SECRET, config } from './config/index.js';
+import { Migrator } from './database/Migrator.js';
+import AuthService from './services/AuthService.js';
+import WatchlistService from './services/WatchlistService.js';
+import CommitteeService from './services/CommitteeService.js';
+import RewardService from './services/RewardService.js';
+import RollupService from './services/RollupService.js';
+import LeaderboardService from './services/LeaderboardService.js';
+import TransactionService from './services/TransactionService.js';
+import AnalyticsService from './services/AnalyticsService.js';
+import MempoolService from './services/MempoolService.js';
+import NetworkService from './services/NetworkService.js';
+import { createPostgresRepositories } from './repositories/index.js';
+import { authMiddleware, requireRole } from './api/middleware/auth.js';
+import { documentedRouter } from './api/openapi.js';
+import { HeightParams, TransactionId } from './api/schemas/common.js';
+import { BlockSchema } from './api/schemas/blocks.js';
+import { jsonReplacer } from './utils/json.js';
 
 const app = express();
+app.set('json replacer', jsonReplacer);
 let port = process.env.PORT ? parseInt(process.env.PORT) : 4000;
 
 // Test the connection when the application starts
 
-logger.info(`Initializing AleoSDKService with URL: ${config.aleo.sdkUrl} and network type: ${config.aleo.networkType}`);
-const aleoSDKService = new AleoSDKService(config.aleo.sdkUrl, config.aleo.networkType as 'mainnet' | 'testnet');
+logger.info(`Initializing AleoSDKService in ${config.aleo.mode} mode with ${config.aleo.endpoints.length} upstream endpoint(s) and network type: ${config.aleo.networkType}`);
+const aleoSDKService = new AleoSDKService(config.aleo.endpoints, config.aleo.networkType as 'mainnet' | 'testnet');
 const snarkOSDBService = new SnarkOSDBService(config.database.url);
-const validatorService = new ValidatorService(aleoSDKService, snarkOSDBService);
-const blockService = new BlockService(aleoSDKService, snarkOSDBService);
+const repositories = createPostgresRepositories(snarkOSDBService);
+const validatorService = new ValidatorService(aleoSDKService, repositories.validators, repositories.committees, repositories.blocks);
+const rewardService = new RewardService(aleoSDKService, repositories.committees, repositories.validators);
+const blockService = new BlockService(aleoSDKService, repositories.blocks, repositories.checkpoints, rewardService);
+const rollupService = new RollupService(repositories.rollups, repositories.checkpoints, repositories.blocks);
+const leaderboardService = new LeaderboardService(repositories.rollups, repositories.validators, repositories.committees);
+const notificationService = new NotificationService(repositories.notifications);
+const alertService = new AlertService(repositories.alerts, repositories.validators, repositories.blocks, repositories.committees, aleoSDKService, notificationService);
+const metricsService = new MetricsService(repositories.validators, repositories.blocks, aleoSDKService);
+const authService = new AuthService();
+const watchlistService = new WatchlistService(repositories.watchlists, repositories.alerts, repositories.blocks, notificationService);
+const committeeService = new CommitteeService(repositories.committees);
+const transactionService = new TransactionService(repositories.transactions);
+const analyticsService = new AnalyticsService(repositories.analytics);
+const networkService = new NetworkService(repositories.blocks, repositories.network);
 const consensusService = new ConsensusService(aleoSDKService);
 const primaryService = new PrimaryService(aleoSDKService);
+const mempoolService = new MempoolService(primaryService, repositories.mempool);
 
-logger.info(`ConsensusService initialized with URL: ${config.aleo.sdkUrl}`);
+logger.info(`ConsensusService initialized with upstreams: ${config.aleo.endpoints.map(endpoint => endpoint.name).join(', ')}`);
 
 const MAX_RETRIES = 5;
 const RETRY_DELAY = 5000; // 5 seconds
 
-async function tryConnect(maxRetries = MAX_RETRIES, retryDelay = RETRY_DELAY) {
+// Each attempt already fails over across every configured upstream. When all of them stay
+// unreachable the monitor starts anyway: health checks keep probing and syncing resumes once one recovers.
+async function tryConnect(maxRetries = MAX_RETRIES, retryDelay = RETRY_DELAY): Promise<boolean> {
   for (let attempt = 1; attempt <= maxRetries; attempt++) {
     try {
       await consensusService.testConnection();
       logger.info('Successfully connected to the Aleo network.');
-      return;
+      return true;
     } catch (error) {
       logger.error(`Connection attempt ${attempt}/${maxRetries} failed:`, error);
       if (error instanceof Error) {
@@ -46,13 +84,37 @@ async function tryConnect(maxRetries = MAX_RETRIES, retryDelay = RETRY_DELAY) {
       }
     }
   }
-  logger.error('Maximum retry count reached. Terminating the application.');
-  process.exit(1);
+  logger.error('No upstream endpoint is reachable. Starting without a connection; see /api/upstreams.');
+  return false;
+}
+
+// The schema is owned by the migrations; the monitor never starts against a database that
+// is behind (or ahead of) the build.
+async function checkSchema(): Promise<void> {
+  const migrator = new Migrator(config.database.url);
+  try {
+    if (config.database.autoMigrate) {
+      const applied = await migrator.up();
+      logger.info(`Applied ${applied.length} pending migration(s)`);
+    }
+    await migrator.check();
+    logger.info('Database schema is up to date.');
+  } finally {
+    await migrator.close();
+  }
+}
+
+// Tokens signed with the public development secret could be forged by anyone
+function checkAuthConfig(): void {
+  if (process.env.NODE_ENV === 'production' && config.jwt.secret === DEFAULT_JWT_SECRET) {
+    throw new Error('JWT_SECRET must be set in production');
+  }
 }
 
 function startServer() {
-  app.listen(port, () => {
+  const server = app.listen(port, () => {
     logger.info(`Server is running on port ${port}`);
+    attachWebSocketStream(server);
   }).on('error', (error: NodeJS.ErrnoException) => {
     if (error.code === 'EADDRINUSE') {
       logger.warn(`Port ${port} is already in use. Trying a different port.`);
@@ -66,15 +128,24 @@ function startServer() {
 
 async function main() {
   try {
-    await initDatabase();
-    await snarkOSDBService.initializeDatabase();
+    checkAuthConfig();
+    await checkSchema();
+    if (config.auth.admin.username) {
+      await authService.ensureAdmin(config.auth.admin);
+    }
+    await aleoSDKService.checkUpstreams();
     await tryConnect();
     startServer();
 
+    // Periodic upstream health checks: heights, latency and block hash agreement
+    setInterval(async () => {
+      await aleoSDKService.checkUpstreams();
+    }, config.aleo.upstream.healthCheckIntervalSeconds * 1000);
+
     // Periodic validator update
     setInterval(async () => {
       await validatorService.updateValidators();
-    }, 60 * 60 * 1000); // Every hour
+    }, config.validators.updateIntervalSeconds * 1000);
 
     // Perform the first validator update immediately
     await validatorService.updateValidators();
@@ -82,7 +153,27 @@ async function main() {
     // Periodic block synchronization
     setInterval(async () => {
       await blockService.syncBlocks();
-    }, 5 * 60 * 1000); // Every 5 minutes
+    }, config.sync.intervalSeconds * 1000);
+
+    // Periodic rollup of synced blocks into hourly and daily validator aggregates
+    setInterval(async () => {
+      await rollupService.updateRollups();
+    }, config.rollups.intervalSeconds * 1000);
+
+    // Periodic pruning of data past its retention
+    setInterval(async () => {
+      await rollupService.applyRetention();
+    }, config.retention.intervalSeconds * 1000);
+
+    // Periodic alert rule evaluation
+    setInterval(async () => {
+      await alertService.evaluateRules();
+    }, config.alerts.evaluationIntervalSeconds * 1000);
+
+    // Periodic mempool sampling
+    setInterval(async () => {
+      await mempoolService.sample();
+    }, config.mempool.sampleIntervalSeconds * 1000);
 
     // Perform the first block synchronization immediately
     await blockService.syncBlocks();
@@ -98,19 +189,31 @@ main().catch(error => {
   process.exit(1);
 });
 
-app.use('/api', api(validatorService, blockService));
+app.use(httpMetricsMiddleware);
+
+const routes = documentedRouter(app, '', 'Node');
 
-app.get('/api/validators', async (req, res) => {
+routes.get('/metrics', {
+  summary: 'Prometheus metrics',
+  response: z.string(),
+  contentType: 'text/plain',
+}, async (req, res) => {
   try {
-    const validators = await snarkOSDBService.getValidators();
-    res.json(validators);
+    res.set('Content-Type', metricsService.contentType);
+    res.send(await metricsService.getMetrics());
   } catch (error) {
-    logger.error('Error occurred while fetching validator information:', error);
-    res.status(500).json({ error: 'Failed to fetch validator information' });
+    logger.error('Error occurred while rendering metrics:', error);
+    res.status(500).end();
   }
 });
 
-app.get('/api/consensus/round', async (req, res) => {
+app.use('/api', api(validatorService, blockService, alertService, notificationService, authService, watchlistService, committeeService, rewardService, rollupService, leaderboardService, transactionService, analyticsService, mempoolService, networkService, aleoSDKService));
+
+routes.get('/api/consensus/round', {
+  summary: 'Current consensus round',
+  response: z.object({ currentRound: z.number().int() }),
+  errors: [404],
+}, async (req, res) => {
   try {
     const currentRound = await consensusService.getCurrentRound();
     if (currentRound === null) {
@@ -124,7 +227,10 @@ app.get('/api/consensus/round', async (req, res) => {
   }
 });
 
-app.get('/api/consensus/committee', async (req, res) => {
+routes.get('/api/consensus/committee', {
+  summary: 'Current committee as reported by the node',
+  response: z.object({ committee: z.any() }),
+}, async (req, res) => {
   try {
     logger.info('Request received for /api/consensus/committee');
     const committee = await consensusService.getCommittee();
@@ -140,7 +246,10 @@ app.get('/api/consensus/committee', async (req, res) => {
   }
 });
 
-app.get('/api/primary/transmissions', async (req, res) => {
+routes.get('/api/primary/transmissions', {
+  summary: 'Unconfirmed transmissions collected from the node',
+  response: z.object({ transmissions: z.array(z.any()) }),
+}, async (req, res) => {
   try {
     const transmissions = await primaryService.collectTransmissions();
     res.json({ transmissions });
@@ -153,8 +262,16 @@ app.get('/api/primary/transmissions', async (req, res) => {
   }
 });
 
-// Test routes
-app.get('/api/test/latest-block', async (req, res) => {
+// Test routes (admin only)
+app.use('/api/test', authMiddleware(authService), requireRole('admin'));
+
+const testRoutes = documentedRouter(app, '', 'Test');
+
+testRoutes.get('/api/test/latest-block', {
+  summary: 'Latest block parsed from the node',
+  response: BlockSchema,
+  role: 'admin',
+}, async (req, res) => {
   try {
     const latestBlock = await aleoSDKService.getLatestBlock();
     res.json(latestBlock);
@@ -164,7 +281,11 @@ app.get('/api/test/latest-block', async (req, res) => {
   }
 });
 
-app.get('/api/test/latest-committee', async (req, res) => {
+testRoutes.get('/api/test/latest-committee', {
+  summary: 'Latest committee as returned by the node',
+  response: z.any(),
+  role: 'admin',
+}, async (req, res) => {
   try {
     const latestCommittee = await aleoSDKService.getLatestCommittee();
     res.json(latestCommittee);
@@ -174,7 +295,12 @@ app.get('/api/test/latest-committee', async (req, res) => {
   }
 });
 
-app.get('/api/test/block/:height', async (req, res) => {
+testRoutes.get('/api/test/block/:height', {
+  summary: 'Block at a height parsed from the node',
+  params: HeightParams,
+  response: BlockSchema,
+  role: 'admin',
+}, async (req, res) => {
   try {
     const height = parseInt(req.params.height);
     const block = await aleoSDKService.getBlock(height);
@@ -185,7 +311,12 @@ app.get('/api/test/block/:height', async (req, res) => {
   }
 });
 
-app.get('/api/test/transaction/:id', async (req, res) => {
+testRoutes.get('/api/test/transaction/:id', {
+  summary: 'Raw transaction from the node',
+  params: z.object({ id: TransactionId }),
+  response: z.any(),
+  role: 'admin',
+}, async (req, res) => {
   try {
     const transaction = await aleoSDKService.getTransaction(req.params.id);
     res.json(transaction);
@@ -195,7 +326,12 @@ app.get('/api/test/transaction/:id', async (req, res) => {
   }
 });
 
-app.get('/api/test/transactions/:height', async (req, res) => {
+testRoutes.get('/api/test/transactions/:height', {
+  summary: 'Raw transactions of a block from the node',
+  params: HeightParams,
+  response: z.any(),
+  role: 'admin',
+}, async (req, res) => {
   try {
     const height = parseInt(req.params.height);
     const transactions = await aleoSDKService.getTransactions(height);
@@ -206,22 +342,15 @@ app.get('/api/test/transactions/:height', async (req, res) => {
   }
 });
 
-// Database usage example
-app.get('/api/users', async (req, res) => {
-  try {
-    const users = await User.findAll();
-    res.json(users);
-  } catch (error) {
-    logger.error('Error occurred while fetching user information:', error);
-    res.status(500).json({ error: 'Failed to fetch user information' });
-  }
-});
-
 // Add below the existing imports
 import AleoSDKService from './services/AleoSDKService.js';
 
 // Add below other routes
-app.get('/api/test/latest-block-structure', async (req, res) => {
+testRoutes.get('/api/test/latest-block-structure', {
+  summary: 'Latest block parsed from the node',
+  response: BlockSchema,
+  role: 'admin',
+}, async (req, res) => {
   try {
     const latestBlock = await aleoSDKService.getLatestBlock();
     res.json(latestBlock);
@@ -235,7 +364,11 @@ app.get('/api/test/latest-block-structure', async (req, res) => {
 import { SnarkOSDBService } from './services/SnarkOSDBService.js';
 
 // Add next to other routes
-app.get('/api/test/database', async (req, res) => {
+testRoutes.get('/api/test/database', {
+  summary: 'Run database test operations',
+  response: z.object({ message: z.string() }),
+  role: 'admin',
+}, async (req, res) => {
   try {
     const snarkOSDBService = new SnarkOSDBService(config.database.url);
     await snarkOSDBService.testDatabaseOperations();
@@ -247,7 +380,11 @@ app.get('/api/test/database', async (req, res) => {
 });
 
 // Raw latest block endpoint
-app.get('/api/test/raw-latest-block', async (req, res) => {
+testRoutes.get('/api/test/raw-latest-block', {
+  summary: 'Latest block as returned by the node',
+  response: z.any(),
+  role: 'admin',
+}, async (req, res) => {
   try {
     const latestBlock = await aleoSDKService.getRawLatestBlock();
     res.json(latestBlock);
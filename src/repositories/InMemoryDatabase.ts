@@ -0,0 +1,1382 @@
+import { recordedSigners } from '../utils/signatures.js';
+import { Block, BlockListFilter } from '../types/Block.js';
+import { Reorg } from '../types/Sync.js';
+import { ValidatorListFilter } from '../types/Validator.js';
+import { TransactionFilter } from '../types/Transaction.js';
+import { CommitteeMember, CommitteeSnapshot, CommitteeSnapshotFilter } from '../types/Committee.js';
+import { Alert, AlertRule, AlertRuleInput, AlertStatus } from '../types/Alert.js';
+import { ProgramDeployment } from '../types/Analytics.js';
+import { MempoolSnapshot, MempoolTransaction } from '../types/Mempool.js';
+import { NETWORK_SERIES_BUCKETS, NetworkSeriesBucket } from '../types/Network.js';
+import { NotificationChannel, NotificationChannelInput, NotificationDelivery } from '../types/Notification.js';
+import { WatchlistEntry, WatchlistSubscription } from '../types/Watchlist.js';
+import {
+  AlertRepository,
+  AnalyticsRepository,
+  BlockRecord,
+  BlockRepository,
+  CheckpointRepository,
+  CommitteeRepository,
+  MempoolReconciliation,
+  MempoolRepository,
+  MempoolStatsRecord,
+  NetworkRepository,
+  NetworkStatsRow,
+  NotificationDeliveryInput,
+  NotificationRepository,
+  ProgramUsageFilter,
+  ProgramUsageRow,
+  PrunedRows,
+  RecentAlertRow,
+  Repositories,
+  RollupRepository,
+  RoundParticipation,
+  StakeHistoryRow,
+  TransactionDetail,
+  TransactionRecord,
+  TransactionRepository,
+  ValidatorListRow,
+  ValidatorRecord,
+  ValidatorRepository,
+  ValidatorRewardRow,
+  ValidatorRollupRecord,
+  ValidatorRollupTotals,
+  ValidatorState,
+  WatchlistRepository,
+  WatchlistRow,
+} from '../types/Repository.js';
+
+interface CertificateRow {
+  round: number;
+  author: string;
+  block_height: number;
+  signature_count: number;
+  // null when the certificate was stored without its signers
+  signers: string[] | null;
+}
+
+interface TransitionRow {
+  id: string;
+  transaction_id: string;
+  position: number;
+  program_id: string;
+  function_name: string;
+  is_fee: boolean;
+}
+
+interface RewardRow {
+  height: number;
+  address: string;
+  stake: bigint;
+  stake_share: number;
+  gross_reward: bigint;
+  commission_reward: bigint;
+  delegator_reward: bigint;
+}
+
+interface RollupRow {
+  granularity: 'hour' | 'day';
+  // Unix seconds of the bucket start
+  bucket: number;
+  address: string;
+  blocks_authored: number;
+  rounds_observed: number;
+  rounds_participated: number;
+  signatures_given: number;
+  signatures_expected: number;
+  gross_reward: bigint;
+  commission_reward: bigint;
+  delegator_reward: bigint;
+  stake: bigint | null;
+  // Height the stake was taken at, or for day rows the hour bucket it came from
+  stake_at: number;
+}
+
+interface WatchlistEntryRow extends WatchlistEntry {
+  user_id: number;
+}
+
+const DEFAULT_COOLDOWN_SECONDS = 300;
+const HOUR_SECONDS = 3600;
+const DAY_SECONDS = 86400;
+
+// Postgres percentile_cont: linear interpolation between the closest ranks
+function percentile(values: number[], fraction: number): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const position = fraction * (sorted.length - 1);
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+const average = (values: number[]): number | null =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+
+// Start of the UTC date_trunc bucket holding the unix timestamp
+const truncate = (timestamp: number, bucket: NetworkSeriesBucket): number =>
+  Math.floor(timestamp / NETWORK_SERIES_BUCKETS[bucket]) * NETWORK_SERIES_BUCKETS[bucket];
+
+// Keeps every repository's data in process memory with the same semantics as the Postgres
+// implementation (cascades, counters, keyset pagination, row shapes), for unit tests and local runs.
+// Records are copied on the way in and out, like rows read back from a database.
+export class InMemoryDatabase implements BlockRepository, ValidatorRepository, TransactionRepository,
+  CommitteeRepository, CheckpointRepository, AlertRepository, RollupRepository, NotificationRepository,
+  WatchlistRepository, AnalyticsRepository, NetworkRepository, MempoolRepository {
+  private validators = new Map<string, ValidatorRecord>();
+  private blocks = new Map<number, BlockRecord>();
+  private certificates = new Map<string, CertificateRow>();
+  private transactions = new Map<string, TransactionRecord>();
+  private transitions = new Map<string, TransitionRow>();
+  private rewards: RewardRow[] = [];
+  private checkpoints = new Map<string, number>();
+  private reorgs: Reorg[] = [];
+  private snapshots: CommitteeSnapshot[] = [];
+  private members = new Map<number, CommitteeMember[]>();
+  private alertRules: AlertRule[] = [];
+  private alerts: Alert[] = [];
+  private rollups = new Map<string, RollupRow>();
+  private channels: NotificationChannel[] = [];
+  private deliveries: NotificationDelivery[] = [];
+  private watchlist: WatchlistEntryRow[] = [];
+  private subscriptions: WatchlistSubscription[] = [];
+  private mempoolTransactions = new Map<string, MempoolTransaction>();
+  private mempoolSnapshots: MempoolSnapshot[] = [];
+  private nextIds = { reorg: 1, snapshot: 1, alertRule: 1, alert: 1, channel: 1, delivery: 1, subscription: 1, mempoolSnapshot: 1 };
+
+  // Blocks
+
+  async saveBlocks(blocks: Block[], checkpointName: string = 'blocks'): Promise<void> {
+    if (blocks.length === 0) return;
+    for (const block of blocks) {
+      const height = block.height!;
+      if (this.blocks.has(height)) continue;
+      const timestamp = block.timestamp ? Math.floor(new Date(block.timestamp).getTime() / 1000) : 0;
+
+      this.blocks.set(height, {
+        height: String(height),
+        hash: block.hash!,
+        previous_hash: block.previous_hash ?? null,
+        timestamp: String(timestamp),
+        transactions_count: block.transactions.length,
+        validator_address: block.validator_address ?? null,
+        total_fees: block.total_fees?.toString() ?? null,
+        block_reward: block.rewards.block_reward.toString(),
+        puzzle_reward: block.rewards.puzzle_reward.toString(),
+        priority_fees: block.rewards.priority_fees.toString(),
+      });
+
+      for (const certificate of block.certificates) {
+        const key = `${certificate.round}:${certificate.author}`;
+        if (this.certificates.has(key)) continue;
+        this.certificates.set(key, {
+          round: certificate.round,
+          author: certificate.author,
+          block_height: height,
+          signature_count: certificate.signatures.length,
+          signers: recordedSigners(certificate)?.slice() ?? null,
+        });
+      }
+
+      for (const transaction of block.transaction_summaries) {
+        if (this.transactions.has(transaction.id)) continue;
+        this.transactions.set(transaction.id, {
+          id: transaction.id,
+          block_height: String(height),
+          position: transaction.position,
+          type: transaction.type,
+          status: transaction.status,
+          base_fee: transaction.base_fee.toString(),
+          priority_fee: transaction.priority_fee.toString(),
+          fee: (transaction.base_fee + transaction.priority_fee).toString(),
+          program_ids: [...transaction.program_ids],
+          function_names: [...transaction.function_names],
+          transition_count: transaction.transitions.length,
+          timestamp: String(timestamp),
+          fee_payer: transaction.fee_payer,
+          deployed_program: transaction.deployed_program,
+        });
+        for (const [position, transition] of transaction.transitions.entries()) {
+          if (this.transitions.has(transition.id)) continue;
+          this.transitions.set(transition.id, {
+            id: transition.id,
+            transaction_id: transaction.id,
+            position,
+            program_id: transition.program_id,
+            function_name: transition.function_name,
+            is_fee: transition.is_fee,
+          });
+        }
+      }
+
+      for (const reward of block.validator_rewards || []) {
+        this.rewards.push({
+          height,
+          address: reward.address,
+          stake: reward.stake,
+          stake_share: reward.stake_share,
+          gross_reward: reward.gross_reward,
+          commission_reward: reward.commission_reward,
+          delegator_reward: reward.delegator_reward,
+        });
+        const validator = this.validators.get(reward.address);
+        if (validator) validator.total_rewards = (BigInt(validator.total_rewards) + reward.gross_reward).toString();
+      }
+
+      const producer = block.validator_address ? this.validators.get(block.validator_address) : undefined;
+      if (producer) {
+        producer.total_blocks_produced += 1;
+        producer.last_seen = new Date(timestamp * 1000);
+      }
+    }
+
+    const lastHeight = Math.max(...blocks.map(block => block.height ?? 0));
+    this.checkpoints.set(checkpointName, Math.max(this.checkpoints.get(checkpointName) ?? lastHeight, lastHeight));
+  }
+
+  async rollbackToHeight(ancestorHeight: number, newHashes: string[], checkpointName: string = 'blocks'): Promise<Reorg> {
+    for (const reward of this.rewards.filter(reward => reward.height > ancestorHeight)) {
+      const validator = this.validators.get(reward.address);
+      if (validator) validator.total_rewards = (BigInt(validator.total_rewards) - reward.gross_reward).toString();
+    }
+    this.rewards = this.rewards.filter(reward => reward.height <= ancestorHeight);
+
+    const orphaned = [...this.blocks.values()]
+      .filter(block => Number(block.height) > ancestorHeight)
+      .sort((a, b) => Number(a.height) - Number(b.height));
+    for (const block of orphaned) {
+      this.blocks.delete(Number(block.height));
+      const producer = block.validator_address ? this.validators.get(block.validator_address) : undefined;
+      if (producer) producer.total_blocks_produced -= 1;
+    }
+    for (const [key, certificate] of this.certificates) {
+      if (certificate.block_height > ancestorHeight) this.certificates.delete(key);
+    }
+    for (const [id, transaction] of this.transactions) {
+      if (Number(transaction.block_height) > ancestorHeight) this.transactions.delete(id);
+    }
+    for (const [id, transition] of this.transitions) {
+      if (!this.transactions.has(transition.transaction_id)) this.transitions.delete(id);
+    }
+
+    if (this.checkpoints.has(checkpointName)) this.checkpoints.set(checkpointName, ancestorHeight);
+    const reorg: Reorg = {
+      id: this.nextIds.reorg++,
+      detected_at: new Date().toISOString(),
+      common_ancestor_height: ancestorHeight,
+      depth: orphaned.length,
+      old_hashes: orphaned.map(block => block.hash),
+      new_hashes: [...newHashes],
+    };
+    this.reorgs.push(reorg);
+    return { ...reorg };
+  }
+
+  async getBlockHash(height: number): Promise<string | null> {
+    return this.blocks.get(height)?.hash ?? null;
+  }
+
+  async getLatestBlockHeight(): Promise<number> {
+    return this.blocks.size > 0 ? Math.max(...this.blocks.keys()) : 0;
+  }
+
+  async getLatestBlockTimestamp(): Promise<number | null> {
+    return this.blocks.size > 0 ? Math.max(...[...this.blocks.values()].map(block => Number(block.timestamp))) : null;
+  }
+
+  async getLatestRound(): Promise<number | null> {
+    return this.certificates.size > 0 ? Math.max(...[...this.certificates.values()].map(c => c.round)) : null;
+  }
+
+  async listBlocks(filter: BlockListFilter): Promise<{ rows: BlockRecord[], total: number }> {
+    const from = filter.from ? Math.floor(filter.from.getTime() / 1000) : undefined;
+    const to = filter.to ? Math.floor(filter.to.getTime() / 1000) : undefined;
+    const matching = [...this.blocks.values()].filter(block => {
+      const height = Number(block.height);
+      const timestamp = Number(block.timestamp);
+      return (filter.fromHeight === undefined || height >= filter.fromHeight)
+        && (filter.toHeight === undefined || height <= filter.toHeight)
+        && (from === undefined || timestamp >= from)
+        && (to === undefined || timestamp <= to)
+        && (!filter.validator || block.validator_address === filter.validator)
+        && (filter.minTransactions === undefined || block.transactions_count >= filter.minTransactions);
+    });
+
+    const direction = filter.order === 'desc' ? -1 : 1;
+    const rows = matching
+      .filter(block => filter.afterHeight === undefined || direction * (Number(block.height) - filter.afterHeight) > 0)
+      .sort((a, b) => direction * (Number(a.height) - Number(b.height)))
+      .slice(0, filter.limit + 1)
+      .map(block => ({ ...block }));
+    return { rows, total: matching.length };
+  }
+
+  async getReorgs(limit: number): Promise<Reorg[]> {
+    return [...this.reorgs].reverse().slice(0, limit).map(reorg => ({ ...reorg }));
+  }
+
+  async getRoundParticipation(address: string, windowRounds: number): Promise<RoundParticipation> {
+    return (await this.getRoundParticipationByAddress([address], windowRounds)).get(address)!;
+  }
+
+  async getRoundParticipationByAddress(addresses: string[], windowRounds: number): Promise<Map<string, RoundParticipation>> {
+    const toRound = await this.getLatestRound();
+    if (toRound === null) {
+      return new Map(addresses.map(address => [address, { fromRound: null, toRound: null, roundsObserved: 0, roundsParticipated: 0, signatureRate: null }]));
+    }
+    const oldestRound = Math.min(...[...this.certificates.values()].map(c => c.round));
+    const fromRound = Math.max(toRound - windowRounds + 1, oldestRound);
+    const inWindow = [...this.certificates.values()].filter(c => c.round >= fromRound && c.round <= toRound);
+    const rounds = this.certificatesByRound(inWindow);
+
+    return new Map(addresses.map(address => {
+      const own = inWindow.filter(c => c.author === address);
+      let given = 0;
+      let expected = 0;
+      for (const certificate of own) {
+        const signatures = this.signaturesGiven(address, rounds.get(certificate.round)!);
+        given += signatures.given;
+        expected += signatures.expected;
+      }
+      return [address, {
+        fromRound: Math.max(fromRound, 0),
+        toRound,
+        roundsObserved: rounds.size,
+        roundsParticipated: own.length,
+        signatureRate: expected > 0 ? given / expected : null,
+      }];
+    }));
+  }
+
+  private certificatesByRound(certificates: Iterable<CertificateRow>): Map<number, CertificateRow[]> {
+    const rounds = new Map<number, CertificateRow[]>();
+    for (const certificate of certificates) {
+      const round = rounds.get(certificate.round) ?? [];
+      round.push(certificate);
+      rounds.set(certificate.round, round);
+    }
+    return rounds;
+  }
+
+  // The other authors' certificates in one round that `address` signed, out of those with recorded signers
+  private signaturesGiven(address: string, roundCertificates: CertificateRow[]): { given: number, expected: number } {
+    const others = roundCertificates.filter(c => c.author !== address && c.signers !== null);
+    return { given: others.filter(c => c.signers!.includes(address)).length, expected: others.length };
+  }
+
+  // Validators
+
+  async getValidators(): Promise<ValidatorRecord[]> {
+    return [...this.validators.values()].map(validator => ({ ...validator }));
+  }
+
+  async getValidator(address: string): Promise<ValidatorRecord | null> {
+    const validator = this.validators.get(address);
+    return validator ? { ...validator } : null;
+  }
+
+  async upsertValidator(state: ValidatorState): Promise<void> {
+    const existing = this.validators.get(state.address);
+    this.validators.set(state.address, {
+      address: state.address,
+      stake: String(state.stake),
+      is_active: state.is_active,
+      bonded: String(state.bonded),
+      previous_stake: existing ? existing.stake : null,
+      last_seen: new Date(),
+      total_blocks_produced: existing?.total_blocks_produced ?? 0,
+      total_rewards: existing?.total_rewards ?? '0',
+    });
+  }
+
+  async deactivateValidatorsExcept(addresses: string[]): Promise<void> {
+    const keep = new Set(addresses);
+    for (const validator of this.validators.values()) {
+      if (!keep.has(validator.address)) validator.is_active = false;
+    }
+  }
+
+  async listValidators(filter: ValidatorListFilter): Promise<{ rows: ValidatorListRow[], total: number }> {
+    const latestRound = await this.getLatestRound();
+    const fromRound = latestRound !== null ? latestRound - filter.windowRounds + 1 : null;
+    const inWindow = fromRound !== null ? [...this.certificates.values()].filter(c => c.round >= fromRound) : [];
+    const observed = new Set(inWindow.map(c => c.round)).size;
+    const participated = new Map<string, number>();
+    for (const certificate of inWindow) {
+      participated.set(certificate.author, (participated.get(certificate.author) ?? 0) + 1);
+    }
+
+    const matching = [...this.validators.values()].filter(v => filter.isActive === undefined || v.is_active === filter.isActive);
+    const ranked: ValidatorListRow[] = matching.map(validator => {
+      const participation = observed > 0 ? (participated.get(validator.address) ?? 0) / observed : 0;
+      const sortValues: Record<ValidatorListFilter['sort'], string | number> = {
+        stake: validator.stake ?? '0',
+        blocks_produced: validator.total_blocks_produced ?? 0,
+        participation,
+      };
+      return { ...validator, participation, sort_value: sortValues[filter.sort] };
+    });
+
+    const compareValues = (a: string | number, b: string | number) => {
+      if (filter.sort === 'stake') {
+        const difference = BigInt(a) - BigInt(b);
+        return difference === BigInt(0) ? 0 : difference > BigInt(0) ? 1 : -1;
+      }
+      return Number(a) - Number(b);
+    };
+    const compareRows = (a: { sort_value: string | number, address: string }, b: { value: string | number, address: string }) =>
+      compareValues(a.sort_value, b.value) || (a.address < b.address ? -1 : a.address > b.address ? 1 : 0);
+
+    const direction = filter.order === 'desc' ? -1 : 1;
+    const rows = ranked
+      .filter(row => !filter.after || direction * compareRows(row, filter.after) > 0)
+      .sort((a, b) => direction * compareRows(a, { value: b.sort_value, address: b.address }))
+      .slice(0, filter.limit + 1);
+    return { rows, total: matching.length };
+  }
+
+  async getValidatorRewards(
+    address: string,
+    granularity: 'day' | 'epoch',
+    epochBlocks: number,
+    from?: Date,
+    to?: Date
+  ): Promise<ValidatorRewardRow[]> {
+    const fromSeconds = from ? Math.floor(from.getTime() / 1000) : undefined;
+    const toSeconds = to ? Math.floor(to.getTime() / 1000) : undefined;
+    const buckets = new Map<string, RewardRow[]>();
+    const rewards = this.rewards
+      .filter(reward => reward.address === address && this.blocks.has(reward.height))
+      .sort((a, b) => a.height - b.height);
+
+    for (const reward of rewards) {
+      const timestamp = Number(this.blocks.get(reward.height)!.timestamp);
+      if ((fromSeconds !== undefined && timestamp < fromSeconds) || (toSeconds !== undefined && timestamp > toSeconds)) continue;
+      const bucket = granularity === 'day'
+        ? new Date(timestamp * 1000).toISOString().slice(0, 10)
+        : String(Math.floor(reward.height / epochBlocks));
+      buckets.set(bucket, [...(buckets.get(bucket) ?? []), reward]);
+    }
+
+    const sum = (rows: RewardRow[], key: 'gross_reward' | 'commission_reward' | 'delegator_reward') =>
+      rows.reduce((total, row) => total + row[key], BigInt(0)).toString();
+    return [...buckets.entries()].map(([bucket, rows]) => ({
+      bucket,
+      from_height: String(rows[0].height),
+      to_height: String(rows[rows.length - 1].height),
+      blocks: String(rows.length),
+      gross_reward: sum(rows, 'gross_reward'),
+      commission_reward: sum(rows, 'commission_reward'),
+      delegator_reward: sum(rows, 'delegator_reward'),
+      average_stake_share: rows.reduce((total, row) => total + row.stake_share, 0) / rows.length,
+    }));
+  }
+
+  // Transactions
+
+  async getTransaction(id: string): Promise<TransactionDetail | null> {
+    const transaction = this.transactions.get(id);
+    if (!transaction) return null;
+    const transitions = [...this.transitions.values()]
+      .filter(transition => transition.transaction_id === id)
+      .sort((a, b) => a.position - b.position)
+      .map(({ id, program_id, function_name, is_fee }) => ({ id, program_id, function_name, is_fee }));
+    return { ...transaction, transitions };
+  }
+
+  async getBlockTransactions(height: number): Promise<TransactionRecord[]> {
+    return [...this.transactions.values()]
+      .filter(transaction => Number(transaction.block_height) === height)
+      .sort((a, b) => a.position - b.position)
+      .map(transaction => ({ ...transaction }));
+  }
+
+  async getTransactions(filter: TransactionFilter): Promise<TransactionRecord[]> {
+    const from = filter.from ? Math.floor(filter.from.getTime() / 1000) : undefined;
+    const to = filter.to ? Math.floor(filter.to.getTime() / 1000) : undefined;
+    const transitions = [...this.transitions.values()];
+
+    return [...this.transactions.values()]
+      .filter(transaction => {
+        if (filter.function) {
+          const called = transitions.some(t => t.transaction_id === transaction.id && t.function_name === filter.function
+            && (!filter.program || t.program_id === filter.program));
+          if (!called) return false;
+        } else if (filter.program && !transaction.program_ids.includes(filter.program)) {
+          return false;
+        }
+        const timestamp = transaction.timestamp !== null ? Number(transaction.timestamp) : null;
+        if (from !== undefined && (timestamp === null || timestamp < from)) return false;
+        if (to !== undefined && (timestamp === null || timestamp > to)) return false;
+        return true;
+      })
+      .sort((a, b) => Number(b.block_height) - Number(a.block_height) || b.position - a.position)
+      .slice(0, filter.limit)
+      .map(transaction => ({ ...transaction }));
+  }
+
+  // Committees
+
+  async insertCommitteeSnapshot(committee: any, blockHeight: number): Promise<CommitteeSnapshot> {
+    const members = Object.entries(committee.members || {});
+    const snapshot: CommitteeSnapshot = {
+      id: this.nextIds.snapshot++,
+      committee_id: committee.id ?? null,
+      starting_round: committee.starting_round ?? null,
+      block_height: blockHeight,
+      total_stake: committee.total_stake !== undefined && committee.total_stake !== null ? String(committee.total_stake) : null,
+      member_count: members.length,
+      fetched_at: new Date(),
+    };
+    this.snapshots.push(snapshot);
+    this.members.set(snapshot.id, members.map(([address, data]) => {
+      const [stake, isActive, bonded] = data as [number, boolean, number];
+      return {
+        address,
+        stake: String(stake),
+        is_active: isActive ?? null,
+        bonded: bonded !== undefined && bonded !== null ? String(bonded) : null,
+      };
+    }));
+    return { ...snapshot };
+  }
+
+  private snapshotsInRange(from?: Date, to?: Date): CommitteeSnapshot[] {
+    return this.snapshots
+      .filter(snapshot => (!from || snapshot.fetched_at >= from) && (!to || snapshot.fetched_at <= to))
+      .sort((a, b) => a.fetched_at.getTime() - b.fetched_at.getTime() || a.id - b.id);
+  }
+
+  async listCommitteeSnapshots(filter: CommitteeSnapshotFilter): Promise<{ rows: CommitteeSnapshot[], total: number }> {
+    const matching = this.snapshotsInRange(filter.from, filter.to).sort((a, b) => a.id - b.id);
+    if (filter.order === 'desc') matching.reverse();
+    const rows = matching
+      .filter(snapshot => filter.afterId === undefined || (filter.order === 'desc' ? snapshot.id < filter.afterId : snapshot.id > filter.afterId))
+      .slice(0, filter.limit + 1)
+      .map(snapshot => ({ ...snapshot }));
+    return { rows, total: matching.length };
+  }
+
+  async getCommitteeSnapshotAtHeight(height: number): Promise<CommitteeSnapshot | null> {
+    const snapshot = this.snapshots
+      .filter(candidate => candidate.block_height <= height)
+      .sort((a, b) => b.block_height - a.block_height || b.id - a.id)[0];
+    return snapshot ? { ...snapshot } : null;
+  }
+
+  async getPreviousCommitteeSnapshot(snapshotId: number): Promise<CommitteeSnapshot | null> {
+    const snapshot = this.snapshots.filter(candidate => candidate.id < snapshotId).sort((a, b) => b.id - a.id)[0];
+    return snapshot ? { ...snapshot } : null;
+  }
+
+  async getCommitteeMembers(snapshotIds: number[]): Promise<Map<number, CommitteeMember[]>> {
+    return new Map(snapshotIds.map(id => [
+      id,
+      (this.members.get(id) ?? [])
+        .map(member => ({ ...member }))
+        .sort((a, b) => (BigInt(b.stake) > BigInt(a.stake) ? 1 : BigInt(b.stake) < BigInt(a.stake) ? -1 : 0)),
+    ]));
+  }
+
+  async getValidatorStakeHistory(address: string, from?: Date, to?: Date): Promise<StakeHistoryRow[]> {
+    return this.snapshotsInRange(from, to).map(snapshot => {
+      const member = this.members.get(snapshot.id)?.find(candidate => candidate.address === address);
+      return {
+        snapshot_id: snapshot.id,
+        committee_id: snapshot.committee_id,
+        block_height: String(snapshot.block_height),
+        fetched_at: snapshot.fetched_at,
+        stake: member?.stake ?? null,
+        is_active: member?.is_active ?? null,
+        bonded: member?.bonded ?? null,
+      };
+    });
+  }
+
+  async getCommitteeMemberSince(addresses: string[], at: Date): Promise<Map<string, Date>> {
+    const snapshots = this.snapshotsInRange(undefined, at);
+    const since = new Map<string, Date>();
+    for (const address of addresses) {
+      for (const snapshot of snapshots) {
+        if (this.members.get(snapshot.id)?.some(member => member.address === address)) {
+          if (!since.has(address)) since.set(address, snapshot.fetched_at);
+        } else {
+          since.delete(address);
+        }
+      }
+    }
+    return since;
+  }
+
+  // Rollups
+
+  private rollupRow(granularity: 'hour' | 'day', bucket: number, address: string): RollupRow {
+    const key = `${granularity}:${address}:${bucket}`;
+    let row = this.rollups.get(key);
+    if (!row) {
+      row = {
+        granularity,
+        bucket,
+        address,
+        blocks_authored: 0,
+        rounds_observed: 0,
+        rounds_participated: 0,
+        signatures_given: 0,
+        signatures_expected: 0,
+        gross_reward: BigInt(0),
+        commission_reward: BigInt(0),
+        delegator_reward: BigInt(0),
+        stake: null,
+        stake_at: -1,
+      };
+      this.rollups.set(key, row);
+    }
+    return row;
+  }
+
+  async rebuildRollups(fromHeight: number): Promise<number> {
+    const timestamps = [...this.blocks.values()].filter(block => Number(block.height) >= fromHeight).map(block => Number(block.timestamp));
+    if (timestamps.length === 0) return 0;
+    const hourStart = Math.floor(Math.min(...timestamps) / HOUR_SECONDS) * HOUR_SECONDS;
+    const dayStart = Math.floor(hourStart / DAY_SECONDS) * DAY_SECONDS;
+
+    for (const [key, row] of this.rollups) {
+      if (row.bucket >= (row.granularity === 'hour' ? hourStart : dayStart)) this.rollups.delete(key);
+    }
+
+    const bucketOf = new Map<number, number>();
+    for (const block of this.blocks.values()) {
+      const timestamp = Number(block.timestamp);
+      if (timestamp < hourStart) continue;
+      const bucket = Math.floor(timestamp / HOUR_SECONDS) * HOUR_SECONDS;
+      bucketOf.set(Number(block.height), bucket);
+      if (block.validator_address) this.rollupRow('hour', bucket, block.validator_address).blocks_authored += 1;
+    }
+
+    const rounds = new Map<number, { bucket: number, certificates: CertificateRow[] }>();
+    for (const certificate of this.certificates.values()) {
+      const bucket = bucketOf.get(certificate.block_height);
+      if (bucket === undefined) continue;
+      const round = rounds.get(certificate.round) ?? { bucket, certificates: [] };
+      round.bucket = Math.min(round.bucket, bucket);
+      round.certificates.push(certificate);
+      rounds.set(certificate.round, round);
+    }
+    const observed = new Map<number, number>();
+    for (const { bucket } of rounds.values()) observed.set(bucket, (observed.get(bucket) ?? 0) + 1);
+    const allRounds = this.certificatesByRound(this.certificates.values());
+    for (const [round, { bucket, certificates }] of rounds) {
+      for (const certificate of certificates) {
+        const row = this.rollupRow('hour', bucket, certificate.author);
+        const signatures = this.signaturesGiven(certificate.author, allRounds.get(round)!);
+        row.rounds_participated += 1;
+        row.signatures_given += signatures.given;
+        row.signatures_expected += signatures.expected;
+      }
+    }
+
+    for (const reward of this.rewards) {
+      const bucket = bucketOf.get(reward.height);
+      if (bucket === undefined) continue;
+      const row = this.rollupRow('hour', bucket, reward.address);
+      row.gross_reward += reward.gross_reward;
+      row.commission_reward += reward.commission_reward;
+      row.delegator_reward += reward.delegator_reward;
+      if (reward.height > row.stake_at) {
+        row.stake = reward.stake;
+        row.stake_at = reward.height;
+      }
+    }
+
+    const hours = [...this.rollups.values()].filter(row => row.granularity === 'hour' && row.bucket >= hourStart);
+    for (const row of hours) row.rounds_observed = observed.get(row.bucket) ?? 0;
+
+    for (const hour of [...this.rollups.values()].filter(row => row.granularity === 'hour' && row.bucket >= dayStart)) {
+      const day = this.rollupRow('day', Math.floor(hour.bucket / DAY_SECONDS) * DAY_SECONDS, hour.address);
+      day.blocks_authored += hour.blocks_authored;
+      day.rounds_observed += hour.rounds_observed;
+      day.rounds_participated += hour.rounds_participated;
+      day.signatures_given += hour.signatures_given;
+      day.signatures_expected += hour.signatures_expected;
+      day.gross_reward += hour.gross_reward;
+      day.commission_reward += hour.commission_reward;
+      day.delegator_reward += hour.delegator_reward;
+      if (hour.stake !== null && hour.bucket > day.stake_at) {
+        day.stake = hour.stake;
+        day.stake_at = hour.bucket;
+      }
+    }
+    return hours.length;
+  }
+
+  async getValidatorRollups(address: string, granularity: 'hour' | 'day', from?: Date, to?: Date): Promise<ValidatorRollupRecord[]> {
+    const fromSeconds = from ? from.getTime() / 1000 : undefined;
+    const toSeconds = to ? to.getTime() / 1000 : undefined;
+    return [...this.rollups.values()]
+      .filter(row => row.granularity === granularity && row.address === address
+        && (fromSeconds === undefined || row.bucket >= fromSeconds)
+        && (toSeconds === undefined || row.bucket <= toSeconds))
+      .sort((a, b) => a.bucket - b.bucket)
+      .map(row => ({
+        bucket: new Date(row.bucket * 1000),
+        address: row.address,
+        blocks_authored: row.blocks_authored,
+        rounds_observed: row.rounds_observed,
+        rounds_participated: row.rounds_participated,
+        signatures_given: String(row.signatures_given),
+        signatures_expected: String(row.signatures_expected),
+        gross_reward: row.gross_reward.toString(),
+        commission_reward: row.commission_reward.toString(),
+        delegator_reward: row.delegator_reward.toString(),
+        stake: row.stake !== null ? row.stake.toString() : null,
+      }));
+  }
+
+  async getRollupTotals(granularity: 'hour' | 'day', from: Date, to: Date): Promise<{ roundsObserved: number, validators: ValidatorRollupTotals[] }> {
+    const fromSeconds = from.getTime() / 1000;
+    const toSeconds = to.getTime() / 1000;
+    const rows = [...this.rollups.values()]
+      .filter(row => row.granularity === granularity && row.bucket >= fromSeconds && row.bucket < toSeconds)
+      .sort((a, b) => a.bucket - b.bucket);
+
+    const observed = new Map<number, number>();
+    for (const row of rows) observed.set(row.bucket, Math.max(observed.get(row.bucket) ?? 0, row.rounds_observed));
+
+    const totals = new Map<string, ValidatorRollupTotals>();
+    for (const row of rows) {
+      const total = totals.get(row.address) ?? {
+        address: row.address,
+        blocks_authored: '0',
+        rounds_participated: '0',
+        signatures_given: '0',
+        signatures_expected: '0',
+        gross_reward: '0',
+        commission_reward: '0',
+        delegator_reward: '0',
+        stake: null,
+      };
+      const add = (value: string, amount: number | bigint) => (BigInt(value) + BigInt(amount)).toString();
+      total.blocks_authored = add(total.blocks_authored, row.blocks_authored);
+      total.rounds_participated = add(total.rounds_participated, row.rounds_participated);
+      total.signatures_given = add(total.signatures_given, row.signatures_given);
+      total.signatures_expected = add(total.signatures_expected, row.signatures_expected);
+      total.gross_reward = add(total.gross_reward, row.gross_reward);
+      total.commission_reward = add(total.commission_reward, row.commission_reward);
+      total.delegator_reward = add(total.delegator_reward, row.delegator_reward);
+      // Rows are in bucket order, so the last stake seen is the latest
+      if (row.stake !== null) total.stake = row.stake.toString();
+      totals.set(row.address, total);
+    }
+    return {
+      roundsObserved: [...observed.values()].reduce((sum, rounds) => sum + rounds, 0),
+      validators: [...totals.values()].sort((a, b) => (a.address < b.address ? -1 : a.address > b.address ? 1 : 0)),
+    };
+  }
+
+  async pruneRawData(before: Date, belowHeight: number): Promise<PrunedRows> {
+    const beforeSeconds = Math.floor(before.getTime() / 1000);
+    const pruned = [...this.blocks.values()]
+      .filter(block => Number(block.timestamp) < beforeSeconds && Number(block.height) < belowHeight)
+      .map(block => Number(block.height));
+    const heights = new Set(pruned);
+    for (const height of heights) this.blocks.delete(height);
+    for (const [key, certificate] of this.certificates) {
+      if (heights.has(certificate.block_height)) this.certificates.delete(key);
+    }
+    for (const [id, transaction] of this.transactions) {
+      if (heights.has(Number(transaction.block_height))) this.transactions.delete(id);
+    }
+    for (const [id, transition] of this.transitions) {
+      if (!this.transactions.has(transition.transaction_id)) this.transitions.delete(id);
+    }
+    this.rewards = this.rewards.filter(reward => !heights.has(reward.height));
+
+    const latestId = Math.max(...this.snapshots.map(snapshot => snapshot.id));
+    const removed = this.snapshots.filter(snapshot => snapshot.fetched_at < before && snapshot.id !== latestId);
+    this.snapshots = this.snapshots.filter(snapshot => !removed.includes(snapshot));
+    for (const snapshot of removed) this.members.delete(snapshot.id);
+
+    const snapshotCount = this.mempoolSnapshots.length;
+    this.mempoolSnapshots = this.mempoolSnapshots.filter(snapshot => snapshot.taken_at >= before);
+    // Pending transactions are kept whatever their age, the sampler still tracks them
+    let mempoolTransactions = 0;
+    for (const [id, transaction] of this.mempoolTransactions) {
+      if (transaction.last_seen_at < before && (transaction.included_height !== null || transaction.dropped_at !== null)) {
+        this.mempoolTransactions.delete(id);
+        mempoolTransactions++;
+      }
+    }
+
+    return {
+      blocks: heights.size,
+      committee_snapshots: removed.length,
+      mempool_snapshots: snapshotCount - this.mempoolSnapshots.length,
+      mempool_transactions: mempoolTransactions,
+    };
+  }
+
+  async pruneRollups(granularity: 'hour' | 'day', before: Date): Promise<number> {
+    const beforeSeconds = before.getTime() / 1000;
+    let removed = 0;
+    for (const [key, row] of this.rollups) {
+      if (row.granularity === granularity && row.bucket < beforeSeconds) {
+        this.rollups.delete(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  // Checkpoints
+
+  async getSyncCheckpoint(name: string = 'blocks'): Promise<number | null> {
+    return this.checkpoints.get(name) ?? null;
+  }
+
+  async setSyncCheckpoint(name: string, height: number): Promise<void> {
+    this.checkpoints.set(name, height);
+  }
+
+  // Alerts
+
+  async getAlertRules(enabledOnly: boolean = false): Promise<AlertRule[]> {
+    return this.alertRules
+      .filter(rule => !enabledOnly || rule.enabled)
+      .sort((a, b) => a.id - b.id)
+      .map(rule => ({ ...rule }));
+  }
+
+  async getAlertRule(id: number): Promise<AlertRule | null> {
+    const rule = this.alertRules.find(candidate => candidate.id === id);
+    return rule ? { ...rule } : null;
+  }
+
+  async createAlertRule(rule: AlertRuleInput): Promise<AlertRule> {
+    const now = new Date();
+    const created: AlertRule = {
+      id: this.nextIds.alertRule++,
+      name: rule.name,
+      type: rule.type,
+      params: rule.params,
+      enabled: rule.enabled ?? true,
+      cooldown_seconds: rule.cooldown_seconds ?? DEFAULT_COOLDOWN_SECONDS,
+      channel_ids: rule.channel_ids ?? [],
+      created_at: now,
+      updated_at: now,
+    };
+    this.alertRules.push(created);
+    return { ...created };
+  }
+
+  async updateAlertRule(id: number, rule: AlertRuleInput): Promise<AlertRule | null> {
+    const existing = this.alertRules.find(candidate => candidate.id === id);
+    if (!existing) return null;
+    Object.assign(existing, {
+      name: rule.name,
+      type: rule.type,
+      params: rule.params,
+      enabled: rule.enabled ?? true,
+      cooldown_seconds: rule.cooldown_seconds ?? DEFAULT_COOLDOWN_SECONDS,
+      channel_ids: rule.channel_ids ?? [],
+      updated_at: new Date(),
+    });
+    return { ...existing };
+  }
+
+  async deleteAlertRule(id: number): Promise<boolean> {
+    const before = this.alertRules.length;
+    this.alertRules = this.alertRules.filter(rule => rule.id !== id);
+    const removed = new Set(this.alerts.filter(alert => alert.rule_id === id).map(alert => alert.id));
+    this.alerts = this.alerts.filter(alert => !removed.has(alert.id));
+    for (const delivery of this.deliveries) {
+      if (delivery.alert_id !== null && removed.has(delivery.alert_id)) delivery.alert_id = null;
+    }
+    return this.alertRules.length < before;
+  }
+
+  async getFiringAlerts(ruleId: number): Promise<Alert[]> {
+    return this.alerts.filter(alert => alert.rule_id === ruleId && alert.status === 'firing').map(alert => ({ ...alert }));
+  }
+
+  async getLastResolvedAt(ruleId: number, subject: string): Promise<Date | null> {
+    const resolved = this.alerts
+      .filter(alert => alert.rule_id === ruleId && alert.subject === subject && alert.resolved_at !== null)
+      .map(alert => alert.resolved_at!.getTime());
+    return resolved.length > 0 ? new Date(Math.max(...resolved)) : null;
+  }
+
+  async insertAlert(ruleId: number, subject: string, message: string, value: number): Promise<Alert> {
+    if (!this.alertRules.some(rule => rule.id === ruleId)) {
+      throw new Error(`Alert rule ${ruleId} does not exist`);
+    }
+    if (this.alerts.some(alert => alert.rule_id === ruleId && alert.subject === subject && alert.status === 'firing')) {
+      throw new Error(`An alert for rule ${ruleId} and ${subject} is already firing`);
+    }
+    const alert: Alert = {
+      id: this.nextIds.alert++,
+      rule_id: ruleId,
+      subject,
+      status: 'firing',
+      message,
+      value,
+      fired_at: new Date(),
+      resolved_at: null,
+    };
+    this.alerts.push(alert);
+    return { ...alert };
+  }
+
+  async resolveAlert(id: number): Promise<Alert> {
+    const alert = this.alerts.find(candidate => candidate.id === id);
+    if (!alert) throw new Error(`Alert ${id} does not exist`);
+    alert.status = 'resolved';
+    alert.resolved_at = new Date();
+    return { ...alert };
+  }
+
+  async getAlerts(filter: { status?: AlertStatus, ruleId?: number, limit: number }): Promise<Alert[]> {
+    return this.alerts
+      .filter(alert => (!filter.status || alert.status === filter.status) && (filter.ruleId === undefined || alert.rule_id === filter.ruleId))
+      .sort((a, b) => b.fired_at.getTime() - a.fired_at.getTime() || b.id - a.id)
+      .slice(0, filter.limit)
+      .map(alert => ({ ...alert }));
+  }
+
+  async getRecentAlertsBySubject(subjects: string[], limit: number): Promise<RecentAlertRow[]> {
+    const newestFirst = (a: Alert, b: Alert) => b.fired_at.getTime() - a.fired_at.getTime() || b.id - a.id;
+    const rows: RecentAlertRow[] = [];
+    for (const subject of new Set(subjects)) {
+      this.alerts
+        .filter(alert => alert.subject === subject)
+        .sort(newestFirst)
+        .slice(0, limit)
+        .forEach((alert, index) => {
+          const rule = this.alertRules.find(candidate => candidate.id === alert.rule_id)!;
+          rows.push({ ...alert, rule_name: rule.name, rule_type: rule.type, position: String(index + 1) });
+        });
+    }
+    return rows.sort(newestFirst);
+  }
+
+  // Notifications
+
+  private copyChannel(channel: NotificationChannel): NotificationChannel {
+    return { ...channel, config: { ...channel.config } };
+  }
+
+  async getNotificationChannels(ids?: number[]): Promise<NotificationChannel[]> {
+    return this.channels
+      .filter(channel => (ids ? ids.includes(channel.id) : channel.owner_id === null))
+      .sort((a, b) => a.id - b.id)
+      .map(channel => this.copyChannel(channel));
+  }
+
+  async getNotificationChannel(id: number): Promise<NotificationChannel | null> {
+    const channel = this.channels.find(candidate => candidate.id === id);
+    return channel ? this.copyChannel(channel) : null;
+  }
+
+  async getNotificationChannelsByOwner(ownerId: number): Promise<NotificationChannel[]> {
+    return this.channels
+      .filter(channel => channel.owner_id === ownerId)
+      .sort((a, b) => a.id - b.id)
+      .map(channel => this.copyChannel(channel));
+  }
+
+  async createNotificationChannel(channel: NotificationChannelInput, ownerId: number | null = null): Promise<NotificationChannel> {
+    const now = new Date();
+    const created: NotificationChannel = {
+      id: this.nextIds.channel++,
+      name: channel.name,
+      type: channel.type,
+      config: { ...channel.config },
+      template: channel.template ?? null,
+      enabled: channel.enabled ?? true,
+      owner_id: ownerId,
+      created_at: now,
+      updated_at: now,
+    };
+    this.channels.push(created);
+    return this.copyChannel(created);
+  }
+
+  async updateNotificationChannel(id: number, channel: NotificationChannelInput): Promise<NotificationChannel | null> {
+    const existing = this.channels.find(candidate => candidate.id === id);
+    if (!existing) return null;
+    Object.assign(existing, {
+      name: channel.name,
+      type: channel.type,
+      config: { ...channel.config },
+      template: channel.template ?? null,
+      enabled: channel.enabled ?? true,
+      updated_at: new Date(),
+    });
+    return this.copyChannel(existing);
+  }
+
+  async deleteNotificationChannel(id: number): Promise<boolean> {
+    const before = this.channels.length;
+    this.channels = this.channels.filter(channel => channel.id !== id);
+    this.deliveries = this.deliveries.filter(delivery => delivery.channel_id !== id);
+    this.subscriptions = this.subscriptions.filter(subscription => subscription.channel_id !== id);
+    return this.channels.length < before;
+  }
+
+  async getSubscribedChannels(subject: string, ruleType: string, status: AlertStatus): Promise<NotificationChannel[]> {
+    const channelIds = new Set(this.subscriptions
+      .filter(subscription => this.watchlist.some(entry => entry.user_id === subscription.user_id && entry.address === subject)
+        && (subscription.rule_types.length === 0 || (subscription.rule_types as string[]).includes(ruleType))
+        && (status === 'firing' || subscription.include_resolved))
+      .map(subscription => subscription.channel_id));
+    return this.channels
+      .filter(channel => channelIds.has(channel.id) && channel.enabled)
+      .sort((a, b) => a.id - b.id)
+      .map(channel => this.copyChannel(channel));
+  }
+
+  async insertNotificationDelivery(delivery: NotificationDeliveryInput): Promise<NotificationDelivery> {
+    if (!this.channels.some(channel => channel.id === delivery.channelId)) {
+      throw new Error(`Notification channel ${delivery.channelId} does not exist`);
+    }
+    const now = new Date();
+    const created: NotificationDelivery = {
+      id: this.nextIds.delivery++,
+      channel_id: delivery.channelId,
+      alert_id: delivery.alertId,
+      event: delivery.event,
+      status: delivery.delivered ? 'delivered' : 'failed',
+      attempts: delivery.attempts,
+      last_error: delivery.lastError,
+      payload: delivery.payload,
+      created_at: now,
+      delivered_at: delivery.delivered ? now : null,
+    };
+    this.deliveries.push(created);
+    return { ...created };
+  }
+
+  async getNotificationDeliveries(filter: { channelId?: number, sharedOnly?: boolean, limit: number }): Promise<NotificationDelivery[]> {
+    const personal = new Set(this.channels.filter(channel => channel.owner_id !== null).map(channel => channel.id));
+    return this.deliveries
+      .filter(delivery => filter.channelId === undefined || delivery.channel_id === filter.channelId)
+      .filter(delivery => !filter.sharedOnly || !personal.has(delivery.channel_id))
+      .sort((a, b) => b.created_at.getTime() - a.created_at.getTime() || b.id - a.id)
+      .slice(0, filter.limit)
+      .map(delivery => ({ ...delivery }));
+  }
+
+  // Watchlists
+
+  async getWatchlist(userId: number): Promise<WatchlistRow[]> {
+    return this.watchlist
+      .filter(entry => entry.user_id === userId)
+      .sort((a, b) => a.created_at.getTime() - b.created_at.getTime())
+      .map(entry => {
+        const validator = this.validators.get(entry.address);
+        return {
+          address: entry.address,
+          label: entry.label,
+          created_at: entry.created_at,
+          stake: validator?.stake ?? null,
+          bonded: validator?.bonded ?? null,
+          is_active: validator?.is_active ?? null,
+        };
+      });
+  }
+
+  async upsertWatchlistEntry(userId: number, address: string, label: string | null): Promise<WatchlistEntry> {
+    let entry = this.watchlist.find(candidate => candidate.user_id === userId && candidate.address === address);
+    if (entry) {
+      entry.label = label;
+    } else {
+      entry = { user_id: userId, address, label, created_at: new Date() };
+      this.watchlist.push(entry);
+    }
+    return { address: entry.address, label: entry.label, created_at: entry.created_at };
+  }
+
+  async deleteWatchlistEntry(userId: number, address: string): Promise<boolean> {
+    const before = this.watchlist.length;
+    this.watchlist = this.watchlist.filter(entry => !(entry.user_id === userId && entry.address === address));
+    return this.watchlist.length < before;
+  }
+
+  async getWatchlistSubscriptions(userId: number): Promise<WatchlistSubscription[]> {
+    return this.subscriptions
+      .filter(subscription => subscription.user_id === userId)
+      .sort((a, b) => a.id - b.id)
+      .map(subscription => ({ ...subscription, rule_types: [...subscription.rule_types] }));
+  }
+
+  async createWatchlistSubscription(
+    userId: number,
+    channelId: number,
+    ruleTypes: string[],
+    includeResolved: boolean
+  ): Promise<WatchlistSubscription> {
+    if (!this.channels.some(channel => channel.id === channelId)) {
+      throw new Error(`Notification channel ${channelId} does not exist`);
+    }
+    const subscription: WatchlistSubscription = {
+      id: this.nextIds.subscription++,
+      user_id: userId,
+      channel_id: channelId,
+      rule_types: [...ruleTypes] as WatchlistSubscription['rule_types'],
+      include_resolved: includeResolved,
+      created_at: new Date(),
+    };
+    this.subscriptions.push(subscription);
+    return { ...subscription, rule_types: [...subscription.rule_types] };
+  }
+
+  async deleteWatchlistSubscription(userId: number, id: number): Promise<boolean> {
+    const before = this.subscriptions.length;
+    this.subscriptions = this.subscriptions.filter(subscription => !(subscription.user_id === userId && subscription.id === id));
+    return this.subscriptions.length < before;
+  }
+
+  // Program analytics
+
+  async getProgramUsage(options: ProgramUsageFilter): Promise<ProgramUsageRow[]> {
+    const inRange = [...this.transactions.values()].filter(transaction =>
+      transaction.timestamp !== null && Number(transaction.timestamp) >= options.from && Number(transaction.timestamp) <= options.to);
+    const bucketOf = (transaction: TransactionRecord) =>
+      options.bucket ? truncate(Number(transaction.timestamp), options.bucket) : null;
+
+    const totals = new Map<number | null, number>();
+    for (const transaction of inRange) totals.set(bucketOf(transaction), (totals.get(bucketOf(transaction)) ?? 0) + 1);
+
+    // Calls per transaction first, so transactions and callers are counted once per program or function
+    const calls = new Map<string, { program_id: string, function_name: string | null, bucket: number | null, transaction: TransactionRecord, calls: number }>();
+    const byId = new Map(inRange.map(transaction => [transaction.id, transaction]));
+    for (const transition of this.transitions.values()) {
+      const transaction = byId.get(transition.transaction_id);
+      if (!transaction || transition.is_fee || (options.programId && transition.program_id !== options.programId)) continue;
+      const function_name = options.byFunction ? transition.function_name : null;
+      const key = JSON.stringify([transition.program_id, function_name, transaction.id]);
+      const call = calls.get(key) ?? { program_id: transition.program_id, function_name, bucket: bucketOf(transaction), transaction, calls: 0 };
+      call.calls++;
+      calls.set(key, call);
+    }
+
+    const groups = new Map<string, ProgramUsageRow & { callers: Set<string> }>();
+    for (const call of calls.values()) {
+      const key = JSON.stringify([call.program_id, call.function_name, call.bucket]);
+      const group = groups.get(key) ?? {
+        program_id: call.program_id,
+        function_name: call.function_name,
+        bucket: call.bucket !== null ? new Date(call.bucket * 1000) : null,
+        calls: '0',
+        transactions: '0',
+        unique_callers: '0',
+        fees: '0',
+        block_space_share: null,
+        callers: new Set<string>(),
+      };
+      group.calls = String(Number(group.calls) + call.calls);
+      group.transactions = String(Number(group.transactions) + 1);
+      group.fees = (BigInt(group.fees) + BigInt(call.transaction.fee)).toString();
+      if (call.transaction.fee_payer !== null) group.callers.add(call.transaction.fee_payer);
+      groups.set(key, group);
+    }
+
+    const rows = [...groups.values()]
+      .map(({ callers, ...row }) => ({
+        ...row,
+        unique_callers: String(callers.size),
+        block_space_share: Number(row.transactions) / totals.get(row.bucket !== null ? row.bucket.getTime() / 1000 : null)!,
+      }))
+      .sort((a, b) => (a.bucket?.getTime() ?? -Infinity) - (b.bucket?.getTime() ?? -Infinity)
+        || Number(b.calls) - Number(a.calls)
+        || (a.program_id < b.program_id ? -1 : a.program_id > b.program_id ? 1 : 0));
+    return options.limit !== undefined ? rows.slice(0, options.limit) : rows;
+  }
+
+  async getProgramDeployments(filter: { programId?: string, from?: number, to?: number, limit: number }): Promise<ProgramDeployment[]> {
+    return [...this.transactions.values()]
+      .filter(transaction => {
+        const timestamp = transaction.timestamp !== null ? Number(transaction.timestamp) : null;
+        return transaction.deployed_program !== null && transaction.status === 'accepted'
+          && (!filter.programId || transaction.deployed_program === filter.programId)
+          && (filter.from === undefined || (timestamp !== null && timestamp >= filter.from))
+          && (filter.to === undefined || (timestamp !== null && timestamp <= filter.to));
+      })
+      .sort((a, b) => Number(b.block_height) - Number(a.block_height))
+      .slice(0, filter.limit)
+      .map(transaction => ({
+        program_id: transaction.deployed_program!,
+        transaction_id: transaction.id,
+        block_height: Number(transaction.block_height),
+        timestamp: transaction.timestamp !== null ? Number(transaction.timestamp) : null,
+        deployer: transaction.fee_payer,
+      }));
+  }
+
+  // Network statistics
+
+  async getNetworkStats(from: number, to: number, bucket?: NetworkSeriesBucket): Promise<NetworkStatsRow[]> {
+    // Intervals are taken between consecutive blocks of the whole range, also across bucket edges
+    const blocks = [...this.blocks.values()]
+      .filter(block => Number(block.timestamp) >= from && Number(block.timestamp) <= to)
+      .sort((a, b) => Number(a.height) - Number(b.height))
+      .map((block, index, sorted) => ({
+        height: Number(block.height),
+        transactions: block.transactions_count,
+        bucket: bucket ? truncate(Number(block.timestamp), bucket) : null,
+        interval: index > 0 ? Number(block.timestamp) - Number(sorted[index - 1].timestamp) : null,
+      }));
+
+    const buckets = new Map<number | null, typeof blocks>();
+    for (const block of blocks) buckets.set(block.bucket, [...(buckets.get(block.bucket) ?? []), block]);
+
+    return [...buckets.entries()]
+      .sort(([a], [b]) => (a ?? -Infinity) - (b ?? -Infinity))
+      .map(([start, rows]) => {
+        const heights = new Set(rows.map(row => row.height));
+        const certificates = [...this.certificates.values()].filter(certificate => heights.has(certificate.block_height));
+        const roundsPerBlock = [...heights]
+          .map(height => new Set(certificates.filter(certificate => certificate.block_height === height).map(certificate => certificate.round)).size)
+          .filter(rounds => rounds > 0);
+        const intervals = rows.map(row => row.interval).filter((interval): interval is number => interval !== null);
+        const toHeight = Math.max(...heights);
+
+        const snapshot = this.snapshots
+          .filter(candidate => candidate.block_height <= toHeight)
+          .sort((a, b) => b.block_height - a.block_height || b.id - a.id)[0];
+        const stakes = new Map((snapshot ? this.members.get(snapshot.id) ?? [] : []).map(member => [member.address, Number(member.stake)]));
+        const roundStakes = new Map<number, number>();
+        for (const certificate of certificates) {
+          const stake = stakes.get(certificate.author);
+          if (stake !== undefined) roundStakes.set(certificate.round, (roundStakes.get(certificate.round) ?? 0) + stake);
+        }
+        const totalStake = snapshot?.total_stake ? Number(snapshot.total_stake) : 0;
+        const intervalAverage = average(intervals);
+        const rounds = average(roundsPerBlock);
+
+        return {
+          bucket: start !== null ? new Date(start * 1000) : null,
+          blocks: String(rows.length),
+          from_height: String(Math.min(...heights)),
+          to_height: String(toHeight),
+          transactions: String(rows.reduce((sum, row) => sum + row.transactions, 0)),
+          interval_p50: percentile(intervals, 0.5),
+          interval_p95: percentile(intervals, 0.95),
+          interval_max: intervals.length > 0 ? String(Math.max(...intervals)) : null,
+          interval_average: intervalAverage !== null ? String(intervalAverage) : null,
+          rounds_per_block: rounds !== null ? String(rounds) : null,
+          committee_size: snapshot?.member_count ?? null,
+          total_stake: snapshot?.total_stake ?? null,
+          stake_participation: totalStake > 0 ? average([...roundStakes.values()].map(stake => stake / totalStake)) : null,
+        };
+      });
+  }
+
+  // Mempool
+
+  async recordMempoolSample(ids: string[]): Promise<MempoolSnapshot> {
+    const now = new Date();
+    let newCount = 0;
+    for (const id of ids) {
+      const transaction = this.mempoolTransactions.get(id);
+      if (transaction) {
+        transaction.last_seen_at = now;
+      } else {
+        this.mempoolTransactions.set(id, { id, first_seen_at: now, last_seen_at: now, included_height: null, included_at: null, dropped_at: null });
+        newCount++;
+      }
+    }
+    const snapshot: MempoolSnapshot = { id: this.nextIds.mempoolSnapshot++, taken_at: now, size: ids.length, new_count: newCount };
+    this.mempoolSnapshots.push(snapshot);
+    return { ...snapshot };
+  }
+
+  async reconcileMempool(droppedAfterSeconds: number, recheckDepth: number): Promise<MempoolReconciliation> {
+    const tipHeight = await this.getLatestBlockHeight();
+    const now = new Date();
+    const result = { included: 0, reverted: 0, dropped: 0 };
+    for (const transaction of this.mempoolTransactions.values()) {
+      if (transaction.included_height !== null && transaction.included_height > tipHeight - recheckDepth && !this.transactions.has(transaction.id)) {
+        transaction.included_height = null;
+        transaction.included_at = null;
+        result.reverted++;
+      }
+    }
+    for (const transaction of this.mempoolTransactions.values()) {
+      const included = this.transactions.get(transaction.id);
+      if (included && transaction.included_height === null) {
+        transaction.included_height = Number(included.block_height);
+        transaction.included_at = included.timestamp !== null ? new Date(Number(included.timestamp) * 1000) : null;
+        transaction.dropped_at = null;
+        result.included++;
+      }
+    }
+    for (const transaction of this.mempoolTransactions.values()) {
+      if (transaction.included_height === null && transaction.dropped_at === null
+        && transaction.last_seen_at.getTime() < now.getTime() - droppedAfterSeconds * 1000) {
+        transaction.dropped_at = now;
+        result.dropped++;
+      }
+    }
+    return result;
+  }
+
+  async getMempoolStats(from: Date, to: Date): Promise<MempoolStatsRecord> {
+    const seen = [...this.mempoolTransactions.values()].filter(transaction => transaction.first_seen_at >= from && transaction.first_seen_at <= to);
+    // A transaction can be sampled only after the block including it was produced, so latency is floored at zero
+    const latencies = seen
+      .filter(transaction => transaction.included_at !== null)
+      .map(transaction => Math.max((transaction.included_at!.getTime() - transaction.first_seen_at.getTime()) / 1000, 0));
+    const sizes = this.mempoolSnapshots.filter(snapshot => snapshot.taken_at >= from && snapshot.taken_at <= to).map(snapshot => snapshot.size);
+    const latest = [...this.mempoolSnapshots].sort((a, b) => b.taken_at.getTime() - a.taken_at.getTime() || b.id - a.id)[0];
+    return {
+      seen: seen.length,
+      included: seen.filter(transaction => transaction.included_height !== null).length,
+      pending: seen.filter(transaction => transaction.included_height === null && transaction.dropped_at === null).length,
+      dropped: seen.filter(transaction => transaction.dropped_at !== null).length,
+      latency: {
+        count: latencies.length,
+        p50: percentile(latencies, 0.5),
+        p90: percentile(latencies, 0.9),
+        p99: percentile(latencies, 0.99),
+        average: average(latencies),
+      },
+      size: { current: latest?.size ?? null, average: average(sizes), max: sizes.length > 0 ? Math.max(...sizes) : null },
+    };
+  }
+
+  async getMempoolSnapshots(from: Date, to: Date, limit: number): Promise<MempoolSnapshot[]> {
+    return this.mempoolSnapshots
+      .filter(snapshot => snapshot.taken_at >= from && snapshot.taken_at <= to)
+      .sort((a, b) => b.taken_at.getTime() - a.taken_at.getTime() || b.id - a.id)
+      .slice(0, limit)
+      .reverse()
+      .map(snapshot => ({ ...snapshot }));
+  }
+
+  async getDroppedMempoolTransactions(from: Date, to: Date, limit: number): Promise<MempoolTransaction[]> {
+    return [...this.mempoolTransactions.values()]
+      .filter(transaction => transaction.dropped_at !== null && transaction.dropped_at >= from && transaction.dropped_at <= to)
+      .sort((a, b) => b.dropped_at!.getTime() - a.dropped_at!.getTime())
+      .slice(0, limit)
+      .map(transaction => ({ ...transaction }));
+  }
+}
+
+export function createInMemoryRepositories(db: InMemoryDatabase = new InMemoryDatabase()): Repositories {
+  return {
+    blocks: db,
+    validators: db,
+    transactions: db,
+    committees: db,
+    checkpoints: db,
+    alerts: db,
+    rollups: db,
+    notifications: db,
+    watchlists: db,
+    analytics: db,
+    network: db,
+    mempool: db,
+  };
+}
+
+export default InMemoryDatabase;
@@ -0,0 +1,22 @@
+import { SnarkOSDBService } from '../services/SnarkOSDBService.js';
+import { Repositories } from '../types/Repository.js';
+
+export { InMemoryDatabase, createInMemoryRepositories } from './InMemoryDatabase.js';
+
+// SnarkOSDBService implements every repository against Postgres.
+export function createPostgresRepositories(db: SnarkOSDBService): Repositories {
+  return {
+    blocks: db,
+    validators: db,
+    transactions: db,
+    committees: db,
+    checkpoints: db,
+    alerts: db,
+    rollups: db,
+    notifications: db,
+    watchlists: db,
+    analytics: db,
+    network: db,
+    mempool: db,
+  };
+}
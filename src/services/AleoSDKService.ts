@@ -1,7 +1,12 @@
-import { AleoNetworkClient  } from '@provablehq/sdk';
 import winston from 'winston';
 import axios from 'axios';
-import { Block, APIBlock } from '../types/Block.js';
+import { Block, APIBlock, BatchCertificate, BlockRewards } from '../types/Block.js';
+import { TransactionSummary, TransitionSummary } from '../types/Transaction.js';
+import { UpstreamCacheStats, UpstreamEndpoint, UpstreamOverview } from '../types/Upstream.js';
+import { UpstreamPool } from './UpstreamPool.js';
+import { UpstreamCache } from './UpstreamCache.js';
+import { UpstreamMode, createNetworkClient } from './FixtureNetworkClient.js';
+import { config } from '../config/index.js';
 
 const logger = winston.createLogger({
   level: 'debug',
@@ -14,17 +19,59 @@ const logger = winston.createLogger({
 });
 
 export class AleoSDKService {
-  private network: AleoNetworkClient;
+  private upstreams: UpstreamPool;
+  private cache = new UpstreamCache();
 
-  constructor(networkUrl: string, networkType: 'mainnet' | 'testnet') {
-    this.network = new AleoNetworkClient(networkUrl);
-    logger.debug(`Network initialized with URL: ${networkUrl}`);
+  // A single URL is treated as a one-endpoint pool. `mode` and `fixturesDir` default to the
+  // UPSTREAM_MODE / UPSTREAM_FIXTURES_DIR configuration.
+  constructor(
+    endpoints: UpstreamEndpoint[] | string,
+    networkType: 'mainnet' | 'testnet',
+    options: { mode?: UpstreamMode, fixturesDir?: string } = {}
+  ) {
+    const list = typeof endpoints === 'string' ? [{ name: 'default', url: endpoints, fallback: false }] : endpoints;
+    const mode = options.mode ?? config.aleo.mode as UpstreamMode;
+    const fixturesDir = options.fixturesDir ?? config.aleo.fixturesDir;
+    this.upstreams = new UpstreamPool(list, endpoint => createNetworkClient(endpoint.url, mode, fixturesDir));
+    logger.debug(`Network initialized in ${mode} mode with upstreams: ${list.map(endpoint => `${endpoint.name}=${endpoint.url}`).join(', ')}`);
+  }
+
+  async checkUpstreams(): Promise<void> {
+    await this.upstreams.checkHealth();
+  }
+
+  getUpstreamStatus(): UpstreamOverview {
+    return this.upstreams.getStatus();
+  }
+
+  getCacheStats(): UpstreamCacheStats {
+    return this.cache.getStats();
+  }
+
+  // Data at heights deeper than the finality depth cannot change anymore and is cached until evicted;
+  // anything closer to the tip, or at heights we cannot place yet, only for `shortTtl`.
+  private ttlAtHeight(height: number, shortTtl: number): number | null {
+    const networkHeight = this.upstreams.getNetworkHeight();
+    return networkHeight !== null && height <= networkHeight - config.aleo.cache.finalityDepth ? null : shortTtl;
+  }
+
+  private fetchLatestBlock(): Promise<any> {
+    return this.cache.get('latest', 'block:latest',
+      () => this.upstreams.request('getLatestBlock', client => client.getLatestBlock()),
+      () => config.aleo.cache.latestTtlMs);
+  }
+
+  private fetchBlock(height: number, fresh = false): Promise<any> {
+    if (fresh) this.cache.invalidate(`block:${height}`);
+    return this.cache.get('block', `block:${height}`,
+      () => this.upstreams.request('getBlock', client => client.getBlock(height), { minHeight: height }),
+      () => this.ttlAtHeight(height, config.aleo.cache.latestTtlMs));
   }
 
   async getLatestBlock(): Promise<Block | null> {
     try {
       logger.debug('Starting to fetch the latest block...');
-      const latestBlock = await this.network.getLatestBlock();
+      const latestBlock = await this.fetchLatestBlock();
       logger.debug('Raw API response:', JSON.stringify(latestBlock, null, 2));
       if (latestBlock) {
         const convertedBlock = this.convertApiBlockToBlock(latestBlock);
@@ -45,34 +92,167 @@ export class AleoSDKService {
     }
     
     logger.debug('API Block:', JSON.stringify(apiBlock, null, 2));
-    
+
+    const rewards = this.extractRewards(apiBlock);
+
     return {
-      height: apiBlock.header?.metadata?.height ? Number(apiBlock.header.metadata.height) : undefined,
+      height: apiBlock.header?.metadata?.height !== undefined ? Number(apiBlock.header.metadata.height) : undefined,
       hash: apiBlock.block_hash,
       previous_hash: apiBlock.previous_hash,
       timestamp: apiBlock.header?.metadata?.timestamp ? new Date(apiBlock.header.metadata.timestamp * 1000).toISOString() : undefined,
       transactions: apiBlock.transactions || [],
-      validator_address: apiBlock.authority?.subdag?.subdag?.[Object.keys(apiBlock.authority.subdag.subdag)[0]]?.[0]?.batch_header?.author,
-      total_fees: apiBlock.header?.metadata?.cumulative_weight ? BigInt(apiBlock.header.metadata.cumulative_weight) : undefined,
+      validator_address: apiBlock.authority?.subdag?.subdag
+        ? apiBlock.authority.subdag.subdag[Object.keys(apiBlock.authority.subdag.subdag)[0]]?.[0]?.batch_header?.author
+        : undefined,
+      total_fees: rewards.base_fees + rewards.priority_fees,
+      certificates: this.extractBatchCertificates(apiBlock),
+      rewards,
+      transaction_summaries: this.extractTransactions(apiBlock),
     };
   }
 
+  // Confirmed transactions carry the commit status and, when rejected, the execution or deployment
+  // that failed next to the fee transaction that was committed instead.
+  private extractTransactions(apiBlock: any): TransactionSummary[] {
+    return (apiBlock.transactions || [])
+      .filter((confirmed: any) => confirmed?.transaction?.id)
+      .map((confirmed: any, position: number) => {
+        const transaction = confirmed.transaction;
+        const rejected = confirmed.rejected;
+        const feeTransition = transaction.fee?.transition;
+        const transitions: TransitionSummary[] = [
+          ...(transaction.execution?.transitions || []),
+          ...(rejected?.execution?.transitions || []),
+          ...(feeTransition ? [feeTransition] : []),
+        ]
+          .filter((transition: any) => transition?.id)
+          .map((transition: any) => ({
+            id: transition.id,
+            program_id: transition.program,
+            function_name: transition.function,
+            is_fee: transition === feeTransition,
+          }));
+
+        const deployedProgram = this.extractProgramId(transaction.deployment?.program ?? rejected?.deployment?.program);
+        const fee = this.extractFee(feeTransition);
+        return {
+          id: transaction.id,
+          position: confirmed.index !== undefined ? Number(confirmed.index) : position,
+          type: transaction.type,
+          status: confirmed.status === 'rejected' ? 'rejected' : 'accepted',
+          base_fee: fee.base,
+          priority_fee: fee.priority,
+          fee_payer: this.extractFeePayer(feeTransition),
+          deployed_program: deployedProgram,
+          program_ids: [...new Set([...(deployedProgram ? [deployedProgram] : []), ...transitions.map(t => t.program_id)])],
+          function_names: [...new Set(transitions.map(t => t.function_name))],
+          transitions,
+        };
+      });
+  }
+
+  // fee_public finalizes with the payer's address as its first argument; private fees reveal no payer.
+  private extractFeePayer(feeTransition: any): string | null {
+    if (feeTransition?.function !== 'fee_public') return null;
+    const future = (feeTransition.outputs || []).find((output: any) => output?.type === 'future');
+    const payer = typeof future?.value === 'string' ? future.value.match(/aleo1[a-z0-9]{58}/)?.[0] : undefined;
+    return payer ?? null;
+  }
+
+  private extractProgramId(source: unknown): string | null {
+    if (typeof source !== 'string') return null;
+    return source.match(/program\s+([\w.]+)\s*;/)?.[1] ?? null;
+  }
+
+  // Reads the block and puzzle reward ratifications and sums the fees paid by the block's
+  // transactions (accepted and rejected alike, since rejected transactions still pay their fee).
+  private extractRewards(apiBlock: any): BlockRewards {
+    const rewards: BlockRewards = {
+      block_reward: BigInt(0),
+      puzzle_reward: BigInt(0),
+      base_fees: BigInt(0),
+      priority_fees: BigInt(0),
+    };
+
+    for (const ratification of apiBlock.ratifications || []) {
+      if (ratification?.type === 'block_reward') {
+        rewards.block_reward += BigInt(ratification.amount ?? 0);
+      } else if (ratification?.type === 'puzzle_reward') {
+        rewards.puzzle_reward += BigInt(ratification.amount ?? 0);
+      }
+    }
+
+    for (const confirmed of apiBlock.transactions || []) {
+      const fee = this.extractFee(confirmed?.transaction?.fee?.transition);
+      rewards.base_fees += fee.base;
+      rewards.priority_fees += fee.priority;
+    }
+    return rewards;
+  }
+
+  // credits.aleo/fee_public(base, priority, id) and fee_private(record, base, priority, id):
+  // the amounts are the public u64 inputs, in that order.
+  extractFee(transition: any): { base: bigint, priority: bigint } {
+    const amounts = (transition?.inputs || [])
+      .filter((input: any) => input?.type === 'public' && typeof input.value === 'string' && input.value.endsWith('u64'))
+      .map((input: any) => BigInt(input.value.replace(/u64$/, '').replace(/_/g, '')));
+    return { base: amounts[0] ?? BigInt(0), priority: amounts[1] ?? BigInt(0) };
+  }
+
+  // Flattens the committed subdag (round -> batch certificates) into one entry per certificate.
+  private extractBatchCertificates(apiBlock: any): BatchCertificate[] {
+    const subdag: Record<string, any[]> | undefined = apiBlock.authority?.subdag?.subdag;
+    if (!subdag) {
+      return [];
+    }
+
+    const certificates: BatchCertificate[] = [];
+    for (const [round, roundCertificates] of Object.entries(subdag)) {
+      for (const certificate of roundCertificates) {
+        const header = certificate?.batch_header;
+        if (!header?.author) continue;
+        certificates.push({
+          round: Number(header.round ?? round),
+          author: header.author,
+          batch_id: header.batch_id,
+          committee_id: header.committee_id,
+          timestamp: header.timestamp !== undefined ? Number(header.timestamp) : undefined,
+          transmission_count: header.transmission_ids?.length ?? 0,
+          signatures: certificate.signatures || [],
+        });
+      }
+    }
+    return certificates;
+  }
+
   async getLatestCommittee(): Promise<any> {
     try {
-      return await this.network.getLatestCommittee();
+      return await this.cache.get('committee', 'committee:latest',
+        () => this.upstreams.request('getLatestCommittee', client => client.getLatestCommittee()),
+        () => config.aleo.cache.committeeTtlMs);
     } catch (error) {
       logger.error('getLatestCommittee error:', error);
       throw error;
     }
   }
 
+  // The committee that was in effect at the given block height.
+  async getCommitteeByHeight(height: number): Promise<any> {
+    try {
+      return await this.cache.get('committee', `committee:${height}`,
+        () => this.upstreams.request('getCommitteeByHeight', client => client.fetchData<any>(`/committee/${height}`), { minHeight: height }),
+        () => this.ttlAtHeight(height, config.aleo.cache.committeeTtlMs));
+    } catch (error) {
+      logger.error(`Error while fetching committee at height ${height}:`, error);
+      throw new Error(`Failed to get committee at height ${height}`);
+    }
+  }
+
   async getTransactionsInMempool(): Promise<any[]> {
     try {
-      const transactions = await this.network.getTransactionsInMempool();
-      if (transactions instanceof Error) {
-        throw transactions;
-      }
-      return transactions;
+      return await this.cache.get('mempool', 'mempool',
+        () => this.upstreams.request('getTransactionsInMempool', client => client.getTransactionsInMempool()),
+        () => 0);
     } catch (error) {
       logger.error('getTransactionsInMempool error:', error);
       throw error;
@@ -81,7 +261,7 @@ export class AleoSDKService {
   async getBlock(height: number): Promise<any> {
     try {
       logger.debug(`Fetching block at height ${height}...`);
-      const block = await this.network.getBlock(height);
+      const block = await this.fetchBlock(height);
       logger.debug(`Raw API response: ${JSON.stringify(block)}`);
       return block;
     } catch (error) {
@@ -93,7 +273,9 @@ export class AleoSDKService {
   async getTransaction(id: string) {
     try {
       logger.debug(`Fetching transaction with id ${id}...`);
-      const transaction = await this.network.getTransaction(id);
+      const transaction = await this.cache.get('transaction', `transaction:${id}`,
+        () => this.upstreams.request('getTransaction', client => client.getTransaction(id)),
+        () => null);
       logger.debug(`Raw API response: ${JSON.stringify(transaction)}`);
       return transaction;
     } catch (error) {
@@ -105,7 +287,9 @@ export class AleoSDKService {
   async getTransactions(height: number) {
     try {
       logger.debug(`Fetching transactions for block height ${height}...`);
-      const transactions = await this.network.getTransactions(height);
+      const transactions = await this.cache.get('transaction', `transactions:${height}`,
+        () => this.upstreams.request('getTransactions', client => client.getTransactions(height), { minHeight: height }),
+        () => this.ttlAtHeight(height, config.aleo.cache.latestTtlMs));
       logger.debug(`Raw API response: ${JSON.stringify(transactions)}`);
       return transactions;
     } catch (error) {
@@ -114,13 +298,10 @@ export class AleoSDKService {
     }
   }
 
-  async getBlockByHeight(height: number): Promise<Block | null> {
+  // `fresh` skips a cached copy, for callers that need the node's current view of a height near the tip
+  async getBlockByHeight(height: number, options: { fresh?: boolean } = {}): Promise<Block | null> {
     try {
-      const apiBlock = await this.network.getBlock(height);
-      if (apiBlock instanceof Error) {
-        logger.error(`Error fetching block at height ${height}:`, apiBlock);
-        return null;
-      }
+      const apiBlock = await this.fetchBlock(height, options.fresh);
       return this.convertApiBlockToBlock(apiBlock);
     } catch (error) {
       logger.error(`Error while fetching block at height ${height}:`, error);
@@ -130,7 +311,9 @@ export class AleoSDKService {
 
   async getLatestBlockHeight(): Promise<number | null> {
     try {
-      const latestHeight = await this.network.getLatestHeight();
+      const latestHeight = await this.cache.get('latest', 'height:latest',
+        () => this.upstreams.request('getLatestHeight', client => client.getLatestHeight()),
+        () => config.aleo.cache.latestTtlMs);
       if (typeof latestHeight === 'number') {
         return latestHeight;
       } else {
@@ -151,7 +334,7 @@ export class AleoSDKService {
 
   async getRawLatestBlock(): Promise<any> {
     try {
-      const latestBlock = await this.network.getLatestBlock();
+      const latestBlock = await this.fetchLatestBlock();
       logger.debug('Raw latest block:', JSON.stringify(latestBlock, null, 2));
       return latestBlock;
     } catch (error) {
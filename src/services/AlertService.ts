@@ -1,35 +1,294 @@
-import { SnarkOSDBService } from './SnarkOSDBService.js';
+import { AleoSDKService } from './AleoSDKService.js';
+import { NotificationService } from './NotificationService.js';
 import logger from '../utils/logger.js';
+import { config } from '../config/index.js';
+import { eventBus } from '../utils/eventBus.js';
+import { Alert, AlertCondition, AlertRule, AlertRuleInput, AlertStatus, ALERT_RULE_TYPES } from '../types/Alert.js';
+import { AlertRepository, BlockRepository, CommitteeRepository, ValidatorRecord, ValidatorRepository } from '../types/Repository.js';
+import { CommitteeMember } from '../types/Committee.js';
+
+// Required numeric params per rule type; `address` is optional everywhere it applies and
+// narrows a validator rule to a single validator. Committee rules also take an optional
+// `lookbackMinutes`, the age of the committee snapshot they compare the latest one with.
+const REQUIRED_PARAMS: Record<string, string[]> = {
+  validator_participation: ['minRate', 'rounds'],
+  committee_dropout: [],
+  stake_change: ['maxChangePercent'],
+  block_stall: ['maxSeconds'],
+  sync_lag: ['maxBlocks'],
+};
 
 export class AlertService {
-  constructor(private snarkOSDBService: SnarkOSDBService) {}
+  private isEvaluating = false;
+
+  constructor(
+    private alerts: AlertRepository,
+    private validators: ValidatorRepository,
+    private blocks: BlockRepository,
+    private committees: CommitteeRepository,
+    private aleoSDKService: AleoSDKService,
+    private notificationService: NotificationService
+  ) {}
+
+  async evaluateRules(): Promise<void> {
+    if (this.isEvaluating) {
+      logger.info('Alert evaluation already in progress, skipping this run');
+      return;
+    }
+    this.isEvaluating = true;
 
-  async checkMissedBlocks(validatorAddress: string, threshold: number): Promise<boolean> {
     try {
-      const recentBlocks = await this.snarkOSDBService.getBlocksByValidator(validatorAddress, 100);
-      const missedBlocks = this.calculateMissedBlocks(recentBlocks);
-      if (missedBlocks > threshold) {
-        logger.warn(`Validator ${validatorAddress} missed ${missedBlocks} blocks, exceeding threshold of ${threshold}`);
-        return true;
+      const rules = await this.alerts.getAlertRules(true);
+      for (const rule of rules) {
+        try {
+          await this.evaluateRule(rule);
+        } catch (error: unknown) {
+          if (error instanceof Error) {
+            logger.error(`Error evaluating alert rule ${rule.id} (${rule.name}): ${error.message}`);
+          } else {
+            logger.error(`Error evaluating alert rule ${rule.id} (${rule.name}): An unknown error occurred`);
+          }
+        }
+      }
+    } catch (error) {
+      logger.error('Error occurred while evaluating alert rules:', error);
+    } finally {
+      this.isEvaluating = false;
+    }
+  }
+
+  // Opens one alert per breaching subject (deduplicated against already-firing alerts and held back
+  // while the rule's cooldown since the last resolution runs), and resolves alerts that stopped breaching.
+  private async evaluateRule(rule: AlertRule): Promise<void> {
+    const breaches = await this.checkRule(rule);
+    const firing = await this.alerts.getFiringAlerts(rule.id);
+    const firingSubjects = new Set(firing.map(alert => alert.subject));
+    const breachingSubjects = new Set(breaches.map(breach => breach.subject));
+
+    for (const breach of breaches) {
+      if (firingSubjects.has(breach.subject)) continue;
+
+      const lastResolvedAt = await this.alerts.getLastResolvedAt(rule.id, breach.subject);
+      if (lastResolvedAt && Date.now() - new Date(lastResolvedAt).getTime() < rule.cooldown_seconds * 1000) {
+        logger.debug(`Alert rule ${rule.id} for ${breach.subject} is cooling down`);
+        continue;
+      }
+
+      const alert = await this.alerts.insertAlert(rule.id, breach.subject, breach.message, breach.value);
+      logger.warn(`Alert firing [${rule.name}] ${alert.subject}: ${alert.message}`);
+      this.notify(rule, alert);
+    }
+
+    for (const alert of firing) {
+      if (breachingSubjects.has(alert.subject)) continue;
+      const resolved = await this.alerts.resolveAlert(alert.id);
+      logger.info(`Alert resolved [${rule.name}] ${alert.subject}`);
+      this.notify(rule, resolved);
+    }
+  }
+
+  // Delivery retries with backoff, so it runs detached from the evaluation loop.
+  private notify(rule: AlertRule, alert: Alert): void {
+    eventBus.publish(
+      alert.status === 'firing' ? 'alert.firing' : 'alert.resolved',
+      { ...alert, rule_name: rule.name, rule_type: rule.type },
+      alert.subject.startsWith('aleo1') ? [alert.subject] : []
+    );
+    this.notificationService.notifyAlert(rule, alert).catch(error => {
+      logger.error(`Error sending notifications for alert ${alert.id}:`, error);
+    });
+  }
+
+  private async checkRule(rule: AlertRule): Promise<AlertCondition[]> {
+    const params = rule.params;
+    switch (rule.type) {
+      case 'validator_participation':
+        return this.checkParticipation(Number(params.minRate), Number(params.rounds), params.address);
+      case 'committee_dropout':
+        return this.checkCommitteeDropout(this.lookbackOf(params), params.address);
+      case 'stake_change':
+        return this.checkStakeChange(Number(params.maxChangePercent), this.lookbackOf(params), params.address);
+      case 'block_stall':
+        return this.checkBlockStall(Number(params.maxSeconds));
+      case 'sync_lag':
+        return this.checkSyncLag(Number(params.maxBlocks));
+      default:
+        logger.warn(`Unknown alert rule type: ${rule.type}`);
+        return [];
+    }
+  }
+
+  private async getWatchedValidators(address?: string): Promise<ValidatorRecord[]> {
+    const validators = await this.validators.getValidators();
+    return address ? validators.filter(v => v.address === address) : validators;
+  }
+
+  private async checkParticipation(minRate: number, rounds: number, address?: string): Promise<AlertCondition[]> {
+    const validators = (await this.getWatchedValidators(address)).filter(v => v.is_active);
+    const participationByAddress = await this.blocks.getRoundParticipationByAddress(validators.map(v => v.address), rounds);
+    const breaches: AlertCondition[] = [];
+    for (const validator of validators) {
+      const participation = participationByAddress.get(validator.address)!;
+      if (participation.roundsObserved === 0) continue;
+      const rate = participation.roundsParticipated / participation.roundsObserved;
+      if (rate < minRate) {
+        breaches.push({
+          subject: validator.address,
+          value: rate,
+          message: `Participation ${(rate * 100).toFixed(2)}% over the last ${participation.roundsObserved} rounds is below ${(minRate * 100).toFixed(2)}%`,
+        });
       }
-      return false;
-    } catch (error: unknown) {
-      if (error instanceof Error) {
-        logger.error(`Error checking missed blocks for validator ${validatorAddress}: ${error.message}`);
-      } else {
-        logger.error(`Error checking missed blocks for validator ${validatorAddress}: Bilinmeyen hata`);
+    }
+    return breaches;
+  }
+
+  private lookbackOf(params: Record<string, any>): number {
+    return params.lookbackMinutes !== undefined ? Number(params.lookbackMinutes) : config.alerts.lookbackMinutes;
+  }
+
+  // Members of the latest committee snapshot and of the last one taken at least `lookbackMinutes` ago,
+  // or of the oldest one while the history is shorter than that.
+  private async getCommitteeWindow(lookbackMinutes: number, address?: string): Promise<{
+    baseline: CommitteeMember[],
+    current: Map<string, CommitteeMember>,
+  }> {
+    const [latest] = (await this.committees.listCommitteeSnapshots({ order: 'desc', limit: 1 })).rows;
+    if (!latest) return { baseline: [], current: new Map() };
+    const cutoff = new Date(Date.now() - lookbackMinutes * 60 * 1000);
+    const [beforeCutoff] = (await this.committees.listCommitteeSnapshots({ to: cutoff, order: 'desc', limit: 1 })).rows;
+    const baseline = beforeCutoff ?? (await this.committees.listCommitteeSnapshots({ order: 'asc', limit: 1 })).rows[0];
+    if (baseline.id === latest.id) return { baseline: [], current: new Map() };
+
+    const members = await this.committees.getCommitteeMembers([baseline.id, latest.id]);
+    const watched = (list: CommitteeMember[]) => list.filter(member => !address || member.address === address);
+    return {
+      baseline: watched(members.get(baseline.id) ?? []),
+      current: new Map(watched(members.get(latest.id) ?? []).map(member => [member.address, member])),
+    };
+  }
+
+  // Validators that were active members at the start of the lookback and are no longer
+  private async checkCommitteeDropout(lookbackMinutes: number, address?: string): Promise<AlertCondition[]> {
+    const { baseline, current } = await this.getCommitteeWindow(lookbackMinutes, address);
+    return baseline
+      .filter(member => {
+        const now = current.get(member.address);
+        return member.is_active !== false && (!now || now.is_active === false);
+      })
+      .map(member => ({
+        subject: member.address,
+        value: 0,
+        message: `Validator left the active committee within the last ${lookbackMinutes} minutes`,
+      }));
+  }
+
+  private async checkStakeChange(maxChangePercent: number, lookbackMinutes: number, address?: string): Promise<AlertCondition[]> {
+    const { baseline, current } = await this.getCommitteeWindow(lookbackMinutes, address);
+    const breaches: AlertCondition[] = [];
+    for (const member of baseline) {
+      const now = current.get(member.address);
+      const previous = Number(member.stake);
+      if (!now || previous === 0) continue;
+      const changePercent = ((Number(now.stake) - previous) / previous) * 100;
+      if (Math.abs(changePercent) > maxChangePercent) {
+        breaches.push({
+          subject: member.address,
+          value: changePercent,
+          message: `Stake changed by ${changePercent.toFixed(2)}% within the last ${lookbackMinutes} minutes (from ${member.stake} to ${now.stake})`,
+        });
       }
-      throw error;
     }
+    return breaches;
+  }
+
+  private async checkBlockStall(maxSeconds: number): Promise<AlertCondition[]> {
+    const latestTimestamp = await this.blocks.getLatestBlockTimestamp();
+    if (latestTimestamp === null) return [];
+    const secondsSinceBlock = Math.floor(Date.now() / 1000) - latestTimestamp;
+    if (secondsSinceBlock <= maxSeconds) return [];
+    return [{
+      subject: 'network',
+      value: secondsSinceBlock,
+      message: `No new block for ${secondsSinceBlock} seconds (threshold ${maxSeconds})`,
+    }];
+  }
+
+  private async checkSyncLag(maxBlocks: number): Promise<AlertCondition[]> {
+    const networkHeight = await this.aleoSDKService.getLatestBlockHeight();
+    if (networkHeight === null) return [];
+    const localHeight = await this.blocks.getLatestBlockHeight();
+    // An empty table also reports height 0; until the first batch is stored the lag is the whole
+    // chain (or everything below SYNC_START_HEIGHT), which is not a fault
+    if (await this.blocks.getBlockHash(localHeight) === null) return [];
+    const lag = networkHeight - localHeight;
+    if (lag <= maxBlocks) return [];
+    return [{
+      subject: 'network',
+      value: lag,
+      message: `Sync lag of ${lag} blocks (local ${localHeight}, network ${networkHeight}) exceeds ${maxBlocks}`,
+    }];
   }
 
-  private calculateMissedBlocks(blocks: any[]): number {
-    if (blocks.length < 2) return 0;
-    let missedBlocks = 0;
-    for (let i = 1; i < blocks.length; i++) {
-      missedBlocks += blocks[i].height - blocks[i-1].height - 1;
+  // Returns a human-readable reason when the rule input is invalid, or null when it can be stored.
+  // Rules deliver to shared channels only; personal channels are reached through watchlists.
+  async validateRule(input: any): Promise<string | null> {
+    if (!input || typeof input !== 'object') return 'Request body must be an object';
+    if (typeof input.name !== 'string' || input.name.trim() === '') return 'name is required';
+    if (!ALERT_RULE_TYPES.includes(input.type)) return `type must be one of: ${ALERT_RULE_TYPES.join(', ')}`;
+    if (input.params !== undefined && (typeof input.params !== 'object' || input.params === null)) return 'params must be an object';
+    for (const param of REQUIRED_PARAMS[input.type]) {
+      if (typeof input.params?.[param] !== 'number') return `params.${param} must be a number`;
+    }
+    if (input.params?.lookbackMinutes !== undefined && !(typeof input.params.lookbackMinutes === 'number' && input.params.lookbackMinutes > 0)) {
+      return 'params.lookbackMinutes must be a positive number';
+    }
+    if (input.enabled !== undefined && typeof input.enabled !== 'boolean') return 'enabled must be a boolean';
+    if (input.channel_ids !== undefined && (!Array.isArray(input.channel_ids) || !input.channel_ids.every(Number.isInteger))) {
+      return 'channel_ids must be an array of channel ids';
+    }
+    for (const id of input.channel_ids ?? []) {
+      const channel = await this.notificationService.getChannel(id);
+      if (!channel || channel.owner_id !== null) return 'channel_ids must reference shared notification channels';
+    }
+    if (input.cooldown_seconds !== undefined && (!Number.isInteger(input.cooldown_seconds) || input.cooldown_seconds < 0)) {
+      return 'cooldown_seconds must be a non-negative integer';
     }
-    return missedBlocks;
+    return null;
+  }
+
+  private normalizeRule(input: any): AlertRuleInput {
+    return {
+      name: input.name.trim(),
+      type: input.type,
+      params: input.params || {},
+      enabled: input.enabled ?? true,
+      cooldown_seconds: input.cooldown_seconds ?? config.alerts.defaultCooldownSeconds,
+      channel_ids: input.channel_ids ?? [],
+    };
+  }
+
+  async getRules(): Promise<AlertRule[]> {
+    return this.alerts.getAlertRules();
+  }
+
+  async getRule(id: number): Promise<AlertRule | null> {
+    return this.alerts.getAlertRule(id);
+  }
+
+  async createRule(input: any): Promise<AlertRule> {
+    return this.alerts.createAlertRule(this.normalizeRule(input));
+  }
+
+  async updateRule(id: number, input: any): Promise<AlertRule | null> {
+    return this.alerts.updateAlertRule(id, this.normalizeRule(input));
+  }
+
+  async deleteRule(id: number): Promise<boolean> {
+    return this.alerts.deleteAlertRule(id);
+  }
+
+  async getAlerts(filter: { status?: AlertStatus, ruleId?: number, limit?: number }): Promise<Alert[]> {
+    return this.alerts.getAlerts({ ...filter, limit: filter.limit ?? 100 });
   }
 }
 
@@ -0,0 +1,89 @@
+import { AnalyticsBucket, ProgramDeployment, ProgramUsage, ProgramUsageBucket } from '../types/Analytics.js';
+import { AnalyticsRepository, ProgramUsageRow } from '../types/Repository.js';
+
+// Default lookback when no `from` is given: a day of hourly buckets, or thirty days of daily ones.
+const DEFAULT_RANGE_SECONDS: Record<AnalyticsBucket, number> = {
+  hour: 24 * 60 * 60,
+  day: 30 * 24 * 60 * 60,
+};
+
+export class AnalyticsService {
+  constructor(private analytics: AnalyticsRepository) {}
+
+  async getTopPrograms(options: { limit?: number, bucket?: AnalyticsBucket, from?: Date, to?: Date }) {
+    const range = this.resolveRange(options.bucket ?? 'day', options.from, options.to);
+    const rows = await this.analytics.getProgramUsage({ ...range, limit: options.limit ?? 10 });
+    const programs = rows.map(row => ({ program_id: row.program_id, ...this.toUsage(row) }));
+
+    if (!options.bucket) {
+      return { ...this.describeRange(range), programs };
+    }
+
+    // Bucketed series are only fetched for the programs that made the top-N over the whole range.
+    const series = await Promise.all(programs.map(program =>
+      this.analytics.getProgramUsage({ ...range, programId: program.program_id, bucket: options.bucket })
+    ));
+    return {
+      ...this.describeRange(range),
+      bucket: options.bucket,
+      programs: programs.map((program, index) => ({ ...program, buckets: series[index].map(row => this.toBucket(row)) })),
+    };
+  }
+
+  async getProgram(programId: string, options: { bucket?: AnalyticsBucket, from?: Date, to?: Date }) {
+    const bucket = options.bucket ?? 'hour';
+    const range = this.resolveRange(bucket, options.from, options.to);
+    const [totals, functions, buckets, functionBuckets, deployments] = await Promise.all([
+      this.analytics.getProgramUsage({ ...range, programId }),
+      this.analytics.getProgramUsage({ ...range, programId, byFunction: true }),
+      this.analytics.getProgramUsage({ ...range, programId, bucket }),
+      this.analytics.getProgramUsage({ ...range, programId, bucket, byFunction: true }),
+      this.analytics.getProgramDeployments({ programId, limit: 1 }),
+    ]);
+
+    return {
+      program_id: programId,
+      deployment: deployments[0] ?? null,
+      ...this.describeRange(range),
+      bucket,
+      totals: totals.length > 0 ? this.toUsage(totals[0]) : this.toUsage({}),
+      functions: functions.map(row => ({ function_name: row.function_name as string, ...this.toUsage(row) })),
+      buckets: buckets.map(row => this.toBucket(row)),
+      function_buckets: functionBuckets.map(row => ({ ...this.toBucket(row), function_name: row.function_name as string })),
+    };
+  }
+
+  async getDeployments(options: { from?: Date, to?: Date, limit?: number }): Promise<ProgramDeployment[]> {
+    return this.analytics.getProgramDeployments({
+      from: options.from ? Math.floor(options.from.getTime() / 1000) : undefined,
+      to: options.to ? Math.floor(options.to.getTime() / 1000) : undefined,
+      limit: options.limit ?? 100,
+    });
+  }
+
+  private resolveRange(bucket: AnalyticsBucket, from?: Date, to?: Date): { from: number, to: number } {
+    const end = to ? Math.floor(to.getTime() / 1000) : Math.floor(Date.now() / 1000);
+    const start = from ? Math.floor(from.getTime() / 1000) : end - DEFAULT_RANGE_SECONDS[bucket];
+    return { from: start, to: end };
+  }
+
+  private describeRange(range: { from: number, to: number }) {
+    return { from: new Date(range.from * 1000).toISOString(), to: new Date(range.to * 1000).toISOString() };
+  }
+
+  private toUsage(row: Partial<ProgramUsageRow>): Omit<ProgramUsage, 'program_id'> {
+    return {
+      calls: Number(row.calls ?? 0),
+      transactions: Number(row.transactions ?? 0),
+      unique_callers: Number(row.unique_callers ?? 0),
+      fees: String(row.fees ?? '0'),
+      block_space_share: Number(row.block_space_share ?? 0),
+    };
+  }
+
+  private toBucket(row: ProgramUsageRow): ProgramUsageBucket {
+    return { bucket: row.bucket!, ...this.toUsage(row) };
+  }
+}
+
+export default AnalyticsService;
@@ -0,0 +1,299 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { Op, UniqueConstraintError } from 'sequelize';
+import { config } from '../config/index.js';
+import { User, ApiKey, RefreshToken } from '../database/index.js';
+import logger from '../utils/logger.js';
+import { hashPassword, sha256, verifyPassword } from '../utils/password.js';
+import { AuthPrincipal, AuthTokens, PublicApiKey, PublicUser, Role, ROLES } from '../types/Auth.js';
+
+const API_KEY_PREFIX = 'amk';
+
+// Carries the HTTP status the route should answer with, so handlers don't match on messages.
+export class AuthError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+export const hasRole = (role: Role, required: Role): boolean => ROLES.indexOf(role) >= ROLES.indexOf(required);
+
+export class AuthService {
+  async register(input: { username: string, email: string, password: string }): Promise<PublicUser> {
+    if (!config.auth.allowRegistration) {
+      throw new AuthError('Registration is disabled', 403);
+    }
+    this.assertCredentials(input);
+
+    const existing = await User.findOne({
+      where: { [Op.or]: [{ username: input.username }, { email: input.email }] },
+    });
+    if (existing) {
+      throw new AuthError('Username or email already in use', 409);
+    }
+
+    const user = await User.create({
+      username: input.username,
+      email: input.email,
+      password_hash: await hashPassword(input.password),
+      role: 'viewer',
+    });
+    logger.info(`User ${input.username} registered`);
+    return this.toPublicUser(user);
+  }
+
+  // Creates the configured administrator unless an account with its username exists. An existing
+  // account is left as it is, so changing the configured password never resets it.
+  async ensureAdmin(input: { username: string, email: string, password: string }): Promise<void> {
+    this.assertCredentials(input);
+    const [, created] = await User.findOrCreate({
+      where: { username: input.username },
+      defaults: { email: input.email, password_hash: await hashPassword(input.password), role: 'admin' },
+    });
+    if (created) {
+      logger.info(`Administrator ${input.username} created`);
+    }
+  }
+
+  async login(identifier: string, password: string): Promise<AuthTokens> {
+    if (typeof identifier !== 'string' || typeof password !== 'string') {
+      throw new AuthError('username or email and password are required', 400);
+    }
+    const user = await User.findOne({
+      where: { [Op.or]: [{ username: identifier }, { email: identifier }] },
+    });
+    const passwordHash = user?.get('password_hash') as string | null;
+    if (!user || !passwordHash || !(await verifyPassword(password, passwordHash))) {
+      throw new AuthError('Invalid credentials', 401);
+    }
+    if (user.get('disabled')) {
+      throw new AuthError('Account is disabled', 403);
+    }
+    return this.issueTokens(user);
+  }
+
+  async refresh(refreshToken: string): Promise<AuthTokens> {
+    this.assertRefreshToken(refreshToken);
+    // Revoking in the same statement that checks the token lets only one of several concurrent
+    // requests with the same token rotate it
+    const now = new Date();
+    const [revoked, [stored]] = await RefreshToken.update(
+      { revoked_at: now },
+      { where: { token_hash: sha256(refreshToken), revoked_at: null, expires_at: { [Op.gt]: now } }, returning: true }
+    );
+    if (revoked !== 1) {
+      throw new AuthError('Invalid refresh token', 401);
+    }
+
+    const user = await User.findByPk(stored.get('user_id') as number);
+    if (!user || user.get('disabled')) {
+      throw new AuthError('Invalid refresh token', 401);
+    }
+    return this.issueTokens(user);
+  }
+
+  async logout(refreshToken: string): Promise<void> {
+    this.assertRefreshToken(refreshToken);
+    await RefreshToken.update(
+      { revoked_at: new Date() },
+      { where: { token_hash: sha256(refreshToken), revoked_at: null } }
+    );
+  }
+
+  private async issueTokens(user: any): Promise<AuthTokens> {
+    const accessToken = jwt.sign(
+      { sub: String(user.get('id')), username: user.get('username'), role: user.get('role'), type: 'access' },
+      config.jwt.secret,
+      { expiresIn: config.jwt.expiresIn as jwt.SignOptions['expiresIn'] }
+    );
+    const refreshToken = crypto.randomBytes(48).toString('hex');
+    await RefreshToken.create({
+      user_id: user.get('id'),
+      token_hash: sha256(refreshToken),
+      expires_at: new Date(Date.now() + config.jwt.refreshExpiresInDays * 24 * 60 * 60 * 1000),
+    });
+    return { accessToken, refreshToken, expiresIn: config.jwt.expiresIn };
+  }
+
+  // Resolves an access token to a principal, re-reading the user so role changes and
+  // disabled accounts take effect before the token expires.
+  async verifyAccessToken(token: string): Promise<AuthPrincipal> {
+    let payload: jwt.JwtPayload;
+    try {
+      const decoded = jwt.verify(token, config.jwt.secret);
+      if (typeof decoded === 'string' || decoded.type !== 'access') {
+        throw new Error('Unexpected token payload');
+      }
+      payload = decoded;
+    } catch (error) {
+      throw new AuthError('Invalid token', 401);
+    }
+
+    const user = await User.findByPk(Number(payload.sub));
+    if (!user || user.get('disabled')) {
+      throw new AuthError('Invalid token', 401);
+    }
+    return { userId: user.get('id') as number, username: user.get('username') as string, role: user.get('role') as Role, method: 'jwt' };
+  }
+
+  // API keys act with their own scope, capped at the owner's current role.
+  async verifyApiKey(key: string): Promise<AuthPrincipal> {
+    const apiKey = await ApiKey.findOne({ where: { key_hash: sha256(key) }, include: [User] });
+    const expiresAt = apiKey?.get('expires_at') as Date | null;
+    if (!apiKey || apiKey.get('revoked_at') || (expiresAt && expiresAt < new Date())) {
+      throw new AuthError('Invalid API key', 401);
+    }
+    const user = apiKey.get('User') as User | null;
+    if (!user || user.get('disabled')) {
+      throw new AuthError('Invalid API key', 401);
+    }
+    await apiKey.update({ last_used_at: new Date() });
+
+    const scope = apiKey.get('scope') as Role;
+    const ownerRole = user.get('role') as Role;
+    return {
+      userId: user.get('id') as number,
+      username: user.get('username') as string,
+      role: hasRole(ownerRole, scope) ? scope : ownerRole,
+      method: 'api_key',
+    };
+  }
+
+  async createApiKey(principal: AuthPrincipal, input: { name: string, scope?: Role, expiresAt?: string }): Promise<{ key: string, apiKey: PublicApiKey }> {
+    if (typeof input.name !== 'string' || input.name.trim() === '') {
+      throw new AuthError('name is required', 400);
+    }
+    const scope = input.scope ?? 'viewer';
+    if (!ROLES.includes(scope)) {
+      throw new AuthError(`scope must be one of: ${ROLES.join(', ')}`, 400);
+    }
+    if (!hasRole(principal.role, scope)) {
+      throw new AuthError('Cannot create an API key with a scope above your own role', 403);
+    }
+    const expiresAt = input.expiresAt ? new Date(input.expiresAt) : null;
+    if (expiresAt && isNaN(expiresAt.getTime())) {
+      throw new AuthError('expiresAt must be an ISO date', 400);
+    }
+
+    const prefix = crypto.randomBytes(4).toString('hex');
+    const key = `${API_KEY_PREFIX}_${prefix}_${crypto.randomBytes(32).toString('hex')}`;
+    const apiKey = await ApiKey.create({
+      user_id: principal.userId,
+      name: input.name.trim(),
+      prefix,
+      key_hash: sha256(key),
+      scope,
+      expires_at: expiresAt,
+    });
+    return { key, apiKey: this.toPublicApiKey(apiKey) };
+  }
+
+  async listApiKeys(userId: number): Promise<PublicApiKey[]> {
+    const apiKeys = await ApiKey.findAll({ where: { user_id: userId }, order: [['id', 'ASC']] });
+    return apiKeys.map(apiKey => this.toPublicApiKey(apiKey));
+  }
+
+  async revokeApiKey(userId: number, id: number): Promise<boolean> {
+    const [updated] = await ApiKey.update(
+      { revoked_at: new Date() },
+      { where: { id, user_id: userId, revoked_at: null } }
+    );
+    return updated > 0;
+  }
+
+  async getUser(id: number): Promise<PublicUser | null> {
+    const user = await User.findByPk(id);
+    return user ? this.toPublicUser(user) : null;
+  }
+
+  async listUsers(): Promise<PublicUser[]> {
+    const users = await User.findAll({ order: [['id', 'ASC']] });
+    return users.map(user => this.toPublicUser(user));
+  }
+
+  async updateUser(id: number, input: { role?: Role, disabled?: boolean, email?: string }): Promise<PublicUser | null> {
+    if (input.role !== undefined && !ROLES.includes(input.role)) {
+      throw new AuthError(`role must be one of: ${ROLES.join(', ')}`, 400);
+    }
+    if (input.disabled !== undefined && typeof input.disabled !== 'boolean') {
+      throw new AuthError('disabled must be a boolean', 400);
+    }
+    if (input.email !== undefined && !this.isEmail(input.email)) {
+      throw new AuthError('email must be a valid email address', 400);
+    }
+    const user = await User.findByPk(id);
+    if (!user) return null;
+
+    const changes: Record<string, any> = {};
+    if (input.role !== undefined) changes.role = input.role;
+    if (input.disabled !== undefined) changes.disabled = input.disabled;
+    if (input.email !== undefined) changes.email = input.email;
+    try {
+      await user.update(changes);
+    } catch (error) {
+      if (error instanceof UniqueConstraintError) {
+        throw new AuthError('Email already in use', 409);
+      }
+      throw error;
+    }
+    if (input.disabled) {
+      await RefreshToken.update({ revoked_at: new Date() }, { where: { user_id: id, revoked_at: null } });
+    }
+    return this.toPublicUser(user);
+  }
+
+  async deleteUser(id: number): Promise<boolean> {
+    const deleted = await User.destroy({ where: { id } });
+    return deleted > 0;
+  }
+
+  private assertCredentials(input: { username: string, email: string, password: string }): void {
+    if (typeof input.username !== 'string' || !/^[A-Za-z0-9_.-]{3,64}$/.test(input.username)) {
+      throw new AuthError('username must be 3-64 characters of letters, digits, ".", "_" or "-"', 400);
+    }
+    if (!this.isEmail(input.email)) {
+      throw new AuthError('email must be a valid email address', 400);
+    }
+    if (typeof input.password !== 'string' || input.password.length < 8) {
+      throw new AuthError('password must be at least 8 characters', 400);
+    }
+  }
+
+  private isEmail(email: unknown): boolean {
+    return typeof email === 'string' && /^[^@\s]+@[^@\s]+$/.test(email);
+  }
+
+  private assertRefreshToken(refreshToken: unknown): void {
+    if (typeof refreshToken !== 'string' || refreshToken === '') {
+      throw new AuthError('refreshToken is required', 400);
+    }
+  }
+
+  private toPublicUser(user: any): PublicUser {
+    return {
+      id: user.get('id'),
+      username: user.get('username'),
+      email: user.get('email'),
+      role: user.get('role'),
+      disabled: user.get('disabled'),
+      createdAt: user.get('createdAt'),
+      updatedAt: user.get('updatedAt'),
+    };
+  }
+
+  private toPublicApiKey(apiKey: any): PublicApiKey {
+    return {
+      id: apiKey.get('id'),
+      name: apiKey.get('name'),
+      prefix: apiKey.get('prefix'),
+      scope: apiKey.get('scope'),
+      last_used_at: apiKey.get('last_used_at') ?? null,
+      expires_at: apiKey.get('expires_at') ?? null,
+      revoked_at: apiKey.get('revoked_at') ?? null,
+      createdAt: apiKey.get('createdAt'),
+    };
+  }
+}
+
+export default AuthService;
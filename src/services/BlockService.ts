@@ -1,41 +1,251 @@
 import { AleoSDKService } from './AleoSDKService.js';
-import { SnarkOSDBService } from './SnarkOSDBService.js';
+import { RewardService } from './RewardService.js';
 import logger from '../utils/logger.js';
+import { mapWithConcurrency } from '../utils/concurrency.js';
+import { eventBus } from '../utils/eventBus.js';
+import { config } from '../config/index.js';
+import { decodeCursor, encodeCursor, parseLimit } from '../utils/pagination.js';
 import { Block } from '../types/Block.js';
+import { Page, SortOrder } from '../types/Pagination.js';
+import { signersOf } from '../utils/signatures.js';
+import { parseTimeParam } from '../utils/time.js';
+import { Reorg, SyncStatus } from '../types/Sync.js';
+import { BlockRecord, BlockRepository, CheckpointRepository } from '../types/Repository.js';
 
 export class BlockService {
+  private isSyncing = false;
+  private syncStatus: SyncStatus = {
+    running: false,
+    currentHeight: null,
+    targetHeight: null,
+    blocksPerSecond: 0,
+    etaSeconds: null,
+    lastError: null,
+    lastSyncedAt: null,
+  };
+
   constructor(
     private aleoSDKService: AleoSDKService,
-    private snarkOSDBService: SnarkOSDBService
+    private blocks: BlockRepository,
+    private checkpoints: CheckpointRepository,
+    private rewardService: RewardService
   ) {}
 
-  async syncBlocks(batchSize: number = 10): Promise<void> {
+  async syncBlocks(batchSize: number = config.sync.batchSize): Promise<void> {
+    if (this.isSyncing) {
+      logger.info('Block synchronization already in progress, skipping this run');
+      return;
+    }
+    this.isSyncing = true;
+    this.syncStatus.running = true;
+    this.syncStatus.lastError = null;
+
     try {
-      const latestSyncedBlock = await this.snarkOSDBService.getLatestBlockHeight();
-      const latestNetworkBlock = await this.getLatestBlock();
-      
-      console.log("Latest synchronized block:", latestSyncedBlock);
-      console.log("Latest block in the network:", latestNetworkBlock);
-      
-      // ... existing synchronization logic ...
+      const checkpoint = await this.checkpoints.getSyncCheckpoint();
+      const latestNetworkHeight = await this.aleoSDKService.getLatestBlockHeight();
+      if (latestNetworkHeight === null) {
+        throw new Error('Failed to get the latest block height');
+      }
+
+      let nextHeight = checkpoint !== null ? checkpoint + 1 : config.sync.startHeight;
+      const startedAt = Date.now();
+      const startHeight = nextHeight;
+      this.syncStatus.currentHeight = nextHeight - 1;
+      this.syncStatus.targetHeight = latestNetworkHeight;
+
+      logger.info(`Synchronizing blocks ${nextHeight} to ${latestNetworkHeight}`);
+
+      while (nextHeight <= latestNetworkHeight) {
+        const endHeight = Math.min(nextHeight + batchSize - 1, latestNetworkHeight);
+        const expected = endHeight - nextHeight + 1;
+        const fetched = await this.fetchBlockRange(nextHeight, endHeight);
+        const blocks = await this.takeLinkedPrefix(nextHeight, fetched);
+
+        if (blocks.length === 0 && fetched.length > 0) {
+          const reorg = await this.handleReorg(nextHeight - 1);
+          nextHeight = reorg.common_ancestor_height + 1;
+          this.syncStatus.currentHeight = reorg.common_ancestor_height;
+          continue;
+        }
+
+        if (blocks.length > 0) {
+          await this.resolveSigners(blocks);
+          await this.rewardService.attributeRewards(blocks);
+          await this.blocks.saveBlocks(blocks);
+          this.publishNewBlocks(blocks);
+          nextHeight += blocks.length;
+          this.updateProgress(nextHeight - 1, startHeight, startedAt);
+        }
+        if (blocks.length < fetched.length) {
+          // The upstream switched branches mid-batch; the unlinked remainder is re-checked next round.
+          continue;
+        }
+        if (blocks.length < expected) {
+          throw new Error(`Block ${nextHeight} could not be retrieved, stopping synchronization`);
+        }
+      }
+
+      this.syncStatus.lastSyncedAt = new Date().toISOString();
+      logger.info(`Block synchronization complete at height ${this.syncStatus.currentHeight}`);
     } catch (error) {
-      console.error('Error occurred during block synchronization:', error);
+      this.syncStatus.lastError = error instanceof Error ? error.message : String(error);
+      logger.error('Error occurred during block synchronization:', error);
+    } finally {
+      this.isSyncing = false;
+      this.syncStatus.running = false;
+    }
+  }
+
+  // Returns a human-readable reason when the cursor does not fit the listing query, or null when it can be
+  // run. The route schema validates the parameters themselves.
+  validateListQuery(query: any): string | null {
+    if (query.cursor !== undefined) {
+      const cursor = decodeCursor<{ height: number, order: SortOrder }>(String(query.cursor));
+      if (!cursor || !Number.isInteger(cursor.height)) return 'cursor is invalid';
+      if (cursor.order !== (query.order ?? 'desc')) return 'cursor was issued for a different sort order';
+    }
+    return null;
+  }
+
+  async listBlocks(query: any): Promise<Page<BlockRecord>> {
+    const order: SortOrder = query.order ?? 'desc';
+    const limit = parseLimit(query.limit);
+    const cursor = query.cursor !== undefined ? decodeCursor<{ height: number }>(String(query.cursor)) : null;
+    const toInt = (value: unknown) => value !== undefined ? parseInt(String(value)) : undefined;
+
+    const { rows, total } = await this.blocks.listBlocks({
+      fromHeight: toInt(query.from_height),
+      toHeight: toInt(query.to_height),
+      from: parseTimeParam(query.from),
+      to: parseTimeParam(query.to),
+      validator: query.validator,
+      minTransactions: toInt(query.min_transactions),
+      order,
+      afterHeight: cursor?.height,
+      limit,
+    });
+
+    const items = rows.slice(0, limit);
+    return {
+      items,
+      nextCursor: rows.length > limit ? encodeCursor({ height: Number(items[items.length - 1].height), order }) : null,
+      total,
+    };
+  }
+
+  async getReorgs(limit: number = 50): Promise<Reorg[]> {
+    return this.blocks.getReorgs(limit);
+  }
+
+  // Returns the leading blocks whose previous_hash chains onto the stored parent and onto each other.
+  private async takeLinkedPrefix(startHeight: number, blocks: Block[]): Promise<Block[]> {
+    let expectedParent = await this.blocks.getBlockHash(startHeight - 1);
+    const linked: Block[] = [];
+    for (const block of blocks) {
+      if (expectedParent !== null && block.previous_hash !== expectedParent) {
+        logger.warn(`Block ${block.height} does not link to parent ${expectedParent} (previous_hash ${block.previous_hash})`);
+        break;
+      }
+      linked.push(block);
+      expectedParent = block.hash ?? null;
     }
+    return linked;
   }
 
+  // Recovers the signers of the certificates that do not carry them yet. Recovery is CPU-bound, so
+  // the event loop is released after each block.
+  private async resolveSigners(blocks: Block[]): Promise<void> {
+    for (const block of blocks) {
+      for (const certificate of block.certificates) {
+        certificate.signers ??= signersOf(certificate.signatures);
+      }
+      await new Promise(resolve => setImmediate(resolve));
+    }
+  }
+
+  // Walks back from the stored tip until the stored hash matches the upstream hash at the same
+  // height, then rolls the database back to that common ancestor.
+  private async handleReorg(tipHeight: number): Promise<Reorg> {
+    const newHashes: string[] = [];
+    let height = tipHeight;
+
+    while (height >= 0) {
+      if (tipHeight - height > config.sync.maxReorgDepth) {
+        throw new Error(`Reorg deeper than ${config.sync.maxReorgDepth} blocks below height ${tipHeight}, manual intervention required`);
+      }
+      const storedHash = await this.blocks.getBlockHash(height);
+      if (storedHash === null) break;
+
+      // A cached copy may predate the fork and would match the stored hash
+      const canonical = await this.aleoSDKService.getBlockByHeight(height, { fresh: true });
+      if (!canonical || !canonical.hash) {
+        throw new Error(`Block ${height} could not be retrieved while resolving reorg`);
+      }
+      if (canonical.hash === storedHash) break;
+
+      newHashes.unshift(canonical.hash);
+      height--;
+    }
+
+    if (height === tipHeight) {
+      throw new Error(`Block ${tipHeight + 1} does not link to stored block ${tipHeight}, but no fork was found upstream`);
+    }
+    const reorg = await this.blocks.rollbackToHeight(height, newHashes);
+    logger.warn(`Chain reorganization detected: rolled back ${reorg.depth} blocks to common ancestor ${height}`);
+    return reorg;
+  }
+
+  getSyncStatus(): SyncStatus {
+    return { ...this.syncStatus };
+  }
+
+  private updateProgress(currentHeight: number, startHeight: number, startedAt: number): void {
+    const elapsedSeconds = (Date.now() - startedAt) / 1000;
+    const synced = currentHeight - startHeight + 1;
+    const blocksPerSecond = elapsedSeconds > 0 ? synced / elapsedSeconds : 0;
+    const remaining = (this.syncStatus.targetHeight ?? currentHeight) - currentHeight;
+
+    this.syncStatus.currentHeight = currentHeight;
+    this.syncStatus.blocksPerSecond = Number(blocksPerSecond.toFixed(2));
+    this.syncStatus.etaSeconds = blocksPerSecond > 0 ? Math.round(remaining / blocksPerSecond) : null;
+    eventBus.publish('sync.progress', this.getSyncStatus());
+  }
+
+  private publishNewBlocks(blocks: Block[]): void {
+    for (const block of blocks) {
+      eventBus.publish('block.new', {
+        height: block.height,
+        hash: block.hash,
+        previous_hash: block.previous_hash,
+        timestamp: block.timestamp,
+        validator_address: block.validator_address,
+        transactions_count: block.transactions.length,
+        certificates_count: block.certificates.length,
+      }, block.validator_address ? [block.validator_address] : []);
+    }
+  }
+
+  // Fetches the range with bounded concurrency and returns only the contiguous prefix,
+  // so a failed height is retried on the next run instead of leaving a gap behind the checkpoint.
   private async fetchBlockRange(startHeight: number, endHeight: number): Promise<Block[]> {
-    const blocks: Block[] = [];
-    for (let height = startHeight; height <= endHeight; height++) {
+    const heights = Array.from({ length: endHeight - startHeight + 1 }, (_, i) => startHeight + i);
+    const fetched = await mapWithConcurrency(heights, config.sync.concurrency, async (height) => {
       try {
         const block = await this.aleoSDKService.getBlockByHeight(height);
-        if (block) {
-          blocks.push(block);
-        } else {
+        if (!block) {
           logger.warn(`Block not retrieved: ${height}`);
         }
+        return block;
       } catch (error) {
         logger.error(`Error occurred while fetching block at height ${height}:`, error);
+        return null;
       }
+    });
+
+    const blocks: Block[] = [];
+    for (const block of fetched) {
+      if (!block) break;
+      blocks.push(block);
     }
     return blocks;
   }
@@ -0,0 +1,92 @@
+import { parseTimeParam } from '../utils/time.js';
+import { decodeCursor, encodeCursor, parseLimit } from '../utils/pagination.js';
+import { CommitteeDiff, CommitteeMember, CommitteeSnapshot } from '../types/Committee.js';
+import { Page, SortOrder } from '../types/Pagination.js';
+import { CommitteeRepository } from '../types/Repository.js';
+
+export class CommitteeService {
+  constructor(private committees: CommitteeRepository) {}
+
+  // Returns a human-readable reason when the cursor does not fit the history query, or null when it can be
+  // run. The route schema validates the parameters themselves.
+  validateHistoryQuery(query: any): string | null {
+    if (query.cursor !== undefined) {
+      const cursor = decodeCursor<{ id: number, order: SortOrder }>(String(query.cursor));
+      if (!cursor || !Number.isInteger(cursor.id)) return 'cursor is invalid';
+      if (cursor.order !== (query.order ?? 'desc')) return 'cursor was issued for a different sort order';
+    }
+    return null;
+  }
+
+  // A page of the snapshots in the time range, newest first by default, each with the diff against
+  // the snapshot taken before it.
+  async getHistory(query: any): Promise<Page<CommitteeSnapshot & { diff: CommitteeDiff | null }>> {
+    const order: SortOrder = query.order ?? 'desc';
+    const limit = parseLimit(query.limit);
+    const cursor = query.cursor !== undefined ? decodeCursor<{ id: number }>(String(query.cursor)) : null;
+
+    const { rows, total } = await this.committees.listCommitteeSnapshots({
+      from: parseTimeParam(query.from),
+      to: parseTimeParam(query.to),
+      order,
+      afterId: cursor?.id,
+      limit,
+    });
+    const page = rows.slice(0, limit);
+    const nextCursor = rows.length > limit ? encodeCursor({ id: page[page.length - 1].id, order }) : null;
+    if (page.length === 0) return { items: [], nextCursor, total };
+
+    // Diff in the order the snapshots were taken, against the one before the oldest on the page
+    const snapshots = [...page].sort((a, b) => a.id - b.id);
+    const baseline = await this.committees.getPreviousCommitteeSnapshot(snapshots[0].id);
+    const ids = snapshots.map(snapshot => snapshot.id);
+    if (baseline) ids.unshift(baseline.id);
+    const members = await this.committees.getCommitteeMembers(ids);
+
+    const diffs = new Map(snapshots.map((snapshot, index) => {
+      const previousId = index > 0 ? snapshots[index - 1].id : baseline?.id;
+      return [snapshot.id, previousId !== undefined ? this.diff(members.get(previousId)!, members.get(snapshot.id)!) : null];
+    }));
+    return {
+      items: page.map(snapshot => ({ ...snapshot, diff: diffs.get(snapshot.id)! })),
+      nextCursor,
+      total,
+    };
+  }
+
+  async getAtHeight(height: number): Promise<(CommitteeSnapshot & { members: CommitteeMember[], diff: CommitteeDiff | null }) | null> {
+    const snapshot = await this.committees.getCommitteeSnapshotAtHeight(height);
+    if (!snapshot) return null;
+
+    const previous = await this.committees.getPreviousCommitteeSnapshot(snapshot.id);
+    const members = await this.committees.getCommitteeMembers(previous ? [previous.id, snapshot.id] : [snapshot.id]);
+    return {
+      ...snapshot,
+      members: members.get(snapshot.id)!,
+      diff: previous ? this.diff(members.get(previous.id)!, members.get(snapshot.id)!) : null,
+    };
+  }
+
+  diff(previous: CommitteeMember[], current: CommitteeMember[]): CommitteeDiff {
+    const previousByAddress = new Map(previous.map(member => [member.address, member]));
+    const currentByAddress = new Map(current.map(member => [member.address, member]));
+
+    const joined = current.filter(member => !previousByAddress.has(member.address)).map(member => member.address);
+    const left = previous.filter(member => !currentByAddress.has(member.address)).map(member => member.address);
+    const stakeChanges = current
+      .filter(member => previousByAddress.has(member.address) && previousByAddress.get(member.address)!.stake !== member.stake)
+      .map(member => {
+        const from = previousByAddress.get(member.address)!.stake;
+        return {
+          address: member.address,
+          from,
+          to: member.stake,
+          delta: (BigInt(member.stake) - BigInt(from)).toString(),
+        };
+      });
+
+    return { joined, left, stakeChanges };
+  }
+}
+
+export default CommitteeService;
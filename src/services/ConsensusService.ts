@@ -30,13 +30,13 @@ class ConsensusService {
             return null;
           }
           logger.debug('Latest block:', JSON.stringify(latestBlock, (_, v) => typeof v === 'bigint' ? v.toString() : v));
-          if (typeof latestBlock.height !== 'number' || isNaN(latestBlock.height)) {
-            logger.warn(`Invalid block height: ${latestBlock.height}`);
+          if (latestBlock.certificates.length === 0) {
+            logger.warn(`Block ${latestBlock.height} has no batch certificates to read the round from`);
             return null;
           }
-          
-          const blocksPerRound = 100; // Default value, adjust according to your project
-          return Math.floor(latestBlock.height / blocksPerRound);
+
+          // The highest round committed by the latest block's subdag
+          return Math.max(...latestBlock.certificates.map(certificate => certificate.round));
         } catch (error) {
           logger.error("getCurrentRound error:", error);
           return null;
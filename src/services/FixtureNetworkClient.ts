@@ -0,0 +1,91 @@
+import fs from 'fs';
+import path from 'path';
+import { AleoNetworkClient } from '@provablehq/sdk';
+
+// live: talk to the endpoint; record: talk to it and save every response; replay: serve saved responses only
+export type UpstreamMode = 'live' | 'record' | 'replay';
+
+export const UPSTREAM_MODES: UpstreamMode[] = ['live', 'record', 'replay'];
+
+export interface Fixture {
+  // Request path relative to the network root, e.g. /block/123 or /committee/latest
+  path: string;
+  response?: unknown;
+  // Set instead of `response` when the upstream request failed
+  error?: string;
+  recorded_at: string;
+}
+
+// One JSON file per request path, so a recording is stable across runs and reviewable in diffs.
+// Paths are independent of the endpoint URL and network, so fixtures recorded against any endpoint replay on all.
+export class FixtureStore {
+  constructor(private directory: string) {}
+
+  private fileFor(requestPath: string): string {
+    const name = requestPath.replace(/^\/+/, '').replace(/[^\w./-]/g, '_').replace(/\.\.+/g, '_') || 'index';
+    return path.join(this.directory, `${name}.json`);
+  }
+
+  read(requestPath: string): Fixture | null {
+    const file = this.fileFor(requestPath);
+    if (!fs.existsSync(file)) return null;
+    return JSON.parse(fs.readFileSync(file, 'utf8'));
+  }
+
+  write(fixture: Fixture): void {
+    const file = this.fileFor(fixture.path);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, `${JSON.stringify(fixture, null, 2)}\n`);
+  }
+}
+
+// Every AleoNetworkClient read goes through fetchData, so overriding it captures all upstream traffic.
+export class RecordingNetworkClient extends AleoNetworkClient {
+  constructor(host: string, private store: FixtureStore) {
+    super(host);
+  }
+
+  async fetchData<Type>(url: string = '/'): Promise<Type> {
+    try {
+      const response = await super.fetchData<Type>(url);
+      this.store.write({ path: url, response, recorded_at: new Date().toISOString() });
+      return response;
+    } catch (error) {
+      // A failure only replaces a recording that was a failure too
+      if (!this.store.read(url)?.response) {
+        this.store.write({ path: url, error: error instanceof Error ? error.message : String(error), recorded_at: new Date().toISOString() });
+      }
+      throw error;
+    }
+  }
+}
+
+export class ReplayNetworkClient extends AleoNetworkClient {
+  constructor(host: string, private store: FixtureStore) {
+    super(host);
+  }
+
+  async fetchData<Type>(url: string = '/'): Promise<Type> {
+    const fixture = this.store.read(url);
+    if (!fixture) {
+      throw new Error(`No recorded upstream response for ${url}`);
+    }
+    if (fixture.error !== undefined) {
+      throw new Error(fixture.error);
+    }
+    return fixture.response as Type;
+  }
+}
+
+export const createNetworkClient = (url: string, mode: UpstreamMode, fixturesDir: string): AleoNetworkClient => {
+  switch (mode) {
+    case 'record':
+      return new RecordingNetworkClient(url, new FixtureStore(fixturesDir));
+    case 'replay':
+      return new ReplayNetworkClient(url, new FixtureStore(fixturesDir));
+    default:
+      return new AleoNetworkClient(url);
+  }
+};
+
+export default createNetworkClient;
@@ -0,0 +1,92 @@
+import { scoreValidator } from '../utils/scoring.js';
+import { CommitteeRepository, RollupRepository, ValidatorRepository, ValidatorRollupTotals } from '../types/Repository.js';
+import { Leaderboard, LeaderboardEntry, LeaderboardWindow } from '../types/Validator.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const WINDOW_MS: Record<LeaderboardWindow, number> = {
+  '1d': DAY_MS,
+  '7d': 7 * DAY_MS,
+  '30d': 30 * DAY_MS,
+  '90d': 90 * DAY_MS,
+};
+
+type RankedEntry = Omit<LeaderboardEntry, 'previous_rank' | 'rank_change'>;
+
+export class LeaderboardService {
+  constructor(
+    private rollups: RollupRepository,
+    private validators: ValidatorRepository,
+    private committees: CommitteeRepository
+  ) {}
+
+  // Ranks the validators active in the window ending with the hour (windows up to a week) or day that
+  // contains `to`, and compares each rank with the one of the window before.
+  async getLeaderboard(window: LeaderboardWindow = '30d', to: Date = new Date(), limit?: number): Promise<Leaderboard> {
+    const length = WINDOW_MS[window];
+    const granularity = length <= 7 * DAY_MS ? 'hour' : 'day';
+    const bucketMs = granularity === 'hour' ? HOUR_MS : DAY_MS;
+    const end = new Date(Math.floor(to.getTime() / bucketMs) * bucketMs + bucketMs);
+    const start = new Date(end.getTime() - length);
+    const previousStart = new Date(start.getTime() - length);
+
+    const validators = new Map((await this.validators.getValidators()).map(validator => [validator.address, validator]));
+    const current = await this.rank(granularity, start, end, validators);
+    const previous = await this.rank(granularity, previousStart, start, validators);
+    const previousRanks = new Map(previous.map(entry => [entry.address, entry.rank]));
+
+    const items = current.map(entry => {
+      const previousRank = previousRanks.get(entry.address) ?? null;
+      return {
+        ...entry,
+        previous_rank: previousRank,
+        rank_change: previousRank !== null ? previousRank - entry.rank : null,
+      };
+    });
+    return {
+      window,
+      from: start.toISOString(),
+      to: end.toISOString(),
+      previous_from: previousStart.toISOString(),
+      items: limit !== undefined ? items.slice(0, limit) : items,
+    };
+  }
+
+  private async rank(
+    granularity: 'hour' | 'day',
+    from: Date,
+    to: Date,
+    validators: Map<string, { stake: string | null }>
+  ): Promise<RankedEntry[]> {
+    const { roundsObserved, validators: totals } = await this.rollups.getRollupTotals(granularity, from, to);
+    // The rollups carry the stake as of the window; validators without rewards in it fall back to their current stake
+    const stakeOf = (total: ValidatorRollupTotals) => {
+      const stake = total.stake ?? validators.get(total.address)?.stake ?? null;
+      return stake !== null ? BigInt(stake) : null;
+    };
+    const totalStake = totals.reduce((sum, total) => sum + (stakeOf(total) ?? BigInt(0)), BigInt(0));
+    const memberSince = await this.committees.getCommitteeMemberSince(totals.map(total => total.address), to);
+
+    return totals
+      .map(total => {
+        const stake = stakeOf(total);
+        const { score, components } = scoreValidator({
+          roundsObserved,
+          roundsParticipated: Number(total.rounds_participated),
+          signaturesGiven: BigInt(total.signatures_given),
+          signaturesExpected: BigInt(total.signatures_expected),
+          grossReward: BigInt(total.gross_reward),
+          commissionReward: BigInt(total.commission_reward),
+          stakeShare: stake !== null && totalStake > BigInt(0) ? Number((stake * BigInt(1_000_000)) / totalStake) / 1_000_000 : null,
+          rankedValidators: totals.length,
+          tenureDays: memberSince.has(total.address) ? Math.max(to.getTime() - memberSince.get(total.address)!.getTime(), 0) / DAY_MS : null,
+        });
+        return { address: total.address, score, components };
+      })
+      .sort((a, b) => b.score - a.score || (a.address < b.address ? -1 : a.address > b.address ? 1 : 0))
+      .map((entry, index) => ({ rank: index + 1, ...entry }));
+  }
+}
+
+export default LeaderboardService;
@@ -0,0 +1,72 @@
+import { PrimaryService } from './PrimaryService.js';
+import logger from '../utils/logger.js';
+import { config } from '../config/index.js';
+import { MempoolSnapshot, MempoolStats, MempoolTransaction } from '../types/Mempool.js';
+import { MempoolRepository } from '../types/Repository.js';
+
+const DEFAULT_RANGE_MS = 24 * 60 * 60 * 1000;
+
+export class MempoolService {
+  private isSampling = false;
+
+  constructor(
+    private primaryService: PrimaryService,
+    private mempool: MempoolRepository
+  ) {}
+
+  // Takes one mempool snapshot and then reconciles everything seen so far against the synced blocks.
+  async sample(): Promise<void> {
+    if (this.isSampling) {
+      logger.info('Mempool sampling already in progress, skipping this run');
+      return;
+    }
+    this.isSampling = true;
+
+    try {
+      const transmissions = await this.primaryService.collectTransmissions();
+      const ids = [...new Set(transmissions.map(transmission => transmission.id).filter(Boolean))];
+      const snapshot = await this.mempool.recordMempoolSample(ids);
+      const reconciled = await this.mempool.reconcileMempool(config.mempool.droppedAfterSeconds, config.sync.maxReorgDepth);
+      logger.debug(`Mempool sample: ${snapshot.size} transactions (${snapshot.new_count} new), ` +
+        `${reconciled.included} included, ${reconciled.dropped} dropped, ${reconciled.reverted} reverted`);
+    } catch (error) {
+      logger.error('Error occurred while sampling the mempool:', error);
+    } finally {
+      this.isSampling = false;
+    }
+  }
+
+  async getStats(from?: Date, to?: Date): Promise<MempoolStats> {
+    const range = this.resolveRange(from, to);
+    const stats = await this.mempool.getMempoolStats(range.from, range.to);
+    return {
+      from: range.from.toISOString(),
+      to: range.to.toISOString(),
+      current_size: stats.size.current,
+      average_size: stats.size.average,
+      max_size: stats.size.max,
+      seen: stats.seen,
+      included: stats.included,
+      pending: stats.pending,
+      dropped: stats.dropped,
+      inclusion_latency_seconds: stats.latency,
+    };
+  }
+
+  async getHistory(from?: Date, to?: Date, limit: number = 1000): Promise<MempoolSnapshot[]> {
+    const range = this.resolveRange(from, to);
+    return this.mempool.getMempoolSnapshots(range.from, range.to, limit);
+  }
+
+  async getDropped(from?: Date, to?: Date, limit: number = 100): Promise<MempoolTransaction[]> {
+    const range = this.resolveRange(from, to);
+    return this.mempool.getDroppedMempoolTransactions(range.from, range.to, limit);
+  }
+
+  private resolveRange(from?: Date, to?: Date): { from: Date, to: Date } {
+    const end = to ?? new Date();
+    return { from: from ?? new Date(end.getTime() - DEFAULT_RANGE_MS), to: end };
+  }
+}
+
+export default MempoolService;
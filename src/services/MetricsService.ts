@@ -0,0 +1,156 @@
+import { Gauge } from 'prom-client';
+import { AleoSDKService } from './AleoSDKService.js';
+import logger from '../utils/logger.js';
+import { config } from '../config/index.js';
+import { register } from '../utils/metrics.js';
+import { BlockRepository, ValidatorRepository } from '../types/Repository.js';
+
+// Per-validator gauges, all labelled by `address`. Values come from the validators table
+// (refreshed hourly from the committee) and from batch certificates for participation.
+const validatorStake = new Gauge({
+  name: 'aleo_validator_stake_microcredits',
+  help: 'Validator stake in microcredits',
+  labelNames: ['address'] as const,
+  registers: [register],
+});
+const validatorBonded = new Gauge({
+  name: 'aleo_validator_bonded_microcredits',
+  help: 'Validator bonded amount in microcredits',
+  labelNames: ['address'] as const,
+  registers: [register],
+});
+const validatorIsActive = new Gauge({
+  name: 'aleo_validator_is_active',
+  help: '1 if the validator is an active committee member, 0 otherwise',
+  labelNames: ['address'] as const,
+  registers: [register],
+});
+const validatorBlocksProduced = new Gauge({
+  name: 'aleo_validator_blocks_produced',
+  help: 'Blocks attributed to the validator since the monitor started indexing',
+  labelNames: ['address'] as const,
+  registers: [register],
+});
+const validatorParticipationRate = new Gauge({
+  name: 'aleo_validator_participation_rate',
+  help: 'Share of recent rounds (PERFORMANCE_WINDOW_ROUNDS) in which the validator authored a batch certificate',
+  labelNames: ['address'] as const,
+  registers: [register],
+});
+
+// Sync gauges, unlabelled.
+const syncLocalHeight = new Gauge({
+  name: 'aleo_sync_local_height',
+  help: 'Highest block height stored in the local database',
+  registers: [register],
+});
+const syncNetworkHeight = new Gauge({
+  name: 'aleo_sync_network_height',
+  help: 'Latest block height reported by the upstream Aleo API',
+  registers: [register],
+});
+const syncLag = new Gauge({
+  name: 'aleo_sync_lag_blocks',
+  help: 'Network height minus local height',
+  registers: [register],
+});
+
+// Per-upstream gauges, labelled by the configured endpoint name.
+const upstreamHealthy = new Gauge({
+  name: 'aleo_upstream_endpoint_healthy',
+  help: '1 if the upstream endpoint is healthy (reachable, caught up and agreeing on block hashes), 0 otherwise',
+  labelNames: ['endpoint'] as const,
+  registers: [register],
+});
+const upstreamHeight = new Gauge({
+  name: 'aleo_upstream_endpoint_height',
+  help: 'Latest block height reported by the upstream endpoint',
+  labelNames: ['endpoint'] as const,
+  registers: [register],
+});
+const upstreamLatency = new Gauge({
+  name: 'aleo_upstream_endpoint_latency_seconds',
+  help: 'Moving average of the upstream endpoint response time',
+  labelNames: ['endpoint'] as const,
+  registers: [register],
+});
+const upstreamErrorRate = new Gauge({
+  name: 'aleo_upstream_endpoint_error_rate',
+  help: 'Share of failed requests among the recent requests to the upstream endpoint',
+  labelNames: ['endpoint'] as const,
+  registers: [register],
+});
+
+export class MetricsService {
+  constructor(
+    private validators: ValidatorRepository,
+    private blocks: BlockRepository,
+    private aleoSDKService: AleoSDKService
+  ) {}
+
+  get contentType(): string {
+    return register.contentType;
+  }
+
+  // Refreshes the database- and upstream-derived gauges, then renders the whole registry.
+  async getMetrics(): Promise<string> {
+    await Promise.all([this.collectValidatorMetrics(), this.collectSyncMetrics()]);
+    this.collectUpstreamMetrics();
+    return register.metrics();
+  }
+
+  private async collectValidatorMetrics(): Promise<void> {
+    try {
+      const validators = await this.validators.getValidators();
+      const participationByAddress = await this.blocks.getRoundParticipationByAddress(
+        validators.map(validator => validator.address),
+        config.performance.windowRounds
+      );
+      // Reset so validators that disappeared from the table stop being exported
+      [validatorStake, validatorBonded, validatorIsActive, validatorBlocksProduced, validatorParticipationRate]
+        .forEach(gauge => gauge.reset());
+
+      for (const validator of validators) {
+        const labels = { address: validator.address };
+        validatorStake.set(labels, Number(validator.stake ?? 0));
+        validatorBonded.set(labels, Number(validator.bonded ?? 0));
+        validatorIsActive.set(labels, validator.is_active ? 1 : 0);
+        validatorBlocksProduced.set(labels, Number(validator.total_blocks_produced ?? 0));
+
+        const participation = participationByAddress.get(validator.address)!;
+        if (participation.roundsObserved > 0) {
+          validatorParticipationRate.set(labels, participation.roundsParticipated / participation.roundsObserved);
+        }
+      }
+    } catch (error) {
+      logger.error('Error collecting validator metrics:', error);
+    }
+  }
+
+  private async collectSyncMetrics(): Promise<void> {
+    try {
+      const localHeight = await this.blocks.getLatestBlockHeight();
+      syncLocalHeight.set(localHeight);
+
+      const networkHeight = await this.aleoSDKService.getLatestBlockHeight();
+      if (networkHeight !== null) {
+        syncNetworkHeight.set(networkHeight);
+        syncLag.set(networkHeight - localHeight);
+      }
+    } catch (error) {
+      logger.error('Error collecting sync metrics:', error);
+    }
+  }
+
+  private collectUpstreamMetrics(): void {
+    for (const upstream of this.aleoSDKService.getUpstreamStatus().endpoints) {
+      const labels = { endpoint: upstream.name };
+      upstreamHealthy.set(labels, upstream.state === 'healthy' ? 1 : 0);
+      upstreamErrorRate.set(labels, upstream.error_rate);
+      if (upstream.height !== null) upstreamHeight.set(labels, upstream.height);
+      if (upstream.latency_ms !== null) upstreamLatency.set(labels, upstream.latency_ms / 1000);
+    }
+  }
+}
+
+export default MetricsService;
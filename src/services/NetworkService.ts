@@ -0,0 +1,80 @@
+import { BlockRepository, NetworkRepository, NetworkStatsRow } from '../types/Repository.js';
+import {
+  NetworkSeriesBucket,
+  NetworkStats,
+  NetworkStatsPoint,
+  NetworkWindow,
+  NETWORK_SERIES_BUCKETS,
+  NETWORK_WINDOWS,
+} from '../types/Network.js';
+
+// Bucket size used for the time series when the caller does not pick one.
+const DEFAULT_SERIES_BUCKET: Record<NetworkWindow, NetworkSeriesBucket> = {
+  '1h': 'minute',
+  '24h': 'hour',
+  '7d': 'hour',
+};
+
+export class NetworkService {
+  constructor(
+    private blocks: BlockRepository,
+    private network: NetworkRepository
+  ) {}
+
+  // Rolling windows all end now, so a stalled sync shows up as windows with few or no blocks.
+  async getStats(): Promise<{ generated_at: string, current_round: number | null, windows: Record<NetworkWindow, NetworkStats> }> {
+    const now = Math.floor(Date.now() / 1000);
+    const windows = Object.keys(NETWORK_WINDOWS) as NetworkWindow[];
+    const [currentRound, ...rows] = await Promise.all([
+      this.blocks.getLatestRound(),
+      ...windows.map(window => this.network.getNetworkStats(now - NETWORK_WINDOWS[window], now)),
+    ]);
+
+    const stats = {} as Record<NetworkWindow, NetworkStats>;
+    windows.forEach((window, index) => {
+      stats[window] = this.toStats(rows[index][0], NETWORK_WINDOWS[window]);
+    });
+    return { generated_at: new Date(now * 1000).toISOString(), current_round: currentRound as number | null, windows: stats };
+  }
+
+  async getSeries(window: NetworkWindow, bucket: NetworkSeriesBucket = DEFAULT_SERIES_BUCKET[window]): Promise<{
+    window: NetworkWindow,
+    bucket: NetworkSeriesBucket,
+    points: NetworkStatsPoint[]
+  }> {
+    const now = Math.floor(Date.now() / 1000);
+    const rows = await this.network.getNetworkStats(now - NETWORK_WINDOWS[window], now, bucket);
+    const bucketSeconds = NETWORK_SERIES_BUCKETS[bucket];
+    const points = rows.map(row => {
+      // The newest bucket is still filling up, so throughput is measured over the part that has elapsed.
+      const elapsed = Math.min(bucketSeconds, now - Math.floor(row.bucket!.getTime() / 1000));
+      return { bucket: row.bucket!, ...this.toStats(row, Math.max(elapsed, 1)) };
+    });
+    return { window, bucket, points };
+  }
+
+  // `row` is undefined for a window without blocks
+  private toStats(row: NetworkStatsRow | undefined, durationSeconds: number): NetworkStats {
+    const toNumber = (value: any) => value !== null && value !== undefined ? Number(value) : null;
+    const transactions = Number(row?.transactions ?? 0);
+    return {
+      blocks: Number(row?.blocks ?? 0),
+      from_height: toNumber(row?.from_height),
+      to_height: toNumber(row?.to_height),
+      transactions,
+      transactions_per_second: Number((transactions / durationSeconds).toFixed(4)),
+      block_interval_seconds: {
+        p50: toNumber(row?.interval_p50),
+        p95: toNumber(row?.interval_p95),
+        max: toNumber(row?.interval_max),
+        average: toNumber(row?.interval_average),
+      },
+      rounds_per_block: toNumber(row?.rounds_per_block),
+      committee_size: toNumber(row?.committee_size),
+      total_stake: row?.total_stake ?? null,
+      stake_participation: toNumber(row?.stake_participation),
+    };
+  }
+}
+
+export default NetworkService;
@@ -0,0 +1,265 @@
+import axios, { AxiosRequestConfig } from 'axios';
+import crypto from 'crypto';
+import http from 'http';
+import https from 'https';
+import nodemailer from 'nodemailer';
+import logger from '../utils/logger.js';
+import { config } from '../config/index.js';
+import { checkPublicUrl, publicOnlyLookup } from '../utils/network.js';
+import { Alert, AlertRule } from '../types/Alert.js';
+import {
+  NotificationChannel,
+  NotificationChannelInput,
+  NotificationChannelType,
+  NotificationDelivery,
+  NotificationMessage,
+  NOTIFICATION_CHANNEL_TYPES,
+} from '../types/Notification.js';
+import { NotificationRepository } from '../types/Repository.js';
+
+const DEFAULT_TEMPLATE = '[{{event}}] {{rule}} - {{subject}}: {{message}}';
+
+// Config keys each channel type needs before it can deliver anything.
+const REQUIRED_CONFIG: Record<string, string[]> = {
+  webhook: ['url'],
+  slack: ['webhookUrl'],
+  discord: ['webhookUrl'],
+  telegram: ['botToken', 'chatId'],
+  email: ['host', 'port', 'from', 'to'],
+};
+
+// Types users may choose for personal channels. Email is left out, since its SMTP settings would let
+// any user send mail through servers the monitor can reach.
+const PERSONAL_CHANNEL_TYPES: NotificationChannelType[] = ['webhook', 'slack', 'discord', 'telegram'];
+
+// The config key holding the URL a channel type posts to
+const URL_CONFIG: Partial<Record<NotificationChannelType, string>> = {
+  webhook: 'url',
+  slack: 'webhookUrl',
+  discord: 'webhookUrl',
+};
+
+// Personal channels only reach public addresses (or the configured allowed hosts) and never follow
+// redirects, so they cannot be used to probe or call services inside the monitor's network.
+const PERSONAL_REQUEST_CONFIG: AxiosRequestConfig = {
+  maxRedirects: 0,
+  httpAgent: new http.Agent({ lookup: publicOnlyLookup(config.notifications.allowedHosts) }),
+  httpsAgent: new https.Agent({ lookup: publicOnlyLookup(config.notifications.allowedHosts) }),
+};
+
+export class NotificationService {
+  constructor(private notifications: NotificationRepository) {}
+
+  // Delivers to the rule's own channels plus the personal channels of users whose watchlist
+  // subscriptions cover the alert's subject, sending at most once per channel.
+  async notifyAlert(rule: AlertRule, alert: Alert): Promise<void> {
+    const ruleChannels = rule.channel_ids.length > 0
+      ? await this.notifications.getNotificationChannels(rule.channel_ids)
+      : [];
+    const subscribedChannels = await this.notifications.getSubscribedChannels(alert.subject, rule.type, alert.status);
+    const channels = [...new Map([...ruleChannels, ...subscribedChannels].map(channel => [channel.id, channel])).values()];
+    if (channels.length === 0) return;
+
+    const message: NotificationMessage = {
+      event: alert.status,
+      rule: rule.name,
+      subject: alert.subject,
+      message: alert.message,
+      value: alert.value !== null ? String(alert.value) : '',
+      time: new Date(alert.status === 'resolved' && alert.resolved_at ? alert.resolved_at : alert.fired_at).toISOString(),
+      alertId: alert.id,
+    };
+
+    await Promise.all(channels.filter(channel => channel.enabled).map(channel => this.deliver(channel, message)));
+  }
+
+  async sendTestNotification(channel: NotificationChannel): Promise<NotificationDelivery> {
+    return this.deliver(channel, {
+      event: 'test',
+      rule: 'Test notification',
+      subject: 'network',
+      message: `Test message for channel "${channel.name}"`,
+      value: '',
+      time: new Date().toISOString(),
+      alertId: null,
+    });
+  }
+
+  // Sends with exponential backoff and records the final outcome in the delivery log.
+  private async deliver(channel: NotificationChannel, message: NotificationMessage): Promise<NotificationDelivery> {
+    const text = this.renderTemplate(channel.template || DEFAULT_TEMPLATE, message);
+    let attempts = 0;
+    let lastError: string | null = null;
+    let delivered = false;
+
+    while (attempts < config.notifications.maxAttempts && !delivered) {
+      attempts++;
+      try {
+        await this.send(channel, text, message);
+        delivered = true;
+      } catch (error) {
+        lastError = error instanceof Error ? error.message : String(error);
+        logger.warn(`Notification to channel ${channel.id} (${channel.type}) failed on attempt ${attempts}: ${lastError}`);
+        if (attempts < config.notifications.maxAttempts) {
+          const delay = config.notifications.retryBaseDelayMs * 2 ** (attempts - 1);
+          await new Promise(resolve => setTimeout(resolve, delay));
+        }
+      }
+    }
+
+    if (!delivered) {
+      logger.error(`Notification to channel ${channel.id} (${channel.type}) failed after ${attempts} attempts`);
+    }
+
+    return this.notifications.insertNotificationDelivery({
+      channelId: channel.id,
+      alertId: message.alertId,
+      event: message.event,
+      delivered,
+      attempts,
+      lastError: delivered ? null : lastError,
+      payload: text,
+    });
+  }
+
+  private renderTemplate(template: string, message: NotificationMessage): string {
+    return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key: string) =>
+      key in message ? String(message[key as keyof NotificationMessage] ?? '') : match
+    );
+  }
+
+  private async send(channel: NotificationChannel, text: string, message: NotificationMessage): Promise<void> {
+    const channelConfig = channel.config;
+    // Checked again on delivery for channels stored before these restrictions applied
+    const personalError = channel.owner_id !== null ? this.validatePersonalChannel(channel) : null;
+    if (personalError) {
+      throw new Error(`Personal channel rejected: ${personalError}`);
+    }
+    const requestConfig: AxiosRequestConfig = {
+      timeout: config.notifications.timeoutMs,
+      ...(channel.owner_id !== null ? PERSONAL_REQUEST_CONFIG : {}),
+    };
+    switch (channel.type) {
+      case 'webhook':
+        return this.sendWebhook(channelConfig, text, message, requestConfig);
+      case 'slack':
+        await axios.post(channelConfig.webhookUrl, { text }, requestConfig);
+        return;
+      case 'discord':
+        await axios.post(channelConfig.webhookUrl, { content: text }, requestConfig);
+        return;
+      case 'telegram': {
+        const apiUrl = channelConfig.apiUrl || 'https://api.telegram.org';
+        await axios.post(`${apiUrl}/bot${channelConfig.botToken}/sendMessage`, { chat_id: channelConfig.chatId, text }, requestConfig);
+        return;
+      }
+      case 'email':
+        return this.sendEmail(channelConfig, text, message);
+      default:
+        throw new Error(`Unsupported notification channel type: ${channel.type}`);
+    }
+  }
+
+  // Generic webhooks receive the structured message; the body is signed with HMAC-SHA256 over
+  // `${timestamp}.${body}` so receivers can verify origin and reject replays.
+  private async sendWebhook(
+    channelConfig: Record<string, any>,
+    text: string,
+    message: NotificationMessage,
+    requestConfig: AxiosRequestConfig
+  ): Promise<void> {
+    const body = JSON.stringify({ ...message, text });
+    const headers: Record<string, string> = { 'Content-Type': 'application/json', ...(channelConfig.headers || {}) };
+    if (channelConfig.secret) {
+      const timestamp = Math.floor(Date.now() / 1000).toString();
+      const signature = crypto.createHmac('sha256', channelConfig.secret).update(`${timestamp}.${body}`).digest('hex');
+      headers['X-Signature-Timestamp'] = timestamp;
+      headers['X-Signature-256'] = `sha256=${signature}`;
+    }
+    await axios.post(channelConfig.url, body, { ...requestConfig, headers });
+  }
+
+  private async sendEmail(channelConfig: Record<string, any>, text: string, message: NotificationMessage): Promise<void> {
+    const transporter = nodemailer.createTransport({
+      host: channelConfig.host,
+      port: Number(channelConfig.port),
+      secure: channelConfig.secure ?? false,
+      auth: channelConfig.user ? { user: channelConfig.user, pass: channelConfig.pass } : undefined,
+      connectionTimeout: config.notifications.timeoutMs,
+    });
+    await transporter.sendMail({
+      from: channelConfig.from,
+      to: channelConfig.to,
+      subject: `[${message.event}] ${message.rule} - ${message.subject}`,
+      text,
+    });
+  }
+
+  // Returns a human-readable reason when the channel input is invalid, or null when it can be stored.
+  // Personal channels are further limited to types and destinations that are safe to send to.
+  validateChannel(input: any, personal: boolean = false): string | null {
+    if (!input || typeof input !== 'object') return 'Request body must be an object';
+    if (typeof input.name !== 'string' || input.name.trim() === '') return 'name is required';
+    if (!NOTIFICATION_CHANNEL_TYPES.includes(input.type)) return `type must be one of: ${NOTIFICATION_CHANNEL_TYPES.join(', ')}`;
+    if (typeof input.config !== 'object' || input.config === null) return 'config must be an object';
+    for (const key of REQUIRED_CONFIG[input.type]) {
+      if (input.config[key] === undefined || input.config[key] === '') return `config.${key} is required`;
+    }
+    if (personal) {
+      const personalError = this.validatePersonalChannel(input);
+      if (personalError) return personalError;
+    }
+    if (input.template !== undefined && input.template !== null && typeof input.template !== 'string') return 'template must be a string';
+    if (input.enabled !== undefined && typeof input.enabled !== 'boolean') return 'enabled must be a boolean';
+    return null;
+  }
+
+  private validatePersonalChannel(input: { type: NotificationChannelType, config: Record<string, any> }): string | null {
+    if (!PERSONAL_CHANNEL_TYPES.includes(input.type)) return `type must be one of: ${PERSONAL_CHANNEL_TYPES.join(', ')}`;
+    if (input.config.apiUrl !== undefined) return 'config.apiUrl is not supported for personal channels';
+    const urlKey = URL_CONFIG[input.type];
+    const urlError = urlKey ? checkPublicUrl(input.config[urlKey], config.notifications.allowedHosts) : null;
+    return urlError ? `config.${urlKey} ${urlError}` : null;
+  }
+
+  private normalizeChannel(input: any): NotificationChannelInput {
+    return {
+      name: input.name.trim(),
+      type: input.type,
+      config: input.config,
+      template: input.template ?? null,
+      enabled: input.enabled ?? true,
+    };
+  }
+
+  async getChannels(): Promise<NotificationChannel[]> {
+    return this.notifications.getNotificationChannels();
+  }
+
+  async getChannel(id: number): Promise<NotificationChannel | null> {
+    return this.notifications.getNotificationChannel(id);
+  }
+
+  async getChannelsByOwner(ownerId: number): Promise<NotificationChannel[]> {
+    return this.notifications.getNotificationChannelsByOwner(ownerId);
+  }
+
+  async createChannel(input: any, ownerId: number | null = null): Promise<NotificationChannel> {
+    return this.notifications.createNotificationChannel(this.normalizeChannel(input), ownerId);
+  }
+
+  async updateChannel(id: number, input: any): Promise<NotificationChannel | null> {
+    return this.notifications.updateNotificationChannel(id, this.normalizeChannel(input));
+  }
+
+  async deleteChannel(id: number): Promise<boolean> {
+    return this.notifications.deleteNotificationChannel(id);
+  }
+
+  // Deliveries through shared channels; payloads and errors of personal channels stay with their owners
+  async getDeliveries(filter: { channelId?: number, limit?: number }): Promise<NotificationDelivery[]> {
+    return this.notifications.getNotificationDeliveries({ ...filter, sharedOnly: true, limit: filter.limit ?? 100 });
+  }
+}
+
+export default NotificationService;
@@ -1,8 +1,7 @@
-import { AleoNetworkClient } from '@aleohq/sdk';
-import crypto from 'crypto';
-import { AleoSDKService } from './AleoSDKService';
+import { AleoSDKService } from './AleoSDKService.js';
+import logger from '../utils/logger.js';
 
-interface Transmission {
+export interface Transmission {
   id: string;
   data: any;
 }
@@ -18,7 +17,7 @@ export class PrimaryService {
         data: tx
       }));
     } catch (error) {
-      console.error('Error occurred while collecting transmissions:', error);
+      logger.error('Error occurred while collecting transmissions:', error);
       throw new Error('Failed to collect transmissions');
     }
   }
@@ -0,0 +1,135 @@
+import { AleoSDKService } from './AleoSDKService.js';
+import logger from '../utils/logger.js';
+import { config } from '../config/index.js';
+import { Block, ValidatorReward } from '../types/Block.js';
+import { CommitteeRepository, ValidatorRepository } from '../types/Repository.js';
+
+export type RewardGranularity = 'day' | 'epoch';
+
+export const REWARD_GRANULARITIES: RewardGranularity[] = ['day', 'epoch'];
+
+interface CommitteeStakes {
+  totalStake: bigint;
+  members: { address: string, stake: bigint, commission: number }[];
+}
+
+export class RewardService {
+  // Committees are immutable per id, so blocks certified by the same committee share one lookup.
+  private committeeCache = new Map<string, CommitteeStakes>();
+
+  constructor(
+    private aleoSDKService: AleoSDKService,
+    private committees: CommitteeRepository,
+    private validators: ValidatorRepository
+  ) {}
+
+  // Splits each block's block_reward ratification across the committee by stake share; the validator
+  // keeps its commission and the rest goes to its delegators. Puzzle rewards go to provers and are
+  // stored on the block without being attributed to validators.
+  async attributeRewards(blocks: Block[]): Promise<void> {
+    for (const block of blocks) {
+      if (block.height === undefined || block.rewards.block_reward === BigInt(0)) {
+        block.validator_rewards = [];
+        continue;
+      }
+      const committee = await this.getCommittee(block);
+      if (!committee || committee.totalStake === BigInt(0)) {
+        logger.warn(`No committee available for block ${block.height}, its block reward is not attributed`);
+        block.validator_rewards = [];
+        continue;
+      }
+      block.validator_rewards = committee.members.map(member => this.split(block.rewards.block_reward, member, committee.totalStake));
+    }
+  }
+
+  private split(blockReward: bigint, member: CommitteeStakes['members'][number], totalStake: bigint): ValidatorReward {
+    const gross = (blockReward * member.stake) / totalStake;
+    const commissionReward = (gross * BigInt(member.commission)) / BigInt(100);
+    return {
+      address: member.address,
+      stake: member.stake,
+      stake_share: Number((member.stake * BigInt(1_000_000)) / totalStake) / 1_000_000,
+      commission_rate: member.commission,
+      gross_reward: gross,
+      commission_reward: commissionReward,
+      delegator_reward: gross - commissionReward,
+    };
+  }
+
+  private async getCommittee(block: Block): Promise<CommitteeStakes | null> {
+    const committeeId = block.certificates.find(certificate => certificate.committee_id)?.committee_id;
+    if (committeeId && this.committeeCache.has(committeeId)) {
+      return this.committeeCache.get(committeeId)!;
+    }
+
+    try {
+      const committee = await this.aleoSDKService.getCommitteeByHeight(block.height!);
+      if (committee?.members) {
+        const stakes = this.toStakes(committee);
+        if (committeeId) this.committeeCache.set(committeeId, stakes);
+        return stakes;
+      }
+    } catch (error) {
+      logger.warn(`Falling back to the stored committee snapshot for block ${block.height}`);
+    }
+
+    const snapshot = await this.committees.getCommitteeSnapshotAtHeight(block.height!);
+    if (!snapshot) return null;
+    const members = (await this.committees.getCommitteeMembers([snapshot.id])).get(snapshot.id)!;
+    return {
+      totalStake: members.reduce((total, member) => total + BigInt(member.stake), BigInt(0)),
+      members: members.map(member => ({
+        address: member.address,
+        stake: BigInt(member.stake),
+        commission: this.toCommission(member.bonded),
+      })),
+    };
+  }
+
+  private toStakes(committee: any): CommitteeStakes {
+    const members = Object.entries(committee.members).map(([address, data]) => {
+      const [stake, , commission] = data as [number | string, boolean, number | string];
+      return { address, stake: BigInt(stake), commission: this.toCommission(commission) };
+    });
+    const totalStake = committee.total_stake !== undefined
+      ? BigInt(committee.total_stake)
+      : members.reduce((total, member) => total + member.stake, BigInt(0));
+    return { totalStake, members };
+  }
+
+  // The third committee tuple element is the commission percentage on current networks; older
+  // snapshots stored a bonded amount there, which is not a valid percentage and counts as no commission.
+  private toCommission(value: number | string | null): number {
+    const commission = Number(value);
+    return Number.isInteger(commission) && commission >= 0 && commission <= 100 ? commission : 0;
+  }
+
+  async getValidatorRewards(address: string, granularity: RewardGranularity, from?: Date, to?: Date) {
+    const rows = await this.validators.getValidatorRewards(address, granularity, config.rewards.epochBlocks, from, to);
+    const buckets = rows.map(row => ({
+      [granularity]: granularity === 'epoch' ? Number(row.bucket) : row.bucket,
+      from_height: Number(row.from_height),
+      to_height: Number(row.to_height),
+      blocks: Number(row.blocks),
+      gross_reward: row.gross_reward,
+      commission_reward: row.commission_reward,
+      delegator_reward: row.delegator_reward,
+      average_stake_share: Number(row.average_stake_share),
+    }));
+    const sum = (key: 'gross_reward' | 'commission_reward' | 'delegator_reward') =>
+      buckets.reduce((total, bucket) => total + BigInt(bucket[key]), BigInt(0)).toString();
+
+    return {
+      address,
+      granularity,
+      totals: {
+        gross_reward: sum('gross_reward'),
+        commission_reward: sum('commission_reward'),
+        delegator_reward: sum('delegator_reward'),
+      },
+      buckets,
+    };
+  }
+}
+
+export default RewardService;
@@ -0,0 +1,151 @@
+import logger from '../utils/logger.js';
+import { config } from '../config/index.js';
+import { parseTimeParam } from '../utils/time.js';
+import { BlockRepository, CheckpointRepository, RollupRepository, ValidatorRollupRecord } from '../types/Repository.js';
+import {
+  PerformanceHistory,
+  PerformanceTotals,
+  RollupGranularity,
+} from '../types/Validator.js';
+
+// Checkpoint of the last block height folded into the rollups
+export const ROLLUP_CHECKPOINT = 'rollups';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const DEFAULT_RANGE_MS = 30 * DAY_MS;
+// Ranges up to this long are served from hourly rollups unless a bucket is requested
+const HOURLY_RANGE_MS = 7 * DAY_MS;
+
+export class RollupService {
+  private isUpdating = false;
+  private isPruning = false;
+
+  constructor(
+    private rollups: RollupRepository,
+    private checkpoints: CheckpointRepository,
+    private blocks: BlockRepository
+  ) {}
+
+  // Folds newly synced blocks into the hourly and daily rollups. The last maxReorgDepth blocks of the
+  // previous run are rebuilt as well, since a reorg may have replaced them in the meantime.
+  async updateRollups(): Promise<void> {
+    if (this.isUpdating) {
+      logger.info('Rollup update already in progress, skipping this run');
+      return;
+    }
+    this.isUpdating = true;
+
+    try {
+      const synced = await this.checkpoints.getSyncCheckpoint();
+      if (synced === null) return;
+      const rolledUp = await this.checkpoints.getSyncCheckpoint(ROLLUP_CHECKPOINT);
+      const fromHeight = rolledUp === null ? 0 : Math.max(rolledUp + 1 - config.sync.maxReorgDepth, 0);
+
+      const rows = await this.rollups.rebuildRollups(fromHeight);
+      await this.checkpoints.setSyncCheckpoint(ROLLUP_CHECKPOINT, synced);
+      logger.debug(`Rollups rebuilt from height ${fromHeight} to ${synced}: ${rows} hourly rows`);
+    } catch (error) {
+      logger.error('Error occurred while updating rollups:', error);
+    } finally {
+      this.isUpdating = false;
+    }
+  }
+
+  // Deletes raw data and hourly rollups past their retention. Only data the rollups already cover is
+  // removed: nothing at or after the hour (for raw data) or day (for hourly rollups) that the next
+  // rollup update may rebuild.
+  async applyRetention(): Promise<void> {
+    const { rawDays, hourlyRollupDays } = config.retention;
+    if (rawDays <= 0 && hourlyRollupDays <= 0) return;
+    if (this.isPruning) {
+      logger.info('Retention run already in progress, skipping this run');
+      return;
+    }
+    this.isPruning = true;
+
+    try {
+      const rolledUp = await this.checkpoints.getSyncCheckpoint(ROLLUP_CHECKPOINT);
+      const safeHeight = rolledUp === null ? -1 : rolledUp + 1 - config.sync.maxReorgDepth;
+      const { rows: [safeBlock] } = safeHeight > 0
+        ? await this.blocks.listBlocks({ fromHeight: safeHeight, toHeight: safeHeight, order: 'asc', limit: 1 })
+        : { rows: [] };
+      if (!safeBlock) {
+        logger.info('Nothing is rolled up beyond the reorg depth yet, skipping retention');
+        return;
+      }
+      const safeTime = Number(safeBlock.timestamp) * 1000;
+      const now = Date.now();
+
+      if (rawDays > 0) {
+        const before = new Date(Math.min(now - rawDays * DAY_MS, Math.floor(safeTime / HOUR_MS) * HOUR_MS));
+        const pruned = await this.rollups.pruneRawData(before, safeHeight);
+        logger.info(`Pruned raw data before ${before.toISOString()}: ${pruned.blocks} blocks, ` +
+          `${pruned.committee_snapshots} committee snapshots, ${pruned.mempool_snapshots} mempool snapshots, ` +
+          `${pruned.mempool_transactions} mempool transactions`);
+      }
+      if (hourlyRollupDays > 0) {
+        const before = new Date(Math.min(now - hourlyRollupDays * DAY_MS, Math.floor(safeTime / DAY_MS) * DAY_MS));
+        const pruned = await this.rollups.pruneRollups('hour', before);
+        logger.info(`Pruned ${pruned} hourly rollups before ${before.toISOString()}`);
+      }
+    } catch (error) {
+      logger.error('Error occurred while applying retention:', error);
+    } finally {
+      this.isPruning = false;
+    }
+  }
+
+  // Returns a human-readable reason when the range is empty, or null when the query can be run. The
+  // route schema validates the parameters themselves.
+  validateHistoryQuery(query: any): string | null {
+    const from = parseTimeParam(query.from);
+    const to = parseTimeParam(query.to);
+    if (from && to && from > to) return 'from must not be after to';
+    return null;
+  }
+
+  // Performance of a validator over [from, to] (the last 30 days by default) from the rollups, in
+  // hourly buckets for ranges up to a week and daily ones beyond.
+  async getPerformanceHistory(address: string, from?: Date, to?: Date, granularity?: RollupGranularity): Promise<PerformanceHistory> {
+    const end = to ?? new Date();
+    const start = from ?? new Date(end.getTime() - DEFAULT_RANGE_MS);
+    const bucket = granularity ?? (end.getTime() - start.getTime() <= HOURLY_RANGE_MS ? 'hour' : 'day');
+    const bucketMs = bucket === 'hour' ? HOUR_MS : DAY_MS;
+
+    // Include the bucket `from` falls into
+    const firstBucket = new Date(Math.floor(start.getTime() / bucketMs) * bucketMs);
+    const rows = await this.rollups.getValidatorRollups(address, bucket, firstBucket, end);
+    return {
+      address,
+      granularity: bucket,
+      from: start.toISOString(),
+      to: end.toISOString(),
+      totals: this.summarize(rows),
+      points: rows.map(row => ({ bucket: row.bucket.toISOString(), ...this.summarize([row]), stake: row.stake })),
+    };
+  }
+
+  private summarize(rows: ValidatorRollupRecord[]): PerformanceTotals {
+    const sumNumbers = (key: 'blocks_authored' | 'rounds_observed' | 'rounds_participated') =>
+      rows.reduce((total, row) => total + Number(row[key]), 0);
+    const sumBigInts = (key: 'signatures_given' | 'signatures_expected' | 'gross_reward' | 'commission_reward' | 'delegator_reward') =>
+      rows.reduce((total, row) => total + BigInt(row[key]), BigInt(0));
+
+    const roundsObserved = sumNumbers('rounds_observed');
+    const roundsParticipated = sumNumbers('rounds_participated');
+    const expected = sumBigInts('signatures_expected');
+    return {
+      blocks_authored: sumNumbers('blocks_authored'),
+      rounds_observed: roundsObserved,
+      rounds_participated: roundsParticipated,
+      participation_rate: roundsObserved > 0 ? roundsParticipated / roundsObserved : 0,
+      signature_rate: expected > BigInt(0) ? Number(sumBigInts('signatures_given')) / Number(expected) : null,
+      gross_reward: sumBigInts('gross_reward').toString(),
+      commission_reward: sumBigInts('commission_reward').toString(),
+      delegator_reward: sumBigInts('delegator_reward').toString(),
+    };
+  }
+}
+
+export default RollupService;
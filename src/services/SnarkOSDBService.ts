@@ -1,50 +1,69 @@
 import pg from 'pg';
 import logger from '../utils/logger.js';
-import { Block } from '../types/Block.js';
+import { recordedSigners } from '../utils/signatures.js';
+import { Block, BlockListFilter } from '../types/Block.js';
+import { Reorg } from '../types/Sync.js';
+import { Alert, AlertRule, AlertRuleInput, AlertStatus } from '../types/Alert.js';
+import { NotificationChannel, NotificationChannelInput, NotificationDelivery } from '../types/Notification.js';
+import { WatchlistEntry, WatchlistSubscription } from '../types/Watchlist.js';
+import { CommitteeMember, CommitteeSnapshot, CommitteeSnapshotFilter } from '../types/Committee.js';
+import { TransactionFilter, TransactionSummary } from '../types/Transaction.js';
+import { ProgramDeployment } from '../types/Analytics.js';
+import { MempoolSnapshot, MempoolTransaction } from '../types/Mempool.js';
+import { NetworkSeriesBucket } from '../types/Network.js';
+import { ValidatorListFilter } from '../types/Validator.js';
+import {
+  AlertRepository,
+  AnalyticsRepository,
+  BlockRecord,
+  BlockRepository,
+  CheckpointRepository,
+  CommitteeRepository,
+  MempoolReconciliation,
+  MempoolRepository,
+  MempoolStatsRecord,
+  NetworkRepository,
+  NetworkStatsRow,
+  NotificationDeliveryInput,
+  NotificationRepository,
+  ProgramUsageFilter,
+  ProgramUsageRow,
+  PrunedRows,
+  RecentAlertRow,
+  RollupRepository,
+  RoundParticipation,
+  StakeHistoryRow,
+  TransactionDetail,
+  TransactionRecord,
+  TransactionRepository,
+  ValidatorListRow,
+  ValidatorRecord,
+  ValidatorRepository,
+  ValidatorRewardRow,
+  ValidatorRollupRecord,
+  ValidatorRollupTotals,
+  ValidatorState,
+  WatchlistRepository,
+  WatchlistRow,
+} from '../types/Repository.js';
 
 const { Pool: PgPool } = pg;
 
-export class SnarkOSDBService {
+// The Postgres implementation of the repositories.
+export class SnarkOSDBService implements BlockRepository, ValidatorRepository, TransactionRepository,
+  CommitteeRepository, CheckpointRepository, AlertRepository, RollupRepository, NotificationRepository,
+  WatchlistRepository, AnalyticsRepository, NetworkRepository, MempoolRepository {
   private pool: pg.Pool;
 
   constructor(connectionString: string) {
     this.pool = new PgPool({ connectionString });
   }
 
-  async initializeDatabase(): Promise<void> {
-    try {
-      await this.pool.query(`
-        CREATE TABLE IF NOT EXISTS validators (
-          address TEXT PRIMARY KEY,
-          stake BIGINT,
-          is_active BOOLEAN,
-          bonded BIGINT,
-          last_seen TIMESTAMP,
-          total_blocks_produced INTEGER DEFAULT 0,
-          total_rewards BIGINT DEFAULT 0
-        );
-  
-        ALTER TABLE validators ADD COLUMN IF NOT EXISTS is_active BOOLEAN;
-        ALTER TABLE validators ADD COLUMN IF NOT EXISTS bonded BIGINT;
-  
-        CREATE TABLE IF NOT EXISTS blocks (
-          height BIGINT PRIMARY KEY,
-          hash TEXT NOT NULL,
-          previous_hash TEXT,
-          timestamp BIGINT NOT NULL,
-          transactions_count INT NOT NULL,
-          validator_address TEXT,
-          total_fees BIGINT
-        );
-      `);
-      console.log("Database tables successfully created and updated");
-    } catch (error) {
-      console.error("Database initialization error:", error);
-      throw error;
-    }
+  async close(): Promise<void> {
+    await this.pool.end();
   }
 
-  async getValidators(): Promise<any[]> {
+  async getValidators(): Promise<ValidatorRecord[]> {
     try {
       const result = await this.pool.query('SELECT * FROM validators');
       return result.rows;
@@ -56,6 +75,133 @@ export class SnarkOSDBService {
     }
   }
 
+  async getValidator(address: string): Promise<ValidatorRecord | null> {
+    try {
+      const result = await this.pool.query('SELECT * FROM validators WHERE address = $1', [address]);
+      return result.rows[0] || null;
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        throw new Error(`SnarkOS DB getValidator error: ${error.message}`);
+      }
+      throw new Error('SnarkOS DB getValidator error: An unknown error occurred');
+    }
+  }
+
+  async upsertValidator(state: ValidatorState): Promise<void> {
+    try {
+      await this.pool.query(
+        `INSERT INTO validators (address, stake, is_active, bonded, last_seen) VALUES ($1, $2, $3, $4, NOW())
+         ON CONFLICT (address) DO UPDATE
+         SET previous_stake = validators.stake, stake = EXCLUDED.stake, is_active = EXCLUDED.is_active,
+             bonded = EXCLUDED.bonded, last_seen = NOW()`,
+        [state.address, state.stake, state.is_active, state.bonded]
+      );
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        throw new Error(`SnarkOS DB upsertValidator error: ${error.message}`);
+      }
+      throw new Error('SnarkOS DB upsertValidator error: An unknown error occurred');
+    }
+  }
+
+  async deactivateValidatorsExcept(addresses: string[]): Promise<void> {
+    try {
+      await this.pool.query('UPDATE validators SET is_active = FALSE WHERE NOT (address = ANY($1))', [addresses]);
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        throw new Error(`SnarkOS DB deactivateValidatorsExcept error: ${error.message}`);
+      }
+      throw new Error('SnarkOS DB deactivateValidatorsExcept error: An unknown error occurred');
+    }
+  }
+
+  // Fetches one row more than `limit` so the caller can tell whether another page follows.
+  async listValidators(filter: ValidatorListFilter): Promise<{ rows: ValidatorListRow[], total: number }> {
+    const sortExpressions: Record<ValidatorListFilter['sort'], string> = {
+      stake: 'COALESCE(stake, 0)',
+      blocks_produced: 'COALESCE(total_blocks_produced, 0)',
+      participation: 'participation',
+    };
+    try {
+      const total = filter.isActive !== undefined
+        ? await this.pool.query('SELECT COUNT(*) AS total FROM validators WHERE is_active IS NOT DISTINCT FROM $1', [filter.isActive])
+        : await this.pool.query('SELECT COUNT(*) AS total FROM validators');
+
+      const params: any[] = [filter.windowRounds];
+      const where = filter.isActive !== undefined ? `WHERE v.is_active IS NOT DISTINCT FROM $${params.push(filter.isActive)}` : '';
+
+      const comparison = filter.order === 'desc' ? '<' : '>';
+      const keyset = filter.after
+        ? `WHERE (sort_value, address) ${comparison} ($${params.push(filter.after.value)}, $${params.push(filter.after.address)})`
+        : '';
+      params.push(filter.limit + 1);
+      const direction = filter.order === 'desc' ? 'DESC' : 'ASC';
+
+      const result = await this.pool.query(
+        `WITH bounds AS (
+           SELECT MAX(round) - $1 + 1 AS from_round FROM batch_certificates
+         ), observed AS (
+           SELECT COUNT(DISTINCT round) AS rounds FROM batch_certificates, bounds WHERE round >= bounds.from_round
+         ), participated AS (
+           SELECT author, COUNT(*) AS rounds FROM batch_certificates, bounds WHERE round >= bounds.from_round GROUP BY author
+         ), ranked AS (
+           SELECT v.*, COALESCE(p.rounds::float / NULLIF(o.rounds, 0), 0) AS participation
+           FROM validators v
+           CROSS JOIN observed o
+           LEFT JOIN participated p ON p.author = v.address
+           ${where}
+         )
+         SELECT * FROM (
+           SELECT ranked.*, ${sortExpressions[filter.sort]} AS sort_value FROM ranked
+         ) sorted
+         ${keyset}
+         ORDER BY sort_value ${direction}, address ${direction}
+         LIMIT $${params.length}`,
+        params
+      );
+      return { rows: result.rows, total: Number(total.rows[0].total) };
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        throw new Error(`SnarkOS DB listValidators error: ${error.message}`);
+      }
+      throw new Error('SnarkOS DB listValidators error: An unknown error occurred');
+    }
+  }
+
+  // Fetches one row more than `limit` so the caller can tell whether another page follows.
+  async listBlocks(filter: BlockListFilter): Promise<{ rows: BlockRecord[], total: number }> {
+    try {
+      const conditions: string[] = [];
+      const params: any[] = [];
+      if (filter.fromHeight !== undefined) conditions.push(`height >= $${params.push(filter.fromHeight)}`);
+      if (filter.toHeight !== undefined) conditions.push(`height <= $${params.push(filter.toHeight)}`);
+      if (filter.from) conditions.push(`timestamp >= $${params.push(Math.floor(filter.from.getTime() / 1000))}`);
+      if (filter.to) conditions.push(`timestamp <= $${params.push(Math.floor(filter.to.getTime() / 1000))}`);
+      if (filter.validator) conditions.push(`validator_address = $${params.push(filter.validator)}`);
+      if (filter.minTransactions !== undefined) conditions.push(`transactions_count >= $${params.push(filter.minTransactions)}`);
+      const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+      const total = await this.pool.query(`SELECT COUNT(*) AS total FROM blocks ${where}`, params);
+
+      if (filter.afterHeight !== undefined) {
+        conditions.push(`height ${filter.order === 'desc' ? '<' : '>'} $${params.push(filter.afterHeight)}`);
+      }
+      params.push(filter.limit + 1);
+      const result = await this.pool.query(
+        `SELECT * FROM blocks
+         ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+         ORDER BY height ${filter.order === 'desc' ? 'DESC' : 'ASC'}
+         LIMIT $${params.length}`,
+        params
+      );
+      return { rows: result.rows, total: Number(total.rows[0].total) };
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        throw new Error(`SnarkOS DB listBlocks error: ${error.message}`);
+      }
+      throw new Error('SnarkOS DB listBlocks error: An unknown error occurred');
+    }
+  }
+
   async getBlocksByValidator(validatorAddress: string, limit: number): Promise<any[]> {
     try {
       const result = await this.pool.query(
@@ -75,14 +221,15 @@ export class SnarkOSDBService {
     const client = await this.pool.connect();
     try {
       await client.query('BEGIN');
+      const timestamp = block.timestamp ? Math.floor(new Date(block.timestamp).getTime() / 1000) : 0;
       await client.query(
-        'INSERT INTO blocks (height, hash, previous_hash, timestamp, transactions_count) VALUES ($1, $2, $3, $4, $5)',
-        [block.height, block.hash, block.previous_hash, block.timestamp, block.transactions.length]
+        'INSERT INTO blocks (height, hash, previous_hash, timestamp, transactions_count, validator_address, total_fees) VALUES ($1, $2, $3, $4, $5, $6, $7)',
+        [block.height, block.hash, block.previous_hash, timestamp, block.transactions.length, block.validator_address, block.total_fees?.toString()]
       );
-      if (block.validator_address && block.total_fees) {
+      if (block.validator_address) {
         await client.query(
-          'UPDATE validators SET total_blocks_produced = total_blocks_produced + 1, total_rewards = total_rewards + $1, last_seen = $2 WHERE address = $3',
-          [block.total_fees.toString(), block.timestamp, block.validator_address]
+          'UPDATE validators SET total_blocks_produced = total_blocks_produced + 1, last_seen = to_timestamp($1) WHERE address = $2',
+          [timestamp, block.validator_address]
         );
       }
       await client.query('COMMIT');
@@ -97,12 +244,33 @@ export class SnarkOSDBService {
     }
   }
 
-  async insertTransaction(transaction: any): Promise<void> {
+  async insertTransaction(
+    transaction: TransactionSummary,
+    blockHeight: number,
+    timestamp: number,
+    client: pg.Pool | pg.PoolClient = this.pool
+  ): Promise<void> {
     try {
-      await this.pool.query(
-        'INSERT INTO transactions (id, block_height, fee, timestamp) VALUES ($1, $2, $3, $4)',
-        [transaction.id, transaction.block_height, transaction.fee, transaction.timestamp]
+      const inserted = await client.query(
+        `INSERT INTO transactions (id, block_height, position, type, status, base_fee, priority_fee, fee,
+                                   program_ids, function_names, transition_count, timestamp, fee_payer, deployed_program)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
+         ON CONFLICT (id) DO NOTHING`,
+        [transaction.id, blockHeight, transaction.position, transaction.type, transaction.status,
+          transaction.base_fee.toString(), transaction.priority_fee.toString(),
+          (transaction.base_fee + transaction.priority_fee).toString(), transaction.program_ids,
+          transaction.function_names, transaction.transitions.length, timestamp, transaction.fee_payer,
+          transaction.deployed_program]
       );
+      if (!inserted.rowCount) return;
+      for (const [position, transition] of transaction.transitions.entries()) {
+        await client.query(
+          `INSERT INTO transitions (id, transaction_id, position, program_id, function_name, is_fee)
+           VALUES ($1, $2, $3, $4, $5, $6)
+           ON CONFLICT (id) DO NOTHING`,
+          [transition.id, transaction.id, position, transition.program_id, transition.function_name, transition.is_fee]
+        );
+      }
     } catch (error: unknown) {
       if (error instanceof Error) {
         throw new Error(`SnarkOS DB insertTransaction error: ${error.message}`);
@@ -125,10 +293,6 @@ export class SnarkOSDBService {
     }
   }
 
-  async executeQuery(query: string, params: any[] = []): Promise<any> {
-    return this.pool.query(query, params);
-  }
-
   public async query(sql: string, params?: any[]): Promise<{ rows: any[] }> {
     try {
       const result = await this.pool.query(sql, params);
@@ -143,51 +307,89 @@ export class SnarkOSDBService {
     }
   }
 
-  async monitorValidatorPerformance(address: string, timeWindow: number): Promise<{
-    blocksProduced: number,
-    totalRewards: bigint,
-    averageBlockTime: number
-  }> {
-    const endTime = new Date();
-    const startTime = new Date(endTime.getTime() - timeWindow * 1000);
-
-    const blocks = await this.query(
-      'SELECT * FROM blocks WHERE validator_address = $1 AND timestamp BETWEEN $2 AND $3 ORDER BY height',
-      [address, startTime, endTime]
-    );
-
-    const blocksProduced = blocks.rows.length;
-    const totalRewards = blocks.rows.reduce((sum, block) => sum + BigInt(block.total_fees), BigInt(0));
-
-    let averageBlockTime = 0;
-    if (blocksProduced > 1) {
-      const totalTime = blocks.rows[blocksProduced - 1].timestamp.getTime() - blocks.rows[0].timestamp.getTime();
-      averageBlockTime = totalTime / (blocksProduced - 1);
-    }
-
-    return { blocksProduced, totalRewards, averageBlockTime };
-  }
-
   async getLatestBlockHeight(): Promise<number> {
     try {
       const result = await this.pool.query('SELECT MAX(height) as max_height FROM blocks');
-      return result.rows[0].max_height || 0;
+      return Number(result.rows[0].max_height || 0);
     } catch (error) {
       logger.error('Error getting latest block height:', error);
       throw error;
     }
   }
 
-  async saveBlocks(blocks: any[]): Promise<void> {
+  // Persists a batch of blocks and advances the named sync checkpoint in a single transaction,
+  // so a crash never leaves the checkpoint ahead of the stored blocks.
+  async saveBlocks(blocks: Block[], checkpointName: string = 'blocks'): Promise<void> {
+    if (blocks.length === 0) return;
     const client = await this.pool.connect();
     try {
       await client.query('BEGIN');
       for (const block of blocks) {
-        await client.query(
-          'INSERT INTO blocks (height, hash, previous_hash, timestamp, data) VALUES ($1, $2, $3, $4, $5) ON CONFLICT (height) DO NOTHING',
-          [block.height, block.hash, block.previous_hash, block.timestamp, JSON.stringify(block.data)]
+        const timestamp = block.timestamp ? Math.floor(new Date(block.timestamp).getTime() / 1000) : 0;
+        const inserted = await client.query(
+          `INSERT INTO blocks (height, hash, previous_hash, timestamp, transactions_count, validator_address, total_fees,
+                               block_reward, puzzle_reward, priority_fees)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+           ON CONFLICT (height) DO NOTHING
+           RETURNING height`,
+          [block.height, block.hash, block.previous_hash, timestamp, block.transactions.length,
+            block.validator_address, block.total_fees?.toString(), block.rewards.block_reward.toString(),
+            block.rewards.puzzle_reward.toString(), block.rewards.priority_fees.toString()]
         );
+        if (inserted.rowCount) {
+          for (const certificate of block.certificates) {
+            const signers = recordedSigners(certificate);
+            const stored = await client.query(
+              `INSERT INTO batch_certificates (round, author, block_height, batch_id, committee_id, timestamp, transmission_count,
+                                               signatures, signature_count, signer_count)
+               VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+               ON CONFLICT (round, author) DO NOTHING`,
+              [certificate.round, certificate.author, block.height, certificate.batch_id, certificate.committee_id,
+                certificate.timestamp, certificate.transmission_count, certificate.signatures, certificate.signatures.length,
+                signers?.length ?? null]
+            );
+            if (stored.rowCount && signers?.length) {
+              await client.query(
+                `INSERT INTO batch_certificate_signers (round, author, signer)
+                 SELECT $1, $2, UNNEST($3::text[])
+                 ON CONFLICT DO NOTHING`,
+                [certificate.round, certificate.author, signers]
+              );
+            }
+          }
+        }
+        if (inserted.rowCount) {
+          for (const transaction of block.transaction_summaries) {
+            await this.insertTransaction(transaction, block.height!, timestamp, client);
+          }
+        }
+        if (inserted.rowCount) {
+          for (const reward of block.validator_rewards || []) {
+            await client.query(
+              `INSERT INTO validator_rewards (height, address, stake, stake_share, commission_rate, gross_reward, commission_reward, delegator_reward)
+               VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+              [block.height, reward.address, reward.stake.toString(), reward.stake_share, reward.commission_rate,
+                reward.gross_reward.toString(), reward.commission_reward.toString(), reward.delegator_reward.toString()]
+            );
+            await client.query(
+              'UPDATE validators SET total_rewards = total_rewards + $1 WHERE address = $2',
+              [reward.gross_reward.toString(), reward.address]
+            );
+          }
+        }
+        if (inserted.rowCount && block.validator_address) {
+          await client.query(
+            'UPDATE validators SET total_blocks_produced = total_blocks_produced + 1, last_seen = to_timestamp($1) WHERE address = $2',
+            [timestamp, block.validator_address]
+          );
+        }
       }
+      const lastHeight = Math.max(...blocks.map(block => block.height ?? 0));
+      await client.query(
+        `INSERT INTO sync_checkpoints (name, height, updated_at) VALUES ($1, $2, NOW())
+         ON CONFLICT (name) DO UPDATE SET height = GREATEST(sync_checkpoints.height, EXCLUDED.height), updated_at = NOW()`,
+        [checkpointName, lastHeight]
+      );
       await client.query('COMMIT');
     } catch (error) {
       await client.query('ROLLBACK');
@@ -198,56 +400,1518 @@ export class SnarkOSDBService {
     }
   }
 
-  async testDatabaseOperations(): Promise<void> {
+  async setSyncCheckpoint(name: string, height: number): Promise<void> {
     try {
-      // Adding test validator
-      const testValidator = {
-        address: 'test_address',
-        stake: BigInt(1000),
-        last_seen: new Date(),
-        total_blocks_produced: 0,
-        total_rewards: BigInt(0)
-      };
-      await this.updateValidator(testValidator.address, testValidator.stake);
-      logger.info('Test validator added successfully');
+      await this.pool.query(
+        `INSERT INTO sync_checkpoints (name, height, updated_at) VALUES ($1, $2, NOW())
+         ON CONFLICT (name) DO UPDATE SET height = EXCLUDED.height, updated_at = NOW()`,
+        [name, height]
+      );
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        throw new Error(`SnarkOS DB setSyncCheckpoint error: ${error.message}`);
+      }
+      throw new Error('SnarkOS DB setSyncCheckpoint error: An unknown error occurred');
+    }
+  }
 
-      // Adding test block
-      const testBlock: Block = {
-        height: 999999,
-        hash: 'test_hash',
-        previous_hash: 'test_previous_hash',
-        timestamp: new Date().toISOString(),
-        transactions: [],
-        validator_address: 'test_address',
-        total_fees: BigInt(100)
+  async getSyncCheckpoint(name: string = 'blocks'): Promise<number | null> {
+    try {
+      const result = await this.pool.query('SELECT height FROM sync_checkpoints WHERE name = $1', [name]);
+      return result.rows.length > 0 ? Number(result.rows[0].height) : null;
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        throw new Error(`SnarkOS DB getSyncCheckpoint error: ${error.message}`);
+      }
+      throw new Error('SnarkOS DB getSyncCheckpoint error: An unknown error occurred');
+    }
+  }
+
+  async getRoundParticipation(address: string, windowRounds: number): Promise<RoundParticipation> {
+    return (await this.getRoundParticipationByAddress([address], windowRounds)).get(address)!;
+  }
+
+  // Participation over the most recent `windowRounds` committed rounds that are still stored, for
+  // every address in one query. The signature rate is the share of the other authors' certificates a validator signed in
+  // the rounds it certified, counting only certificates whose signers were recorded.
+  async getRoundParticipationByAddress(addresses: string[], windowRounds: number): Promise<Map<string, RoundParticipation>> {
+    try {
+      const result = await this.pool.query(
+        `WITH bounds AS (
+           SELECT MAX(round) AS to_round, GREATEST(MAX(round) - $2 + 1, MIN(round)) AS from_round FROM batch_certificates
+         ),
+         observed AS (
+           SELECT COUNT(DISTINCT c.round) AS rounds FROM batch_certificates c, bounds
+           WHERE c.round BETWEEN bounds.from_round AND bounds.to_round
+         ),
+         certified AS (
+           SELECT c.author, c.round
+           FROM batch_certificates c, bounds
+           WHERE c.author = ANY($1) AND c.round BETWEEN bounds.from_round AND bounds.to_round
+         ),
+         participated AS (
+           SELECT author, COUNT(*) AS rounds FROM certified GROUP BY author
+         ),
+         signed AS (
+           SELECT own.author, COUNT(s.signer) AS given, COUNT(*) AS expected
+           FROM certified own
+           JOIN batch_certificates other ON other.round = own.round AND other.author <> own.author AND other.signer_count IS NOT NULL
+           LEFT JOIN batch_certificate_signers s ON s.round = other.round AND s.author = other.author AND s.signer = own.author
+           GROUP BY own.author
+         )
+         SELECT
+           a.address,
+           bounds.from_round,
+           bounds.to_round,
+           observed.rounds AS rounds_observed,
+           COALESCE(p.rounds, 0) AS rounds_participated,
+           s.given::float / NULLIF(s.expected, 0) AS signature_rate
+         FROM (SELECT DISTINCT UNNEST($1::text[]) AS address) a
+         CROSS JOIN bounds
+         CROSS JOIN observed
+         LEFT JOIN participated p ON p.author = a.address
+         LEFT JOIN signed s ON s.author = a.address`,
+        [addresses, windowRounds]
+      );
+      return new Map(result.rows.map(row => [row.address, {
+        fromRound: row.from_round !== null ? Math.max(Number(row.from_round), 0) : null,
+        toRound: row.to_round !== null ? Number(row.to_round) : null,
+        roundsObserved: Number(row.rounds_observed),
+        roundsParticipated: Number(row.rounds_participated),
+        signatureRate: row.signature_rate !== null ? Number(row.signature_rate) : null,
+      }]));
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        throw new Error(`SnarkOS DB getRoundParticipationByAddress error: ${error.message}`);
+      }
+      throw new Error('SnarkOS DB getRoundParticipationByAddress error: An unknown error occurred');
+    }
+  }
+
+  // Rewards attributed to a validator's stake pool, bucketed by UTC day or by epoch (height / epochBlocks).
+  async getValidatorRewards(
+    address: string,
+    granularity: 'day' | 'epoch',
+    epochBlocks: number,
+    from?: Date,
+    to?: Date
+  ): Promise<ValidatorRewardRow[]> {
+    const bucket = granularity === 'day'
+      ? "to_char(date_trunc('day', to_timestamp(b.timestamp) AT TIME ZONE 'UTC'), 'YYYY-MM-DD')"
+      : 'FLOOR(r.height / $4)::BIGINT';
+    try {
+      const result = await this.pool.query(
+        `SELECT ${bucket} AS bucket,
+                MIN(r.height) AS from_height,
+                MAX(r.height) AS to_height,
+                COUNT(*) AS blocks,
+                SUM(r.gross_reward) AS gross_reward,
+                SUM(r.commission_reward) AS commission_reward,
+                SUM(r.delegator_reward) AS delegator_reward,
+                AVG(r.stake_share) AS average_stake_share
+         FROM validator_rewards r
+         JOIN blocks b ON b.height = r.height
+         WHERE r.address = $1
+           AND ($2::bigint IS NULL OR b.timestamp >= $2)
+           AND ($3::bigint IS NULL OR b.timestamp <= $3)
+         GROUP BY 1
+         ORDER BY MIN(r.height)`,
+        [
+          address,
+          from ? Math.floor(from.getTime() / 1000) : null,
+          to ? Math.floor(to.getTime() / 1000) : null,
+          ...(granularity === 'epoch' ? [epochBlocks] : []),
+        ]
+      );
+      return result.rows;
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        throw new Error(`SnarkOS DB getValidatorRewards error: ${error.message}`);
+      }
+      throw new Error('SnarkOS DB getValidatorRewards error: An unknown error occurred');
+    }
+  }
+
+  // Hourly rows are aggregated from the raw tables; daily rows from the hourly ones, so days stay
+  // complete after raw blocks are pruned. A round belongs to the hour of the block that committed it.
+  async rebuildRollups(fromHeight: number): Promise<number> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      const start = await client.query('SELECT MIN(timestamp) AS timestamp FROM blocks WHERE height >= $1', [fromHeight]);
+      if (start.rows[0].timestamp === null) {
+        await client.query('COMMIT');
+        return 0;
+      }
+      const hourStart = Math.floor(Number(start.rows[0].timestamp) / 3600) * 3600;
+      const dayStart = Math.floor(hourStart / 86400) * 86400;
+
+      await client.query(
+        "DELETE FROM validator_rollups WHERE granularity = 'hour' AND bucket >= to_timestamp($1)",
+        [hourStart]
+      );
+      const hours = await client.query(
+        `WITH ranged AS (
+           SELECT height, validator_address, (timestamp / 3600) * 3600 AS bucket FROM blocks WHERE timestamp >= $1
+         ),
+         rounds AS (
+           SELECT c.round, MIN(b.bucket) AS bucket
+           FROM batch_certificates c
+           JOIN ranged b ON b.height = c.block_height
+           GROUP BY c.round
+         ),
+         observed AS (
+           SELECT bucket, COUNT(*) AS rounds FROM rounds GROUP BY bucket
+         ),
+         certified AS (
+           SELECT r.bucket, c.author AS address, COUNT(*) AS rounds_participated
+           FROM batch_certificates c
+           JOIN rounds r ON r.round = c.round
+           GROUP BY r.bucket, c.author
+         ),
+         signed AS (
+           SELECT r.bucket, own.author AS address,
+                  COUNT(s.signer) AS signatures_given,
+                  COUNT(*) AS signatures_expected
+           FROM batch_certificates own
+           JOIN rounds r ON r.round = own.round
+           JOIN batch_certificates other ON other.round = own.round AND other.author <> own.author AND other.signer_count IS NOT NULL
+           LEFT JOIN batch_certificate_signers s ON s.round = other.round AND s.author = other.author AND s.signer = own.author
+           GROUP BY r.bucket, own.author
+         ),
+         authored AS (
+           SELECT bucket, validator_address AS address, COUNT(*) AS blocks_authored
+           FROM ranged
+           WHERE validator_address IS NOT NULL
+           GROUP BY bucket, validator_address
+         ),
+         rewarded AS (
+           SELECT b.bucket, r.address,
+                  SUM(r.gross_reward) AS gross_reward,
+                  SUM(r.commission_reward) AS commission_reward,
+                  SUM(r.delegator_reward) AS delegator_reward,
+                  (ARRAY_AGG(r.stake ORDER BY r.height DESC))[1] AS stake
+           FROM validator_rewards r
+           JOIN ranged b ON b.height = r.height
+           GROUP BY b.bucket, r.address
+         ),
+         keys AS (
+           SELECT bucket, address FROM certified
+           UNION SELECT bucket, address FROM authored
+           UNION SELECT bucket, address FROM rewarded
+         )
+         INSERT INTO validator_rollups (
+           granularity, bucket, address, blocks_authored, rounds_observed, rounds_participated,
+           signatures_given, signatures_expected, gross_reward, commission_reward, delegator_reward, stake
+         )
+         SELECT 'hour', to_timestamp(k.bucket), k.address,
+                COALESCE(a.blocks_authored, 0), COALESCE(o.rounds, 0), COALESCE(c.rounds_participated, 0),
+                COALESCE(s.signatures_given, 0), COALESCE(s.signatures_expected, 0),
+                COALESCE(w.gross_reward, 0), COALESCE(w.commission_reward, 0), COALESCE(w.delegator_reward, 0), w.stake
+         FROM keys k
+         LEFT JOIN observed o ON o.bucket = k.bucket
+         LEFT JOIN certified c ON c.bucket = k.bucket AND c.address = k.address
+         LEFT JOIN signed s ON s.bucket = k.bucket AND s.address = k.address
+         LEFT JOIN authored a ON a.bucket = k.bucket AND a.address = k.address
+         LEFT JOIN rewarded w ON w.bucket = k.bucket AND w.address = k.address`,
+        [hourStart]
+      );
+
+      await client.query(
+        "DELETE FROM validator_rollups WHERE granularity = 'day' AND bucket >= to_timestamp($1)",
+        [dayStart]
+      );
+      await client.query(
+        `INSERT INTO validator_rollups (
+           granularity, bucket, address, blocks_authored, rounds_observed, rounds_participated,
+           signatures_given, signatures_expected, gross_reward, commission_reward, delegator_reward, stake
+         )
+         SELECT 'day', to_timestamp((EXTRACT(EPOCH FROM bucket)::BIGINT / 86400) * 86400), address,
+                SUM(blocks_authored), SUM(rounds_observed), SUM(rounds_participated),
+                SUM(signatures_given), SUM(signatures_expected),
+                SUM(gross_reward), SUM(commission_reward), SUM(delegator_reward),
+                (ARRAY_AGG(stake ORDER BY bucket DESC) FILTER (WHERE stake IS NOT NULL))[1]
+         FROM validator_rollups
+         WHERE granularity = 'hour' AND bucket >= to_timestamp($1)
+         GROUP BY 2, address`,
+        [dayStart]
+      );
+      await client.query('COMMIT');
+      return hours.rowCount ?? 0;
+    } catch (error: unknown) {
+      await client.query('ROLLBACK');
+      if (error instanceof Error) {
+        throw new Error(`SnarkOS DB rebuildRollups error: ${error.message}`);
+      }
+      throw new Error('SnarkOS DB rebuildRollups error: An unknown error occurred');
+    } finally {
+      client.release();
+    }
+  }
+
+  // Rollups whose bucket starts within [from, to]
+  async getValidatorRollups(address: string, granularity: 'hour' | 'day', from?: Date, to?: Date): Promise<ValidatorRollupRecord[]> {
+    try {
+      const result = await this.pool.query(
+        `SELECT bucket, address, blocks_authored, rounds_observed, rounds_participated, signatures_given,
+                signatures_expected, gross_reward, commission_reward, delegator_reward, stake
+         FROM validator_rollups
+         WHERE granularity = $1 AND address = $2
+           AND ($3::timestamptz IS NULL OR bucket >= $3)
+           AND ($4::timestamptz IS NULL OR bucket <= $4)
+         ORDER BY bucket`,
+        [granularity, address, from ?? null, to ?? null]
+      );
+      return result.rows;
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        throw new Error(`SnarkOS DB getValidatorRollups error: ${error.message}`);
+      }
+      throw new Error('SnarkOS DB getValidatorRollups error: An unknown error occurred');
+    }
+  }
+
+  async getRollupTotals(granularity: 'hour' | 'day', from: Date, to: Date): Promise<{ roundsObserved: number, validators: ValidatorRollupTotals[] }> {
+    try {
+      const rounds = await this.pool.query(
+        `SELECT COALESCE(SUM(rounds), 0) AS rounds
+         FROM (
+           SELECT MAX(rounds_observed) AS rounds
+           FROM validator_rollups
+           WHERE granularity = $1 AND bucket >= $2 AND bucket < $3
+           GROUP BY bucket
+         ) buckets`,
+        [granularity, from, to]
+      );
+      const validators = await this.pool.query(
+        `SELECT r.address,
+                SUM(r.blocks_authored) AS blocks_authored,
+                SUM(r.rounds_participated) AS rounds_participated,
+                SUM(r.signatures_given) AS signatures_given,
+                SUM(r.signatures_expected) AS signatures_expected,
+                SUM(r.gross_reward) AS gross_reward,
+                SUM(r.commission_reward) AS commission_reward,
+                SUM(r.delegator_reward) AS delegator_reward,
+                (ARRAY_AGG(r.stake ORDER BY r.bucket DESC) FILTER (WHERE r.stake IS NOT NULL))[1] AS stake
+         FROM validator_rollups r
+         WHERE r.granularity = $1 AND r.bucket >= $2 AND r.bucket < $3
+         GROUP BY r.address
+         ORDER BY r.address`,
+        [granularity, from, to]
+      );
+      return { roundsObserved: Number(rounds.rows[0].rounds), validators: validators.rows };
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        throw new Error(`SnarkOS DB getRollupTotals error: ${error.message}`);
+      }
+      throw new Error('SnarkOS DB getRollupTotals error: An unknown error occurred');
+    }
+  }
+
+  async pruneRawData(before: Date, belowHeight: number): Promise<PrunedRows> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      const blocks = await client.query(
+        'DELETE FROM blocks WHERE timestamp < $1 AND height < $2',
+        [Math.floor(before.getTime() / 1000), belowHeight]
+      );
+      const committees = await client.query(
+        `DELETE FROM committee_snapshots
+         WHERE fetched_at < $1 AND id <> (SELECT MAX(id) FROM committee_snapshots)`,
+        [before]
+      );
+      const snapshots = await client.query('DELETE FROM mempool_snapshots WHERE taken_at < $1', [before]);
+      // Pending transactions are kept whatever their age, the sampler still tracks them
+      const mempool = await client.query(
+        `DELETE FROM mempool_transactions
+         WHERE last_seen_at < $1 AND (included_height IS NOT NULL OR dropped_at IS NOT NULL)`,
+        [before]
+      );
+      await client.query('COMMIT');
+      return {
+        blocks: blocks.rowCount ?? 0,
+        committee_snapshots: committees.rowCount ?? 0,
+        mempool_snapshots: snapshots.rowCount ?? 0,
+        mempool_transactions: mempool.rowCount ?? 0,
       };
-      await this.insertBlock(testBlock);
-      logger.info('Test block added successfully');
+    } catch (error: unknown) {
+      await client.query('ROLLBACK');
+      if (error instanceof Error) {
+        throw new Error(`SnarkOS DB pruneRawData error: ${error.message}`);
+      }
+      throw new Error('SnarkOS DB pruneRawData error: An unknown error occurred');
+    } finally {
+      client.release();
+    }
+  }
 
-      // Fetching added data
-      const result = await this.query('SELECT * FROM blocks WHERE height = $1', [999999]);
-      logger.info('Fetched test block:', result.rows[0]);
+  async pruneRollups(granularity: 'hour' | 'day', before: Date): Promise<number> {
+    try {
+      const result = await this.pool.query(
+        'DELETE FROM validator_rollups WHERE granularity = $1 AND bucket < $2',
+        [granularity, before]
+      );
+      return result.rowCount ?? 0;
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        throw new Error(`SnarkOS DB pruneRollups error: ${error.message}`);
+      }
+      throw new Error('SnarkOS DB pruneRollups error: An unknown error occurred');
+    }
+  }
 
-      // Deleting test data
-      await this.query('DELETE FROM blocks WHERE height = $1', [999999]);
-      await this.query('DELETE FROM validators WHERE address = $1', ['test_address']);
-      logger.info('Test data deleted');
-    } catch (error) {
-      logger.error('Error during database test operations:', error);
+  async getTransaction(id: string): Promise<TransactionDetail | null> {
+    try {
+      const result = await this.pool.query('SELECT * FROM transactions WHERE id = $1', [id]);
+      if (result.rows.length === 0) return null;
+      const transitions = await this.pool.query(
+        'SELECT id, program_id, function_name, is_fee FROM transitions WHERE transaction_id = $1 ORDER BY position',
+        [id]
+      );
+      return { ...result.rows[0], transitions: transitions.rows };
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        throw new Error(`SnarkOS DB getTransaction error: ${error.message}`);
+      }
+      throw new Error('SnarkOS DB getTransaction error: An unknown error occurred');
     }
   }
 
-  async updateValidatorBlockProduction(address: string, blockReward: bigint): Promise<void> {
+  async getBlockTransactions(height: number): Promise<TransactionRecord[]> {
     try {
-      await this.pool.query(
-        'UPDATE validators SET total_blocks_produced = total_blocks_produced + 1, total_rewards = total_rewards + $1, last_seen = NOW() WHERE address = $2',
-        [blockReward.toString(), address] // convert bigint to string
+      const result = await this.pool.query(
+        'SELECT * FROM transactions WHERE block_height = $1 ORDER BY position',
+        [height]
+      );
+      return result.rows;
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        throw new Error(`SnarkOS DB getBlockTransactions error: ${error.message}`);
+      }
+      throw new Error('SnarkOS DB getBlockTransactions error: An unknown error occurred');
+    }
+  }
+
+  // Program and function filters match individual transitions, so `?program=credits.aleo&function=transfer_public`
+  // only returns transactions that called that exact function. A program filter alone also matches deployments.
+  async getTransactions(filter: TransactionFilter): Promise<TransactionRecord[]> {
+    try {
+      const conditions: string[] = [];
+      const params: any[] = [];
+      if (filter.function) {
+        params.push(filter.function);
+        const functionParam = params.length;
+        let transitionCondition = `t.function_name = $${functionParam}`;
+        if (filter.program) {
+          params.push(filter.program);
+          transitionCondition += ` AND t.program_id = $${params.length}`;
+        }
+        conditions.push(`EXISTS (SELECT 1 FROM transitions t WHERE t.transaction_id = tx.id AND ${transitionCondition})`);
+      } else if (filter.program) {
+        params.push(filter.program);
+        conditions.push(`$${params.length} = ANY(tx.program_ids)`);
+      }
+      if (filter.from) {
+        params.push(Math.floor(filter.from.getTime() / 1000));
+        conditions.push(`tx.timestamp >= $${params.length}`);
+      }
+      if (filter.to) {
+        params.push(Math.floor(filter.to.getTime() / 1000));
+        conditions.push(`tx.timestamp <= $${params.length}`);
+      }
+      params.push(filter.limit);
+      const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+      const result = await this.pool.query(
+        `SELECT tx.* FROM transactions tx ${where} ORDER BY tx.block_height DESC, tx.position DESC LIMIT $${params.length}`,
+        params
+      );
+      return result.rows;
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        throw new Error(`SnarkOS DB getTransactions error: ${error.message}`);
+      }
+      throw new Error('SnarkOS DB getTransactions error: An unknown error occurred');
+    }
+  }
+
+  // Per-program (or per-function) usage between two unix timestamps, optionally bucketed by hour or day.
+  // Fee transitions are left out so credits.aleo is not credited with every transaction on the network.
+  // Block space share is the fraction of all transactions in the same bucket that called the program.
+  async getProgramUsage(options: ProgramUsageFilter): Promise<ProgramUsageRow[]> {
+    try {
+      const params: any[] = [options.from, options.to];
+      const bucketExpr = options.bucket
+        ? `date_trunc($${params.push(options.bucket)}, to_timestamp(tx.timestamp) AT TIME ZONE 'UTC') AT TIME ZONE 'UTC'`
+        : 'NULL::timestamptz';
+      const programCondition = options.programId ? `AND t.program_id = $${params.push(options.programId)}` : '';
+      const limit = options.limit !== undefined ? `LIMIT $${params.push(options.limit)}` : '';
+
+      const result = await this.pool.query(
+        `WITH calls AS (
+           SELECT t.program_id, ${options.byFunction ? 't.function_name' : 'NULL::text'} AS function_name,
+                  tx.id, tx.fee, tx.fee_payer, ${bucketExpr} AS bucket, COUNT(*) AS calls
+           FROM transitions t
+           JOIN transactions tx ON tx.id = t.transaction_id
+           WHERE NOT t.is_fee AND tx.timestamp BETWEEN $1 AND $2 ${programCondition}
+           GROUP BY 1, 2, 3, 4, 5, 6
+         ), totals AS (
+           SELECT ${bucketExpr} AS bucket, COUNT(*) AS transactions
+           FROM transactions tx
+           WHERE tx.timestamp BETWEEN $1 AND $2
+           GROUP BY 1
+         )
+         SELECT c.program_id, c.function_name, c.bucket,
+                SUM(c.calls) AS calls,
+                COUNT(*) AS transactions,
+                COUNT(DISTINCT c.fee_payer) AS unique_callers,
+                SUM(c.fee) AS fees,
+                COUNT(*)::float / NULLIF(MAX(totals.transactions), 0) AS block_space_share
+         FROM calls c
+         JOIN totals ON totals.bucket IS NOT DISTINCT FROM c.bucket
+         GROUP BY c.program_id, c.function_name, c.bucket
+         ORDER BY c.bucket NULLS FIRST, calls DESC, c.program_id
+         ${limit}`,
+        params
+      );
+      return result.rows;
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        throw new Error(`SnarkOS DB getProgramUsage error: ${error.message}`);
+      }
+      throw new Error('SnarkOS DB getProgramUsage error: An unknown error occurred');
+    }
+  }
+
+  async getProgramDeployments(filter: { programId?: string, from?: number, to?: number, limit: number }): Promise<ProgramDeployment[]> {
+    try {
+      const conditions = ["deployed_program IS NOT NULL", "status = 'accepted'"];
+      const params: any[] = [];
+      if (filter.programId) conditions.push(`deployed_program = $${params.push(filter.programId)}`);
+      if (filter.from !== undefined) conditions.push(`timestamp >= $${params.push(filter.from)}`);
+      if (filter.to !== undefined) conditions.push(`timestamp <= $${params.push(filter.to)}`);
+      params.push(filter.limit);
+      const result = await this.pool.query(
+        `SELECT deployed_program AS program_id, id AS transaction_id, block_height, timestamp, fee_payer AS deployer
+         FROM transactions
+         WHERE ${conditions.join(' AND ')}
+         ORDER BY block_height DESC
+         LIMIT $${params.length}`,
+        params
+      );
+      return result.rows.map(row => ({
+        ...row,
+        block_height: Number(row.block_height),
+        timestamp: row.timestamp !== null ? Number(row.timestamp) : null,
+      }));
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        throw new Error(`SnarkOS DB getProgramDeployments error: ${error.message}`);
+      }
+      throw new Error('SnarkOS DB getProgramDeployments error: An unknown error occurred');
+    }
+  }
+
+  // Upserts every transaction id currently in the mempool (keeping the first-seen time of ids we
+  // already know) and records the mempool size for this sample.
+  async recordMempoolSample(ids: string[]): Promise<MempoolSnapshot> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      const upserted = await client.query(
+        `INSERT INTO mempool_transactions (id, first_seen_at, last_seen_at)
+         SELECT id, NOW(), NOW() FROM unnest($1::text[]) AS id
+         ON CONFLICT (id) DO UPDATE SET last_seen_at = NOW()
+         RETURNING (xmax = 0) AS inserted`,
+        [ids]
+      );
+      const newCount = upserted.rows.filter(row => row.inserted).length;
+      const snapshot = await client.query(
+        'INSERT INTO mempool_snapshots (size, new_count) VALUES ($1, $2) RETURNING *',
+        [ids.length, newCount]
       );
+      await client.query('COMMIT');
+      return snapshot.rows[0];
     } catch (error: unknown) {
+      await client.query('ROLLBACK');
       if (error instanceof Error) {
-        throw new Error(`SnarkOS DB updateValidatorBlockProduction error: ${error.message}`);
+        throw new Error(`SnarkOS DB recordMempoolSample error: ${error.message}`);
       }
-      throw new Error('SnarkOS DB updateValidatorBlockProduction error: An unknown error occurred');
+      throw new Error('SnarkOS DB recordMempoolSample error: An unknown error occurred');
+    } finally {
+      client.release();
+    }
+  }
+
+  // Matches seen transactions against indexed blocks. Inclusions within `recheckDepth` of the tip are
+  // re-verified so a reorg that orphaned the including block puts the transaction back to pending.
+  // Transactions that left the mempool more than `droppedAfterSeconds` ago without being included are
+  // marked dropped; a late inclusion clears the mark again.
+  async reconcileMempool(droppedAfterSeconds: number, recheckDepth: number): Promise<MempoolReconciliation> {
+    try {
+      const reverted = await this.pool.query(
+        `UPDATE mempool_transactions m SET included_height = NULL, included_at = NULL
+         WHERE m.included_height > (SELECT COALESCE(MAX(height), 0) FROM blocks) - $1
+           AND NOT EXISTS (SELECT 1 FROM transactions tx WHERE tx.id = m.id)`,
+        [recheckDepth]
+      );
+      const included = await this.pool.query(
+        `UPDATE mempool_transactions m
+         SET included_height = tx.block_height, included_at = to_timestamp(tx.timestamp), dropped_at = NULL
+         FROM transactions tx
+         WHERE tx.id = m.id AND m.included_height IS NULL`
+      );
+      const dropped = await this.pool.query(
+        `UPDATE mempool_transactions SET dropped_at = NOW()
+         WHERE included_height IS NULL AND dropped_at IS NULL
+           AND last_seen_at < NOW() - make_interval(secs => $1)`,
+        [droppedAfterSeconds]
+      );
+      return { included: included.rowCount ?? 0, reverted: reverted.rowCount ?? 0, dropped: dropped.rowCount ?? 0 };
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        throw new Error(`SnarkOS DB reconcileMempool error: ${error.message}`);
+      }
+      throw new Error('SnarkOS DB reconcileMempool error: An unknown error occurred');
+    }
+  }
+
+  // Counts and time-to-inclusion percentiles for transactions first seen in the range. Latency is
+  // measured to the including block's timestamp and floored at zero, since a transaction can be
+  // sampled only after the block that includes it was produced.
+  async getMempoolStats(from: Date, to: Date): Promise<MempoolStatsRecord> {
+    try {
+      const counts = await this.pool.query(
+        `SELECT COUNT(*) AS seen,
+                COUNT(*) FILTER (WHERE included_height IS NOT NULL) AS included,
+                COUNT(*) FILTER (WHERE included_height IS NULL AND dropped_at IS NULL) AS pending,
+                COUNT(*) FILTER (WHERE dropped_at IS NOT NULL) AS dropped
+         FROM mempool_transactions
+         WHERE first_seen_at BETWEEN $1 AND $2`,
+        [from, to]
+      );
+      const latency = await this.pool.query(
+        `WITH latencies AS (
+           SELECT GREATEST(EXTRACT(EPOCH FROM included_at - first_seen_at), 0) AS seconds
+           FROM mempool_transactions
+           WHERE first_seen_at BETWEEN $1 AND $2 AND included_at IS NOT NULL
+         )
+         SELECT COUNT(*) AS count,
+                percentile_cont(0.5) WITHIN GROUP (ORDER BY seconds) AS p50,
+                percentile_cont(0.9) WITHIN GROUP (ORDER BY seconds) AS p90,
+                percentile_cont(0.99) WITHIN GROUP (ORDER BY seconds) AS p99,
+                AVG(seconds) AS average
+         FROM latencies`,
+        [from, to]
+      );
+      const size = await this.pool.query(
+        `SELECT (SELECT size FROM mempool_snapshots ORDER BY taken_at DESC LIMIT 1) AS current,
+                AVG(size) AS average,
+                MAX(size) AS max
+         FROM mempool_snapshots
+         WHERE taken_at BETWEEN $1 AND $2`,
+        [from, to]
+      );
+
+      const toNumber = (value: any) => value !== null && value !== undefined ? Number(value) : null;
+      const countRow = counts.rows[0];
+      const latencyRow = latency.rows[0];
+      const sizeRow = size.rows[0];
+      return {
+        seen: Number(countRow.seen),
+        included: Number(countRow.included),
+        pending: Number(countRow.pending),
+        dropped: Number(countRow.dropped),
+        latency: {
+          count: Number(latencyRow.count),
+          p50: toNumber(latencyRow.p50),
+          p90: toNumber(latencyRow.p90),
+          p99: toNumber(latencyRow.p99),
+          average: toNumber(latencyRow.average),
+        },
+        size: { current: toNumber(sizeRow.current), average: toNumber(sizeRow.average), max: toNumber(sizeRow.max) },
+      };
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        throw new Error(`SnarkOS DB getMempoolStats error: ${error.message}`);
+      }
+      throw new Error('SnarkOS DB getMempoolStats error: An unknown error occurred');
+    }
+  }
+
+  async getMempoolSnapshots(from: Date, to: Date, limit: number): Promise<MempoolSnapshot[]> {
+    try {
+      const result = await this.pool.query(
+        `SELECT * FROM (
+           SELECT * FROM mempool_snapshots WHERE taken_at BETWEEN $1 AND $2 ORDER BY taken_at DESC LIMIT $3
+         ) recent ORDER BY taken_at`,
+        [from, to, limit]
+      );
+      return result.rows;
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        throw new Error(`SnarkOS DB getMempoolSnapshots error: ${error.message}`);
+      }
+      throw new Error('SnarkOS DB getMempoolSnapshots error: An unknown error occurred');
+    }
+  }
+
+  async getDroppedMempoolTransactions(from: Date, to: Date, limit: number): Promise<MempoolTransaction[]> {
+    try {
+      const result = await this.pool.query(
+        `SELECT * FROM mempool_transactions
+         WHERE dropped_at IS NOT NULL AND dropped_at BETWEEN $1 AND $2
+         ORDER BY dropped_at DESC LIMIT $3`,
+        [from, to, limit]
+      );
+      return result.rows;
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        throw new Error(`SnarkOS DB getDroppedMempoolTransactions error: ${error.message}`);
+      }
+      throw new Error('SnarkOS DB getDroppedMempoolTransactions error: An unknown error occurred');
+    }
+  }
+
+  // Block interval, throughput, round and stake participation figures for blocks with a timestamp in
+  // [from, to], either as one row (no bucket) or one row per date_trunc bucket. Committee size, total
+  // stake and the stakes used for participation come from the latest snapshot at the bucket's last block.
+  async getNetworkStats(from: number, to: number, bucket?: NetworkSeriesBucket): Promise<NetworkStatsRow[]> {
+    try {
+      const params: any[] = [from, to];
+      const bucketExpr = bucket
+        ? `date_trunc($${params.push(bucket)}, to_timestamp(timestamp) AT TIME ZONE 'UTC') AT TIME ZONE 'UTC'`
+        : 'NULL::timestamptz';
+      const result = await this.pool.query(
+        `WITH b AS (
+           SELECT height, timestamp, transactions_count, ${bucketExpr} AS bucket,
+                  timestamp - LAG(timestamp) OVER (ORDER BY height) AS block_interval
+           FROM blocks
+           WHERE timestamp BETWEEN $1 AND $2
+         ), block_rounds AS (
+           SELECT b.bucket, COUNT(DISTINCT c.round) AS rounds
+           FROM b
+           JOIN batch_certificates c ON c.block_height = b.height
+           GROUP BY b.height, b.bucket
+         ), stats AS (
+           SELECT bucket,
+                  COUNT(*) AS blocks,
+                  MIN(height) AS from_height,
+                  MAX(height) AS to_height,
+                  SUM(transactions_count) AS transactions,
+                  percentile_cont(0.5) WITHIN GROUP (ORDER BY block_interval) AS interval_p50,
+                  percentile_cont(0.95) WITHIN GROUP (ORDER BY block_interval) AS interval_p95,
+                  MAX(block_interval) AS interval_max,
+                  AVG(block_interval) AS interval_average
+           FROM b
+           GROUP BY bucket
+         )
+         SELECT s.*,
+                (SELECT AVG(rounds) FROM block_rounds br WHERE br.bucket IS NOT DISTINCT FROM s.bucket) AS rounds_per_block,
+                snap.member_count AS committee_size,
+                snap.total_stake,
+                (SELECT AVG(round_stake.share) FROM (
+                   SELECT SUM(m.stake)::float / NULLIF(snap.total_stake, 0) AS share
+                   FROM b
+                   JOIN batch_certificates c ON c.block_height = b.height
+                   JOIN committee_members m ON m.snapshot_id = snap.id AND m.address = c.author
+                   WHERE b.bucket IS NOT DISTINCT FROM s.bucket
+                   GROUP BY c.round
+                 ) round_stake) AS stake_participation
+         FROM stats s
+         LEFT JOIN LATERAL (
+           SELECT id, member_count, total_stake FROM committee_snapshots
+           WHERE block_height <= s.to_height
+           ORDER BY block_height DESC, id DESC
+           LIMIT 1
+         ) snap ON TRUE
+         ORDER BY s.bucket NULLS FIRST`,
+        params
+      );
+      return result.rows;
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        throw new Error(`SnarkOS DB getNetworkStats error: ${error.message}`);
+      }
+      throw new Error('SnarkOS DB getNetworkStats error: An unknown error occurred');
+    }
+  }
+
+  async getLatestRound(): Promise<number | null> {
+    try {
+      const result = await this.pool.query('SELECT MAX(round) AS round FROM batch_certificates');
+      return result.rows[0].round !== null ? Number(result.rows[0].round) : null;
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        throw new Error(`SnarkOS DB getLatestRound error: ${error.message}`);
+      }
+      throw new Error('SnarkOS DB getLatestRound error: An unknown error occurred');
+    }
+  }
+
+  async getBlockHash(height: number): Promise<string | null> {
+    try {
+      const result = await this.pool.query('SELECT hash FROM blocks WHERE height = $1', [height]);
+      return result.rows.length > 0 ? result.rows[0].hash : null;
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        throw new Error(`SnarkOS DB getBlockHash error: ${error.message}`);
+      }
+      throw new Error('SnarkOS DB getBlockHash error: An unknown error occurred');
+    }
+  }
+
+  // Removes every stored block above the common ancestor, reverses the validator counters those
+  // blocks contributed, rewinds the sync checkpoint and records the reorg, all in one transaction.
+  async rollbackToHeight(ancestorHeight: number, newHashes: string[], checkpointName: string = 'blocks'): Promise<Reorg> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      const orphanedRewards = await client.query(
+        'SELECT address, SUM(gross_reward) AS total FROM validator_rewards WHERE height > $1 GROUP BY address',
+        [ancestorHeight]
+      );
+      for (const reward of orphanedRewards.rows) {
+        await client.query(
+          'UPDATE validators SET total_rewards = total_rewards - $1 WHERE address = $2',
+          [reward.total, reward.address]
+        );
+      }
+
+      const orphaned = await client.query(
+        'DELETE FROM blocks WHERE height > $1 RETURNING height, hash, validator_address',
+        [ancestorHeight]
+      );
+      const orphanedBlocks = orphaned.rows.sort((a, b) => Number(a.height) - Number(b.height));
+
+      for (const block of orphanedBlocks) {
+        if (block.validator_address) {
+          await client.query(
+            'UPDATE validators SET total_blocks_produced = total_blocks_produced - 1 WHERE address = $1',
+            [block.validator_address]
+          );
+        }
+      }
+
+      await client.query(
+        'UPDATE sync_checkpoints SET height = $1, updated_at = NOW() WHERE name = $2',
+        [ancestorHeight, checkpointName]
+      );
+      const reorg = await client.query(
+        `INSERT INTO reorgs (common_ancestor_height, depth, old_hashes, new_hashes)
+         VALUES ($1, $2, $3, $4)
+         RETURNING *`,
+        [ancestorHeight, orphanedBlocks.length, orphanedBlocks.map(block => block.hash), newHashes]
+      );
+      await client.query('COMMIT');
+      return this.mapReorgRow(reorg.rows[0]);
+    } catch (error: unknown) {
+      await client.query('ROLLBACK');
+      if (error instanceof Error) {
+        throw new Error(`SnarkOS DB rollbackToHeight error: ${error.message}`);
+      }
+      throw new Error('SnarkOS DB rollbackToHeight error: An unknown error occurred');
+    } finally {
+      client.release();
+    }
+  }
+
+  async getReorgs(limit: number): Promise<Reorg[]> {
+    try {
+      const result = await this.pool.query('SELECT * FROM reorgs ORDER BY detected_at DESC LIMIT $1', [limit]);
+      return result.rows.map(row => this.mapReorgRow(row));
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        throw new Error(`SnarkOS DB getReorgs error: ${error.message}`);
+      }
+      throw new Error('SnarkOS DB getReorgs error: An unknown error occurred');
+    }
+  }
+
+  private mapReorgRow(row: any): Reorg {
+    return {
+      id: row.id,
+      detected_at: new Date(row.detected_at).toISOString(),
+      common_ancestor_height: Number(row.common_ancestor_height),
+      depth: row.depth,
+      old_hashes: row.old_hashes,
+      new_hashes: row.new_hashes,
+    };
+  }
+
+  async getLatestBlockTimestamp(): Promise<number | null> {
+    try {
+      const result = await this.pool.query('SELECT MAX(timestamp) AS max_timestamp FROM blocks');
+      return result.rows[0].max_timestamp !== null ? Number(result.rows[0].max_timestamp) : null;
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        throw new Error(`SnarkOS DB getLatestBlockTimestamp error: ${error.message}`);
+      }
+      throw new Error('SnarkOS DB getLatestBlockTimestamp error: An unknown error occurred');
+    }
+  }
+
+  async getAlertRules(enabledOnly: boolean = false): Promise<AlertRule[]> {
+    try {
+      const result = await this.pool.query(
+        `SELECT * FROM alert_rules ${enabledOnly ? 'WHERE enabled = TRUE' : ''} ORDER BY id`
+      );
+      return result.rows;
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        throw new Error(`SnarkOS DB getAlertRules error: ${error.message}`);
+      }
+      throw new Error('SnarkOS DB getAlertRules error: An unknown error occurred');
+    }
+  }
+
+  async getAlertRule(id: number): Promise<AlertRule | null> {
+    try {
+      const result = await this.pool.query('SELECT * FROM alert_rules WHERE id = $1', [id]);
+      return result.rows[0] || null;
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        throw new Error(`SnarkOS DB getAlertRule error: ${error.message}`);
+      }
+      throw new Error('SnarkOS DB getAlertRule error: An unknown error occurred');
+    }
+  }
+
+  async createAlertRule(rule: AlertRuleInput): Promise<AlertRule> {
+    try {
+      const result = await this.pool.query(
+        `INSERT INTO alert_rules (name, type, params, enabled, cooldown_seconds, channel_ids)
+         VALUES ($1, $2, $3, $4, $5, $6)
+         RETURNING *`,
+        [rule.name, rule.type, JSON.stringify(rule.params), rule.enabled ?? true, rule.cooldown_seconds, rule.channel_ids ?? []]
+      );
+      return result.rows[0];
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        throw new Error(`SnarkOS DB createAlertRule error: ${error.message}`);
+      }
+      throw new Error('SnarkOS DB createAlertRule error: An unknown error occurred');
+    }
+  }
+
+  async updateAlertRule(id: number, rule: AlertRuleInput): Promise<AlertRule | null> {
+    try {
+      const result = await this.pool.query(
+        `UPDATE alert_rules
+         SET name = $2, type = $3, params = $4, enabled = $5, cooldown_seconds = $6, channel_ids = $7, updated_at = NOW()
+         WHERE id = $1
+         RETURNING *`,
+        [id, rule.name, rule.type, JSON.stringify(rule.params), rule.enabled ?? true, rule.cooldown_seconds, rule.channel_ids ?? []]
+      );
+      return result.rows[0] || null;
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        throw new Error(`SnarkOS DB updateAlertRule error: ${error.message}`);
+      }
+      throw new Error('SnarkOS DB updateAlertRule error: An unknown error occurred');
+    }
+  }
+
+  async deleteAlertRule(id: number): Promise<boolean> {
+    try {
+      const result = await this.pool.query('DELETE FROM alert_rules WHERE id = $1', [id]);
+      return (result.rowCount ?? 0) > 0;
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        throw new Error(`SnarkOS DB deleteAlertRule error: ${error.message}`);
+      }
+      throw new Error('SnarkOS DB deleteAlertRule error: An unknown error occurred');
+    }
+  }
+
+  async getFiringAlerts(ruleId: number): Promise<Alert[]> {
+    try {
+      const result = await this.pool.query(
+        "SELECT * FROM alerts WHERE rule_id = $1 AND status = 'firing'",
+        [ruleId]
+      );
+      return result.rows;
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        throw new Error(`SnarkOS DB getFiringAlerts error: ${error.message}`);
+      }
+      throw new Error('SnarkOS DB getFiringAlerts error: An unknown error occurred');
+    }
+  }
+
+  async getLastResolvedAt(ruleId: number, subject: string): Promise<Date | null> {
+    try {
+      const result = await this.pool.query(
+        'SELECT MAX(resolved_at) AS resolved_at FROM alerts WHERE rule_id = $1 AND subject = $2',
+        [ruleId, subject]
+      );
+      return result.rows[0].resolved_at;
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        throw new Error(`SnarkOS DB getLastResolvedAt error: ${error.message}`);
+      }
+      throw new Error('SnarkOS DB getLastResolvedAt error: An unknown error occurred');
+    }
+  }
+
+  async insertAlert(ruleId: number, subject: string, message: string, value: number): Promise<Alert> {
+    try {
+      const result = await this.pool.query(
+        `INSERT INTO alerts (rule_id, subject, status, message, value)
+         VALUES ($1, $2, 'firing', $3, $4)
+         RETURNING *`,
+        [ruleId, subject, message, value]
+      );
+      return result.rows[0];
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        throw new Error(`SnarkOS DB insertAlert error: ${error.message}`);
+      }
+      throw new Error('SnarkOS DB insertAlert error: An unknown error occurred');
+    }
+  }
+
+  async resolveAlert(id: number): Promise<Alert> {
+    try {
+      const result = await this.pool.query(
+        "UPDATE alerts SET status = 'resolved', resolved_at = NOW() WHERE id = $1 RETURNING *",
+        [id]
+      );
+      return result.rows[0];
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        throw new Error(`SnarkOS DB resolveAlert error: ${error.message}`);
+      }
+      throw new Error('SnarkOS DB resolveAlert error: An unknown error occurred');
+    }
+  }
+
+  async getAlerts(filter: { status?: AlertStatus, ruleId?: number, limit: number }): Promise<Alert[]> {
+    try {
+      const conditions: string[] = [];
+      const params: any[] = [];
+      if (filter.status) {
+        params.push(filter.status);
+        conditions.push(`status = $${params.length}`);
+      }
+      if (filter.ruleId !== undefined) {
+        params.push(filter.ruleId);
+        conditions.push(`rule_id = $${params.length}`);
+      }
+      params.push(filter.limit);
+      const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+      const result = await this.pool.query(
+        `SELECT * FROM alerts ${where} ORDER BY fired_at DESC LIMIT $${params.length}`,
+        params
+      );
+      return result.rows;
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        throw new Error(`SnarkOS DB getAlerts error: ${error.message}`);
+      }
+      throw new Error('SnarkOS DB getAlerts error: An unknown error occurred');
+    }
+  }
+
+  async getNotificationChannels(ids?: number[]): Promise<NotificationChannel[]> {
+    try {
+      const result = ids
+        ? await this.pool.query('SELECT * FROM notification_channels WHERE id = ANY($1) ORDER BY id', [ids])
+        : await this.pool.query('SELECT * FROM notification_channels WHERE owner_id IS NULL ORDER BY id');
+      return result.rows;
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        throw new Error(`SnarkOS DB getNotificationChannels error: ${error.message}`);
+      }
+      throw new Error('SnarkOS DB getNotificationChannels error: An unknown error occurred');
+    }
+  }
+
+  async getNotificationChannel(id: number): Promise<NotificationChannel | null> {
+    try {
+      const result = await this.pool.query('SELECT * FROM notification_channels WHERE id = $1', [id]);
+      return result.rows[0] || null;
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        throw new Error(`SnarkOS DB getNotificationChannel error: ${error.message}`);
+      }
+      throw new Error('SnarkOS DB getNotificationChannel error: An unknown error occurred');
+    }
+  }
+
+  async getNotificationChannelsByOwner(ownerId: number): Promise<NotificationChannel[]> {
+    try {
+      const result = await this.pool.query('SELECT * FROM notification_channels WHERE owner_id = $1 ORDER BY id', [ownerId]);
+      return result.rows;
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        throw new Error(`SnarkOS DB getNotificationChannelsByOwner error: ${error.message}`);
+      }
+      throw new Error('SnarkOS DB getNotificationChannelsByOwner error: An unknown error occurred');
+    }
+  }
+
+  async createNotificationChannel(channel: NotificationChannelInput, ownerId: number | null = null): Promise<NotificationChannel> {
+    try {
+      const result = await this.pool.query(
+        `INSERT INTO notification_channels (name, type, config, template, enabled, owner_id)
+         VALUES ($1, $2, $3, $4, $5, $6)
+         RETURNING *`,
+        [channel.name, channel.type, JSON.stringify(channel.config), channel.template ?? null, channel.enabled ?? true, ownerId]
+      );
+      return result.rows[0];
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        throw new Error(`SnarkOS DB createNotificationChannel error: ${error.message}`);
+      }
+      throw new Error('SnarkOS DB createNotificationChannel error: An unknown error occurred');
+    }
+  }
+
+  async updateNotificationChannel(id: number, channel: NotificationChannelInput): Promise<NotificationChannel | null> {
+    try {
+      const result = await this.pool.query(
+        `UPDATE notification_channels
+         SET name = $2, type = $3, config = $4, template = $5, enabled = $6, updated_at = NOW()
+         WHERE id = $1
+         RETURNING *`,
+        [id, channel.name, channel.type, JSON.stringify(channel.config), channel.template ?? null, channel.enabled ?? true]
+      );
+      return result.rows[0] || null;
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        throw new Error(`SnarkOS DB updateNotificationChannel error: ${error.message}`);
+      }
+      throw new Error('SnarkOS DB updateNotificationChannel error: An unknown error occurred');
+    }
+  }
+
+  async deleteNotificationChannel(id: number): Promise<boolean> {
+    try {
+      const result = await this.pool.query('DELETE FROM notification_channels WHERE id = $1', [id]);
+      return (result.rowCount ?? 0) > 0;
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        throw new Error(`SnarkOS DB deleteNotificationChannel error: ${error.message}`);
+      }
+      throw new Error('SnarkOS DB deleteNotificationChannel error: An unknown error occurred');
+    }
+  }
+
+  async insertNotificationDelivery(delivery: NotificationDeliveryInput): Promise<NotificationDelivery> {
+    try {
+      const result = await this.pool.query(
+        `INSERT INTO notification_deliveries (channel_id, alert_id, event, status, attempts, last_error, payload, delivered_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, CASE WHEN $4 = 'delivered' THEN NOW() END)
+         RETURNING *`,
+        [delivery.channelId, delivery.alertId, delivery.event, delivery.delivered ? 'delivered' : 'failed',
+          delivery.attempts, delivery.lastError, delivery.payload]
+      );
+      return result.rows[0];
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        throw new Error(`SnarkOS DB insertNotificationDelivery error: ${error.message}`);
+      }
+      throw new Error('SnarkOS DB insertNotificationDelivery error: An unknown error occurred');
+    }
+  }
+
+  async getNotificationDeliveries(filter: { channelId?: number, sharedOnly?: boolean, limit: number }): Promise<NotificationDelivery[]> {
+    try {
+      const conditions: string[] = [];
+      const params: any[] = [];
+      if (filter.channelId !== undefined) {
+        params.push(filter.channelId);
+        conditions.push(`d.channel_id = $${params.length}`);
+      }
+      if (filter.sharedOnly) {
+        conditions.push('c.owner_id IS NULL');
+      }
+      params.push(filter.limit);
+      const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+      const result = await this.pool.query(
+        `SELECT d.* FROM notification_deliveries d
+         JOIN notification_channels c ON c.id = d.channel_id
+         ${where}
+         ORDER BY d.created_at DESC LIMIT $${params.length}`,
+        params
+      );
+      return result.rows;
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        throw new Error(`SnarkOS DB getNotificationDeliveries error: ${error.message}`);
+      }
+      throw new Error('SnarkOS DB getNotificationDeliveries error: An unknown error occurred');
+    }
+  }
+
+  async getWatchlist(userId: number): Promise<WatchlistRow[]> {
+    try {
+      const result = await this.pool.query(
+        `SELECT w.address, w.label, w.created_at, v.stake, v.bonded, v.is_active
+         FROM watchlist_entries w
+         LEFT JOIN validators v ON v.address = w.address
+         WHERE w.user_id = $1
+         ORDER BY w.created_at`,
+        [userId]
+      );
+      return result.rows;
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        throw new Error(`SnarkOS DB getWatchlist error: ${error.message}`);
+      }
+      throw new Error('SnarkOS DB getWatchlist error: An unknown error occurred');
+    }
+  }
+
+  async upsertWatchlistEntry(userId: number, address: string, label: string | null): Promise<WatchlistEntry> {
+    try {
+      const result = await this.pool.query(
+        `INSERT INTO watchlist_entries (user_id, address, label) VALUES ($1, $2, $3)
+         ON CONFLICT (user_id, address) DO UPDATE SET label = EXCLUDED.label
+         RETURNING address, label, created_at`,
+        [userId, address, label]
+      );
+      return result.rows[0];
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        throw new Error(`SnarkOS DB upsertWatchlistEntry error: ${error.message}`);
+      }
+      throw new Error('SnarkOS DB upsertWatchlistEntry error: An unknown error occurred');
+    }
+  }
+
+  async deleteWatchlistEntry(userId: number, address: string): Promise<boolean> {
+    try {
+      const result = await this.pool.query(
+        'DELETE FROM watchlist_entries WHERE user_id = $1 AND address = $2',
+        [userId, address]
+      );
+      return (result.rowCount ?? 0) > 0;
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        throw new Error(`SnarkOS DB deleteWatchlistEntry error: ${error.message}`);
+      }
+      throw new Error('SnarkOS DB deleteWatchlistEntry error: An unknown error occurred');
+    }
+  }
+
+  // The `limit` most recent alerts for each of the given subjects, newest first.
+  async getRecentAlertsBySubject(subjects: string[], limit: number): Promise<RecentAlertRow[]> {
+    try {
+      const result = await this.pool.query(
+        `SELECT * FROM (
+           SELECT a.*, r.name AS rule_name, r.type AS rule_type,
+                  ROW_NUMBER() OVER (PARTITION BY a.subject ORDER BY a.fired_at DESC) AS position
+           FROM alerts a
+           JOIN alert_rules r ON r.id = a.rule_id
+           WHERE a.subject = ANY($1)
+         ) ranked
+         WHERE position <= $2
+         ORDER BY fired_at DESC`,
+        [subjects, limit]
+      );
+      return result.rows;
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        throw new Error(`SnarkOS DB getRecentAlertsBySubject error: ${error.message}`);
+      }
+      throw new Error('SnarkOS DB getRecentAlertsBySubject error: An unknown error occurred');
+    }
+  }
+
+  async getWatchlistSubscriptions(userId: number): Promise<WatchlistSubscription[]> {
+    try {
+      const result = await this.pool.query(
+        'SELECT * FROM watchlist_subscriptions WHERE user_id = $1 ORDER BY id',
+        [userId]
+      );
+      return result.rows;
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        throw new Error(`SnarkOS DB getWatchlistSubscriptions error: ${error.message}`);
+      }
+      throw new Error('SnarkOS DB getWatchlistSubscriptions error: An unknown error occurred');
+    }
+  }
+
+  async createWatchlistSubscription(
+    userId: number,
+    channelId: number,
+    ruleTypes: string[],
+    includeResolved: boolean
+  ): Promise<WatchlistSubscription> {
+    try {
+      const result = await this.pool.query(
+        `INSERT INTO watchlist_subscriptions (user_id, channel_id, rule_types, include_resolved)
+         VALUES ($1, $2, $3, $4)
+         RETURNING *`,
+        [userId, channelId, ruleTypes, includeResolved]
+      );
+      return result.rows[0];
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        throw new Error(`SnarkOS DB createWatchlistSubscription error: ${error.message}`);
+      }
+      throw new Error('SnarkOS DB createWatchlistSubscription error: An unknown error occurred');
+    }
+  }
+
+  async deleteWatchlistSubscription(userId: number, id: number): Promise<boolean> {
+    try {
+      const result = await this.pool.query(
+        'DELETE FROM watchlist_subscriptions WHERE user_id = $1 AND id = $2',
+        [userId, id]
+      );
+      return (result.rowCount ?? 0) > 0;
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        throw new Error(`SnarkOS DB deleteWatchlistSubscription error: ${error.message}`);
+      }
+      throw new Error('SnarkOS DB deleteWatchlistSubscription error: An unknown error occurred');
+    }
+  }
+
+  // Enabled channels of users who watch `subject` and subscribed to this rule type and alert status.
+  async getSubscribedChannels(subject: string, ruleType: string, status: AlertStatus): Promise<NotificationChannel[]> {
+    try {
+      const result = await this.pool.query(
+        `SELECT DISTINCT c.*
+         FROM watchlist_subscriptions s
+         JOIN watchlist_entries w ON w.user_id = s.user_id AND w.address = $1
+         JOIN notification_channels c ON c.id = s.channel_id AND c.enabled = TRUE
+         WHERE (cardinality(s.rule_types) = 0 OR $2 = ANY(s.rule_types))
+           AND ($3 = 'firing' OR s.include_resolved = TRUE)`,
+        [subject, ruleType, status]
+      );
+      return result.rows;
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        throw new Error(`SnarkOS DB getSubscribedChannels error: ${error.message}`);
+      }
+      throw new Error('SnarkOS DB getSubscribedChannels error: An unknown error occurred');
+    }
+  }
+
+  // Snapshots are append-only: every committee fetch is stored as-is and never updated.
+  async insertCommitteeSnapshot(committee: any, blockHeight: number): Promise<CommitteeSnapshot> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      const members = Object.entries(committee.members || {});
+      const snapshot = await client.query(
+        `INSERT INTO committee_snapshots (committee_id, starting_round, block_height, total_stake, member_count)
+         VALUES ($1, $2, $3, $4, $5)
+         RETURNING *`,
+        [committee.id ?? null, committee.starting_round ?? null, blockHeight, committee.total_stake ?? null, members.length]
+      );
+      for (const [address, data] of members) {
+        const [stake, isActive, bonded] = data as [number, boolean, number];
+        await client.query(
+          'INSERT INTO committee_members (snapshot_id, address, stake, is_active, bonded) VALUES ($1, $2, $3, $4, $5)',
+          [snapshot.rows[0].id, address, stake, isActive, bonded]
+        );
+      }
+      await client.query('COMMIT');
+      return this.mapSnapshotRow(snapshot.rows[0]);
+    } catch (error: unknown) {
+      await client.query('ROLLBACK');
+      if (error instanceof Error) {
+        throw new Error(`SnarkOS DB insertCommitteeSnapshot error: ${error.message}`);
+      }
+      throw new Error('SnarkOS DB insertCommitteeSnapshot error: An unknown error occurred');
+    } finally {
+      client.release();
+    }
+  }
+
+  async listCommitteeSnapshots(filter: CommitteeSnapshotFilter): Promise<{ rows: CommitteeSnapshot[], total: number }> {
+    try {
+      const conditions: string[] = [];
+      const params: any[] = [];
+      if (filter.from) conditions.push(`fetched_at >= $${params.push(filter.from)}`);
+      if (filter.to) conditions.push(`fetched_at <= $${params.push(filter.to)}`);
+      const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+      const total = await this.pool.query(`SELECT COUNT(*) AS total FROM committee_snapshots ${where}`, params);
+
+      if (filter.afterId !== undefined) {
+        conditions.push(`id ${filter.order === 'desc' ? '<' : '>'} $${params.push(filter.afterId)}`);
+      }
+      params.push(filter.limit + 1);
+      const result = await this.pool.query(
+        `SELECT * FROM committee_snapshots
+         ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+         ORDER BY id ${filter.order === 'desc' ? 'DESC' : 'ASC'}
+         LIMIT $${params.length}`,
+        params
+      );
+      return { rows: result.rows.map(row => this.mapSnapshotRow(row)), total: Number(total.rows[0].total) };
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        throw new Error(`SnarkOS DB listCommitteeSnapshots error: ${error.message}`);
+      }
+      throw new Error('SnarkOS DB listCommitteeSnapshots error: An unknown error occurred');
+    }
+  }
+
+  // The snapshot in effect at `height`: the latest one taken at or below it.
+  async getCommitteeSnapshotAtHeight(height: number): Promise<CommitteeSnapshot | null> {
+    try {
+      const result = await this.pool.query(
+        'SELECT * FROM committee_snapshots WHERE block_height <= $1 ORDER BY block_height DESC, id DESC LIMIT 1',
+        [height]
+      );
+      return result.rows.length > 0 ? this.mapSnapshotRow(result.rows[0]) : null;
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        throw new Error(`SnarkOS DB getCommitteeSnapshotAtHeight error: ${error.message}`);
+      }
+      throw new Error('SnarkOS DB getCommitteeSnapshotAtHeight error: An unknown error occurred');
+    }
+  }
+
+  // The snapshot taken just before `snapshotId`, used as the baseline for its diff.
+  async getPreviousCommitteeSnapshot(snapshotId: number): Promise<CommitteeSnapshot | null> {
+    try {
+      const result = await this.pool.query(
+        'SELECT * FROM committee_snapshots WHERE id < $1 ORDER BY id DESC LIMIT 1',
+        [snapshotId]
+      );
+      return result.rows.length > 0 ? this.mapSnapshotRow(result.rows[0]) : null;
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        throw new Error(`SnarkOS DB getPreviousCommitteeSnapshot error: ${error.message}`);
+      }
+      throw new Error('SnarkOS DB getPreviousCommitteeSnapshot error: An unknown error occurred');
+    }
+  }
+
+  async getCommitteeMembers(snapshotIds: number[]): Promise<Map<number, CommitteeMember[]>> {
+    try {
+      const result = await this.pool.query(
+        'SELECT * FROM committee_members WHERE snapshot_id = ANY($1) ORDER BY stake DESC',
+        [snapshotIds]
+      );
+      const members = new Map<number, CommitteeMember[]>(snapshotIds.map(id => [id, []]));
+      for (const row of result.rows) {
+        members.get(row.snapshot_id)!.push({
+          address: row.address,
+          stake: row.stake,
+          is_active: row.is_active,
+          bonded: row.bonded,
+        });
+      }
+      return members;
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        throw new Error(`SnarkOS DB getCommitteeMembers error: ${error.message}`);
+      }
+      throw new Error('SnarkOS DB getCommitteeMembers error: An unknown error occurred');
+    }
+  }
+
+  // One row per snapshot in range; member columns are null when the validator was not in that committee.
+  async getValidatorStakeHistory(address: string, from?: Date, to?: Date): Promise<StakeHistoryRow[]> {
+    try {
+      const result = await this.pool.query(
+        `SELECT s.id AS snapshot_id, s.committee_id, s.block_height, s.fetched_at, m.stake, m.is_active, m.bonded
+         FROM committee_snapshots s
+         LEFT JOIN committee_members m ON m.snapshot_id = s.id AND m.address = $1
+         WHERE ($2::timestamp IS NULL OR s.fetched_at >= $2) AND ($3::timestamp IS NULL OR s.fetched_at <= $3)
+         ORDER BY s.fetched_at ASC, s.id ASC`,
+        [address, from ?? null, to ?? null]
+      );
+      return result.rows;
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        throw new Error(`SnarkOS DB getValidatorStakeHistory error: ${error.message}`);
+      }
+      throw new Error('SnarkOS DB getValidatorStakeHistory error: An unknown error occurred');
+    }
+  }
+
+  // The membership runs from the first snapshot after the last one (up to `at`) the address was missing from
+  async getCommitteeMemberSince(addresses: string[], at: Date): Promise<Map<string, Date>> {
+    try {
+      const result = await this.pool.query(
+        `WITH snapshots AS (
+           SELECT id, fetched_at FROM committee_snapshots WHERE fetched_at <= $2
+         ),
+         absent AS (
+           SELECT a.address, MAX(s.fetched_at) AS fetched_at
+           FROM UNNEST($1::text[]) a(address)
+           CROSS JOIN snapshots s
+           WHERE NOT EXISTS (SELECT 1 FROM committee_members m WHERE m.snapshot_id = s.id AND m.address = a.address)
+           GROUP BY a.address
+         )
+         SELECT m.address, MIN(s.fetched_at) AS since
+         FROM snapshots s
+         JOIN committee_members m ON m.snapshot_id = s.id AND m.address = ANY($1)
+         LEFT JOIN absent ON absent.address = m.address
+         WHERE absent.fetched_at IS NULL OR s.fetched_at > absent.fetched_at
+         GROUP BY m.address`,
+        [addresses, at]
+      );
+      return new Map(result.rows.map(row => [row.address, row.since]));
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        throw new Error(`SnarkOS DB getCommitteeMemberSince error: ${error.message}`);
+      }
+      throw new Error('SnarkOS DB getCommitteeMemberSince error: An unknown error occurred');
+    }
+  }
+
+  private mapSnapshotRow(row: any): CommitteeSnapshot {
+    return {
+      id: row.id,
+      committee_id: row.committee_id,
+      starting_round: row.starting_round !== null ? Number(row.starting_round) : null,
+      block_height: Number(row.block_height),
+      total_stake: row.total_stake,
+      member_count: row.member_count,
+      fetched_at: row.fetched_at,
+    };
+  }
+
+  async testDatabaseOperations(): Promise<void> {
+    try {
+      // Adding test validator
+      const testValidator = {
+        address: 'test_address',
+        stake: BigInt(1000),
+        last_seen: new Date(),
+        total_blocks_produced: 0,
+        total_rewards: BigInt(0)
+      };
+      await this.updateValidator(testValidator.address, testValidator.stake);
+      logger.info('Test validator added successfully');
+
+      // Adding test block
+      const testBlock: Block = {
+        height: 999999,
+        hash: 'test_hash',
+        previous_hash: 'test_previous_hash',
+        timestamp: new Date().toISOString(),
+        transactions: [],
+        validator_address: 'test_address',
+        total_fees: BigInt(100),
+        certificates: [],
+        rewards: { block_reward: BigInt(0), puzzle_reward: BigInt(0), base_fees: BigInt(100), priority_fees: BigInt(0) },
+        transaction_summaries: []
+      };
+      await this.insertBlock(testBlock);
+      logger.info('Test block added successfully');
+
+      // Fetching added data
+      const result = await this.query('SELECT * FROM blocks WHERE height = $1', [999999]);
+      logger.info('Fetched test block:', result.rows[0]);
+
+      // Deleting test data
+      await this.query('DELETE FROM blocks WHERE height = $1', [999999]);
+      await this.query('DELETE FROM validators WHERE address = $1', ['test_address']);
+      logger.info('Test data deleted');
+    } catch (error) {
+      logger.error('Error during database test operations:', error);
     }
   }
 }
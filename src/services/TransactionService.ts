@@ -0,0 +1,20 @@
+import { TransactionFilter } from '../types/Transaction.js';
+import { TransactionDetail, TransactionRecord, TransactionRepository } from '../types/Repository.js';
+
+export class TransactionService {
+  constructor(private transactions: TransactionRepository) {}
+
+  async getTransaction(id: string): Promise<TransactionDetail | null> {
+    return this.transactions.getTransaction(id);
+  }
+
+  async getBlockTransactions(height: number): Promise<TransactionRecord[]> {
+    return this.transactions.getBlockTransactions(height);
+  }
+
+  async getTransactions(filter: Partial<TransactionFilter>): Promise<TransactionRecord[]> {
+    return this.transactions.getTransactions({ ...filter, limit: filter.limit ?? 100 });
+  }
+}
+
+export default TransactionService;
@@ -0,0 +1,92 @@
+import { config } from '../config/index.js';
+import { upstreamCacheRequestsTotal } from '../utils/metrics.js';
+import { UpstreamCacheCategory, UpstreamCacheCounters, UpstreamCacheStats } from '../types/Upstream.js';
+
+const CATEGORIES: UpstreamCacheCategory[] = ['block', 'transaction', 'committee', 'latest', 'mempool'];
+
+interface CacheEntry {
+  value: unknown;
+  // null: kept until evicted
+  expiresAt: number | null;
+}
+
+// Decides how long a loaded value may be cached: milliseconds, null for no expiry, or 0 to not cache it.
+export type CacheTtl<T> = (value: T) => number | null;
+
+// Read-through cache for upstream responses. Identical concurrent reads share one in-flight request,
+// and entries are evicted least recently used once `maxEntries` is reached. Failed loads are never cached.
+export class UpstreamCache {
+  private entries = new Map<string, CacheEntry>();
+  private inFlight = new Map<string, Promise<unknown>>();
+  private counters = Object.fromEntries(
+    CATEGORIES.map(category => [category, { hits: 0, misses: 0, coalesced: 0 }])
+  ) as Record<UpstreamCacheCategory, UpstreamCacheCounters>;
+  private evictions = 0;
+
+  constructor(private maxEntries: number = config.aleo.cache.maxEntries) {}
+
+  async get<T>(category: UpstreamCacheCategory, key: string, load: () => Promise<T>, ttl: CacheTtl<T>): Promise<T> {
+    const entry = this.entries.get(key);
+    if (entry && (entry.expiresAt === null || entry.expiresAt > Date.now())) {
+      // Re-insert to mark as most recently used
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+      this.count(category, 'hits');
+      return entry.value as T;
+    }
+    if (entry) this.entries.delete(key);
+
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      this.count(category, 'coalesced');
+      return pending as Promise<T>;
+    }
+
+    this.count(category, 'misses');
+    const request = load()
+      .then(value => {
+        const lifetime = ttl(value);
+        if (lifetime !== 0 && value !== null && value !== undefined) {
+          this.set(key, value, lifetime === null ? null : Date.now() + lifetime);
+        }
+        return value;
+      })
+      .finally(() => this.inFlight.delete(key));
+    this.inFlight.set(key, request);
+    return request;
+  }
+
+  // Drops the entry so that the next read loads it again
+  invalidate(key: string): void {
+    this.entries.delete(key);
+  }
+
+  private set(key: string, value: unknown, expiresAt: number | null): void {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt });
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+      this.evictions++;
+    }
+  }
+
+  private count(category: UpstreamCacheCategory, result: keyof UpstreamCacheCounters): void {
+    this.counters[category][result]++;
+    upstreamCacheRequestsTotal.inc({ category, result: result === 'hits' ? 'hit' : result === 'misses' ? 'miss' : 'coalesced' });
+  }
+
+  getStats(): UpstreamCacheStats {
+    return {
+      entries: this.entries.size,
+      max_entries: this.maxEntries,
+      evictions: this.evictions,
+      categories: Object.fromEntries(CATEGORIES.map(category => {
+        const { hits, misses, coalesced } = this.counters[category];
+        const total = hits + misses + coalesced;
+        return [category, { hits, misses, coalesced, hit_rate: total > 0 ? (hits + coalesced) / total : 0 }];
+      })) as UpstreamCacheStats['categories'],
+    };
+  }
+}
+
+export default UpstreamCache;
@@ -0,0 +1,272 @@
+import { AleoNetworkClient } from '@provablehq/sdk';
+import logger from '../utils/logger.js';
+import { config } from '../config/index.js';
+import { observeUpstream } from '../utils/metrics.js';
+import { RateLimiter, withTimeout } from '../utils/concurrency.js';
+import { UpstreamEndpoint, UpstreamOverview, UpstreamState, UpstreamStatus } from '../types/Upstream.js';
+
+// Outcomes kept per endpoint for the error rate
+const OUTCOME_WINDOW = 50;
+// Weight of the newest sample in the latency moving average
+const LATENCY_SMOOTHING = 0.3;
+// Assumed latency of an endpoint that has not answered yet, so it ranks behind measured ones
+const UNKNOWN_LATENCY_MS = 1000;
+
+interface EndpointHealth {
+  endpoint: UpstreamEndpoint;
+  client: AleoNetworkClient;
+  limiter: RateLimiter;
+  latencyMs: number | null;
+  outcomes: boolean[];
+  requests: number;
+  failures: number;
+  consecutiveFailures: number;
+  downUntil: number;
+  height: number | null;
+  heightCheckedAt: Date | null;
+  divergedAt: number | null;
+  lastError: string | null;
+  lastErrorAt: Date | null;
+}
+
+export interface UpstreamRequestOptions {
+  // Endpoints known to be below this height are only tried after the ones that have it
+  minHeight?: number;
+}
+
+// Routes SDK calls to the healthiest upstream endpoint and fails over to the next one on errors.
+// Endpoints are ranked by tier (own node, fallback, lagging, down/diverged) and, within a tier, by
+// score: the latency moving average inflated by the recent error rate. Lower is better.
+export class UpstreamPool {
+  private endpoints: EndpointHealth[];
+  private isChecking = false;
+
+  constructor(
+    endpoints: UpstreamEndpoint[],
+    createClient: (endpoint: UpstreamEndpoint) => AleoNetworkClient = endpoint => new AleoNetworkClient(endpoint.url)
+  ) {
+    if (endpoints.length === 0) {
+      throw new Error('At least one upstream endpoint is required');
+    }
+    this.endpoints = endpoints.map(endpoint => ({
+      endpoint,
+      client: createClient(endpoint),
+      limiter: new RateLimiter(config.aleo.upstream.maxRequestsPerSecond),
+      latencyMs: null,
+      outcomes: [],
+      requests: 0,
+      failures: 0,
+      consecutiveFailures: 0,
+      downUntil: 0,
+      height: null,
+      heightCheckedAt: null,
+      divergedAt: null,
+      lastError: null,
+      lastErrorAt: null,
+    }));
+  }
+
+  // SDK methods that resolve to an Error instead of rejecting are treated as failures too.
+  async request<T>(method: string, call: (client: AleoNetworkClient) => Promise<T | Error>, options: UpstreamRequestOptions = {}): Promise<T> {
+    let lastError: unknown = null;
+    for (const health of this.rank(options.minHeight)) {
+      try {
+        const result = await this.attempt(health, method, call);
+        if (lastError !== null) {
+          logger.info(`Upstream request ${method} succeeded on ${health.endpoint.name} after failover`);
+        }
+        return result;
+      } catch (error) {
+        lastError = error;
+        logger.warn(`Upstream ${health.endpoint.name} failed ${method}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+    throw lastError instanceof Error ? lastError : new Error(`All upstream endpoints failed ${method}`);
+  }
+
+  private async attempt<T>(health: EndpointHealth, method: string, call: (client: AleoNetworkClient) => Promise<T | Error>): Promise<T> {
+    await health.limiter.acquire();
+    const startedAt = Date.now();
+    try {
+      const result = await observeUpstream(method, () =>
+        withTimeout(call(health.client), config.aleo.upstream.requestTimeoutMs, `${method} timed out`)
+      );
+      if (result instanceof Error) throw result;
+      this.recordSuccess(health, Date.now() - startedAt);
+      // Every height answer doubles as a health sample, not only the periodic checks
+      if (method === 'getLatestHeight' && typeof result === 'number') {
+        health.height = result;
+        health.heightCheckedAt = new Date();
+      }
+      return result;
+    } catch (error) {
+      this.recordFailure(health, error);
+      throw error;
+    }
+  }
+
+  private recordSuccess(health: EndpointHealth, latencyMs: number): void {
+    health.requests++;
+    health.consecutiveFailures = 0;
+    health.downUntil = 0;
+    health.latencyMs = health.latencyMs === null
+      ? latencyMs
+      : health.latencyMs * (1 - LATENCY_SMOOTHING) + latencyMs * LATENCY_SMOOTHING;
+    this.pushOutcome(health, true);
+  }
+
+  private recordFailure(health: EndpointHealth, error: unknown): void {
+    health.requests++;
+    health.failures++;
+    health.consecutiveFailures++;
+    health.lastError = error instanceof Error ? error.message : String(error);
+    health.lastErrorAt = new Date();
+    this.pushOutcome(health, false);
+    if (health.consecutiveFailures >= config.aleo.upstream.failureThreshold && health.downUntil <= Date.now()) {
+      health.downUntil = Date.now() + config.aleo.upstream.cooldownSeconds * 1000;
+      logger.warn(`Upstream ${health.endpoint.name} marked down for ${config.aleo.upstream.cooldownSeconds}s after ${health.consecutiveFailures} consecutive failures`);
+    }
+  }
+
+  private pushOutcome(health: EndpointHealth, success: boolean): void {
+    health.outcomes.push(success);
+    if (health.outcomes.length > OUTCOME_WINDOW) health.outcomes.shift();
+  }
+
+  private errorRate(health: EndpointHealth): number {
+    if (health.outcomes.length === 0) return 0;
+    return health.outcomes.filter(success => !success).length / health.outcomes.length;
+  }
+
+  private score(health: EndpointHealth): number {
+    return Math.round((health.latencyMs ?? UNKNOWN_LATENCY_MS) * (1 + 10 * this.errorRate(health)));
+  }
+
+  private networkHeight(): number | null {
+    const heights = this.endpoints
+      .filter(health => health.height !== null && health.divergedAt === null)
+      .map(health => health.height!);
+    return heights.length > 0 ? Math.max(...heights) : null;
+  }
+
+  getNetworkHeight(): number | null {
+    return this.networkHeight();
+  }
+
+  private state(health: EndpointHealth, networkHeight: number | null): UpstreamState {
+    if (health.downUntil > Date.now()) return 'down';
+    if (health.divergedAt !== null) return 'diverged';
+    if (networkHeight !== null && health.height !== null && networkHeight - health.height > config.aleo.upstream.maxLagBlocks) {
+      return 'lagging';
+    }
+    return 'healthy';
+  }
+
+  private tier(health: EndpointHealth, networkHeight: number | null, minHeight?: number): number {
+    const state = this.state(health, networkHeight);
+    if (state === 'down' || state === 'diverged') return 3;
+    if (state === 'lagging' || (minHeight !== undefined && health.height !== null && health.height < minHeight)) return 2;
+    return health.endpoint.fallback ? 1 : 0;
+  }
+
+  // Every endpoint stays in the list so a request still has somewhere to go when all are unhealthy.
+  private rank(minHeight?: number): EndpointHealth[] {
+    const networkHeight = this.networkHeight();
+    return [...this.endpoints].sort((a, b) =>
+      this.tier(a, networkHeight, minHeight) - this.tier(b, networkHeight, minHeight) || this.score(a) - this.score(b)
+    );
+  }
+
+  // Refreshes every endpoint's height (which also lets down endpoints recover), then compares block
+  // hashes just below the lowest caught-up tip and flags endpoints that disagree with the majority.
+  async checkHealth(): Promise<void> {
+    if (this.isChecking) return;
+    this.isChecking = true;
+    try {
+      await Promise.all(this.endpoints.map(async health => {
+        try {
+          await this.attempt(health, 'getLatestHeight', client => client.getLatestHeight());
+        } catch (error) {
+          logger.debug(`Health check of upstream ${health.endpoint.name} failed:`, error);
+        }
+      }));
+      await this.checkHashAgreement();
+    } finally {
+      this.isChecking = false;
+    }
+  }
+
+  private async checkHashAgreement(): Promise<void> {
+    const networkHeight = Math.max(...this.endpoints.map(health => health.height ?? 0));
+    const comparable = this.endpoints.filter(health =>
+      health.downUntil <= Date.now() && health.height !== null && networkHeight - health.height <= config.aleo.upstream.maxLagBlocks
+    );
+    if (comparable.length < 2) return;
+
+    const height = Math.min(...comparable.map(health => health.height!)) - config.aleo.upstream.hashCheckDepth;
+    if (height < 0) return;
+
+    const hashes = new Map<EndpointHealth, string>();
+    await Promise.all(comparable.map(async health => {
+      try {
+        const block = await this.attempt(health, 'getBlock', client => client.getBlock(height));
+        if (block?.block_hash) hashes.set(health, block.block_hash);
+      } catch (error) {
+        logger.debug(`Could not fetch block ${height} from upstream ${health.endpoint.name} for hash comparison`);
+      }
+    }));
+    if (hashes.size < 2) return;
+
+    // Majority hash; ties go to the hash one of our own nodes reports
+    const votes = new Map<string, { count: number, ownNode: boolean }>();
+    for (const [health, hash] of hashes) {
+      const vote = votes.get(hash) ?? { count: 0, ownNode: false };
+      votes.set(hash, { count: vote.count + 1, ownNode: vote.ownNode || !health.endpoint.fallback });
+    }
+    const canonical = [...votes.entries()]
+      .sort(([, a], [, b]) => b.count - a.count || Number(b.ownNode) - Number(a.ownNode))[0][0];
+
+    for (const [health, hash] of hashes) {
+      if (hash !== canonical) {
+        if (health.divergedAt === null) {
+          logger.warn(`Upstream ${health.endpoint.name} disagrees on block ${height}: ${hash} (majority ${canonical})`);
+        }
+        health.divergedAt = height;
+      } else if (health.divergedAt !== null) {
+        logger.info(`Upstream ${health.endpoint.name} agrees with the majority again at block ${height}`);
+        health.divergedAt = null;
+      }
+    }
+  }
+
+  getStatus(): UpstreamOverview {
+    const networkHeight = this.networkHeight();
+    const ranked = this.rank();
+    return {
+      network_height: networkHeight,
+      selected: ranked[0].endpoint.name,
+      endpoints: this.endpoints.map((health): UpstreamStatus => ({
+        name: health.endpoint.name,
+        url: health.endpoint.url,
+        fallback: health.endpoint.fallback,
+        state: this.state(health, networkHeight),
+        selected: health === ranked[0],
+        score: this.score(health),
+        latency_ms: health.latencyMs !== null ? Math.round(health.latencyMs) : null,
+        error_rate: this.errorRate(health),
+        requests: health.requests,
+        failures: health.failures,
+        consecutive_failures: health.consecutiveFailures,
+        rate_limited: health.limiter.waits,
+        height: health.height,
+        lag_blocks: networkHeight !== null && health.height !== null ? networkHeight - health.height : null,
+        height_checked_at: health.heightCheckedAt?.toISOString() ?? null,
+        diverged_at_height: health.divergedAt,
+        last_error: health.lastError,
+        last_error_at: health.lastErrorAt?.toISOString() ?? null,
+      })),
+    };
+  }
+}
+
+export default UpstreamPool;
@@ -1,34 +1,67 @@
 import { AleoSDKService } from './AleoSDKService.js';
-import { SnarkOSDBService } from './SnarkOSDBService.js';
 import logger from '../utils/logger.js';
+import { config } from '../config/index.js';
+import { eventBus } from '../utils/eventBus.js';
+import { decodeCursor, encodeCursor, parseLimit } from '../utils/pagination.js';
+import { Page, SortOrder } from '../types/Pagination.js';
+import { ValidatorSort } from '../types/Validator.js';
+import { BlockRepository, CommitteeRepository, ValidatorRepository } from '../types/Repository.js';
+
+interface ValidatorCursor extends Record<string, unknown> {
+  sort: ValidatorSort;
+  order: SortOrder;
+  value: string | number;
+  address: string;
+}
+
+// Participation is a float; stake and blocks produced are integers, which bigint columns return as strings
+const isSortValue = (sort: ValidatorSort, value: unknown): boolean => {
+  if (sort === 'participation') return typeof value === 'number' && Number.isFinite(value);
+  return Number.isSafeInteger(value) || (typeof value === 'string' && /^-?\d+$/.test(value));
+};
 
 export class ValidatorService {
   constructor(
     private aleoSDKService: AleoSDKService,
-    public snarkOSDBService: SnarkOSDBService
+    private validators: ValidatorRepository,
+    private committees: CommitteeRepository,
+    private blocks: BlockRepository
   ) {}
 
   async updateValidators(): Promise<void> {
     try {
       const committee = await this.aleoSDKService.getLatestCommittee();
-      const dbValidators = await this.snarkOSDBService.getValidators();
+      const dbValidators = await this.validators.getValidators();
+
+      const blockHeight = await this.aleoSDKService.getLatestBlockHeight() ?? await this.blocks.getLatestBlockHeight();
+      await this.committees.insertCommitteeSnapshot(committee, blockHeight);
   
       for (const [address, data] of Object.entries(committee.members)) {
         const [stake, isActive, bonded] = data as [number, boolean, number];
-        const dbValidator = dbValidators.find((v: { address: string }) => v.address === address);
-  
-        if (dbValidator) {
-          await this.snarkOSDBService.executeQuery(
-            'UPDATE validators SET stake = $1, is_active = $2, bonded = $3, last_seen = NOW() WHERE address = $4',
-            [stake, isActive, bonded, address]
-          );
-        } else {
-          await this.snarkOSDBService.executeQuery(
-            'INSERT INTO validators (address, stake, is_active, bonded, last_seen) VALUES ($1, $2, $3, $4, NOW())',
-            [address, stake, isActive, bonded]
-          );
+        const dbValidator = dbValidators.find(v => v.address === address);
+        await this.validators.upsertValidator({ address, stake, is_active: isActive, bonded });
+
+        if (!dbValidator || String(dbValidator.stake) !== String(stake) || dbValidator.is_active !== isActive
+          || String(dbValidator.bonded) !== String(bonded)) {
+          eventBus.publish('validator.updated', {
+            address,
+            stake: String(stake),
+            is_active: isActive,
+            bonded: String(bonded),
+            previous_stake: dbValidator ? String(dbValidator.stake) : null,
+          }, [address]);
         }
       }
+
+      const members = new Set(Object.keys(committee.members));
+      const previousMembers = new Set(dbValidators.filter(v => v.is_active).map(v => v.address));
+      const joined = [...members].filter(address => !previousMembers.has(address));
+      const left = [...previousMembers].filter(address => !members.has(address));
+      if (joined.length > 0 || left.length > 0) {
+        eventBus.publish('committee.changed', { joined, left, size: members.size }, [...joined, ...left]);
+      }
+
+      await this.validators.deactivateValidatorsExcept(Object.keys(committee.members));
   
       logger.info(`${Object.keys(committee.members).length} validators successfully updated.`);
     } catch (error: unknown) {
@@ -40,27 +73,97 @@ export class ValidatorService {
     }
   }
 
-  async getValidatorPerformance(address: string): Promise<any> {
-    try {
-      const validator = await this.snarkOSDBService.executeQuery(
-        'SELECT * FROM validators WHERE address = $1',
-        [address]
-      );
-      if (validator.rows.length === 0) {
-        throw new Error('Validator not found');
+  // Returns a human-readable reason when the cursor does not fit the listing query, or null when it can be
+  // run. The route schema validates the parameters themselves.
+  validateListQuery(query: any): string | null {
+    if (query.cursor !== undefined) {
+      const cursor = decodeCursor<ValidatorCursor>(String(query.cursor));
+      if (!cursor || typeof cursor.address !== 'string') return 'cursor is invalid';
+      if (cursor.sort !== (query.sort ?? 'stake') || cursor.order !== (query.order ?? 'desc')) {
+        return 'cursor was issued for a different sort order';
+      }
+      if (!isSortValue(cursor.sort, cursor.value)) return 'cursor is invalid';
+    }
+    return null;
+  }
+
+  async listValidators(query: any): Promise<Page<any>> {
+    const sort: ValidatorSort = query.sort ?? 'stake';
+    const order: SortOrder = query.order ?? 'desc';
+    const limit = parseLimit(query.limit);
+    const cursor = query.cursor !== undefined ? decodeCursor<ValidatorCursor>(String(query.cursor)) : null;
+
+    const { rows, total } = await this.validators.listValidators({
+      sort,
+      order,
+      isActive: query.is_active !== undefined ? query.is_active === 'true' : undefined,
+      after: cursor ? { value: cursor.value, address: cursor.address } : undefined,
+      limit,
+      windowRounds: config.performance.windowRounds,
+    });
+
+    const items = rows.slice(0, limit);
+    const last = items[items.length - 1];
+    return {
+      items: items.map(({ sort_value, ...validator }) => validator),
+      nextCursor: rows.length > limit ? encodeCursor({ sort, order, value: last.sort_value, address: last.address }) : null,
+      total,
+    };
+  }
+
+  // Stake per committee snapshot plus the join/leave events derived from consecutive snapshots.
+  async getStakeHistory(address: string, from?: Date, to?: Date): Promise<{ address: string, points: any[], events: any[] }> {
+    const rows = await this.committees.getValidatorStakeHistory(address, from, to);
+    const points = rows
+      .filter(row => row.stake !== null)
+      .map(row => ({
+        block_height: Number(row.block_height),
+        committee_id: row.committee_id,
+        fetched_at: row.fetched_at,
+        stake: row.stake,
+        bonded: row.bonded,
+        is_active: row.is_active,
+      }));
+
+    const events: any[] = [];
+    for (let i = 1; i < rows.length; i++) {
+      const wasMember = rows[i - 1].stake !== null;
+      const isMember = rows[i].stake !== null;
+      if (wasMember !== isMember) {
+        events.push({
+          type: isMember ? 'joined' : 'left',
+          block_height: Number(rows[i].block_height),
+          fetched_at: rows[i].fetched_at,
+        });
       }
+    }
+    return { address, points, events };
+  }
+
+  // Null when the validator is unknown
+  async getValidatorPerformance(address: string, windowRounds: number = config.performance.windowRounds): Promise<any> {
+    try {
+      const validator = await this.validators.getValidator(address);
+      if (!validator) return null;
+
+      const participation = await this.blocks.getRoundParticipation(address, windowRounds);
+      const { roundsObserved, roundsParticipated } = participation;
 
-      const recentBlocks = await this.snarkOSDBService.getBlocksByValidator(address, 100);
-      
       const performance = {
-        blocksProduced: recentBlocks.length,
-        averageBlockTime: this.calculateAverageBlockTime(recentBlocks),
-        totalFees: this.calculateTotalFees(recentBlocks),
-        totalBlocksProduced: validator.rows[0].total_blocks_produced,
-        totalRewards: validator.rows[0].total_rewards
+        windowRounds,
+        fromRound: participation.fromRound,
+        toRound: participation.toRound,
+        roundsCovered: participation.fromRound !== null ? participation.toRound! - participation.fromRound + 1 : 0,
+        roundsObserved,
+        roundsParticipated,
+        missedRounds: roundsObserved - roundsParticipated,
+        participationRate: roundsObserved > 0 ? roundsParticipated / roundsObserved : 0,
+        signatureRate: participation.signatureRate,
+        totalBlocksProduced: validator.total_blocks_produced,
+        totalRewards: validator.total_rewards
       };
 
-      return { validator: validator.rows[0], performance };
+      return { validator, performance };
     } catch (error: unknown) {
       if (error instanceof Error) {
         throw new Error(`Validator performance calculation error: ${error.message}`);
@@ -69,18 +172,6 @@ export class ValidatorService {
       }
     }
   }
-
-  private calculateAverageBlockTime(blocks: any[]): number {
-    if (blocks.length < 2) return 0;
-    const timeDiffs = blocks.slice(1).map((block, index) => 
-      new Date(block.timestamp).getTime() - new Date(blocks[index].timestamp).getTime()
-    );
-    return timeDiffs.reduce((sum, diff) => sum + diff, 0) / timeDiffs.length;
-  }
-
-  private calculateTotalFees(blocks: any[]): bigint {
-    return blocks.reduce((sum, block) => sum + BigInt(block.total_fees), BigInt(0));
-  }
 }
 
 export default ValidatorService;
@@ -0,0 +1,103 @@
+import { NotificationService } from './NotificationService.js';
+import { config } from '../config/index.js';
+import { isAleoAddress } from '../utils/validation.js';
+import { ALERT_RULE_TYPES } from '../types/Alert.js';
+import { WatchlistEntry, WatchlistItem, WatchlistSubscription } from '../types/Watchlist.js';
+import { AlertRepository, BlockRepository, WatchlistRepository } from '../types/Repository.js';
+
+const RECENT_ALERTS_PER_VALIDATOR = 5;
+
+export class WatchlistService {
+  constructor(
+    private watchlists: WatchlistRepository,
+    private alerts: AlertRepository,
+    private blocks: BlockRepository,
+    private notificationService: NotificationService
+  ) {}
+
+  async getWatchlist(userId: number): Promise<{ summary: Record<string, any>, validators: WatchlistItem[] }> {
+    const entries = await this.watchlists.getWatchlist(userId);
+    const addresses = entries.map(entry => entry.address);
+    const alerts = entries.length > 0
+      ? await this.alerts.getRecentAlertsBySubject(addresses, RECENT_ALERTS_PER_VALIDATOR)
+      : [];
+    const participationByAddress = await this.blocks.getRoundParticipationByAddress(addresses, config.performance.windowRounds);
+
+    const validators: WatchlistItem[] = [];
+    for (const entry of entries) {
+      const participation = participationByAddress.get(entry.address)!;
+      validators.push({
+        address: entry.address,
+        label: entry.label,
+        created_at: entry.created_at,
+        stake: entry.stake,
+        bonded: entry.bonded,
+        is_active: entry.is_active,
+        participation: {
+          roundsObserved: participation.roundsObserved,
+          roundsParticipated: participation.roundsParticipated,
+          participationRate: participation.roundsObserved > 0 ? participation.roundsParticipated / participation.roundsObserved : 0,
+          signatureRate: participation.signatureRate,
+        },
+        recentAlerts: alerts.filter(alert => alert.subject === entry.address),
+      });
+    }
+
+    const summary = {
+      validators: validators.length,
+      active: validators.filter(v => v.is_active).length,
+      totalStake: validators.reduce((sum, v) => sum + BigInt(v.stake ?? 0), BigInt(0)).toString(),
+      firingAlerts: alerts.filter(alert => alert.status === 'firing').length,
+    };
+    return { summary, validators };
+  }
+
+  // Returns a human-readable reason when the entry is invalid, or null when it can be stored.
+  validateEntry(address: string, input: any): string | null {
+    if (!isAleoAddress(address)) return 'address must be a valid Aleo address';
+    if (input?.label !== undefined && input.label !== null && typeof input.label !== 'string') return 'label must be a string';
+    return null;
+  }
+
+  async addEntry(userId: number, address: string, label: string | null = null): Promise<WatchlistEntry> {
+    return this.watchlists.upsertWatchlistEntry(userId, address, label);
+  }
+
+  async removeEntry(userId: number, address: string): Promise<boolean> {
+    return this.watchlists.deleteWatchlistEntry(userId, address);
+  }
+
+  async getSubscriptions(userId: number): Promise<WatchlistSubscription[]> {
+    return this.watchlists.getWatchlistSubscriptions(userId);
+  }
+
+  // Subscriptions may only deliver to the user's own channels.
+  async validateSubscription(userId: number, input: any): Promise<string | null> {
+    if (!input || !Number.isInteger(input.channel_id)) return 'channel_id is required';
+    const channel = await this.notificationService.getChannel(input.channel_id);
+    if (!channel || channel.owner_id !== userId) return 'channel_id must reference one of your channels';
+    if (input.rule_types !== undefined && (!Array.isArray(input.rule_types)
+      || !input.rule_types.every((type: any) => ALERT_RULE_TYPES.includes(type)))) {
+      return `rule_types must be a list of: ${ALERT_RULE_TYPES.join(', ')}`;
+    }
+    if (input.include_resolved !== undefined && typeof input.include_resolved !== 'boolean') {
+      return 'include_resolved must be a boolean';
+    }
+    return null;
+  }
+
+  async createSubscription(userId: number, input: any): Promise<WatchlistSubscription> {
+    return this.watchlists.createWatchlistSubscription(
+      userId,
+      input.channel_id,
+      input.rule_types ?? [],
+      input.include_resolved ?? true
+    );
+  }
+
+  async deleteSubscription(userId: number, id: number): Promise<boolean> {
+    return this.watchlists.deleteWatchlistSubscription(userId, id);
+  }
+}
+
+export default WatchlistService;
@@ -0,0 +1,49 @@
+export type AlertRuleType =
+  | 'validator_participation'
+  | 'committee_dropout'
+  | 'stake_change'
+  | 'block_stall'
+  | 'sync_lag';
+
+export const ALERT_RULE_TYPES: AlertRuleType[] = [
+  'validator_participation',
+  'committee_dropout',
+  'stake_change',
+  'block_stall',
+  'sync_lag',
+];
+
+export interface AlertRule {
+  id: number;
+  name: string;
+  type: AlertRuleType;
+  params: Record<string, any>;
+  enabled: boolean;
+  cooldown_seconds: number;
+  channel_ids: number[];
+  created_at: Date;
+  updated_at: Date;
+}
+
+export type AlertRuleInput = Pick<AlertRule, 'name' | 'type' | 'params'> &
+  Partial<Pick<AlertRule, 'enabled' | 'cooldown_seconds' | 'channel_ids'>>;
+
+export type AlertStatus = 'firing' | 'resolved';
+
+export interface Alert {
+  id: number;
+  rule_id: number;
+  subject: string;
+  status: AlertStatus;
+  message: string;
+  value: number | null;
+  fired_at: Date;
+  resolved_at: Date | null;
+}
+
+// A subject (validator address or 'network') that currently breaches a rule.
+export interface AlertCondition {
+  subject: string;
+  value: number;
+  message: string;
+}
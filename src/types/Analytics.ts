@@ -0,0 +1,25 @@
+export type AnalyticsBucket = 'hour' | 'day';
+
+export const ANALYTICS_BUCKETS: AnalyticsBucket[] = ['hour', 'day'];
+
+export interface ProgramUsage {
+  program_id: string;
+  calls: number;
+  transactions: number;
+  unique_callers: number;
+  fees: string;
+  block_space_share: number;
+}
+
+export interface ProgramUsageBucket extends Omit<ProgramUsage, 'program_id'> {
+  bucket: Date;
+  function_name?: string;
+}
+
+export interface ProgramDeployment {
+  program_id: string;
+  transaction_id: string;
+  block_height: number;
+  timestamp: number | null;
+  deployer: string | null;
+}
@@ -0,0 +1,38 @@
+export type Role = 'viewer' | 'operator' | 'admin';
+
+// Ordered from least to most privileged; a role grants everything the roles before it grant.
+export const ROLES: Role[] = ['viewer', 'operator', 'admin'];
+
+export interface AuthPrincipal {
+  userId: number;
+  username: string;
+  role: Role;
+  method: 'jwt' | 'api_key';
+}
+
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken: string;
+  expiresIn: string;
+}
+
+export interface PublicUser {
+  id: number;
+  username: string;
+  email: string;
+  role: Role;
+  disabled: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface PublicApiKey {
+  id: number;
+  name: string;
+  prefix: string;
+  scope: Role;
+  last_used_at: Date | null;
+  expires_at: Date | null;
+  revoked_at: Date | null;
+  createdAt: Date;
+}
@@ -1,3 +1,6 @@
+import { TransactionSummary } from './Transaction.js';
+import { SortOrder } from './Pagination.js';
+
 export interface Block {
   height: number | undefined;
   hash: string | undefined;
@@ -6,6 +9,55 @@ export interface Block {
   transactions: any[];
   validator_address: string | undefined;
   total_fees: bigint | undefined;
+  certificates: BatchCertificate[];
+  rewards: BlockRewards;
+  transaction_summaries: TransactionSummary[];
+  // Filled in by RewardService during sync, before the block is persisted
+  validator_rewards?: ValidatorReward[];
+}
+
+// Amounts in microcredits. The block_reward ratification already includes the fees burned by
+// the block's transactions; base_fees and priority_fees are kept separately for reporting.
+export interface BlockRewards {
+  block_reward: bigint;
+  puzzle_reward: bigint;
+  base_fees: bigint;
+  priority_fees: bigint;
+}
+
+export interface ValidatorReward {
+  address: string;
+  stake: bigint;
+  stake_share: number;
+  commission_rate: number;
+  gross_reward: bigint;
+  commission_reward: bigint;
+  delegator_reward: bigint;
+}
+
+export interface BlockListFilter {
+  fromHeight?: number;
+  toHeight?: number;
+  from?: Date;
+  to?: Date;
+  validator?: string;
+  minTransactions?: number;
+  order: SortOrder;
+  // Keyset position: the height of the last block on the previous page
+  afterHeight?: number;
+  limit: number;
+}
+
+export interface BatchCertificate {
+  round: number;
+  author: string;
+  batch_id: string;
+  committee_id: string | undefined;
+  timestamp: number | undefined;
+  transmission_count: number;
+  signatures: string[];
+  // Addresses recovered from `signatures`; set by the block sync before the certificate is stored
+  signers?: string[];
 }
 
 export interface APIBlock {
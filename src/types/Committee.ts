@@ -0,0 +1,41 @@
+import { SortOrder } from './Pagination.js';
+
+export interface CommitteeSnapshot {
+  id: number;
+  committee_id: string | null;
+  starting_round: number | null;
+  block_height: number;
+  total_stake: string | null;
+  member_count: number;
+  fetched_at: Date;
+}
+
+// Snapshots are appended as they are taken, so ids follow fetched_at and serve as the keyset.
+export interface CommitteeSnapshotFilter {
+  from?: Date;
+  to?: Date;
+  order: SortOrder;
+  // Keyset position: the id of the last snapshot on the previous page
+  afterId?: number;
+  limit: number;
+}
+
+export interface CommitteeMember {
+  address: string;
+  stake: string;
+  is_active: boolean | null;
+  bonded: string | null;
+}
+
+export interface StakeChange {
+  address: string;
+  from: string;
+  to: string;
+  delta: string;
+}
+
+export interface CommitteeDiff {
+  joined: string[];
+  left: string[];
+  stakeChanges: StakeChange[];
+}
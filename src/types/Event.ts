@@ -0,0 +1,30 @@
+export type StreamEventType =
+  | 'block.new'
+  | 'committee.changed'
+  | 'validator.updated'
+  | 'alert.firing'
+  | 'alert.resolved'
+  | 'sync.progress';
+
+export const STREAM_EVENT_TYPES: StreamEventType[] = [
+  'block.new',
+  'committee.changed',
+  'validator.updated',
+  'alert.firing',
+  'alert.resolved',
+  'sync.progress',
+];
+
+export interface StreamEvent {
+  id: number;
+  type: StreamEventType;
+  timestamp: string;
+  // Validator addresses the event concerns; empty for network-wide events, which every subscriber receives.
+  addresses: string[];
+  data: Record<string, any>;
+}
+
+export interface StreamSubscription {
+  types: Set<StreamEventType> | null;
+  addresses: Set<string> | null;
+}
@@ -0,0 +1,36 @@
+export interface MempoolSnapshot {
+  id: number;
+  taken_at: Date;
+  size: number;
+  new_count: number;
+}
+
+export interface MempoolTransaction {
+  id: string;
+  first_seen_at: Date;
+  last_seen_at: Date;
+  included_height: number | null;
+  included_at: Date | null;
+  dropped_at: Date | null;
+}
+
+export interface InclusionLatency {
+  count: number;
+  p50: number | null;
+  p90: number | null;
+  p99: number | null;
+  average: number | null;
+}
+
+export interface MempoolStats {
+  from: string;
+  to: string;
+  current_size: number | null;
+  average_size: number | null;
+  max_size: number | null;
+  seen: number;
+  included: number;
+  pending: number;
+  dropped: number;
+  inclusion_latency_seconds: InclusionLatency;
+}
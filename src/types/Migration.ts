@@ -0,0 +1,24 @@
+// A schema change shipped with the code. `up` and `down` run inside one transaction together with
+// the schema_migrations bookkeeping, so a failed migration leaves nothing half-applied.
+export interface Migration {
+  version: number;
+  name: string;
+  up: string;
+  down: string;
+}
+
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  checksum: string;
+  applied_at: Date;
+}
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  applied: boolean;
+  applied_at: Date | null;
+  // The migration's SQL changed after it was applied
+  modified: boolean;
+}
@@ -0,0 +1,40 @@
+export type NetworkWindow = '1h' | '24h' | '7d';
+
+export const NETWORK_WINDOWS: Record<NetworkWindow, number> = {
+  '1h': 60 * 60,
+  '24h': 24 * 60 * 60,
+  '7d': 7 * 24 * 60 * 60,
+};
+
+export type NetworkSeriesBucket = 'minute' | 'hour' | 'day';
+
+export const NETWORK_SERIES_BUCKETS: Record<NetworkSeriesBucket, number> = {
+  minute: 60,
+  hour: 60 * 60,
+  day: 24 * 60 * 60,
+};
+
+export interface BlockIntervalStats {
+  p50: number | null;
+  p95: number | null;
+  max: number | null;
+  average: number | null;
+}
+
+export interface NetworkStats {
+  blocks: number;
+  from_height: number | null;
+  to_height: number | null;
+  transactions: number;
+  transactions_per_second: number;
+  block_interval_seconds: BlockIntervalStats;
+  rounds_per_block: number | null;
+  committee_size: number | null;
+  total_stake: string | null;
+  // Average over the rounds in range of the stake share held by that round's certificate authors
+  stake_participation: number | null;
+}
+
+export interface NetworkStatsPoint extends NetworkStats {
+  bucket: Date;
+}
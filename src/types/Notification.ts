@@ -0,0 +1,45 @@
+export type NotificationChannelType = 'webhook' | 'slack' | 'discord' | 'telegram' | 'email';
+
+export const NOTIFICATION_CHANNEL_TYPES: NotificationChannelType[] = ['webhook', 'slack', 'discord', 'telegram', 'email'];
+
+export interface NotificationChannel {
+  id: number;
+  name: string;
+  type: NotificationChannelType;
+  config: Record<string, any>;
+  template: string | null;
+  enabled: boolean;
+  // Set for personal channels created through /api/me/channels; null for shared channels
+  owner_id: number | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export type NotificationChannelInput = Pick<NotificationChannel, 'name' | 'type' | 'config'> &
+  Partial<Pick<NotificationChannel, 'template' | 'enabled'>>;
+
+export type NotificationEvent = 'firing' | 'resolved' | 'test';
+
+// Values available to message templates as {{placeholder}}.
+export interface NotificationMessage {
+  event: NotificationEvent;
+  rule: string;
+  subject: string;
+  message: string;
+  value: string;
+  time: string;
+  alertId: number | null;
+}
+
+export interface NotificationDelivery {
+  id: number;
+  channel_id: number;
+  alert_id: number | null;
+  event: NotificationEvent;
+  status: 'delivered' | 'failed';
+  attempts: number;
+  last_error: string | null;
+  payload: string;
+  created_at: Date;
+  delivered_at: Date | null;
+}
@@ -0,0 +1,9 @@
+// Response envelope shared by paginated listings. `nextCursor` is opaque to clients and null on the
+// last page; `total` counts every row matching the filters, independent of the cursor.
+export interface Page<T> {
+  items: T[];
+  nextCursor: string | null;
+  total: number;
+}
+
+export type SortOrder = 'asc' | 'desc';
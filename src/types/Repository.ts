@@ -0,0 +1,377 @@
+import { Block, BlockListFilter } from './Block.js';
+import { Reorg } from './Sync.js';
+import { ValidatorListFilter } from './Validator.js';
+import { TransactionFilter, TransactionType, TransactionStatus } from './Transaction.js';
+import { CommitteeMember, CommitteeSnapshot, CommitteeSnapshotFilter } from './Committee.js';
+import { Alert, AlertRule, AlertRuleInput, AlertRuleType, AlertStatus } from './Alert.js';
+import { AnalyticsBucket, ProgramDeployment } from './Analytics.js';
+import { InclusionLatency, MempoolSnapshot, MempoolTransaction } from './Mempool.js';
+import { NetworkSeriesBucket } from './Network.js';
+import { NotificationChannel, NotificationChannelInput, NotificationDelivery, NotificationEvent } from './Notification.js';
+import { WatchlistEntry, WatchlistSubscription } from './Watchlist.js';
+
+// Records have the shape the Postgres driver returns rows in: BIGINT and NUMERIC columns arrive as
+// strings. Every repository implementation returns the same shapes so API output does not depend on it.
+
+export interface BlockRecord {
+  height: string;
+  hash: string;
+  previous_hash: string | null;
+  // Unix seconds
+  timestamp: string;
+  transactions_count: number;
+  validator_address: string | null;
+  total_fees: string | null;
+  block_reward: string | null;
+  puzzle_reward: string | null;
+  priority_fees: string | null;
+}
+
+export interface ValidatorRecord {
+  address: string;
+  stake: string | null;
+  is_active: boolean | null;
+  bonded: string | null;
+  previous_stake: string | null;
+  last_seen: Date | null;
+  total_blocks_produced: number;
+  total_rewards: string;
+}
+
+export interface ValidatorListRow extends ValidatorRecord {
+  participation: number;
+  sort_value: string | number;
+}
+
+// A committee member as reported by the latest committee
+export interface ValidatorState {
+  address: string;
+  stake: number | string;
+  is_active: boolean;
+  bonded: number | string;
+}
+
+export interface RoundParticipation {
+  // The oldest round the window covers: later than requested when older certificates were pruned
+  fromRound: number | null;
+  toRound: number | null;
+  roundsObserved: number;
+  roundsParticipated: number;
+  // Null when none of the other authors' certificates in those rounds had their signers recorded
+  signatureRate: number | null;
+}
+
+export interface ValidatorRewardRow {
+  // YYYY-MM-DD for day buckets, the epoch number for epoch buckets
+  bucket: string;
+  from_height: string;
+  to_height: string;
+  blocks: string;
+  gross_reward: string;
+  commission_reward: string;
+  delegator_reward: string;
+  average_stake_share: number;
+}
+
+// One row per committee snapshot; member columns are null when the validator was not in that committee
+export interface StakeHistoryRow {
+  snapshot_id: number;
+  committee_id: string | null;
+  block_height: string;
+  fetched_at: Date;
+  stake: string | null;
+  is_active: boolean | null;
+  bonded: string | null;
+}
+
+// Per-validator aggregate of one UTC hour or day. Signing is measured in the rounds the validator
+// certified: the other authors' certificates it signed against those certificates, counting only
+// certificates whose signers were recorded.
+export interface ValidatorRollupRecord {
+  bucket: Date;
+  address: string;
+  blocks_authored: number;
+  rounds_observed: number;
+  rounds_participated: number;
+  signatures_given: string;
+  signatures_expected: string;
+  gross_reward: string;
+  commission_reward: string;
+  delegator_reward: string;
+  // Stake at the bucket's last rewarded block; null when no reward was attributed in the bucket
+  stake: string | null;
+}
+
+// Sums of a validator's rollups over a range, with the latest stake in it
+export interface ValidatorRollupTotals {
+  address: string;
+  blocks_authored: string;
+  rounds_participated: string;
+  signatures_given: string;
+  signatures_expected: string;
+  gross_reward: string;
+  commission_reward: string;
+  delegator_reward: string;
+  stake: string | null;
+}
+
+// Rows removed by a retention run
+export interface PrunedRows {
+  blocks: number;
+  committee_snapshots: number;
+  mempool_snapshots: number;
+  mempool_transactions: number;
+}
+
+export interface TransactionRecord {
+  id: string;
+  block_height: string;
+  position: number;
+  type: TransactionType;
+  status: TransactionStatus;
+  base_fee: string;
+  priority_fee: string;
+  fee: string;
+  program_ids: string[];
+  function_names: string[];
+  transition_count: number;
+  timestamp: string | null;
+  fee_payer: string | null;
+  deployed_program: string | null;
+}
+
+export interface TransactionDetail extends TransactionRecord {
+  transitions: { id: string, program_id: string, function_name: string, is_fee: boolean }[];
+}
+
+export interface ProgramUsageFilter {
+  // Unix seconds, inclusive
+  from: number;
+  to: number;
+  programId?: string;
+  bucket?: AnalyticsBucket;
+  byFunction?: boolean;
+  limit?: number;
+}
+
+// Calls of one program (or one of its functions) in one bucket, fee transitions excluded.
+// function_name is null unless grouped by function, bucket is null unless bucketed.
+export interface ProgramUsageRow {
+  program_id: string;
+  function_name: string | null;
+  bucket: Date | null;
+  calls: string;
+  transactions: string;
+  unique_callers: string;
+  fees: string;
+  // Transactions calling the program over all transactions in the bucket
+  block_space_share: number | null;
+}
+
+// Block figures over a time range or one bucket of it. Intervals are seconds between consecutive
+// blocks in the range; committee figures come from the latest snapshot at `to_height`.
+export interface NetworkStatsRow {
+  bucket: Date | null;
+  blocks: string;
+  from_height: string;
+  to_height: string;
+  transactions: string;
+  interval_p50: number | null;
+  interval_p95: number | null;
+  interval_max: string | null;
+  interval_average: string | null;
+  rounds_per_block: string | null;
+  committee_size: number | null;
+  total_stake: string | null;
+  stake_participation: number | null;
+}
+
+export interface MempoolReconciliation {
+  included: number;
+  reverted: number;
+  dropped: number;
+}
+
+// Transactions first seen in a range, and the mempool size sampled in it
+export interface MempoolStatsRecord {
+  seen: number;
+  included: number;
+  pending: number;
+  dropped: number;
+  latency: InclusionLatency;
+  // `current` is the latest sample whether or not it falls in the range
+  size: { current: number | null, average: number | null, max: number | null };
+}
+
+export interface NotificationDeliveryInput {
+  channelId: number;
+  alertId: number | null;
+  event: NotificationEvent;
+  delivered: boolean;
+  attempts: number;
+  lastError: string | null;
+  payload: string;
+}
+
+// A watched address with the validator's current state, null when it is not a known validator
+export interface WatchlistRow extends WatchlistEntry {
+  stake: string | null;
+  bonded: string | null;
+  is_active: boolean | null;
+}
+
+export interface RecentAlertRow extends Alert {
+  rule_name: string;
+  rule_type: AlertRuleType;
+  // 1 for the subject's newest alert
+  position: string;
+}
+
+export interface BlockRepository {
+  // Persists the blocks with their certificates, transactions and rewards, updates the producing
+  // validators' counters and advances the named checkpoint, atomically.
+  saveBlocks(blocks: Block[], checkpointName?: string): Promise<void>;
+  // Removes every block above the ancestor, reverses their counters, rewinds the checkpoint and records the reorg.
+  rollbackToHeight(ancestorHeight: number, newHashes: string[], checkpointName?: string): Promise<Reorg>;
+  getBlockHash(height: number): Promise<string | null>;
+  getLatestBlockHeight(): Promise<number>;
+  getLatestBlockTimestamp(): Promise<number | null>;
+  getLatestRound(): Promise<number | null>;
+  // Returns up to `limit + 1` rows so the caller can tell whether another page follows.
+  listBlocks(filter: BlockListFilter): Promise<{ rows: BlockRecord[], total: number }>;
+  getReorgs(limit: number): Promise<Reorg[]>;
+  getRoundParticipation(address: string, windowRounds: number): Promise<RoundParticipation>;
+  // The same figures for many validators at once, keyed by address
+  getRoundParticipationByAddress(addresses: string[], windowRounds: number): Promise<Map<string, RoundParticipation>>;
+}
+
+export interface ValidatorRepository {
+  getValidators(): Promise<ValidatorRecord[]>;
+  getValidator(address: string): Promise<ValidatorRecord | null>;
+  // Returns up to `limit + 1` rows so the caller can tell whether another page follows.
+  listValidators(filter: ValidatorListFilter): Promise<{ rows: ValidatorListRow[], total: number }>;
+  // Inserts a new validator, or moves the stored stake to previous_stake and applies the new state.
+  upsertValidator(state: ValidatorState): Promise<void>;
+  // Validators that left the committee keep their row but are no longer active
+  deactivateValidatorsExcept(addresses: string[]): Promise<void>;
+  getValidatorRewards(address: string, granularity: 'day' | 'epoch', epochBlocks: number, from?: Date, to?: Date): Promise<ValidatorRewardRow[]>;
+}
+
+export interface TransactionRepository {
+  getTransaction(id: string): Promise<TransactionDetail | null>;
+  getBlockTransactions(height: number): Promise<TransactionRecord[]>;
+  getTransactions(filter: TransactionFilter): Promise<TransactionRecord[]>;
+}
+
+export interface CommitteeRepository {
+  insertCommitteeSnapshot(committee: any, blockHeight: number): Promise<CommitteeSnapshot>;
+  listCommitteeSnapshots(filter: CommitteeSnapshotFilter): Promise<{ rows: CommitteeSnapshot[], total: number }>;
+  getCommitteeSnapshotAtHeight(height: number): Promise<CommitteeSnapshot | null>;
+  getPreviousCommitteeSnapshot(snapshotId: number): Promise<CommitteeSnapshot | null>;
+  getCommitteeMembers(snapshotIds: number[]): Promise<Map<number, CommitteeMember[]>>;
+  getValidatorStakeHistory(address: string, from?: Date, to?: Date): Promise<StakeHistoryRow[]>;
+  // When each address joined the committee for the membership still running at `at`, from the snapshots
+  // fetched up to then; addresses that are not members of the latest of those snapshots are left out
+  getCommitteeMemberSince(addresses: string[], at: Date): Promise<Map<string, Date>>;
+}
+
+export interface CheckpointRepository {
+  getSyncCheckpoint(name?: string): Promise<number | null>;
+  setSyncCheckpoint(name: string, height: number): Promise<void>;
+}
+
+export interface AlertRepository {
+  getAlertRules(enabledOnly?: boolean): Promise<AlertRule[]>;
+  getAlertRule(id: number): Promise<AlertRule | null>;
+  createAlertRule(rule: AlertRuleInput): Promise<AlertRule>;
+  updateAlertRule(id: number, rule: AlertRuleInput): Promise<AlertRule | null>;
+  deleteAlertRule(id: number): Promise<boolean>;
+  getFiringAlerts(ruleId: number): Promise<Alert[]>;
+  getLastResolvedAt(ruleId: number, subject: string): Promise<Date | null>;
+  insertAlert(ruleId: number, subject: string, message: string, value: number): Promise<Alert>;
+  resolveAlert(id: number): Promise<Alert>;
+  getAlerts(filter: { status?: AlertStatus, ruleId?: number, limit: number }): Promise<Alert[]>;
+  // The `limit` most recent alerts for each of the given subjects, newest first
+  getRecentAlertsBySubject(subjects: string[], limit: number): Promise<RecentAlertRow[]>;
+}
+
+export interface NotificationRepository {
+  // The given channels, or every shared channel when no ids are given
+  getNotificationChannels(ids?: number[]): Promise<NotificationChannel[]>;
+  getNotificationChannel(id: number): Promise<NotificationChannel | null>;
+  getNotificationChannelsByOwner(ownerId: number): Promise<NotificationChannel[]>;
+  createNotificationChannel(channel: NotificationChannelInput, ownerId?: number | null): Promise<NotificationChannel>;
+  updateNotificationChannel(id: number, channel: NotificationChannelInput): Promise<NotificationChannel | null>;
+  // Also removes the channel's deliveries and the watchlist subscriptions delivering to it
+  deleteNotificationChannel(id: number): Promise<boolean>;
+  // Enabled channels of users who watch `subject` and subscribed to this rule type and alert status
+  getSubscribedChannels(subject: string, ruleType: string, status: AlertStatus): Promise<NotificationChannel[]>;
+  insertNotificationDelivery(delivery: NotificationDeliveryInput): Promise<NotificationDelivery>;
+  // `sharedOnly` leaves out the deliveries of personal channels
+  getNotificationDeliveries(filter: { channelId?: number, sharedOnly?: boolean, limit: number }): Promise<NotificationDelivery[]>;
+}
+
+export interface WatchlistRepository {
+  getWatchlist(userId: number): Promise<WatchlistRow[]>;
+  // Adds the address, or updates the label of an address already on the list
+  upsertWatchlistEntry(userId: number, address: string, label: string | null): Promise<WatchlistEntry>;
+  deleteWatchlistEntry(userId: number, address: string): Promise<boolean>;
+  getWatchlistSubscriptions(userId: number): Promise<WatchlistSubscription[]>;
+  createWatchlistSubscription(userId: number, channelId: number, ruleTypes: string[], includeResolved: boolean): Promise<WatchlistSubscription>;
+  deleteWatchlistSubscription(userId: number, id: number): Promise<boolean>;
+}
+
+export interface AnalyticsRepository {
+  // Ordered by bucket, then calls, busiest first
+  getProgramUsage(filter: ProgramUsageFilter): Promise<ProgramUsageRow[]>;
+  // Accepted deployments, newest first; `from` and `to` are unix seconds
+  getProgramDeployments(filter: { programId?: string, from?: number, to?: number, limit: number }): Promise<ProgramDeployment[]>;
+}
+
+export interface NetworkRepository {
+  // One row for the blocks with a timestamp in [from, to] (unix seconds), or one per bucket when
+  // bucketed; no rows when there are no such blocks.
+  getNetworkStats(from: number, to: number, bucket?: NetworkSeriesBucket): Promise<NetworkStatsRow[]>;
+}
+
+export interface MempoolRepository {
+  // Records the ids currently in the mempool, keeping the first-seen time of ids already known
+  recordMempoolSample(ids: string[]): Promise<MempoolSnapshot>;
+  // Matches seen transactions against stored blocks. Inclusions within `recheckDepth` of the tip are
+  // re-verified, and transactions that left the mempool more than `droppedAfterSeconds` ago without
+  // being included are marked dropped.
+  reconcileMempool(droppedAfterSeconds: number, recheckDepth: number): Promise<MempoolReconciliation>;
+  getMempoolStats(from: Date, to: Date): Promise<MempoolStatsRecord>;
+  // The latest `limit` samples in the range, oldest first
+  getMempoolSnapshots(from: Date, to: Date, limit: number): Promise<MempoolSnapshot[]>;
+  getDroppedMempoolTransactions(from: Date, to: Date, limit: number): Promise<MempoolTransaction[]>;
+}
+
+export interface RollupRepository {
+  // Recomputes the hourly rollups from the hour of the block at `fromHeight` onwards and the daily
+  // rollups of the affected days from those, replacing what was stored. Returns the hourly rows written.
+  rebuildRollups(fromHeight: number): Promise<number>;
+  getValidatorRollups(address: string, granularity: 'hour' | 'day', from?: Date, to?: Date): Promise<ValidatorRollupRecord[]>;
+  // Totals of every validator with rollups whose bucket starts in [from, to), and the number of rounds
+  // observed in those buckets
+  getRollupTotals(granularity: 'hour' | 'day', from: Date, to: Date): Promise<{ roundsObserved: number, validators: ValidatorRollupTotals[] }>;
+  // Deletes blocks (with their certificates, transactions and rewards) older than `before` and below
+  // `belowHeight`, and older committee and mempool history. The latest committee snapshot is kept.
+  pruneRawData(before: Date, belowHeight: number): Promise<PrunedRows>;
+  pruneRollups(granularity: 'hour' | 'day', before: Date): Promise<number>;
+}
+
+export interface Repositories {
+  blocks: BlockRepository;
+  validators: ValidatorRepository;
+  transactions: TransactionRepository;
+  committees: CommitteeRepository;
+  checkpoints: CheckpointRepository;
+  alerts: AlertRepository;
+  rollups: RollupRepository;
+  notifications: NotificationRepository;
+  watchlists: WatchlistRepository;
+  analytics: AnalyticsRepository;
+  network: NetworkRepository;
+  mempool: MempoolRepository;
+}
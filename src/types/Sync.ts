@@ -0,0 +1,18 @@
+export interface SyncStatus {
+  running: boolean;
+  currentHeight: number | null;
+  targetHeight: number | null;
+  blocksPerSecond: number;
+  etaSeconds: number | null;
+  lastError: string | null;
+  lastSyncedAt: string | null;
+}
+
+export interface Reorg {
+  id: number;
+  detected_at: string;
+  common_ancestor_height: number;
+  depth: number;
+  old_hashes: string[];
+  new_hashes: string[];
+}
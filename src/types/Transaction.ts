@@ -0,0 +1,37 @@
+export type TransactionType = 'execute' | 'deploy' | 'fee';
+
+export type TransactionStatus = 'accepted' | 'rejected';
+
+export interface TransitionSummary {
+  id: string;
+  program_id: string;
+  function_name: string;
+  // The credits.aleo fee_public/fee_private transition every transaction pays its fee with
+  is_fee: boolean;
+}
+
+// A confirmed transaction as indexed from a block. Rejected transactions are stored as the fee
+// transaction that was actually committed; their transitions still list what the rejected
+// execution called, so program/function filters find them.
+export interface TransactionSummary {
+  id: string;
+  position: number;
+  type: TransactionType;
+  status: TransactionStatus;
+  base_fee: bigint;
+  priority_fee: bigint;
+  // Only known for public fees; the closest thing to a public caller a transaction exposes
+  fee_payer: string | null;
+  deployed_program: string | null;
+  program_ids: string[];
+  function_names: string[];
+  transitions: TransitionSummary[];
+}
+
+export interface TransactionFilter {
+  program?: string;
+  function?: string;
+  from?: Date;
+  to?: Date;
+  limit: number;
+}
@@ -0,0 +1,54 @@
+export interface UpstreamEndpoint {
+  name: string;
+  url: string;
+  // Public endpoints only used when none of our own nodes is healthy and caught up
+  fallback: boolean;
+}
+
+// healthy: eligible for routing; lagging: reported height too far behind the best endpoint;
+// diverged: returned a different block hash than the majority; down: cooling off after repeated failures.
+export type UpstreamState = 'healthy' | 'lagging' | 'diverged' | 'down';
+
+export interface UpstreamStatus {
+  name: string;
+  url: string;
+  fallback: boolean;
+  state: UpstreamState;
+  selected: boolean;
+  score: number;
+  latency_ms: number | null;
+  error_rate: number;
+  requests: number;
+  failures: number;
+  consecutive_failures: number;
+  // Requests that had to wait for the endpoint's rate limit
+  rate_limited: number;
+  height: number | null;
+  lag_blocks: number | null;
+  height_checked_at: string | null;
+  diverged_at_height: number | null;
+  last_error: string | null;
+  last_error_at: string | null;
+}
+
+export interface UpstreamOverview {
+  network_height: number | null;
+  selected: string | null;
+  endpoints: UpstreamStatus[];
+}
+
+export type UpstreamCacheCategory = 'block' | 'transaction' | 'committee' | 'latest' | 'mempool';
+
+export interface UpstreamCacheCounters {
+  hits: number;
+  misses: number;
+  // Requests that joined an identical request already in flight
+  coalesced: number;
+}
+
+export interface UpstreamCacheStats {
+  entries: number;
+  max_entries: number;
+  evictions: number;
+  categories: Record<UpstreamCacheCategory, UpstreamCacheCounters & { hit_rate: number }>;
+}
@@ -0,0 +1,80 @@
+import { SortOrder } from './Pagination.js';
+
+export type ValidatorSort = 'stake' | 'participation' | 'blocks_produced';
+
+export const VALIDATOR_SORTS: ValidatorSort[] = ['stake', 'participation', 'blocks_produced'];
+
+export interface ValidatorListFilter {
+  sort: ValidatorSort;
+  order: SortOrder;
+  isActive?: boolean;
+  // Keyset position: the sort value and address of the last row of the previous page
+  after?: { value: string | number, address: string };
+  limit: number;
+  windowRounds: number;
+}
+
+export type RollupGranularity = 'hour' | 'day';
+
+export const ROLLUP_GRANULARITIES: RollupGranularity[] = ['hour', 'day'];
+
+export interface PerformanceTotals {
+  blocks_authored: number;
+  rounds_observed: number;
+  rounds_participated: number;
+  participation_rate: number;
+  // Certificates of the other authors the validator signed, over those it could sign in the rounds it certified
+  signature_rate: number | null;
+  gross_reward: string;
+  commission_reward: string;
+  delegator_reward: string;
+}
+
+export interface PerformancePoint extends PerformanceTotals {
+  // Start of the UTC hour or day
+  bucket: string;
+  stake: string | null;
+}
+
+export interface PerformanceHistory {
+  address: string;
+  granularity: RollupGranularity;
+  from: string;
+  to: string;
+  totals: PerformanceTotals;
+  points: PerformancePoint[];
+}
+
+export type LeaderboardWindow = '1d' | '7d' | '30d' | '90d';
+
+export const LEADERBOARD_WINDOWS: LeaderboardWindow[] = ['1d', '7d', '30d', '90d'];
+
+export type ScoreComponentName = 'participation' | 'signatures' | 'commission' | 'stake_concentration' | 'tenure';
+
+export interface ScoreComponent {
+  // The measured value: a rate for participation and signatures, a percentage for commission, the
+  // share of the ranked stake for stake_concentration and days for tenure; null when not measurable
+  value: number | null;
+  // 0 to 1; null when not measurable, which counts as 0 in the composite score
+  score: number | null;
+  weight: number;
+}
+
+export interface LeaderboardEntry {
+  rank: number;
+  previous_rank: number | null;
+  // Positions gained since the previous period; null when the validator was not ranked then
+  rank_change: number | null;
+  address: string;
+  // 0 to 100
+  score: number;
+  components: Record<ScoreComponentName, ScoreComponent>;
+}
+
+export interface Leaderboard {
+  window: LeaderboardWindow;
+  from: string;
+  to: string;
+  previous_from: string;
+  items: LeaderboardEntry[];
+}
@@ -0,0 +1,29 @@
+import { AlertRuleType } from './Alert.js';
+
+export interface WatchlistEntry {
+  address: string;
+  label: string | null;
+  created_at: Date;
+}
+
+export interface WatchlistItem extends WatchlistEntry {
+  stake: string | null;
+  bonded: string | null;
+  is_active: boolean | null;
+  participation: {
+    roundsObserved: number;
+    roundsParticipated: number;
+    participationRate: number;
+    signatureRate: number | null;
+  };
+  recentAlerts: any[];
+}
+
+export interface WatchlistSubscription {
+  id: number;
+  user_id: number;
+  channel_id: number;
+  rule_types: AlertRuleType[];
+  include_resolved: boolean;
+  created_at: Date;
+}
@@ -1,9 +1,9 @@
-import { JwtPayload } from 'jsonwebtoken';
+import { AuthPrincipal } from './Auth.js';
 
 declare global {
   namespace Express {
     interface Request {
-      user?: JwtPayload | string;
+      user?: AuthPrincipal;
     }
   }
-}
\ No newline at end of file
+}
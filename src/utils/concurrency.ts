@@ -0,0 +1,76 @@
+// Runs `fn` over `items` with at most `limit` calls in flight, preserving input order in the result.
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  const workers = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, () => worker());
+  await Promise.all(workers);
+  return results;
+}
+
+// Rejects when `promise` has not settled within `ms`. The underlying call is not cancelled.
+export function withTimeout<T>(promise: Promise<T>, ms: number, message = `Timed out after ${ms}ms`): Promise<T> {
+  let timer: NodeJS.Timeout;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(message)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+// Token bucket: up to `ratePerSecond` acquisitions per second on average, with bursts of up to `burst`.
+// Callers beyond that wait in FIFO order for a token.
+export class RateLimiter {
+  private tokens: number;
+  private lastRefill = Date.now();
+  private queue: (() => void)[] = [];
+  private timer: NodeJS.Timeout | null = null;
+  waits = 0;
+
+  constructor(private ratePerSecond: number, private burst: number = ratePerSecond) {
+    this.tokens = burst;
+  }
+
+  acquire(): Promise<void> {
+    if (this.ratePerSecond <= 0) return Promise.resolve();
+    this.refill();
+    if (this.queue.length === 0 && this.tokens >= 1) {
+      this.tokens--;
+      return Promise.resolve();
+    }
+    this.waits++;
+    return new Promise(resolve => {
+      this.queue.push(resolve);
+      this.schedule();
+    });
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.burst, this.tokens + ((now - this.lastRefill) / 1000) * this.ratePerSecond);
+    this.lastRefill = now;
+  }
+
+  private schedule(): void {
+    if (this.timer) return;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.refill();
+      while (this.queue.length > 0 && this.tokens >= 1) {
+        this.tokens--;
+        this.queue.shift()!();
+      }
+      if (this.queue.length > 0) this.schedule();
+    }, Math.ceil(((1 - this.tokens) / this.ratePerSecond) * 1000));
+  }
+}
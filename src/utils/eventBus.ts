@@ -0,0 +1,70 @@
+import { EventEmitter } from 'events';
+import { StreamEvent, StreamEventType, StreamSubscription, STREAM_EVENT_TYPES } from '../types/Event.js';
+
+const HISTORY_SIZE = 1000;
+
+// In-process fan-out for live events. Keeps the most recent events so SSE and WebSocket
+// clients can resume from a last-seen id after reconnecting.
+export class EventBus {
+  private emitter = new EventEmitter();
+  private history: StreamEvent[] = [];
+  private nextId = 1;
+
+  constructor() {
+    this.emitter.setMaxListeners(0);
+  }
+
+  publish(type: StreamEventType, data: Record<string, any>, addresses: string[] = []): StreamEvent {
+    const event: StreamEvent = {
+      id: this.nextId++,
+      type,
+      timestamp: new Date().toISOString(),
+      addresses,
+      data,
+    };
+    this.history.push(event);
+    if (this.history.length > HISTORY_SIZE) {
+      this.history.shift();
+    }
+    this.emitter.emit('event', event);
+    return event;
+  }
+
+  subscribe(listener: (event: StreamEvent) => void): () => void {
+    this.emitter.on('event', listener);
+    return () => this.emitter.off('event', listener);
+  }
+
+  // Events newer than `lastEventId` still held in the buffer, oldest first.
+  since(lastEventId: number): StreamEvent[] {
+    return this.history.filter(event => event.id > lastEventId);
+  }
+}
+
+export function parseSubscription(query: { types?: unknown, addresses?: unknown }): StreamSubscription {
+  const toList = (value: unknown): string[] =>
+    (Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : [])
+      .map(item => String(item).trim())
+      .filter(item => item.length > 0);
+
+  const types = toList(query.types).filter((type): type is StreamEventType =>
+    STREAM_EVENT_TYPES.includes(type as StreamEventType)
+  );
+  const addresses = toList(query.addresses);
+  return {
+    types: types.length > 0 ? new Set(types) : null,
+    addresses: addresses.length > 0 ? new Set(addresses) : null,
+  };
+}
+
+export function matchesSubscription(event: StreamEvent, subscription: StreamSubscription): boolean {
+  if (subscription.types && !subscription.types.has(event.type)) return false;
+  if (subscription.addresses && event.addresses.length > 0) {
+    return event.addresses.some(address => subscription.addresses!.has(address));
+  }
+  return true;
+}
+
+export const eventBus = new EventBus();
+
+export default eventBus;
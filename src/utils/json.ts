@@ -0,0 +1,4 @@
+// JSON.stringify replacer for API responses: BigInt values (block rewards, fees, stakes parsed from
+// the node) are written as decimal strings, matching how Postgres BIGINT columns are returned.
+export const jsonReplacer = (key: string, value: unknown) =>
+  typeof value === 'bigint' ? value.toString() : value;
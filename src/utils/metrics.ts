@@ -0,0 +1,82 @@
+import { Request, Response, NextFunction } from 'express';
+import { Counter, Histogram, Registry, collectDefaultMetrics } from 'prom-client';
+
+// Single registry served at /metrics. Metric names and label sets are part of the public
+// contract with dashboards; add new metrics rather than renaming existing ones.
+export const register = new Registry();
+collectDefaultMetrics({ register, prefix: 'aleo_monitor_' });
+
+// aleo_upstream_requests_total{method, outcome}
+//   Calls made by AleoSDKService to the upstream node, by SDK method and outcome (success | error).
+export const upstreamRequestsTotal = new Counter({
+  name: 'aleo_upstream_requests_total',
+  help: 'Requests made to the upstream Aleo API, by method and outcome',
+  labelNames: ['method', 'outcome'] as const,
+  registers: [register],
+});
+
+// aleo_upstream_request_duration_seconds{method}
+//   Latency of upstream calls, including failed ones.
+export const upstreamRequestDuration = new Histogram({
+  name: 'aleo_upstream_request_duration_seconds',
+  help: 'Latency of requests to the upstream Aleo API, by method',
+  labelNames: ['method'] as const,
+  buckets: [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30],
+  registers: [register],
+});
+
+// aleo_upstream_cache_requests_total{category, result}
+//   AleoSDKService reads by cache category (block | transaction | committee | latest | mempool) and
+//   result (hit | miss | coalesced). Misses are the reads that reached the upstream pool.
+export const upstreamCacheRequestsTotal = new Counter({
+  name: 'aleo_upstream_cache_requests_total',
+  help: 'Reads served by the upstream response cache, by category and result',
+  labelNames: ['category', 'result'] as const,
+  registers: [register],
+});
+
+// http_requests_total{method, route, status}
+//   Requests served by the Express app. `route` is the matched route pattern (e.g. /api/blocks/:height)
+//   so label cardinality stays bounded; unmatched requests are labelled `unmatched`.
+export const httpRequestsTotal = new Counter({
+  name: 'http_requests_total',
+  help: 'HTTP requests served, by method, route pattern and status code',
+  labelNames: ['method', 'route', 'status'] as const,
+  registers: [register],
+});
+
+// http_request_duration_seconds{method, route, status}
+export const httpRequestDuration = new Histogram({
+  name: 'http_request_duration_seconds',
+  help: 'HTTP request latency, by method, route pattern and status code',
+  labelNames: ['method', 'route', 'status'] as const,
+  buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5],
+  registers: [register],
+});
+
+export const httpMetricsMiddleware = (req: Request, res: Response, next: NextFunction) => {
+  const end = httpRequestDuration.startTimer();
+  res.on('finish', () => {
+    const route = req.route ? `${req.baseUrl}${req.route.path}` : 'unmatched';
+    const labels = { method: req.method, route, status: String(res.statusCode) };
+    httpRequestsTotal.inc(labels);
+    end(labels);
+  });
+  next();
+};
+
+// Times an upstream call and counts it as an error when it throws or resolves to an Error,
+// which the SDK does for some methods instead of rejecting.
+export async function observeUpstream<T>(method: string, call: () => Promise<T>): Promise<T> {
+  const end = upstreamRequestDuration.startTimer({ method });
+  try {
+    const result = await call();
+    upstreamRequestsTotal.inc({ method, outcome: result instanceof Error ? 'error' : 'success' });
+    return result;
+  } catch (error) {
+    upstreamRequestsTotal.inc({ method, outcome: 'error' });
+    throw error;
+  } finally {
+    end();
+  }
+}
@@ -0,0 +1,60 @@
+import dns from 'dns';
+import net from 'net';
+
+// Loopback, private, link-local, shared, multicast and reserved ranges. IPv4-mapped IPv6 addresses
+// are blocked as a whole so they cannot be used to reach the IPv4 ranges.
+const NON_PUBLIC_RANGES = new net.BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+  ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4],
+] as const) {
+  NON_PUBLIC_RANGES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 127], ['::ffff:0:0', 96], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const) {
+  NON_PUBLIC_RANGES.addSubnet(network, prefix, 'ipv6');
+}
+
+export const isPublicAddress = (address: string): boolean => {
+  const family = net.isIPv4(address) ? 'ipv4' : net.isIPv6(address) ? 'ipv6' : null;
+  return family !== null && !NON_PUBLIC_RANGES.check(address, family);
+};
+
+// Returns why `value` is not an http(s) URL that may be requested on a user's behalf, or null when it
+// is. Names are checked again when they are resolved, see publicOnlyLookup.
+export function checkPublicUrl(value: unknown, allowedHosts: string[]): string | null {
+  let url: URL;
+  try {
+    url = new URL(String(value));
+  } catch {
+    return 'must be a URL';
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') return 'must be an http or https URL';
+  const host = url.hostname.replace(/^\[(.*)\]$/, '$1').replace(/\.$/, '').toLowerCase();
+  if (allowedHosts.includes(host)) return null;
+  if (host === 'localhost' || host.endsWith('.localhost') || (net.isIP(host) && !isPublicAddress(host))) {
+    return 'must not point to a loopback, private or link-local address';
+  }
+  return null;
+}
+
+// A dns.lookup for connections to user-supplied hosts that fails when a name resolves to a non-public
+// address, so the check applies to the address actually connected to. Hosts in `allowedHosts` are
+// resolved without the check.
+export const publicOnlyLookup = (allowedHosts: string[]): net.LookupFunction => (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '', 0);
+      return;
+    }
+    const blocked = allowedHosts.includes(hostname.replace(/\.$/, '').toLowerCase()) ? undefined : addresses.find(entry => !isPublicAddress(entry.address));
+    if (blocked) {
+      callback(new Error(`${hostname} resolves to a non-public address`), '', 0);
+    } else if (options.all) {
+      (callback as unknown as (error: null, addresses: dns.LookupAddress[]) => void)(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
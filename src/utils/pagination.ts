@@ -0,0 +1,21 @@
+import { config } from '../config/index.js';
+
+// Cursors are base64url-encoded JSON keyset positions; clients should treat them as opaque.
+export const encodeCursor = (position: Record<string, unknown>): string =>
+  Buffer.from(JSON.stringify(position)).toString('base64url');
+
+// Returns the decoded position, or null when the cursor is not one we issued.
+export const decodeCursor = <T extends Record<string, unknown>>(cursor: string): T | null => {
+  try {
+    const position = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    return position && typeof position === 'object' && !Array.isArray(position) ? position as T : null;
+  } catch {
+    return null;
+  }
+};
+
+export const parseLimit = (value: unknown): number => {
+  const limit = typeof value === 'string' ? parseInt(value) : NaN;
+  if (isNaN(limit) || limit < 1) return config.pagination.defaultLimit;
+  return Math.min(limit, config.pagination.maxLimit);
+};
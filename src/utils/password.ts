@@ -0,0 +1,29 @@
+import crypto from 'crypto';
+
+const KEY_LENGTH = 64;
+
+// Hashes are stored as `scrypt$<salt hex>$<hash hex>`.
+export const hashPassword = (password: string): Promise<string> => {
+  const salt = crypto.randomBytes(16);
+  return new Promise((resolve, reject) => {
+    crypto.scrypt(password, salt, KEY_LENGTH, (error, derived) => {
+      if (error) return reject(error);
+      resolve(`scrypt$${salt.toString('hex')}$${derived.toString('hex')}`);
+    });
+  });
+};
+
+export const verifyPassword = (password: string, stored: string): Promise<boolean> => {
+  const [scheme, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return Promise.resolve(false);
+  return new Promise((resolve, reject) => {
+    crypto.scrypt(password, Buffer.from(salt, 'hex'), KEY_LENGTH, (error, derived) => {
+      if (error) return reject(error);
+      const expected = Buffer.from(hash, 'hex');
+      resolve(expected.length === derived.length && crypto.timingSafeEqual(derived, expected));
+    });
+  });
+};
+
+export const sha256 = (value: string): string =>
+  crypto.createHash('sha256').update(value).digest('hex');
@@ -0,0 +1,64 @@
+import { ScoreComponent, ScoreComponentName } from '../types/Validator.js';
+
+// Weights of the composite reliability score. Each component scores 0 to 1:
+// - participation: share of the rounds in the window the validator certified
+// - signatures: share of the other authors' certificates it signed, out of those it could sign in the
+//   rounds it certified
+// - commission: 1 - commission / 100, with commission measured on its rewards in the window
+// - stake_concentration: 1 up to an equal share of the ranked stake, then the equal share over its
+//   share, so a validator holding twice the equal share scores 0.5
+// - tenure: days in the committee since it last joined, from the stored committee snapshots, over
+//   TENURE_FULL_DAYS, capped at 1
+export const SCORE_WEIGHTS: Record<ScoreComponentName, number> = {
+  participation: 0.35,
+  signatures: 0.25,
+  commission: 0.15,
+  stake_concentration: 0.15,
+  tenure: 0.1,
+};
+
+export const TENURE_FULL_DAYS = 90;
+
+export interface ScoreInputs {
+  roundsObserved: number;
+  roundsParticipated: number;
+  signaturesGiven: bigint;
+  signaturesExpected: bigint;
+  grossReward: bigint;
+  commissionReward: bigint;
+  // Share of the stake of every ranked validator; null when the stake is unknown
+  stakeShare: number | null;
+  rankedValidators: number;
+  // Null when the validator is not in the latest committee snapshot of the window
+  tenureDays: number | null;
+}
+
+const component = (name: ScoreComponentName, value: number | null, score: number | null): ScoreComponent =>
+  ({ value, score: score !== null ? Math.min(Math.max(score, 0), 1) : null, weight: SCORE_WEIGHTS[name] });
+
+// The composite is the weighted average of every component, scaled to 0-100. Components that could
+// not be measured count as 0, so missing data never ranks a validator above a fully measured one.
+export function scoreValidator(inputs: ScoreInputs): { score: number, components: Record<ScoreComponentName, ScoreComponent> } {
+  const participation = inputs.roundsObserved > 0 ? inputs.roundsParticipated / inputs.roundsObserved : null;
+  const signatures = inputs.signaturesExpected > BigInt(0)
+    ? Number(inputs.signaturesGiven) / Number(inputs.signaturesExpected)
+    : null;
+  const commission = inputs.grossReward > BigInt(0)
+    ? Number((inputs.commissionReward * BigInt(10_000)) / inputs.grossReward) / 100
+    : null;
+  const fairShare = inputs.rankedValidators > 0 ? 1 / inputs.rankedValidators : 0;
+  const concentration = inputs.stakeShare === null ? null : inputs.stakeShare <= fairShare ? 1 : fairShare / inputs.stakeShare;
+
+  const components: Record<ScoreComponentName, ScoreComponent> = {
+    participation: component('participation', participation, participation),
+    signatures: component('signatures', signatures, signatures),
+    commission: component('commission', commission, commission !== null ? 1 - commission / 100 : null),
+    stake_concentration: component('stake_concentration', inputs.stakeShare, concentration),
+    tenure: component('tenure', inputs.tenureDays, inputs.tenureDays !== null ? inputs.tenureDays / TENURE_FULL_DAYS : null),
+  };
+
+  const entries = Object.values(components);
+  const weight = entries.reduce((total, entry) => total + entry.weight, 0);
+  const weighted = entries.reduce((total, entry) => total + entry.weight * (entry.score ?? 0), 0);
+  return { score: weight > 0 ? Math.round((weighted / weight) * 10_000) / 100 : 0, components };
+}
@@ -0,0 +1,63 @@
+import { createRequire } from 'module';
+import { config } from '../config/index.js';
+import { BatchCertificate } from '../types/Block.js';
+
+interface WasmObject {
+  free(): void;
+}
+
+interface AleoWasm {
+  Signature: {
+    from_string(signature: string): WasmObject & { to_address(): WasmObject & { to_string(): string } };
+  };
+}
+
+// The SDK ships one build per network, each with its own parameters
+const WASM_BUILDS: Record<string, string> = {
+  mainnet: '@provablehq/wasm/mainnet.js',
+  testnet: '@provablehq/wasm/testnet.js',
+};
+
+const build = WASM_BUILDS[config.aleo.networkType];
+if (!build) {
+  throw new Error(`ALEO_NETWORK_TYPE must be one of: ${Object.keys(WASM_BUILDS).join(', ')}`);
+}
+
+// The CommonJS build instantiates the WebAssembly module synchronously; the ES module build fetches
+// it over a file URL, which Node does not support.
+const require = createRequire(import.meta.url);
+const wasm: AleoWasm = require(build);
+
+// Aleo signatures carry the signer's address, so a certificate's signers can be recovered from its
+// signatures alone. Returns null for a string that is not a valid signature.
+export function signerOf(signature: string): string | null {
+  let parsed: ReturnType<AleoWasm['Signature']['from_string']> | undefined;
+  try {
+    parsed = wasm.Signature.from_string(signature);
+    const address = parsed.to_address();
+    const signer = address.to_string();
+    address.free();
+    return signer;
+  } catch {
+    return null;
+  } finally {
+    parsed?.free();
+  }
+}
+
+// The distinct signers of a certificate, skipping signatures that do not parse.
+export function signersOf(signatures: string[]): string[] {
+  const signers = new Set<string>();
+  for (const signature of signatures) {
+    const signer = signerOf(signature);
+    if (signer) signers.add(signer);
+  }
+  return [...signers];
+}
+
+// The signers to store for a certificate, or null when they are unknown: either never recovered, or
+// none of its signatures could be read, which would otherwise count as a certificate nobody signed.
+export function recordedSigners(certificate: BatchCertificate): string[] | null {
+  if (!certificate.signers) return null;
+  return certificate.signers.length > 0 || certificate.signatures.length === 0 ? certificate.signers : null;
+}
@@ -0,0 +1,6 @@
+// Parses a time-range query parameter given either as unix seconds or as an ISO 8601 date.
+export const parseTimeParam = (value: unknown): Date | undefined => {
+  if (typeof value !== 'string' || value.trim() === '') return undefined;
+  const date = /^\d+$/.test(value) ? new Date(Number(value) * 1000) : new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+};
@@ -0,0 +1,9 @@
+// Aleo addresses and ids are bech32m strings: a human-readable prefix, the separator `1` and
+// 58 data characters.
+export const ALEO_ADDRESS_PATTERN = /^aleo1[qpzry9x8gf2tvdw0s3jn54khce6mua7l]{58}$/;
+export const BLOCK_HASH_PATTERN = /^ab1[qpzry9x8gf2tvdw0s3jn54khce6mua7l]{58}$/;
+export const TRANSACTION_ID_PATTERN = /^at1[qpzry9x8gf2tvdw0s3jn54khce6mua7l]{58}$/;
+export const PROGRAM_ID_PATTERN = /^[a-zA-Z][a-zA-Z0-9_]*\.aleo$/;
+
+export const isAleoAddress = (value: unknown): value is string =>
+  typeof value === 'string' && ALEO_ADDRESS_PATTERN.test(value);
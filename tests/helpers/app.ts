@@ -0,0 +1,114 @@
+import { ChildProcess, spawn } from 'child_process';
+import net from 'net';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import pg from 'pg';
+
+const ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../..');
+const VITE_NODE = path.join(ROOT, 'node_modules/vite-node/vite-node.mjs');
+
+export interface TestDatabase {
+  url: string;
+  drop(): Promise<void>;
+}
+
+export interface RunningApp {
+  url: string;
+  // Everything the app logged so far, for failure messages
+  output(): string;
+  stop(): Promise<void>;
+}
+
+// Creates an empty, uniquely named database on the server `adminUrl` points at.
+export async function createTestDatabase(adminUrl: string): Promise<TestDatabase> {
+  const name = `aleo_monitor_test_${process.pid}_${Date.now()}`;
+  const admin = new pg.Client({ connectionString: adminUrl });
+  await admin.connect();
+  try {
+    await admin.query(`CREATE DATABASE ${name}`);
+  } finally {
+    await admin.end();
+  }
+
+  const url = new URL(adminUrl);
+  url.pathname = `/${name}`;
+  return {
+    url: url.toString(),
+    async drop() {
+      const client = new pg.Client({ connectionString: adminUrl });
+      await client.connect();
+      try {
+        await client.query(`DROP DATABASE IF EXISTS ${name} WITH (FORCE)`);
+      } finally {
+        await client.end();
+      }
+    },
+  };
+}
+
+async function freePort(): Promise<number> {
+  const server = net.createServer();
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as net.AddressInfo;
+  await new Promise(resolve => server.close(resolve));
+  return port;
+}
+
+// Runs src/index.ts in a child process with `env` on top of the test environment and waits
+// until the API answers.
+export async function startApp(env: Record<string, string>, timeoutMs: number = 60_000): Promise<RunningApp> {
+  const port = await freePort();
+  const child: ChildProcess = spawn(process.execPath, [VITE_NODE, 'src/index.ts'], {
+    cwd: ROOT,
+    env: { ...process.env, NODE_ENV: 'test', PORT: String(port), ...env },
+    stdio: ['ignore', 'pipe', 'pipe'],
+  });
+
+  let output = '';
+  child.stdout!.on('data', chunk => { output += chunk; });
+  child.stderr!.on('data', chunk => { output += chunk; });
+  const exited = new Promise<number | null>(resolve => child.once('exit', resolve));
+
+  const app: RunningApp = {
+    url: `http://127.0.0.1:${port}`,
+    output: () => output,
+    async stop() {
+      if (child.exitCode === null && child.signalCode === null) {
+        child.kill('SIGTERM');
+        await exited;
+      }
+    },
+  };
+
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    if (child.exitCode !== null) {
+      throw new Error(`App exited with code ${child.exitCode} before it was ready:\n${output}`);
+    }
+    try {
+      const response = await fetch(`${app.url}/api/sync/status`);
+      if (response.ok) return app;
+    } catch {
+      // Not listening yet
+    }
+    await new Promise(resolve => setTimeout(resolve, 250));
+  }
+  await app.stop();
+  throw new Error(`App did not answer within ${timeoutMs}ms:\n${output}`);
+}
+
+// Polls `check` until it returns a value other than undefined.
+export async function waitFor<T>(check: () => Promise<T | undefined>, timeoutMs: number = 20_000): Promise<T> {
+  const deadline = Date.now() + timeoutMs;
+  let lastError: unknown = null;
+  while (Date.now() < deadline) {
+    try {
+      const value = await check();
+      if (value !== undefined) return value;
+    } catch (error) {
+      lastError = error;
+    }
+    await new Promise(resolve => setTimeout(resolve, 200));
+  }
+  throw new Error(`Condition not met within ${timeoutMs}ms${lastError ? `: ${lastError}` : ''}`);
+}
@@ -0,0 +1,65 @@
+import { AleoSDKService } from '../../src/services/AleoSDKService.js';
+import { BatchCertificate, Block } from '../../src/types/Block.js';
+
+// Unix seconds of height 0 in built chains; each following block is 10 seconds later
+export const GENESIS_TIME = 1_700_000_000;
+
+export const address = (name: string) => `aleo1${name.padEnd(58, '0')}`;
+
+// A certificate whose signers are already recovered, so the sync does not parse its placeholder signatures
+export function certificate(round: number, author: string, signers: string[] = []): BatchCertificate {
+  return {
+    round,
+    author,
+    batch_id: `batch-${round}-${author}`,
+    committee_id: 'committee1test',
+    timestamp: undefined,
+    transmission_count: 0,
+    signatures: signers.map((_, i) => `sign${round}${i}`),
+    signers,
+  };
+}
+
+export function buildBlock(height: number, options: {
+  branch?: string,
+  parentBranch?: string,
+  validator?: string,
+  certificates?: BatchCertificate[],
+  timestamp?: number,
+} = {}): Block {
+  const branch = options.branch ?? 'main';
+  return {
+    height,
+    hash: `ab1${branch}${height}`,
+    previous_hash: `ab1${options.parentBranch ?? branch}${height - 1}`,
+    timestamp: new Date((options.timestamp ?? GENESIS_TIME + height * 10) * 1000).toISOString(),
+    transactions: [],
+    validator_address: options.validator,
+    total_fees: BigInt(0),
+    certificates: options.certificates ?? [],
+    rewards: { block_reward: BigInt(0), puzzle_reward: BigInt(0), base_fees: BigInt(0), priority_fees: BigInt(0) },
+    transaction_summaries: [],
+  };
+}
+
+// A stand-in for the upstream that serves whatever chain the test puts into `blocks`.
+export function createChainSDK(blocks: Map<number, Block> = new Map(), committee: any = { members: {} }) {
+  const sdk = {
+    blocks,
+    committee,
+    latestHeight: null as number | null,
+    async getLatestBlockHeight() {
+      return sdk.latestHeight ?? (blocks.size > 0 ? Math.max(...blocks.keys()) : null);
+    },
+    async getBlockByHeight(height: number) {
+      return blocks.get(height) ?? null;
+    },
+    async getLatestCommittee() {
+      return sdk.committee;
+    },
+    async getCommitteeByHeight() {
+      return sdk.committee;
+    },
+  };
+  return sdk as unknown as typeof sdk & AleoSDKService;
+}
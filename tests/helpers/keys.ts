@@ -0,0 +1,32 @@
+import crypto from 'crypto';
+import { createRequire } from 'module';
+
+interface WasmKey {
+  to_address(): { to_string(): string };
+  sign(message: Uint8Array): { to_string(): string };
+}
+
+const require = createRequire(import.meta.url);
+const wasm: { PrivateKey: { from_seed_unchecked(seed: Uint8Array): WasmKey } } = require('@provablehq/wasm/mainnet.js');
+
+const keysByAddress = new Map<string, WasmKey>();
+const addressesByName = new Map<string, string>();
+
+// The address of a test account whose key is derived from its name, so mocks can sign as it.
+export function accountAddress(name: string): string {
+  let address = addressesByName.get(name);
+  if (!address) {
+    const key = wasm.PrivateKey.from_seed_unchecked(crypto.createHash('sha256').update(`aleo-monitor test ${name}`).digest());
+    address = key.to_address().to_string();
+    addressesByName.set(name, address);
+    keysByAddress.set(address, key);
+  }
+  return address;
+}
+
+// Signs `message` with the key of an account created by accountAddress.
+export function signAs(address: string, message: string): string {
+  const key = keysByAddress.get(address);
+  if (!key) throw new Error(`No test key for ${address}`);
+  return key.sign(new TextEncoder().encode(message)).to_string();
+}
@@ -0,0 +1,253 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { accountAddress, signAs } from './keys.js';
+
+// Upstream routes served by MockAleoNode, for scripting failures and latency per route
+export type MockRoute =
+  | 'latest/height'
+  | 'latest/block'
+  | 'block'
+  | 'transactions'
+  | 'transaction'
+  | 'committee'
+  | 'mempool';
+
+export interface MockBlockOptions {
+  // Leader of the block; defaults to rotating through the committee
+  author?: string;
+  // Committee members that do not certify the block's round
+  absent?: string[];
+  // Confirmed transactions as the API returns them ({ status, type, index, transaction })
+  transactions?: any[];
+  blockReward?: number;
+}
+
+interface Failure {
+  route: MockRoute | '*';
+  status: number;
+  remaining: number;
+}
+
+// Unix seconds of the genesis block; each following block is 10 seconds later
+export const MOCK_GENESIS_TIME = 1_700_000_000;
+
+export const mockAddress = accountAddress;
+
+// An HTTP server that answers the Aleo API requests AleoNetworkClient makes (under any network
+// prefix, e.g. /testnet/latest/height) from a chain the test scripts: advance it, fork it, change the
+// committee or the mempool, and make routes fail or respond slowly.
+export class MockAleoNode {
+  // Every request path, without the network prefix
+  readonly requests: string[] = [];
+  private server: http.Server | null = null;
+  private chain: any[] = [];
+  private committees: { fromHeight: number, committee: any }[] = [];
+  private mempool: any[] = [];
+  private failures: Failure[] = [];
+  private latency = new Map<MockRoute | '*', number>();
+  private forks = 0;
+
+  // Starts with a chain from genesis up to `height`.
+  constructor(committee: Record<string, number> = { [mockAddress('alice')]: 10_000_000_000_000 }, height: number = 0) {
+    this.setCommittee(committee);
+    this.advance(height + 1);
+  }
+
+  get url(): string {
+    if (!this.server) throw new Error('Mock Aleo node is not running');
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  get height(): number {
+    return this.chain.length - 1;
+  }
+
+  async start(): Promise<string> {
+    this.server = http.createServer((req, res) => {
+      this.handle(req, res).catch(error => {
+        res.statusCode = 500;
+        res.end(String(error));
+      });
+    });
+    await new Promise<void>(resolve => this.server!.listen(0, '127.0.0.1', resolve));
+    return this.url;
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) return;
+    const server = this.server;
+    this.server = null;
+    server.closeAllConnections();
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  }
+
+  block(height: number): any {
+    return this.chain[height] ?? null;
+  }
+
+  hash(height: number): string {
+    return this.chain[height].block_hash;
+  }
+
+  // Appends blocks on top of the current tip.
+  advance(count: number = 1, options: MockBlockOptions = {}): any[] {
+    const added = Array.from({ length: count }, () => {
+      const block = this.buildBlock(this.chain.length, this.chain[this.chain.length - 1]?.block_hash, options);
+      this.chain.push(block);
+      return block;
+    });
+    return added;
+  }
+
+  // Replaces the top `depth` blocks with `length` blocks of a new branch, as if the node
+  // switched to a heavier fork.
+  fork(depth: number, length: number = depth + 1, options: MockBlockOptions = {}): any[] {
+    if (depth < 1 || depth >= this.chain.length) throw new Error(`Cannot fork ${depth} blocks off a chain of ${this.chain.length}`);
+    this.forks++;
+    this.chain.splice(this.chain.length - depth);
+    return this.advance(length, options);
+  }
+
+  // Members and their stake; takes effect from the next block and is served as the latest committee.
+  setCommittee(stakes: Record<string, number>): void {
+    const members = Object.fromEntries(Object.entries(stakes).map(([address, stake]) => [address, [stake, true, 0]]));
+    const total = Object.values(stakes).reduce((sum, stake) => sum + stake, 0);
+    this.committees.push({
+      fromHeight: this.chain.length,
+      committee: {
+        id: `committee1mock${this.committees.length}`,
+        starting_round: this.roundAt(this.chain.length),
+        members,
+        total_stake: total,
+      },
+    });
+  }
+
+  setMempool(transactions: any[]): void {
+    this.mempool = transactions;
+  }
+
+  // Answers the route with `status` for the next `times` requests (all of them by default).
+  fail(route: MockRoute | '*', status: number = 500, times: number = Infinity): void {
+    this.failures.push({ route, status, remaining: times });
+  }
+
+  // Delays every response of the route by `ms`; `0` removes the delay.
+  delay(ms: number, route: MockRoute | '*' = '*'): void {
+    if (ms > 0) this.latency.set(route, ms);
+    else this.latency.delete(route);
+  }
+
+  // Removes all scripted failures and delays.
+  heal(): void {
+    this.failures = [];
+    this.latency.clear();
+  }
+
+  private committeeAt(height: number): any {
+    return [...this.committees].reverse().find(entry => entry.fromHeight <= height)!.committee;
+  }
+
+  private roundAt(height: number): number {
+    return height * 2 + 1;
+  }
+
+  private buildBlock(height: number, previousHash: string | undefined, options: MockBlockOptions): any {
+    const branch = this.forks === 0 ? 'main' : `fork${this.forks}`;
+    const committee = this.committeeAt(height);
+    const members = Object.keys(committee.members);
+    const author = options.author ?? members[height % members.length];
+    const round = this.roundAt(height);
+    const timestamp = MOCK_GENESIS_TIME + height * 10;
+    const present = members.filter(member => member === author || !options.absent?.includes(member));
+    const authors = [author, ...present.filter(member => member !== author)];
+
+    return {
+      block_hash: `ab1${branch}${height}`,
+      previous_hash: previousHash ?? `ab1genesisparent`,
+      header: {
+        metadata: { network: 1, round, height, timestamp },
+      },
+      authority: {
+        type: 'quorum',
+        subdag: {
+          subdag: {
+            [round]: authors.map(member => ({
+              batch_header: {
+                batch_id: `batch-${branch}-${round}-${member}`,
+                author: member,
+                round,
+                timestamp,
+                committee_id: committee.id,
+                transmission_ids: [],
+                previous_certificate_ids: [],
+              },
+              signatures: authors.filter(signer => signer !== member).map(signer => signAs(signer, `batch-${branch}-${round}-${member}`)),
+            })),
+          },
+        },
+      },
+      ratifications: [{ type: 'block_reward', amount: options.blockReward ?? 0 }],
+      solutions: { version: 1, solutions: null },
+      transactions: options.transactions ?? [],
+    };
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    // Strip the network segment the SDK adds to the host
+    const path = (req.url ?? '/').replace(/^\/[^/]+/, '');
+    this.requests.push(path);
+    const route = this.route(path);
+
+    const delay = (route && this.latency.get(route)) ?? this.latency.get('*');
+    if (delay) await new Promise(resolve => setTimeout(resolve, delay));
+
+    const failure = this.failures.find(candidate => candidate.remaining > 0 && (candidate.route === '*' || candidate.route === route));
+    if (failure) {
+      failure.remaining--;
+      return this.send(res, failure.status, { error: `Scripted failure of ${route}` });
+    }
+
+    const body = route ? this.respond(route, path) : undefined;
+    if (body === undefined) return this.send(res, 404, { error: `Not found: ${path}` });
+    this.send(res, 200, body);
+  }
+
+  private route(path: string): MockRoute | null {
+    if (path === '/latest/height') return 'latest/height';
+    if (path === '/latest/block') return 'latest/block';
+    if (/^\/block\/\d+\/transactions$/.test(path)) return 'transactions';
+    if (/^\/block\/\d+$/.test(path)) return 'block';
+    if (/^\/transaction\/[^/]+$/.test(path)) return 'transaction';
+    if (/^\/committee\/(latest|\d+)$/.test(path)) return 'committee';
+    if (path === '/memoryPool/transactions') return 'mempool';
+    return null;
+  }
+
+  private respond(route: MockRoute, path: string): unknown {
+    const segment = path.split('/')[2];
+    switch (route) {
+      case 'latest/height':
+        return this.height;
+      case 'latest/block':
+        return this.chain[this.height];
+      case 'block':
+        return this.block(Number(segment)) ?? undefined;
+      case 'transactions':
+        return this.block(Number(segment))?.transactions;
+      case 'transaction':
+        return this.chain.flatMap(block => block.transactions).find(confirmed => confirmed.transaction?.id === segment)?.transaction;
+      case 'committee':
+        if (segment === 'latest') return this.committees[this.committees.length - 1].committee;
+        return Number(segment) <= this.height ? this.committeeAt(Number(segment)) : undefined;
+      case 'mempool':
+        return this.mempool;
+    }
+  }
+
+  private send(res: http.ServerResponse, status: number, body: unknown): void {
+    res.statusCode = status;
+    res.setHeader('Content-Type', 'application/json');
+    res.end(JSON.stringify(body));
+  }
+}
@@ -0,0 +1,22 @@
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { AleoSDKService } from '../../src/services/AleoSDKService.js';
+
+export const FIXTURES_DIR = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../fixtures/upstream');
+
+// Heights and addresses of the synthetic chain segment in tests/fixtures/upstream
+export const FIXTURE_CHAIN = {
+  firstHeight: 5018000,
+  latestHeight: 5018003,
+  // Block with two executions (token_registry.aleo/transfer_public and credits.aleo/transfer_public)
+  blockWithTransactions: 5018002,
+  validators: [
+    'aleo1uqpctv0z3c4janswhqh8hdm34hg2xrwqfanwdxnpz24jvg2kf58q90yuuh',
+    'aleo158z88lp3ctsyerhjwdtftcsfnl5mmjtadn4tgwr3m8xkyyq9vvpqsxa69r',
+    'aleo1e6krphw9pfw7x66q6ae8du04sw6q7swxajxsxkx94kf9mdx5f5zqerknlw',
+    'aleo1l8y9n3wmqjuln4ts6g4ua97khevlqaan7jeja2fyc3av9p3f8qzs9ulc6w',
+  ],
+};
+
+export const createReplaySDK = (fixturesDir: string = FIXTURES_DIR) =>
+  new AleoSDKService('http://replay.invalid', 'mainnet', { mode: 'replay', fixturesDir });
@@ -0,0 +1,183 @@
+import { afterAll, beforeAll, describe, expect, inject, it } from 'vitest';
+import { MockAleoNode, mockAddress } from '../helpers/mockNode.js';
+import { RunningApp, TestDatabase, createTestDatabase, startApp, waitFor } from '../helpers/app.js';
+
+
+const alice = mockAddress('alice');
+const bob = mockAddress('bob');
+const carol = mockAddress('carol');
+
+describe('monitor app against a mock node and a throwaway database', () => {
+  let node: MockAleoNode;
+  let database: TestDatabase;
+  let app: RunningApp;
+
+  const get = async (path: string) => {
+    const response = await fetch(`${app.url}${path}`);
+    if (!response.ok) throw new Error(`GET ${path} answered ${response.status}`);
+    return response.json();
+  };
+  const post = (path: string, body: unknown) => fetch(`${app.url}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  const syncedTo = (height: number) => waitFor(async () => {
+    const status = await get('/api/sync/status');
+    return status.currentHeight === height && status.running === false ? status : undefined;
+  });
+
+  beforeAll(async () => {
+    node = new MockAleoNode({ [alice]: 6_000, [bob]: 4_000 }, 20);
+    await node.start();
+    database = await createTestDatabase(inject('testDatabaseUrl'));
+    app = await startApp({
+      DATABASE_URL: database.url,
+      DB_AUTO_MIGRATE: 'true',
+      UPSTREAM_MODE: 'live',
+      ALEO_ENDPOINTS: `mock=${node.url}`,
+      ALEO_FALLBACK_ENDPOINTS: '',
+      UPSTREAM_HEALTH_CHECK_INTERVAL_SECONDS: '1',
+      UPSTREAM_COOLDOWN_SECONDS: '1',
+      SYNC_INTERVAL_SECONDS: '1',
+      SYNC_BATCH_SIZE: '10',
+      VALIDATOR_UPDATE_INTERVAL_SECONDS: '1',
+      MEMPOOL_SAMPLE_INTERVAL_SECONDS: '1',
+      ROLLUP_INTERVAL_SECONDS: '1',
+      AUTH_ADMIN_USERNAME: 'admin',
+      AUTH_ADMIN_EMAIL: 'admin@example.com',
+      AUTH_ADMIN_PASSWORD: 'correct horse battery',
+    });
+  }, 120_000);
+
+  afterAll(async () => {
+    await app?.stop();
+    await database?.drop();
+    await node?.stop();
+  });
+
+  it('connects to the node and syncs to its tip', async () => {
+    await syncedTo(20);
+
+    const page = await get('/api/blocks?limit=1');
+    expect(page.items[0]).toMatchObject({ height: '20', hash: node.hash(20) });
+    expect(node.requests).toContain('/latest/height');
+
+    const validators = await get('/api/validators');
+    expect(validators.items.map((validator: any) => [validator.address, validator.stake])).toEqual([
+      [alice, '6000'],
+      [bob, '4000'],
+    ]);
+    // Alice and bob certify every committed round (one per block, two rounds apart) and sign each other's certificates
+    const { performance } = await get(`/api/validators/${alice}?rounds=10`);
+    expect(performance).toMatchObject({ roundsObserved: 5, roundsParticipated: 5, signatureRate: 1 });
+    const history = await waitFor(async () => {
+      const current = await get(`/api/validators/${alice}/performance/history?from=1700000000&to=1700003600&bucket=hour`);
+      return current.totals.rounds_participated === 21 ? current : undefined;
+    });
+    expect(history.totals.signature_rate).toBe(1);
+    const metrics = await (await fetch(`${app.url}/metrics`)).text();
+    for (const address of [alice, bob]) {
+      expect(metrics).toMatch(new RegExp(`aleo_validator_participation_rate\\{address="${address}"\\} 1\\n`));
+    }
+  });
+
+  it('follows the chain as the node advances', async () => {
+    node.advance(5);
+    await syncedTo(25);
+
+    const block = await get('/api/blocks/25');
+    expect(block.hash).toBe(node.hash(25));
+  });
+
+  it('rolls back and records the reorg when the node switches to a fork', async () => {
+    const abandoned = [node.hash(24), node.hash(25)];
+    node.fork(2, 4);
+    await syncedTo(27);
+
+    const [reorg] = await get('/api/reorgs');
+    expect(reorg).toMatchObject({ common_ancestor_height: 23, depth: 2, old_hashes: abandoned });
+    const page = await get('/api/blocks?limit=4');
+    expect(page.items.map((block: any) => block.hash)).toEqual([27, 26, 25, 24].map(height => node.hash(height)));
+  });
+
+  it('applies committee changes', async () => {
+    node.setCommittee({ [alice]: 6_000, [carol]: 5_000 });
+    node.advance();
+
+    const inactive = await waitFor(async () => {
+      const page = await get('/api/validators?is_active=false');
+      return page.items.length > 0 ? page.items : undefined;
+    });
+    expect(inactive.map((validator: any) => validator.address)).toEqual([bob]);
+    const active = await get('/api/validators?is_active=true');
+    expect(active.items.map((validator: any) => validator.address)).toEqual([alice, carol]);
+    const history = await get('/api/committee/history?limit=1');
+    expect(history.items[0].diff).toMatchObject({ joined: [carol], left: [bob] });
+    expect(history.nextCursor).not.toBeNull();
+  });
+
+  it('samples the mempool', async () => {
+    node.setMempool([{ id: 'at1pendingtransfer', type: 'execute' }]);
+
+    const stats = await waitFor(async () => {
+      const current = await get('/api/mempool/stats');
+      return current.current_size === 1 ? current : undefined;
+    });
+    expect(stats.pending).toBe(1);
+  });
+
+  it('creates the configured administrator and rejects incomplete auth requests', async () => {
+    const login = await post('/api/auth/login', { username: 'admin', password: 'correct horse battery' });
+    expect(login.status).toBe(200);
+    const { accessToken } = await login.json();
+    const me = await fetch(`${app.url}/api/auth/me`, { headers: { Authorization: `Bearer ${accessToken}` } });
+    const profile = await me.json();
+    expect(profile).toMatchObject({ username: 'admin', role: 'admin' });
+
+    expect((await post('/api/auth/register', { username: 'mallory', email: 'mallory@example.com', password: 'password123' })).status).toBe(403);
+    expect((await post('/api/auth/login', { username: 'admin' })).status).toBe(400);
+    expect((await post('/api/auth/refresh', {})).status).toBe(400);
+    expect((await post('/api/auth/logout', {})).status).toBe(400);
+
+    const updateSelf = (body: unknown) => fetch(`${app.url}/api/users/${profile.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${accessToken}` },
+      body: JSON.stringify(body),
+    });
+    expect((await updateSelf({ role: 'viewer' })).status).toBe(400);
+    expect((await updateSelf({ disabled: true })).status).toBe(400);
+    expect((await updateSelf({ role: 'admin', email: 'root@example.com' })).status).toBe(200);
+  });
+
+  it('checks the role before the request and rejects out-of-range integers', async () => {
+    expect((await post('/api/alerts/rules', {})).status).toBe(401);
+    expect((await fetch(`${app.url}/api/blocks/99999999999999999999`)).status).toBe(400);
+    expect((await fetch(`${app.url}/api/alerts/rules/2147483648`)).status).toBe(400);
+    const emptyWindow = await fetch(`${app.url}/api/validators/${alice}?rounds=0`);
+    expect(emptyWindow.status).toBe(400);
+    expect((await emptyWindow.json()).details).toEqual([{ field: 'query.rounds', message: 'must be at least 1' }]);
+    expect((await fetch(`${app.url}/api/validators/${mockAddress('nobody')}`)).status).toBe(404);
+  });
+
+  it('refuses to start in production with the fallback JWT secret', async () => {
+    await expect(startApp({ DATABASE_URL: database.url, NODE_ENV: 'production', JWT_SECRET: '' }))
+      .rejects.toThrow(/JWT_SECRET must be set in production/);
+  }, 60_000);
+
+  it('keeps serving while the node fails and catches up once it recovers', async () => {
+    node.fail('*', 503);
+    await waitFor(async () => {
+      const { endpoints } = await get('/api/upstreams');
+      return endpoints[0].consecutive_failures > 0 ? endpoints : undefined;
+    });
+    // Stored data is still served
+    const page = await get('/api/blocks?limit=1');
+    expect(page.items[0].hash).toBe(node.hash(node.height));
+
+    node.heal();
+    node.advance(3);
+    const tip = node.height;
+    await syncedTo(tip);
+  });
+});
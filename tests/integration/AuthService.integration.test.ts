@@ -0,0 +1,133 @@
+import { afterAll, beforeAll, describe, expect, inject, it } from 'vitest';
+import type { AuthError, AuthService as AuthServiceType } from '../../src/services/AuthService.js';
+import type { AuthPrincipal } from '../../src/types/Auth.js';
+import { Migrator } from '../../src/database/Migrator.js';
+import { TestDatabase, createTestDatabase } from '../helpers/app.js';
+
+describe('AuthService against a throwaway database', () => {
+  let database: TestDatabase;
+  let authService: AuthServiceType;
+  let closeSequelize: () => Promise<void>;
+  let admin: AuthPrincipal;
+
+  const rejection = (promise: Promise<unknown>) => promise.then(
+    () => { throw new Error('expected a rejection'); },
+    (error: AuthError) => [error.status, error.message]
+  );
+  const principal = async (identifier: string, password: string) =>
+    authService.verifyAccessToken((await authService.login(identifier, password)).accessToken);
+
+  beforeAll(async () => {
+    database = await createTestDatabase(inject('testDatabaseUrl'));
+    const migrator = new Migrator(database.url);
+    await migrator.up();
+    await migrator.close();
+
+    // The auth models bind to the configured database when they are first imported
+    process.env.DATABASE_URL = database.url;
+    const { config } = await import('../../src/config/index.js');
+    const { AuthService } = await import('../../src/services/AuthService.js');
+    const { sequelize } = await import('../../src/database/index.js');
+    closeSequelize = () => sequelize.close();
+
+    authService = new AuthService();
+    await authService.ensureAdmin({ username: 'admin', email: 'admin@example.com', password: 'correct horse battery' });
+    config.auth.allowRegistration = true;
+    await authService.register({ username: 'alice', email: 'alice@example.com', password: 'alice password' });
+    await authService.register({ username: 'bob', email: 'bob@example.com', password: 'bob password' });
+    config.auth.allowRegistration = false;
+    admin = await principal('admin', 'correct horse battery');
+  }, 60_000);
+
+  afterAll(async () => {
+    await closeSequelize?.();
+    await database?.drop();
+  });
+
+  it('logs in by username or email and rejects wrong passwords', async () => {
+    expect(await principal('alice', 'alice password')).toMatchObject({ username: 'alice', role: 'viewer', method: 'jwt' });
+    expect(await principal('alice@example.com', 'alice password')).toMatchObject({ username: 'alice' });
+    expect(await rejection(authService.login('alice', 'wrong password'))).toEqual([401, 'Invalid credentials']);
+    expect(await rejection(authService.login('nobody', 'alice password'))).toEqual([401, 'Invalid credentials']);
+  });
+
+  it('rotates refresh tokens and rejects a token once it was used', async () => {
+    const { refreshToken } = await authService.login('alice', 'alice password');
+
+    const rotated = await authService.refresh(refreshToken);
+    expect(await authService.verifyAccessToken(rotated.accessToken)).toMatchObject({ username: 'alice' });
+    expect(rotated.refreshToken).not.toBe(refreshToken);
+    expect(await rejection(authService.refresh(refreshToken))).toEqual([401, 'Invalid refresh token']);
+    expect(await authService.refresh(rotated.refreshToken)).toHaveProperty('accessToken');
+  });
+
+  it('rotates a refresh token only once when it is presented concurrently', async () => {
+    const { refreshToken } = await authService.login('alice', 'alice password');
+
+    const results = await Promise.allSettled(Array.from({ length: 5 }, () => authService.refresh(refreshToken)));
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+    for (const result of results.filter(result => result.status === 'rejected')) {
+      expect((result as PromiseRejectedResult).reason).toMatchObject({ status: 401, message: 'Invalid refresh token' });
+    }
+  });
+
+  it('revokes the refresh token on logout', async () => {
+    const { refreshToken } = await authService.login('alice', 'alice password');
+
+    await authService.logout(refreshToken);
+
+    expect(await rejection(authService.refresh(refreshToken))).toEqual([401, 'Invalid refresh token']);
+  });
+
+  it('expires and revokes API keys', async () => {
+    const alice = await principal('alice', 'alice password');
+    const expired = await authService.createApiKey(alice, { name: 'expired', expiresAt: new Date(Date.now() - 1000).toISOString() });
+    const current = await authService.createApiKey(alice, { name: 'current', expiresAt: new Date(Date.now() + 60_000).toISOString() });
+
+    expect(await rejection(authService.verifyApiKey(expired.key))).toEqual([401, 'Invalid API key']);
+    expect(await authService.verifyApiKey(current.key)).toMatchObject({ username: 'alice', role: 'viewer', method: 'api_key' });
+
+    expect(await authService.revokeApiKey(admin.userId, current.apiKey.id)).toBe(false);
+    expect(await authService.revokeApiKey(alice.userId, current.apiKey.id)).toBe(true);
+    expect(await rejection(authService.verifyApiKey(current.key))).toEqual([401, 'Invalid API key']);
+    expect(await rejection(authService.verifyApiKey('amk_00000000_unknown'))).toEqual([401, 'Invalid API key']);
+  });
+
+  it('caps API key scope at the owner\'s current role', async () => {
+    const bob = await principal('bob', 'bob password');
+    expect(await rejection(authService.createApiKey(bob, { name: 'escalate', scope: 'operator' })))
+      .toEqual([403, 'Cannot create an API key with a scope above your own role']);
+
+    await authService.updateUser(bob.userId, { role: 'operator' });
+    const promoted = await principal('bob', 'bob password');
+    const { key } = await authService.createApiKey(promoted, { name: 'operator key', scope: 'operator' });
+    expect(await authService.verifyApiKey(key)).toMatchObject({ role: 'operator' });
+
+    await authService.updateUser(bob.userId, { role: 'viewer' });
+    expect(await authService.verifyApiKey(key)).toMatchObject({ role: 'viewer' });
+  });
+
+  it('validates email changes and rejects addresses already in use', async () => {
+    const alice = await principal('alice', 'alice password');
+
+    expect(await rejection(authService.updateUser(alice.userId, { email: 'not an address' })))
+      .toEqual([400, 'email must be a valid email address']);
+    expect(await rejection(authService.updateUser(alice.userId, { email: 'bob@example.com' })))
+      .toEqual([409, 'Email already in use']);
+    expect(await authService.updateUser(alice.userId, { email: 'alice@example.org' })).toMatchObject({ email: 'alice@example.org' });
+  });
+
+  it('cuts a disabled user off from every credential', async () => {
+    const tokens = await authService.login('bob', 'bob password');
+    const bob = await authService.verifyAccessToken(tokens.accessToken);
+    const { key } = await authService.createApiKey(bob, { name: 'before disabling' });
+
+    await authService.updateUser(bob.userId, { disabled: true });
+
+    expect(await rejection(authService.verifyAccessToken(tokens.accessToken))).toEqual([401, 'Invalid token']);
+    expect(await rejection(authService.verifyApiKey(key))).toEqual([401, 'Invalid API key']);
+    expect(await rejection(authService.refresh(tokens.refreshToken))).toEqual([401, 'Invalid refresh token']);
+    expect(await rejection(authService.login('bob', 'bob password'))).toEqual([403, 'Account is disabled']);
+  });
+});
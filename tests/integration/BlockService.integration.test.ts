@@ -0,0 +1,120 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { AleoSDKService } from '../../src/services/AleoSDKService.js';
+import { BlockService } from '../../src/services/BlockService.js';
+import { RewardService } from '../../src/services/RewardService.js';
+import { InMemoryDatabase, createInMemoryRepositories } from '../../src/repositories/index.js';
+import { ALEO_ADDRESS_PATTERN, BLOCK_HASH_PATTERN, TRANSACTION_ID_PATTERN } from '../../src/utils/validation.js';
+import { FIXTURE_CHAIN, createReplaySDK } from '../helpers/replay.js';
+
+const FIRST_HASH = 'ab1jlu8r5enjajtzgqt85v0j6ecvc96e33yaf5ek6hy4d3excxa5n83hn6lm8';
+
+describe('BlockService against recorded upstream blocks', () => {
+  let sdk: AleoSDKService;
+  let db: InMemoryDatabase;
+  let blockService: BlockService;
+
+  // Stores the first recorded block, or a block at its height from another branch, as the local tip
+  const storeFirstBlock = async (hash?: string) => {
+    const block = (await sdk.getBlockByHeight(FIXTURE_CHAIN.firstHeight))!;
+    await db.saveBlocks([{ ...block, hash: hash ?? block.hash }]);
+  };
+
+  beforeEach(() => {
+    sdk = createReplaySDK();
+    db = new InMemoryDatabase();
+    const repositories = createInMemoryRepositories(db);
+    blockService = new BlockService(
+      sdk,
+      repositories.blocks,
+      repositories.checkpoints,
+      new RewardService(sdk, repositories.committees, repositories.validators)
+    );
+  });
+
+  it('converts a recorded block', async () => {
+    const block = await blockService.getBlockByHeight(FIXTURE_CHAIN.blockWithTransactions);
+
+    expect(block).not.toBeNull();
+    expect(block!.height).toBe(FIXTURE_CHAIN.blockWithTransactions);
+    expect(block!.hash).toMatch(BLOCK_HASH_PATTERN);
+    expect(block!.validator_address).toBe(FIXTURE_CHAIN.validators[0]);
+    expect(block!.certificates).toHaveLength(6);
+    expect(block!.rewards).toEqual({
+      block_reward: BigInt(23_787_843),
+      puzzle_reward: BigInt(0),
+      base_fees: BigInt(4_500),
+      priority_fees: BigInt(1_000),
+    });
+    expect(block!.transaction_summaries.map(tx => [tx.program_ids, tx.fee_payer !== null])).toEqual([
+      [['token_registry.aleo', 'credits.aleo'], true],
+      [['credits.aleo'], true],
+    ]);
+    expect(block!.transaction_summaries.map(tx => tx.id)).toEqual([expect.stringMatching(TRANSACTION_ID_PATTERN), expect.stringMatching(TRANSACTION_ID_PATTERN)]);
+    expect(FIXTURE_CHAIN.validators.filter(address => !ALEO_ADDRESS_PATTERN.test(address))).toEqual([]);
+  });
+
+  it('returns null for a height the upstream does not have yet', async () => {
+    expect(await blockService.getBlockByHeight(FIXTURE_CHAIN.latestHeight + 1)).toBeNull();
+  });
+
+  it('syncs from the checkpoint to the upstream tip with rewards attributed', async () => {
+    await storeFirstBlock();
+    await blockService.syncBlocks();
+
+    const { rows } = await db.listBlocks({ order: 'asc', limit: 10 });
+    expect(rows.map(block => Number(block.height))).toEqual([5018000, 5018001, 5018002, 5018003]);
+    expect(rows[1].previous_hash).toBe(FIRST_HASH);
+    expect(await db.getSyncCheckpoint()).toBe(FIXTURE_CHAIN.latestHeight);
+    expect(await db.getBlockTransactions(FIXTURE_CHAIN.blockWithTransactions)).toHaveLength(2);
+
+    // One-block epochs give one reward bucket per synced block
+    const buckets = await Promise.all(FIXTURE_CHAIN.validators.map(address => db.getValidatorRewards(address, 'epoch', 1)));
+    for (const [index, block] of rows.slice(1).entries()) {
+      const distributed = buckets.reduce((total, rewards) => total + BigInt(rewards[index].gross_reward), BigInt(0));
+      // Integer division leaves at most one microcredit per member undistributed
+      expect(BigInt(block.block_reward!) - distributed).toBeLessThan(BigInt(FIXTURE_CHAIN.validators.length));
+    }
+    // The fourth validator takes its whole share as commission
+    const fourth = buckets[3][0];
+    expect(fourth.commission_reward).toBe(fourth.gross_reward);
+    expect(fourth.delegator_reward).toBe('0');
+
+    expect(blockService.getSyncStatus()).toMatchObject({ currentHeight: FIXTURE_CHAIN.latestHeight, lastError: null });
+  });
+
+  it('recovers certificate signers from the recorded signatures', async () => {
+    await storeFirstBlock();
+    await blockService.syncBlocks();
+
+    // Every committee member signs the other authors' certificates in the recorded rounds
+    for (const validator of FIXTURE_CHAIN.validators) {
+      const participation = await db.getRoundParticipation(validator, 100);
+      expect(participation.roundsParticipated).toBeGreaterThan(0);
+      expect(participation.signatureRate).toBe(1);
+    }
+    // The grouped lookup answers for every address, including ones that never certified
+    const byAddress = await db.getRoundParticipationByAddress([...FIXTURE_CHAIN.validators, 'aleo1unknown'], 100);
+    for (const validator of FIXTURE_CHAIN.validators) {
+      expect(byAddress.get(validator)).toEqual(await db.getRoundParticipation(validator, 100));
+    }
+    expect(byAddress.get('aleo1unknown')).toMatchObject({ roundsParticipated: 0, signatureRate: null });
+  });
+
+  it('rolls back to the common ancestor when the stored parent is not on the recorded chain', async () => {
+    // The stored tip is a block from another branch; nothing is stored below it
+    await storeFirstBlock('ab1staleforkhash');
+
+    await blockService.syncBlocks();
+
+    expect(await db.getReorgs(10)).toMatchObject([{
+      common_ancestor_height: FIXTURE_CHAIN.firstHeight - 1,
+      depth: 1,
+      old_hashes: ['ab1staleforkhash'],
+      new_hashes: [FIRST_HASH],
+    }]);
+    const { rows } = await db.listBlocks({ order: 'asc', limit: 10 });
+    expect(rows.map(block => [Number(block.height), block.hash === FIRST_HASH])).toEqual([
+      [5018000, true], [5018001, false], [5018002, false], [5018003, false],
+    ]);
+  });
+});
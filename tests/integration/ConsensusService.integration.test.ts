@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import ConsensusService from '../../src/services/ConsensusService.js';
+import { FIXTURE_CHAIN, FIXTURES_DIR, createReplaySDK } from '../helpers/replay.js';
+
+describe('ConsensusService against recorded upstream responses', () => {
+  it('connects when the upstream reports a height', async () => {
+    const consensusService = new ConsensusService(createReplaySDK());
+    await expect(consensusService.testConnection()).resolves.toBeUndefined();
+  });
+
+  it('fails the connection test when nothing was recorded', async () => {
+    const consensusService = new ConsensusService(createReplaySDK(`${FIXTURES_DIR}/missing`));
+    await expect(consensusService.testConnection()).rejects.toThrow('Could not connect to Aleo network');
+  });
+
+  it('reads the current round from the highest certificate round of the latest block', async () => {
+    const consensusService = new ConsensusService(createReplaySDK());
+    // The latest block commits rounds 10560406 and 10560407
+    expect(await consensusService.getCurrentRound()).toBe(10560407);
+  });
+
+  it('returns the latest committee', async () => {
+    const consensusService = new ConsensusService(createReplaySDK());
+    const committee = await consensusService.getCommittee();
+    expect(Object.keys(committee.members)).toEqual(FIXTURE_CHAIN.validators);
+    expect(committee.total_stake).toBe(50_000_000_000_000);
+  });
+});
@@ -0,0 +1,60 @@
+import fs from 'fs';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import { AddressInfo } from 'net';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { AleoSDKService } from '../../src/services/AleoSDKService.js';
+
+describe('upstream record and replay', () => {
+  let server: http.Server;
+  let url: string;
+  let fixturesDir: string;
+  let requests = 0;
+
+  beforeAll(async () => {
+    fixturesDir = fs.mkdtempSync(path.join(os.tmpdir(), 'aleo-fixtures-'));
+    server = http.createServer((req, res) => {
+      requests++;
+      if (req.url === '/testnet/latest/height') {
+        res.end('42');
+      } else if (req.url === '/testnet/committee/latest') {
+        res.end(JSON.stringify({ id: 'committee1abc', members: {} }));
+      } else {
+        res.statusCode = 404;
+        res.end('not found');
+      }
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => {
+    server.close();
+    fs.rmSync(fixturesDir, { recursive: true, force: true });
+  });
+
+  it('records responses and failures by request path', async () => {
+    const recorder = new AleoSDKService(url, 'testnet', { mode: 'record', fixturesDir });
+
+    expect(await recorder.getLatestBlockHeight()).toBe(42);
+    expect(await recorder.getLatestCommittee()).toEqual({ id: 'committee1abc', members: {} });
+    expect(await recorder.getBlockByHeight(7)).toBeNull();
+
+    const height = JSON.parse(fs.readFileSync(path.join(fixturesDir, 'latest/height.json'), 'utf8'));
+    expect(height).toMatchObject({ path: '/latest/height', response: 42 });
+    const missing = JSON.parse(fs.readFileSync(path.join(fixturesDir, 'block/7.json'), 'utf8'));
+    expect(missing).toMatchObject({ path: '/block/7', error: expect.any(String) });
+  });
+
+  it('replays the recording without contacting the upstream', async () => {
+    const before = requests;
+    const replay = new AleoSDKService(url, 'testnet', { mode: 'replay', fixturesDir });
+
+    expect(await replay.getLatestBlockHeight()).toBe(42);
+    expect(await replay.getLatestCommittee()).toEqual({ id: 'committee1abc', members: {} });
+    expect(await replay.getBlockByHeight(7)).toBeNull();
+    await expect(replay.getTransaction('at1notrecorded')).rejects.toThrow();
+    expect(requests).toBe(before);
+  });
+});
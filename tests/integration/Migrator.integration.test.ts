@@ -0,0 +1,81 @@
+import { afterEach, beforeEach, describe, expect, it, inject } from 'vitest';
+import pg from 'pg';
+import { Migrator } from '../../src/database/Migrator.js';
+import { TestDatabase, createTestDatabase } from '../helpers/app.js';
+
+// The tables as the baseline's initializeDatabase and Sequelize sync created them
+const BASELINE_SCHEMA = `
+  CREATE TABLE validators (
+    address TEXT PRIMARY KEY,
+    stake BIGINT,
+    is_active BOOLEAN,
+    bonded BIGINT,
+    last_seen TIMESTAMP,
+    total_blocks_produced INTEGER DEFAULT 0,
+    total_rewards BIGINT DEFAULT 0
+  );
+  CREATE TABLE blocks (
+    height BIGINT PRIMARY KEY,
+    hash TEXT NOT NULL,
+    previous_hash TEXT,
+    timestamp BIGINT NOT NULL,
+    transactions_count INT NOT NULL,
+    validator_address TEXT,
+    total_fees BIGINT
+  );
+  CREATE TABLE "Users" (
+    id SERIAL PRIMARY KEY,
+    username VARCHAR(255) NOT NULL UNIQUE,
+    email VARCHAR(255) NOT NULL UNIQUE,
+    "createdAt" TIMESTAMPTZ NOT NULL,
+    "updatedAt" TIMESTAMPTZ NOT NULL
+  );
+  INSERT INTO validators (address, stake) VALUES ('aleo1validator', 1000);
+  INSERT INTO blocks (height, hash, timestamp, transactions_count) VALUES (1, 'ab1block', 1700000000, 0);
+  INSERT INTO "Users" (username, email, "createdAt", "updatedAt") VALUES ('alice', 'alice@example.com', NOW(), NOW());
+`;
+
+describe('Migrator against a throwaway database', () => {
+  let database: TestDatabase;
+  let client: pg.Client;
+  let migrator: Migrator;
+
+  beforeEach(async () => {
+    database = await createTestDatabase(inject('testDatabaseUrl'));
+    client = new pg.Client({ connectionString: database.url });
+    await client.connect();
+    migrator = new Migrator(database.url);
+  });
+
+  afterEach(async () => {
+    await migrator.close();
+    await client.end();
+    await database.drop();
+  });
+
+  it('applies every migration to an empty database and rolls them all back', async () => {
+    await migrator.up();
+    await migrator.check();
+
+    await migrator.down(0);
+
+    const tables = await client.query(`SELECT table_name FROM information_schema.tables WHERE table_schema = 'public'`);
+    expect(tables.rows.map(row => row.table_name)).toEqual(['schema_migrations']);
+  });
+
+  it('upgrades a database created by the baseline startup code', async () => {
+    await client.query(BASELINE_SCHEMA);
+
+    await migrator.up();
+    await migrator.check();
+
+    const user = await client.query(`SELECT username, password_hash, role, disabled FROM "Users"`);
+    expect(user.rows).toEqual([{ username: 'alice', password_hash: null, role: 'viewer', disabled: false }]);
+    await client.query(`UPDATE validators SET previous_stake = stake`);
+    await client.query(`
+      INSERT INTO blocks (height, hash, timestamp, transactions_count, block_reward, puzzle_reward, priority_fees)
+      VALUES (2, 'ab1next', 1700000010, 0, 1, 2, 3)
+    `);
+    await expect(client.query(`UPDATE "Users" SET role = 'root'`)).rejects.toThrow(/users_role_check/);
+  });
+});
@@ -0,0 +1,196 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { AleoSDKService } from '../../src/services/AleoSDKService.js';
+import { BlockService } from '../../src/services/BlockService.js';
+import ConsensusService from '../../src/services/ConsensusService.js';
+import { RewardService } from '../../src/services/RewardService.js';
+import { TransactionService } from '../../src/services/TransactionService.js';
+import { ValidatorService } from '../../src/services/ValidatorService.js';
+import { InMemoryDatabase, createInMemoryRepositories } from '../../src/repositories/index.js';
+import { config } from '../../src/config/index.js';
+import { MockAleoNode, mockAddress } from '../helpers/mockNode.js';
+
+const alice = mockAddress('alice');
+const bob = mockAddress('bob');
+const carol = mockAddress('carol');
+
+const transfer = (id: string) => ({
+  status: 'accepted',
+  type: 'execute',
+  index: 0,
+  transaction: {
+    id,
+    type: 'execute',
+    execution: { transitions: [{ id: `au1${id}`, program: 'credits.aleo', function: 'transfer_public' }] },
+    fee: {
+      transition: {
+        id: `au1fee${id}`,
+        program: 'credits.aleo',
+        function: 'fee_public',
+        inputs: [{ type: 'public', value: '2000u64' }, { type: 'public', value: '500u64' }],
+        outputs: [],
+      },
+    },
+  },
+});
+
+describe('monitor pipeline against a mock Aleo node', () => {
+  let node: MockAleoNode;
+  let sdk: AleoSDKService;
+  let db: InMemoryDatabase;
+  let blockService: BlockService;
+  let validatorService: ValidatorService;
+
+  const storedHashes = async () => (await db.listBlocks({ order: 'asc', limit: 1000 })).rows.map(block => block.hash);
+
+  beforeEach(async () => {
+    node = new MockAleoNode({ [alice]: 6_000, [bob]: 4_000 }, 10);
+    sdk = new AleoSDKService(await node.start(), 'testnet', { mode: 'live' });
+    db = new InMemoryDatabase();
+    const repositories = createInMemoryRepositories(db);
+    validatorService = new ValidatorService(sdk, repositories.validators, repositories.committees, repositories.blocks);
+    blockService = new BlockService(
+      sdk,
+      repositories.blocks,
+      repositories.checkpoints,
+      new RewardService(sdk, repositories.committees, repositories.validators)
+    );
+  });
+
+  afterEach(async () => {
+    await node.stop();
+  });
+
+  it('passes the connection test only while the node reports a height', async () => {
+    const consensusService = new ConsensusService(sdk);
+    await expect(consensusService.testConnection()).resolves.toBeUndefined();
+
+    node.fail('latest/height', 503);
+    await expect(consensusService.testConnection()).rejects.toThrow('Could not connect to Aleo network');
+  });
+
+  it('syncs the chain from genesis and follows it as it advances', async () => {
+    await validatorService.updateValidators();
+    await blockService.syncBlocks(4);
+
+    expect(await storedHashes()).toEqual(Array.from({ length: 11 }, (_, height) => node.hash(height)));
+
+    node.advance(3, { author: carol });
+    node.advance(1, { transactions: [transfer('at1mocktransfer')] });
+    await blockService.syncBlocks(4);
+
+    expect(await db.getLatestBlockHeight()).toBe(14);
+    expect(blockService.getSyncStatus()).toMatchObject({ currentHeight: 14, targetHeight: 14, lastError: null });
+    const transactions = await new TransactionService(db).getBlockTransactions(14);
+    expect(transactions).toMatchObject([{ id: 'at1mocktransfer', base_fee: '2000', priority_fee: '500', program_ids: ['credits.aleo'] }]);
+    // Leaders rotate between the two members by height, except for carol's blocks 11 to 13
+    expect((await db.getValidator(alice))?.total_blocks_produced).toBe(7);
+    expect((await db.getValidator(bob))?.total_blocks_produced).toBe(5);
+  });
+
+  it('records participation from the certificates of every round', async () => {
+    await validatorService.updateValidators();
+    node.advance(4, { author: alice, absent: [bob] });
+    await blockService.syncBlocks();
+
+    const { performance } = await validatorService.getValidatorPerformance(bob, 10);
+    // Rounds of blocks 10 to 14 are in the window; bob certified only the first one
+    expect(performance).toMatchObject({ roundsObserved: 5, roundsParticipated: 1, missedRounds: 4 });
+  });
+
+  it('rolls back to the common ancestor when the node switches to a fork', async () => {
+    await blockService.syncBlocks();
+    const abandoned = [node.hash(8), node.hash(9), node.hash(10)];
+
+    const fork = node.fork(3, 5);
+    await blockService.syncBlocks();
+
+    const [reorg] = await blockService.getReorgs();
+    expect(reorg).toMatchObject({
+      common_ancestor_height: 7,
+      depth: 3,
+      old_hashes: abandoned,
+      new_hashes: fork.slice(0, 3).map(block => block.block_hash),
+    });
+    expect(await storedHashes()).toEqual(Array.from({ length: 13 }, (_, height) => node.hash(height)));
+  });
+
+  it('resolves a fork while the blocks it replaced are still cached', async () => {
+    const { latestTtlMs } = config.aleo.cache;
+    try {
+      await blockService.syncBlocks();
+      config.aleo.cache.latestTtlMs = 60_000;
+      for (const height of [8, 9, 10]) await sdk.getBlockByHeight(height);
+
+      node.fork(3, 5);
+      await blockService.syncBlocks();
+
+      expect(blockService.getSyncStatus().lastError).toBeNull();
+      expect((await blockService.getReorgs())[0]).toMatchObject({ common_ancestor_height: 7, depth: 3 });
+      expect(await storedHashes()).toEqual(Array.from({ length: 13 }, (_, height) => node.hash(height)));
+    } finally {
+      config.aleo.cache.latestTtlMs = latestTtlMs;
+    }
+  });
+
+  it('applies committee changes to the stored validators', async () => {
+    await validatorService.updateValidators();
+
+    node.setCommittee({ [alice]: 7_000, [carol]: 3_000 });
+    node.advance();
+    await validatorService.updateValidators();
+
+    const validators = new Map((await db.getValidators()).map(validator => [validator.address, validator]));
+    expect(validators.get(alice)).toMatchObject({ stake: '7000', previous_stake: '6000', is_active: true });
+    expect(validators.get(bob)).toMatchObject({ is_active: false });
+    expect(validators.get(carol)).toMatchObject({ stake: '3000', is_active: true });
+    expect(await db.getCommitteeSnapshotAtHeight(11)).toMatchObject({ member_count: 2, total_stake: '10000' });
+  });
+
+  it('stops at a block the node fails to serve and resumes on the next run', async () => {
+    node.fail('block', 500, 2);
+    await blockService.syncBlocks(20);
+
+    expect(blockService.getSyncStatus().lastError).toMatch(/^Block \d+ could not be retrieved/);
+    expect(await db.getLatestBlockHeight()).toBeLessThan(10);
+
+    await blockService.syncBlocks(20);
+    expect(await db.getLatestBlockHeight()).toBe(10);
+    expect(blockService.getSyncStatus().lastError).toBeNull();
+  });
+
+  it('caches blocks below the finality depth and refetches those near the tip', async () => {
+    const { finalityDepth } = config.aleo.cache;
+    config.aleo.cache.finalityDepth = 5;
+    try {
+      await sdk.getLatestBlockHeight();
+      for (let i = 0; i < 2; i++) {
+        await sdk.getBlock(5);
+        await sdk.getBlock(6);
+      }
+
+      expect(node.requests.filter(path => path === '/block/5')).toHaveLength(1);
+      expect(node.requests.filter(path => path === '/block/6')).toHaveLength(2);
+    } finally {
+      config.aleo.cache.finalityDepth = finalityDepth;
+    }
+  });
+
+  it('fails over to another endpoint when the preferred one is too slow', async () => {
+    const backup = new MockAleoNode({ [alice]: 6_000, [bob]: 4_000 }, 10);
+    try {
+      const pool = new AleoSDKService([
+        { name: 'slow', url: node.url, fallback: false },
+        { name: 'backup', url: await backup.start(), fallback: true },
+      ], 'testnet', { mode: 'live' });
+      node.delay(1500);
+
+      expect(await pool.getLatestBlockHeight()).toBe(10);
+
+      const [slow] = pool.getUpstreamStatus().endpoints.filter(endpoint => endpoint.name === 'slow');
+      expect(slow).toMatchObject({ failures: 1, last_error: 'getLatestHeight timed out' });
+      expect(backup.requests).toEqual(['/latest/height']);
+    } finally {
+      await backup.stop();
+    }
+  });
+});
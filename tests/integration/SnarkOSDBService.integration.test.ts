@@ -0,0 +1,162 @@
+import { afterEach, beforeEach, describe, expect, it, inject } from 'vitest';
+import pg from 'pg';
+import { SnarkOSDBService } from '../../src/services/SnarkOSDBService.js';
+import { LeaderboardService } from '../../src/services/LeaderboardService.js';
+import { Migrator } from '../../src/database/Migrator.js';
+import { createPostgresRepositories } from '../../src/repositories/index.js';
+import { Block } from '../../src/types/Block.js';
+import { TestDatabase, createTestDatabase } from '../helpers/app.js';
+import { address, buildBlock, certificate } from '../helpers/blocks.js';
+
+const alice = address('alice');
+const bob = address('bob');
+const carol = address('carol');
+
+// Midnight UTC; blocks are 20 minutes apart so heights 0-2 fall into the first hour and 3-5 into the second
+const DAY_START = 1_699_920_000;
+const HOUR = 3600;
+const DAY = 24 * HOUR;
+const at = (seconds: number) => new Date(seconds * 1000);
+
+// The chain of the RollupService unit tests: alice and bob alternate as leaders, bob did not sign
+// alice's certificate at height 1 and missed the round at height 4, and his stake grows at height 4.
+function block(height: number): Block {
+  const round = height * 2 + 1;
+  const authors = [alice, bob, carol].filter(member => height !== 4 || member !== bob);
+  const built = buildBlock(height, {
+    validator: height % 2 === 0 ? alice : bob,
+    timestamp: DAY_START + height * 1200,
+    certificates: authors.map(author => certificate(round, author, authors.filter(signer =>
+      signer !== author && !(height === 1 && signer === bob && author === alice)))),
+  });
+  built.validator_rewards = [
+    { address: bob, stake: BigInt(height >= 4 ? 4500 : 4000), stake_share: 0.4, commission_rate: 10, gross_reward: BigInt(100), commission_reward: BigInt(10), delegator_reward: BigInt(90) },
+  ];
+  return built;
+}
+
+describe('SnarkOSDBService rollups and retention against a throwaway database', () => {
+  let database: TestDatabase;
+  let db: SnarkOSDBService;
+
+  beforeEach(async () => {
+    database = await createTestDatabase(inject('testDatabaseUrl'));
+    const migrator = new Migrator(database.url);
+    await migrator.up();
+    await migrator.close();
+    db = new SnarkOSDBService(database.url);
+    await db.saveBlocks([0, 1, 2, 3, 4, 5].map(block));
+  });
+
+  afterEach(async () => {
+    await db.close();
+    await database.drop();
+  });
+
+  it('aggregates rounds, signatures, blocks, rewards and stake per hour and day', async () => {
+    expect(await db.rebuildRollups(0)).toBe(6);
+
+    const hourly = await db.getValidatorRollups(bob, 'hour');
+    expect(hourly).toEqual([
+      {
+        bucket: at(DAY_START), address: bob, blocks_authored: 1, rounds_observed: 3, rounds_participated: 3,
+        signatures_given: '5', signatures_expected: '6',
+        gross_reward: '300', commission_reward: '30', delegator_reward: '270', stake: '4000',
+      },
+      {
+        bucket: at(DAY_START + HOUR), address: bob, blocks_authored: 2, rounds_observed: 3, rounds_participated: 2,
+        signatures_given: '4', signatures_expected: '4',
+        gross_reward: '300', commission_reward: '30', delegator_reward: '270', stake: '4500',
+      },
+    ]);
+    expect(await db.getValidatorRollups(carol, 'hour', at(DAY_START + HOUR))).toMatchObject([
+      { blocks_authored: 0, rounds_participated: 3, signatures_given: '5', signatures_expected: '5', gross_reward: '0', stake: null },
+    ]);
+
+    expect(await db.getValidatorRollups(bob, 'day')).toEqual([{
+      bucket: at(DAY_START), address: bob, blocks_authored: 3, rounds_observed: 6, rounds_participated: 5,
+      signatures_given: '9', signatures_expected: '10',
+      gross_reward: '600', commission_reward: '60', delegator_reward: '540', stake: '4500',
+    }]);
+  });
+
+  it('replaces the rollups from the hour of the given height onwards', async () => {
+    await db.rebuildRollups(0);
+    await db.rollbackToHeight(3, []);
+
+    expect(await db.rebuildRollups(3)).toBe(3);
+
+    const hourly = await db.getValidatorRollups(bob, 'hour');
+    expect(hourly.map(row => [row.bucket, row.rounds_observed, row.rounds_participated])).toEqual([
+      [at(DAY_START), 3, 3],
+      [at(DAY_START + HOUR), 1, 1],
+    ]);
+    expect(await db.getValidatorRollups(bob, 'day')).toMatchObject([{ rounds_observed: 4, rounds_participated: 4 }]);
+  });
+
+  it('totals the rollups in a range and ranks validators from them', async () => {
+    await db.rebuildRollups(0);
+
+    const totals = await db.getRollupTotals('hour', at(DAY_START), at(DAY_START + 2 * HOUR));
+    expect(totals.roundsObserved).toBe(6);
+    expect(totals.validators.map(row => row.address)).toEqual([alice, bob, carol].sort());
+    expect(totals.validators.find(row => row.address === bob)).toEqual({
+      address: bob,
+      blocks_authored: '3',
+      rounds_participated: '5',
+      signatures_given: '9',
+      signatures_expected: '10',
+      gross_reward: '600',
+      commission_reward: '60',
+      delegator_reward: '540',
+      stake: '4500',
+    });
+    // Buckets are half-open: the second hour starts at the end of the range
+    expect((await db.getRollupTotals('hour', at(DAY_START), at(DAY_START + HOUR))).roundsObserved).toBe(3);
+
+    // Carol left the committee the day before and rejoined at the start of the day
+    const snapshots = [[DAY_START - 9 * DAY, [alice, bob, carol]], [DAY_START - DAY, [alice, bob]], [DAY_START, [alice, bob, carol]]] as const;
+    const client = new pg.Client({ connectionString: database.url });
+    await client.connect();
+    for (const [fetchedAt, members] of snapshots) {
+      const snapshot = await db.insertCommitteeSnapshot({ members: Object.fromEntries(members.map(member => [member, [4000, true, 0]])) }, 0);
+      await client.query('UPDATE committee_snapshots SET fetched_at = $1 WHERE id = $2', [at(fetchedAt), snapshot.id]);
+    }
+    await client.end();
+    const since = await db.getCommitteeMemberSince([alice, bob, carol, address('dave')], at(DAY_START + HOUR));
+    expect(since).toEqual(new Map([[alice, at(DAY_START - 9 * DAY)], [bob, at(DAY_START - 9 * DAY)], [carol, at(DAY_START)]]));
+    expect((await db.getCommitteeMemberSince([carol], at(DAY_START - HOUR))).has(carol)).toBe(false);
+
+    const repositories = createPostgresRepositories(db);
+    const leaderboard = await new LeaderboardService(repositories.rollups, repositories.validators, repositories.committees)
+      .getLeaderboard('1d', at(DAY_START + HOUR));
+    // Only bob earned rewards, so only he scores on commission; alice is ahead of carol on tenure
+    expect(leaderboard.items.map(item => item.address)).toEqual([bob, alice, carol]);
+    expect(leaderboard.items.map(item => item.components.tenure.value)).toEqual([9 + 2 / 24, 9 + 2 / 24, 2 / 24].map(days => expect.closeTo(days)));
+    expect(leaderboard.items[0].components).toMatchObject({ commission: { value: 10 }, stake_concentration: { value: 1 } });
+    expect(leaderboard.items[0].components.participation.value).toBeCloseTo(5 / 6);
+  });
+
+  it('prunes raw data older than the cutoff and below the height, keeping the rollups', async () => {
+    await db.rebuildRollups(0);
+    await db.insertCommitteeSnapshot({ id: 'committee1', starting_round: 1, members: { [bob]: [4000, true, 0] } }, 2);
+    await db.insertCommitteeSnapshot({ id: 'committee2', starting_round: 9, members: { [bob]: [4500, true, 0] } }, 5);
+
+    expect(await db.pruneRawData(at(DAY_START + HOUR), 10)).toEqual({
+      blocks: 3, committee_snapshots: 0, mempool_snapshots: 0, mempool_transactions: 0,
+    });
+    expect((await db.listBlocks({ order: 'asc', limit: 10 })).rows.map(row => Number(row.height))).toEqual([3, 4, 5]);
+    // Certificates and their signers went with their blocks
+    expect(await db.getRoundParticipation(bob, 100)).toEqual({
+      fromRound: 7, toRound: 11, roundsObserved: 3, roundsParticipated: 2, signatureRate: 1,
+    });
+
+    // Only blocks below the height are pruned, and the latest committee snapshot is kept
+    expect(await db.pruneRawData(new Date(Date.now() + 60_000), 4)).toMatchObject({ blocks: 1, committee_snapshots: 1 });
+    expect((await db.listBlocks({ order: 'asc', limit: 10 })).rows.map(row => Number(row.height))).toEqual([4, 5]);
+    expect(await db.getCommitteeSnapshotAtHeight(5)).toMatchObject({ block_height: 5 });
+
+    expect(await db.getValidatorRollups(bob, 'hour')).toHaveLength(2);
+    expect(await db.getValidatorRollups(bob, 'day')).toMatchObject([{ rounds_observed: 6, rounds_participated: 5 }]);
+  });
+});
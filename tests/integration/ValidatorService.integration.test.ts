@@ -0,0 +1,53 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { ValidatorService } from '../../src/services/ValidatorService.js';
+import { InMemoryDatabase, createInMemoryRepositories } from '../../src/repositories/index.js';
+import { eventBus } from '../../src/utils/eventBus.js';
+import { StreamEvent } from '../../src/types/Event.js';
+import { FIXTURE_CHAIN, createReplaySDK } from '../helpers/replay.js';
+
+const [first, second, third, fourth] = FIXTURE_CHAIN.validators;
+const departed = 'aleo1departedvalidator000000000000000000000000000000000000000000';
+
+describe('ValidatorService.updateValidators against the recorded committee', () => {
+  let db: InMemoryDatabase;
+  let validatorService: ValidatorService;
+  let events: StreamEvent[];
+  let unsubscribe: () => void;
+
+  beforeEach(async () => {
+    db = new InMemoryDatabase();
+    await db.upsertValidator({ address: first, stake: '20000000000000', is_active: true, bonded: '10' });
+    await db.upsertValidator({ address: second, stake: '14000000000000', is_active: true, bonded: '5' });
+    await db.upsertValidator({ address: departed, stake: '1000000000000', is_active: true, bonded: '0' });
+
+    const repositories = createInMemoryRepositories(db);
+    validatorService = new ValidatorService(createReplaySDK(), repositories.validators, repositories.committees, repositories.blocks);
+    events = [];
+    unsubscribe = eventBus.subscribe(event => events.push(event));
+  });
+
+  afterEach(() => unsubscribe());
+
+  it('snapshots the committee at the upstream height and upserts every member', async () => {
+    await validatorService.updateValidators();
+
+    const snapshot = await db.getCommitteeSnapshotAtHeight(FIXTURE_CHAIN.latestHeight);
+    expect(snapshot).toMatchObject({ block_height: FIXTURE_CHAIN.latestHeight, member_count: 4, total_stake: '50000000000000' });
+
+    const validators = new Map((await db.getValidators()).map(validator => [validator.address, validator]));
+    expect(validators.get(second)).toMatchObject({ stake: '15000000000000', previous_stake: '14000000000000', is_active: true });
+    expect(validators.get(fourth)).toMatchObject({ stake: '5000000000000', previous_stake: null, bonded: '100' });
+    expect(validators.get(departed)).toMatchObject({ is_active: false, stake: '1000000000000' });
+  });
+
+  it('publishes changed validators and the committee diff', async () => {
+    await validatorService.updateValidators();
+
+    const updated = events.filter(event => event.type === 'validator.updated').map(event => event.data.address);
+    // The first validator is stored exactly as recorded, so only the others are announced
+    expect(updated).toEqual([second, third, fourth]);
+
+    const committeeChanged = events.find(event => event.type === 'committee.changed');
+    expect(committeeChanged?.data).toEqual({ joined: [third, fourth], left: [departed], size: 4 });
+  });
+});
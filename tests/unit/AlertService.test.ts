@@ -0,0 +1,228 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AlertService } from '../../src/services/AlertService.js';
+import { NotificationService } from '../../src/services/NotificationService.js';
+import { InMemoryDatabase, createInMemoryRepositories } from '../../src/repositories/index.js';
+import { AlertRuleInput } from '../../src/types/Alert.js';
+import { GENESIS_TIME, address, buildBlock, certificate, createChainSDK } from '../helpers/blocks.js';
+
+const alice = address('alice');
+const bob = address('bob');
+
+describe('AlertService', () => {
+  let db: InMemoryDatabase;
+  let sdk: ReturnType<typeof createChainSDK>;
+  let notifyAlert: ReturnType<typeof vi.fn>;
+  let alertService: AlertService;
+
+  const createRule = (rule: Partial<AlertRuleInput> & Pick<AlertRuleInput, 'type' | 'params'>) =>
+    db.createAlertRule({ name: rule.type, cooldown_seconds: 0, ...rule });
+  const firing = async () => (await db.getAlerts({ status: 'firing', limit: 100 })).map(alert => [alert.subject, alert.value]);
+
+  beforeEach(() => {
+    db = new InMemoryDatabase();
+    sdk = createChainSDK();
+    notifyAlert = vi.fn(async () => {});
+    const repositories = createInMemoryRepositories(db);
+    alertService = new AlertService(
+      repositories.alerts,
+      repositories.validators,
+      repositories.blocks,
+      repositories.committees,
+      sdk,
+      { notifyAlert } as unknown as NotificationService
+    );
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('validator_participation', () => {
+    beforeEach(async () => {
+      await db.upsertValidator({ address: alice, stake: 1000, is_active: true, bonded: 0 });
+      await db.upsertValidator({ address: bob, stake: 1000, is_active: true, bonded: 0 });
+      await db.saveBlocks([1, 2, 3, 4].map(round => buildBlock(round, {
+        certificates: round === 1 ? [certificate(round, alice), certificate(round, bob)] : [certificate(round, alice)],
+      })));
+    });
+
+    it('fires once per breaching validator and notifies', async () => {
+      const rule = await createRule({ type: 'validator_participation', params: { minRate: 0.5, rounds: 4 } });
+
+      await alertService.evaluateRules();
+      await alertService.evaluateRules();
+
+      expect(await firing()).toEqual([[bob, 0.25]]);
+      expect(notifyAlert).toHaveBeenCalledTimes(1);
+      expect(notifyAlert).toHaveBeenCalledWith(
+        expect.objectContaining({ id: rule.id }),
+        expect.objectContaining({ subject: bob, status: 'firing', message: 'Participation 25.00% over the last 4 rounds is below 50.00%' })
+      );
+    });
+
+    it('resolves the alert once the validator participates again', async () => {
+      await createRule({ type: 'validator_participation', params: { minRate: 0.5, rounds: 4 } });
+      await alertService.evaluateRules();
+
+      await db.saveBlocks([5, 6, 7, 8].map(round => buildBlock(round, {
+        certificates: [certificate(round, alice), certificate(round, bob)],
+      })));
+      await alertService.evaluateRules();
+
+      expect(await firing()).toEqual([]);
+      const [resolved] = await db.getAlerts({ status: 'resolved', limit: 10 });
+      expect(resolved).toMatchObject({ subject: bob, status: 'resolved' });
+      expect(notifyAlert).toHaveBeenLastCalledWith(expect.anything(), expect.objectContaining({ status: 'resolved' }));
+    });
+
+    it('only watches the configured validator', async () => {
+      await createRule({ type: 'validator_participation', params: { minRate: 0.5, rounds: 4, address: alice } });
+
+      await alertService.evaluateRules();
+
+      expect(await firing()).toEqual([]);
+    });
+  });
+
+  it('holds a recurring breach back until the cooldown has passed', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+    await db.saveBlocks([buildBlock(0), buildBlock(1)]);
+    await createRule({ type: 'sync_lag', params: { maxBlocks: 5 }, cooldown_seconds: 600 });
+
+    sdk.latestHeight = 20;
+    await alertService.evaluateRules();
+    sdk.latestHeight = 3;
+    await alertService.evaluateRules();
+    expect(await firing()).toEqual([]);
+
+    sdk.latestHeight = 20;
+    vi.setSystemTime(new Date('2026-01-01T00:05:00Z'));
+    await alertService.evaluateRules();
+    expect(await firing()).toEqual([]);
+
+    vi.setSystemTime(new Date('2026-01-01T00:10:01Z'));
+    await alertService.evaluateRules();
+    expect(await firing()).toEqual([['network', 19]]);
+    expect(notifyAlert).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not report sync lag before the first block is stored', async () => {
+    await createRule({ type: 'sync_lag', params: { maxBlocks: 5 } });
+    sdk.latestHeight = 20;
+
+    await alertService.evaluateRules();
+    expect(await firing()).toEqual([]);
+
+    await db.saveBlocks([buildBlock(1)]);
+    await alertService.evaluateRules();
+    expect(await firing()).toEqual([['network', 19]]);
+  });
+
+  it('fires block_stall when no block arrived within the threshold', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    await db.saveBlocks([buildBlock(0), buildBlock(1)]);
+    await createRule({ type: 'block_stall', params: { maxSeconds: 60 } });
+
+    vi.setSystemTime((GENESIS_TIME + 10 + 60) * 1000);
+    await alertService.evaluateRules();
+    expect(await firing()).toEqual([]);
+
+    vi.setSystemTime((GENESIS_TIME + 10 + 120) * 1000);
+    await alertService.evaluateRules();
+    expect(await firing()).toEqual([['network', 120]]);
+  });
+
+  describe('committee rules', () => {
+    const carol = address('carol');
+    const snapshotAt = async (time: string, members: Record<string, [number, boolean, number]>) => {
+      vi.setSystemTime(new Date(time));
+      await db.insertCommitteeSnapshot({ members }, 0);
+    };
+
+    beforeEach(async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      await snapshotAt('2026-01-01T00:00:00Z', { [alice]: [1000, true, 0], [bob]: [1000, true, 0], [carol]: [1000, true, 0] });
+      await snapshotAt('2026-01-01T01:00:00Z', { [alice]: [1000, true, 0], [bob]: [1000, true, 0] });
+      await snapshotAt('2026-01-01T01:30:00Z', { [alice]: [1050, true, 0], [bob]: [700, true, 0] });
+      vi.setSystemTime(new Date('2026-01-01T02:00:00Z'));
+    });
+
+    it('fires stake_change against the snapshot from the start of the lookback', async () => {
+      await createRule({ type: 'stake_change', params: { maxChangePercent: 10 } });
+
+      await alertService.evaluateRules();
+
+      expect(await firing()).toEqual([[bob, -30]]);
+    });
+
+    it('fires committee_dropout only for validators that left within the lookback', async () => {
+      const rule = await createRule({ type: 'committee_dropout', params: {} });
+      await alertService.evaluateRules();
+      expect(await firing()).toEqual([]);
+
+      await db.updateAlertRule(rule.id, { ...rule, params: { lookbackMinutes: 120 } });
+      await alertService.evaluateRules();
+      expect(await firing()).toEqual([[carol, 0]]);
+    });
+
+    it('does not fire before a second snapshot exists', async () => {
+      db = new InMemoryDatabase();
+      const repositories = createInMemoryRepositories(db);
+      alertService = new AlertService(repositories.alerts, repositories.validators, repositories.blocks,
+        repositories.committees, sdk, { notifyAlert } as unknown as NotificationService);
+      await snapshotAt('2026-01-01T00:00:00Z', { [alice]: [1000, false, 0] });
+      await createRule({ type: 'committee_dropout', params: {} });
+
+      await alertService.evaluateRules();
+
+      expect(await firing()).toEqual([]);
+    });
+  });
+
+  it('skips disabled rules', async () => {
+    await db.saveBlocks([buildBlock(0)]);
+    sdk.latestHeight = 100;
+    await createRule({ type: 'sync_lag', params: { maxBlocks: 5 }, enabled: false });
+
+    await alertService.evaluateRules();
+
+    expect(await firing()).toEqual([]);
+    expect(notifyAlert).not.toHaveBeenCalled();
+  });
+
+  it('keeps evaluating the other rules when one fails', async () => {
+    await db.saveBlocks([buildBlock(0)]);
+    await createRule({ type: 'block_stall', params: { maxSeconds: 60 } });
+    await createRule({ type: 'sync_lag', params: { maxBlocks: 5 } });
+    sdk.latestHeight = 100;
+    db.getLatestBlockTimestamp = async () => { throw new Error('database unavailable'); };
+
+    await alertService.evaluateRules();
+
+    expect(await firing()).toEqual([['network', 100]]);
+  });
+
+  it('validates rule input', async () => {
+    expect(await alertService.validateRule({ name: ' ', type: 'sync_lag' })).toBe('name is required');
+    expect(await alertService.validateRule({ name: 'lag', type: 'reorg' })).toMatch(/^type must be one of: /);
+    expect(await alertService.validateRule({ name: 'lag', type: 'sync_lag', params: {} })).toBe('params.maxBlocks must be a number');
+    expect(await alertService.validateRule({ name: 'lag', type: 'sync_lag', params: { maxBlocks: 5 }, cooldown_seconds: -1 }))
+      .toBe('cooldown_seconds must be a non-negative integer');
+    expect(await alertService.validateRule({ name: 'dropout', type: 'committee_dropout' })).toBeNull();
+  });
+
+  it('only delivers rules to shared channels', async () => {
+    const repositories = createInMemoryRepositories(db);
+    alertService = new AlertService(repositories.alerts, repositories.validators, repositories.blocks,
+      repositories.committees, sdk, new NotificationService(repositories.notifications));
+    const webhook = { name: 'hook', type: 'webhook', config: { url: 'https://hooks.example.com/alerts' } };
+    const shared = await db.createNotificationChannel(webhook);
+    const personal = await db.createNotificationChannel(webhook, 7);
+    const rule = (channelIds: number[]) => ({ name: 'dropout', type: 'committee_dropout', channel_ids: channelIds });
+
+    expect(await alertService.validateRule(rule([shared.id]))).toBeNull();
+    expect(await alertService.validateRule(rule([shared.id, personal.id]))).toBe('channel_ids must reference shared notification channels');
+    expect(await alertService.validateRule(rule([personal.id + 1]))).toBe('channel_ids must reference shared notification channels');
+  });
+});
@@ -0,0 +1,125 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AnalyticsService } from '../../src/services/AnalyticsService.js';
+import { InMemoryDatabase, createInMemoryRepositories } from '../../src/repositories/index.js';
+import { ProgramUsageFilter } from '../../src/types/Repository.js';
+import { TransactionSummary } from '../../src/types/Transaction.js';
+import { GENESIS_TIME, address, buildBlock } from '../helpers/blocks.js';
+
+// An hour after the genesis of built chains, whose first blocks fall in its 22:00 UTC bucket
+const NOW = new Date((GENESIS_TIME + 60 * 60) * 1000);
+const NOW_SECONDS = NOW.getTime() / 1000;
+
+const alice = address('alice');
+const bob = address('bob');
+
+// A transaction of `calls` (program/function pairs) whose fee `payer` pays publicly
+const transaction = (id: string, payer: string, calls: [string, string][], deployed: string | null = null): TransactionSummary => {
+  const transitions = [...calls, ['credits.aleo', 'fee_public']].map(([program_id, function_name], i) => ({
+    id: `au1${id}${i}`,
+    program_id,
+    function_name,
+    is_fee: i === calls.length,
+  }));
+  return {
+    id,
+    position: 0,
+    type: deployed ? 'deploy' : 'execute',
+    status: 'accepted',
+    base_fee: BigInt(1000),
+    priority_fee: BigInt(10),
+    fee_payer: payer,
+    deployed_program: deployed,
+    program_ids: [...new Set(transitions.map(t => t.program_id))],
+    function_names: [...new Set(transitions.map(t => t.function_name))],
+    transitions,
+  };
+};
+
+describe('AnalyticsService', () => {
+  let usageQueries: ProgramUsageFilter[];
+  let analyticsService: AnalyticsService;
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ now: NOW });
+    const db = new InMemoryDatabase();
+    await db.saveBlocks([
+      {
+        ...buildBlock(1),
+        transaction_summaries: [
+          transaction('at1pay', alice, [['credits.aleo', 'transfer_public'], ['credits.aleo', 'transfer_public']]),
+          transaction('at1swap', bob, [['credits.aleo', 'transfer_public'], ['amm.aleo', 'swap']]),
+        ],
+      },
+      {
+        ...buildBlock(2),
+        transaction_summaries: [
+          transaction('at1swap2', alice, [['amm.aleo', 'swap']]),
+          transaction('at1deploy', bob, [], 'quiet.aleo'),
+        ],
+      },
+    ]);
+    usageQueries = [];
+    const getProgramUsage = db.getProgramUsage.bind(db);
+    db.getProgramUsage = async filter => {
+      usageQueries.push(filter);
+      return getProgramUsage(filter);
+    };
+    analyticsService = new AnalyticsService(createInMemoryRepositories(db).analytics);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('ranks programs over the last thirty days by default', async () => {
+    const result = await analyticsService.getTopPrograms({ limit: 2 });
+
+    expect(usageQueries).toEqual([{ from: NOW_SECONDS - 30 * 24 * 60 * 60, to: NOW_SECONDS, limit: 2 }]);
+    expect(result.from).toBe('2023-10-15T23:13:20.000Z');
+    expect(result.programs.map(program => program.program_id)).toEqual(['credits.aleo', 'amm.aleo']);
+    // The deployment's fee transition is not a call, but the deployment still counts towards block space
+    expect(result.programs[0]).toEqual({
+      program_id: 'credits.aleo',
+      calls: 3,
+      transactions: 2,
+      unique_callers: 2,
+      fees: '2020',
+      block_space_share: 0.5,
+    });
+  });
+
+  it('fetches bucketed series only for the top programs', async () => {
+    const result = await analyticsService.getTopPrograms({ bucket: 'hour', limit: 1 });
+
+    expect(usageQueries.filter(query => query.bucket).map(query => query.programId)).toEqual(['credits.aleo']);
+    expect(usageQueries[0].from).toBe(NOW_SECONDS - 24 * 60 * 60);
+    expect('buckets' in result.programs[0] && result.programs[0].buckets).toEqual([
+      { bucket: new Date('2023-11-14T22:00:00.000Z'), calls: 3, transactions: 2, unique_callers: 2, fees: '2020', block_space_share: 0.5 },
+    ]);
+  });
+
+  it('reports zero usage for a program without calls in the range', async () => {
+    const result = await analyticsService.getProgram('quiet.aleo', {});
+
+    expect(result.totals).toEqual({ calls: 0, transactions: 0, unique_callers: 0, fees: '0', block_space_share: 0 });
+    expect(result.deployment).toEqual({
+      program_id: 'quiet.aleo',
+      transaction_id: 'at1deploy',
+      block_height: 2,
+      timestamp: GENESIS_TIME + 20,
+      deployer: bob,
+    });
+    expect(result.functions).toEqual([]);
+  });
+
+  it('breaks a program down by function', async () => {
+    const result = await analyticsService.getProgram('amm.aleo', {});
+
+    expect(result.functions).toEqual([
+      { function_name: 'swap', calls: 2, transactions: 2, unique_callers: 2, fees: '2020', block_space_share: 0.5 },
+    ]);
+    expect(result.function_buckets.map(row => [row.bucket.toISOString(), row.function_name, row.calls])).toEqual([
+      ['2023-11-14T22:00:00.000Z', 'swap', 2],
+    ]);
+  });
+});
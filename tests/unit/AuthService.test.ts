@@ -0,0 +1,56 @@
+import jwt from 'jsonwebtoken';
+import { describe, expect, it } from 'vitest';
+import { AuthError, AuthService, hasRole } from '../../src/services/AuthService.js';
+import { requireRole } from '../../src/api/middleware/auth.js';
+import { config } from '../../src/config/index.js';
+
+// Every case here is decided before the service touches the database
+describe('AuthService', () => {
+  const authService = new AuthService();
+  const rejection = (promise: Promise<unknown>) => promise.then(
+    () => { throw new Error('expected a rejection'); },
+    (error: AuthError) => [error.status, error.message]
+  );
+
+  it('orders roles from viewer to admin', () => {
+    expect(hasRole('admin', 'operator')).toBe(true);
+    expect(hasRole('operator', 'operator')).toBe(true);
+    expect(hasRole('viewer', 'operator')).toBe(false);
+  });
+
+  it('keeps registration closed unless it is enabled', async () => {
+    expect(config.auth.allowRegistration).toBe(false);
+    expect(await rejection(authService.register({ username: 'mallory', email: 'mallory@example.com', password: 'password123' })))
+      .toEqual([403, 'Registration is disabled']);
+  });
+
+  it('rejects incomplete requests with a 400', async () => {
+    expect(await rejection(authService.login('admin', undefined as unknown as string)))
+      .toEqual([400, 'username or email and password are required']);
+    expect(await rejection(authService.refresh(undefined as unknown as string))).toEqual([400, 'refreshToken is required']);
+    expect(await rejection(authService.logout(''))).toEqual([400, 'refreshToken is required']);
+    expect(await rejection(authService.ensureAdmin({ username: 'admin', email: 'admin@example.com', password: 'short' })))
+      .toEqual([400, 'password must be at least 8 characters']);
+  });
+
+  it('only accepts access tokens signed with the configured secret', async () => {
+    const forged = jwt.sign({ sub: '1', role: 'admin', type: 'access' }, 'another secret');
+    const refresh = jwt.sign({ sub: '1', role: 'admin', type: 'refresh' }, config.jwt.secret);
+
+    expect(await rejection(authService.verifyAccessToken(forged))).toEqual([401, 'Invalid token']);
+    expect(await rejection(authService.verifyAccessToken(refresh))).toEqual([401, 'Invalid token']);
+  });
+
+  it('answers 401 without credentials and 403 below the required role', () => {
+    const respond = (user?: { role: 'viewer' | 'operator' | 'admin' }) => {
+      let status = 200;
+      const res = { status: (code: number) => { status = code; return res; }, json: () => res };
+      requireRole('operator')({ user } as any, res as any, () => {});
+      return status;
+    };
+
+    expect(respond()).toBe(401);
+    expect(respond({ role: 'viewer' })).toBe(403);
+    expect(respond({ role: 'admin' })).toBe(200);
+  });
+});
@@ -0,0 +1,189 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { BlockService } from '../../src/services/BlockService.js';
+import { RewardService } from '../../src/services/RewardService.js';
+import { InMemoryDatabase, createInMemoryRepositories } from '../../src/repositories/index.js';
+import { config } from '../../src/config/index.js';
+import { Block } from '../../src/types/Block.js';
+import { encodeCursor } from '../../src/utils/pagination.js';
+import { GENESIS_TIME, address, buildBlock, createChainSDK } from '../helpers/blocks.js';
+
+const alice = address('alice');
+const bob = address('bob');
+
+const chain = (from: number, to: number, options: Parameters<typeof buildBlock>[1] = {}) =>
+  Array.from({ length: to - from + 1 }, (_, i) => buildBlock(from + i, options));
+
+describe('BlockService', () => {
+  let db: InMemoryDatabase;
+  let upstream: Map<number, Block>;
+  let blockService: BlockService;
+
+  const setUpstream = (blocks: Block[]) => {
+    for (const block of blocks) upstream.set(block.height!, block);
+  };
+  const storedHeights = async () => (await db.listBlocks({ order: 'asc', limit: 1000 })).rows.map(block => Number(block.height));
+
+  beforeEach(() => {
+    db = new InMemoryDatabase();
+    upstream = new Map();
+    const sdk = createChainSDK(upstream);
+    const repositories = createInMemoryRepositories(db);
+    blockService = new BlockService(
+      sdk,
+      repositories.blocks,
+      repositories.checkpoints,
+      new RewardService(sdk, repositories.committees, repositories.validators)
+    );
+  });
+
+  describe('syncBlocks', () => {
+    it('syncs from the checkpoint to the upstream tip in batches', async () => {
+      setUpstream(chain(0, 12));
+      await db.saveBlocks(chain(0, 2));
+
+      await blockService.syncBlocks(4);
+
+      expect(await storedHeights()).toEqual(Array.from({ length: 13 }, (_, i) => i));
+      expect(await db.getSyncCheckpoint()).toBe(12);
+      expect(blockService.getSyncStatus()).toMatchObject({ running: false, currentHeight: 12, targetHeight: 12, lastError: null });
+    });
+
+    it('stops at a missing block and resumes from it on the next run', async () => {
+      setUpstream([...chain(0, 4), ...chain(6, 8)]);
+
+      await blockService.syncBlocks(3);
+
+      expect(await storedHeights()).toEqual([0, 1, 2, 3, 4]);
+      expect(await db.getSyncCheckpoint()).toBe(4);
+      expect(blockService.getSyncStatus().lastError).toBe('Block 5 could not be retrieved, stopping synchronization');
+
+      setUpstream([buildBlock(5)]);
+      await blockService.syncBlocks(3);
+
+      expect(await storedHeights()).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8]);
+      expect(blockService.getSyncStatus().lastError).toBeNull();
+    });
+
+    it('counts produced blocks for known validators', async () => {
+      await db.upsertValidator({ address: alice, stake: 1000, is_active: true, bonded: 0 });
+      setUpstream([buildBlock(0, { validator: alice }), buildBlock(1, { validator: bob }), buildBlock(2, { validator: alice })]);
+
+      await blockService.syncBlocks();
+
+      const validator = await db.getValidator(alice);
+      expect(validator?.total_blocks_produced).toBe(2);
+      expect(validator?.last_seen).toEqual(new Date((GENESIS_TIME + 20) * 1000));
+      expect(await db.getValidator(bob)).toBeNull();
+    });
+
+    it('rolls back to the common ancestor when the upstream switched branches', async () => {
+      await db.upsertValidator({ address: alice, stake: 1000, is_active: true, bonded: 0 });
+      await db.saveBlocks([...chain(0, 3), ...chain(4, 6, { validator: alice })]);
+      // The upstream replaced everything above height 4 with a longer fork
+      setUpstream([
+        ...chain(0, 4),
+        buildBlock(5, { branch: 'fork', parentBranch: 'main' }),
+        ...chain(6, 8, { branch: 'fork' }),
+      ]);
+
+      await blockService.syncBlocks();
+
+      const [reorg] = await blockService.getReorgs();
+      expect(reorg).toMatchObject({
+        common_ancestor_height: 4,
+        depth: 2,
+        old_hashes: ['ab1main5', 'ab1main6'],
+        new_hashes: ['ab1fork5', 'ab1fork6'],
+      });
+      expect(await storedHeights()).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8]);
+      expect(await db.getBlockHash(6)).toBe('ab1fork6');
+      // Blocks 5 and 6 of the old branch no longer count for their producer
+      expect((await db.getValidator(alice))?.total_blocks_produced).toBe(1);
+      expect(blockService.getSyncStatus().lastError).toBeNull();
+    });
+
+    it('refuses a fork that does not show up upstream', async () => {
+      await db.saveBlocks(chain(0, 3));
+      setUpstream([...chain(0, 3), buildBlock(4, { parentBranch: 'elsewhere' })]);
+
+      await blockService.syncBlocks();
+
+      expect(await storedHeights()).toEqual([0, 1, 2, 3]);
+      expect(blockService.getSyncStatus().lastError).toBe('Block 4 does not link to stored block 3, but no fork was found upstream');
+      expect(await blockService.getReorgs()).toEqual([]);
+    });
+
+    it('stops at forks deeper than the configured reorg depth', async () => {
+      const { maxReorgDepth } = config.sync;
+      config.sync.maxReorgDepth = 2;
+      try {
+        await db.saveBlocks(chain(0, 6));
+        // The upstream replaced everything above height 3
+        setUpstream([...chain(0, 3), buildBlock(4, { branch: 'fork', parentBranch: 'main' }), ...chain(5, 7, { branch: 'fork' })]);
+
+        await blockService.syncBlocks();
+
+        expect(blockService.getSyncStatus().lastError).toBe('Reorg deeper than 2 blocks below height 6, manual intervention required');
+        expect(await db.getBlockHash(6)).toBe('ab1main6');
+        expect(await blockService.getReorgs()).toEqual([]);
+
+        // A fork exactly as deep as the limit is still followed
+        config.sync.maxReorgDepth = 3;
+        await blockService.syncBlocks();
+
+        expect(await blockService.getReorgs()).toMatchObject([{ common_ancestor_height: 3, depth: 3 }]);
+        expect(await db.getBlockHash(7)).toBe('ab1fork7');
+      } finally {
+        config.sync.maxReorgDepth = maxReorgDepth;
+      }
+    });
+
+    it('skips a run while another one is in progress', async () => {
+      setUpstream(chain(0, 3));
+
+      await Promise.all([blockService.syncBlocks(), blockService.syncBlocks()]);
+
+      expect(await storedHeights()).toEqual([0, 1, 2, 3]);
+      expect(await db.getReorgs(10)).toEqual([]);
+    });
+  });
+
+  describe('listBlocks', () => {
+    beforeEach(async () => {
+      await db.saveBlocks(chain(0, 9).map((block, i) => ({ ...block, validator_address: i % 2 === 0 ? alice : bob })));
+    });
+
+    it('pages newest first with a cursor', async () => {
+      const first = await blockService.listBlocks({ limit: '4' });
+      expect(first.items.map(block => Number(block.height))).toEqual([9, 8, 7, 6]);
+      expect(first.total).toBe(10);
+
+      const second = await blockService.listBlocks({ limit: '4', cursor: first.nextCursor });
+      expect(second.items.map(block => Number(block.height))).toEqual([5, 4, 3, 2]);
+
+      const third = await blockService.listBlocks({ limit: '4', cursor: second.nextCursor });
+      expect(third.items.map(block => Number(block.height))).toEqual([1, 0]);
+      expect(third.nextCursor).toBeNull();
+    });
+
+    it('applies height, time and validator filters', async () => {
+      const page = await blockService.listBlocks({
+        order: 'asc',
+        from_height: '2',
+        to: String(GENESIS_TIME + 70),
+        validator: bob,
+      });
+
+      expect(page.items.map(block => Number(block.height))).toEqual([3, 5, 7]);
+      expect(page.total).toBe(3);
+    });
+
+    it('checks the cursor against the sort order', () => {
+      const nextCursor = encodeCursor({ height: 5, order: 'desc' });
+
+      expect(blockService.validateListQuery({ from: String(GENESIS_TIME), cursor: nextCursor })).toBeNull();
+      expect(blockService.validateListQuery({ order: 'asc', cursor: nextCursor })).toBe('cursor was issued for a different sort order');
+      expect(blockService.validateListQuery({ cursor: 'garbage' })).toBe('cursor is invalid');
+    });
+  });
+});
@@ -0,0 +1,57 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { CommitteeService } from '../../src/services/CommitteeService.js';
+import { InMemoryDatabase, createInMemoryRepositories } from '../../src/repositories/index.js';
+import { encodeCursor } from '../../src/utils/pagination.js';
+import { address } from '../helpers/blocks.js';
+
+const alice = address('alice');
+const bob = address('bob');
+
+describe('CommitteeService', () => {
+  let db: InMemoryDatabase;
+  let committeeService: CommitteeService;
+
+  beforeEach(async () => {
+    db = new InMemoryDatabase();
+    committeeService = new CommitteeService(createInMemoryRepositories(db).committees);
+    // Bob joins with the second snapshot and alice's stake grows with each one after
+    for (let index = 0; index < 5; index++) {
+      const members: Record<string, [number, boolean, number]> = { [alice]: [1000 + index * 100, true, 0] };
+      if (index > 0) members[bob] = [500, true, 0];
+      await db.insertCommitteeSnapshot({ id: `committee${index}`, starting_round: index * 10, members }, index * 100);
+    }
+  });
+
+  it('pages through the history newest first and diffs each snapshot against the one taken before it', async () => {
+    const first = await committeeService.getHistory({ limit: '2' });
+    expect(first.total).toBe(5);
+    expect(first.items.map(snapshot => snapshot.block_height)).toEqual([400, 300]);
+    expect(first.items[1].diff).toEqual({
+      joined: [],
+      left: [],
+      stakeChanges: [{ address: alice, from: '1200', to: '1300', delta: '100' }],
+    });
+
+    const second = await committeeService.getHistory({ limit: '2', cursor: first.nextCursor });
+    const third = await committeeService.getHistory({ limit: '2', cursor: second.nextCursor });
+    expect(second.items.map(snapshot => snapshot.block_height)).toEqual([200, 100]);
+    // The oldest snapshot on a page is diffed against the newest one of the next
+    expect(second.items[1].diff!.joined).toEqual([bob]);
+    expect(third).toMatchObject({ nextCursor: null, items: [{ block_height: 0, diff: null }] });
+  });
+
+  it('returns the oldest snapshots first when asked to', async () => {
+    const page = await committeeService.getHistory({ order: 'asc', limit: '3' });
+
+    expect(page.items.map(snapshot => snapshot.block_height)).toEqual([0, 100, 200]);
+    expect(page.nextCursor).not.toBeNull();
+  });
+
+  it('validates history queries', () => {
+    const nextCursor = encodeCursor({ id: 3, order: 'desc' });
+
+    expect(committeeService.validateHistoryQuery({ from: '1700000000', cursor: nextCursor })).toBeNull();
+    expect(committeeService.validateHistoryQuery({ order: 'asc', cursor: nextCursor })).toBe('cursor was issued for a different sort order');
+    expect(committeeService.validateHistoryQuery({ cursor: 'garbage' })).toBe('cursor is invalid');
+  });
+});
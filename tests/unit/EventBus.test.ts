@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { EventBus, matchesSubscription, parseSubscription } from '../../src/utils/eventBus.js';
+import { StreamEvent } from '../../src/types/Event.js';
+import { address } from '../helpers/blocks.js';
+
+const alice = address('alice');
+const bob = address('bob');
+
+describe('EventBus', () => {
+  it('delivers events to subscribers until they unsubscribe', () => {
+    const bus = new EventBus();
+    const received: StreamEvent[] = [];
+    const unsubscribe = bus.subscribe(event => received.push(event));
+
+    bus.publish('block.new', { height: 1 });
+    unsubscribe();
+    bus.publish('block.new', { height: 2 });
+
+    expect(received.map(event => [event.id, event.data.height])).toEqual([[1, 1]]);
+  });
+
+  it('replays the buffered events after the last seen id', () => {
+    const bus = new EventBus();
+    for (let height = 1; height <= 1005; height++) {
+      bus.publish('block.new', { height });
+    }
+
+    expect(bus.since(1002).map(event => event.id)).toEqual([1003, 1004, 1005]);
+    // Only the most recent 1000 events are kept
+    expect(bus.since(0)[0].id).toBe(6);
+  });
+
+  it('filters by event type and by the validators an event concerns', () => {
+    const bus = new EventBus();
+    const subscription = parseSubscription({ types: 'validator.updated,committee.changed,bogus', addresses: [alice] });
+    expect([...subscription.types!]).toEqual(['validator.updated', 'committee.changed']);
+
+    const forAlice = bus.publish('validator.updated', {}, [alice]);
+    const forBob = bus.publish('validator.updated', {}, [bob]);
+    const networkWide = bus.publish('committee.changed', {});
+    const block = bus.publish('block.new', {});
+
+    expect([forAlice, forBob, networkWide, block].map(event => matchesSubscription(event, subscription)))
+      .toEqual([true, false, true, false]);
+    expect(matchesSubscription(forBob, parseSubscription({}))).toBe(true);
+  });
+});
@@ -0,0 +1,149 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { LeaderboardService } from '../../src/services/LeaderboardService.js';
+import { RollupService } from '../../src/services/RollupService.js';
+import { InMemoryDatabase, createInMemoryRepositories } from '../../src/repositories/index.js';
+import { SCORE_WEIGHTS, scoreValidator } from '../../src/utils/scoring.js';
+import { Block, ValidatorReward } from '../../src/types/Block.js';
+import { address, buildBlock, certificate } from '../helpers/blocks.js';
+
+const alice = address('alice');
+const bob = address('bob');
+
+// Midnight UTC of the first day
+const DAY_START = 1_699_920_000;
+const DAY = 86400;
+const at = (seconds: number) => new Date(seconds * 1000);
+
+const reward = (validator: string, commission: number): ValidatorReward => ({
+  address: validator,
+  stake: BigInt(5000),
+  stake_share: 0.5,
+  commission_rate: commission,
+  gross_reward: BigInt(100),
+  commission_reward: BigInt(commission),
+  delegator_reward: BigInt(100 - commission),
+});
+
+function block(height: number, timestamp: number, absent?: string): Block {
+  const round = height * 2 + 1;
+  const authors = [alice, bob].filter(member => member !== absent);
+  const built = buildBlock(height, {
+    validator: authors[0],
+    timestamp,
+    certificates: authors.map(author => certificate(round, author, authors.filter(other => other !== author))),
+  });
+  built.validator_rewards = [reward(alice, 10), reward(bob, 10)];
+  return built;
+}
+
+describe('LeaderboardService', () => {
+  let db: InMemoryDatabase;
+  let leaderboardService: LeaderboardService;
+
+  beforeEach(async () => {
+    db = new InMemoryDatabase();
+    const repositories = createInMemoryRepositories(db);
+    leaderboardService = new LeaderboardService(repositories.rollups, repositories.validators, repositories.committees);
+    // Alice misses a round on the first day, bob on the second
+    await db.saveBlocks([
+      block(0, DAY_START),
+      block(1, DAY_START + 600, alice),
+      block(2, DAY_START + 1200),
+      block(3, DAY_START + DAY),
+      block(4, DAY_START + DAY + 600, bob),
+      block(5, DAY_START + DAY + 1200),
+    ]);
+    await new RollupService(repositories.rollups, repositories.checkpoints, repositories.blocks).updateRollups();
+    // Bob left the committee for a day and rejoined at the start of the first day
+    const snapshot = async (fetchedAt: number, members: string[]) => {
+      vi.setSystemTime(at(fetchedAt));
+      await db.insertCommitteeSnapshot({ members: Object.fromEntries(members.map(member => [member, [5000, true, 0]])) }, 0);
+    };
+    vi.useFakeTimers({ toFake: ['Date'] });
+    await snapshot(DAY_START - 9 * DAY, [alice, bob]);
+    await snapshot(DAY_START - DAY, [alice]);
+    await snapshot(DAY_START, [alice, bob]);
+    vi.useRealTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('ranks validators by score and reports the rank change since the previous window', async () => {
+    const leaderboard = await leaderboardService.getLeaderboard('1d', at(DAY_START + DAY + 1800));
+
+    expect(leaderboard).toMatchObject({
+      window: '1d',
+      from: at(DAY_START + 3600).toISOString(),
+      to: at(DAY_START + DAY + 3600).toISOString(),
+      previous_from: at(DAY_START + 3600 - DAY).toISOString(),
+    });
+    expect(leaderboard.items.map(({ rank, previous_rank, rank_change, address }) => ({ rank, previous_rank, rank_change, address }))).toEqual([
+      { rank: 1, previous_rank: 2, rank_change: 1, address: alice },
+      { rank: 2, previous_rank: 1, rank_change: -1, address: bob },
+    ]);
+    expect(leaderboard.items[1].components).toMatchObject({
+      participation: { value: 2 / 3, score: 2 / 3, weight: SCORE_WEIGHTS.participation },
+      signatures: { value: 1, score: 1 },
+      commission: { value: 10, score: 0.9 },
+      stake_concentration: { value: 0.5, score: 1 },
+      tenure: { value: 1 + 1 / 24, score: (1 + 1 / 24) / 90 },
+    });
+    // Alice has been in every committee snapshot since the first one
+    expect(leaderboard.items[0].components.tenure.value).toBeCloseTo(10 + 1 / 24);
+  });
+
+  it('ranks everyone as new when the previous window has no rollups', async () => {
+    const leaderboard = await leaderboardService.getLeaderboard('30d', at(DAY_START + DAY));
+
+    expect(leaderboard.items.map(item => [item.address, item.rank_change])).toEqual([[alice, null], [bob, null]]);
+    expect(leaderboard.items[0].components.participation.value).toBe(5 / 6);
+  });
+
+  it('limits the number of entries', async () => {
+    const leaderboard = await leaderboardService.getLeaderboard('7d', at(DAY_START + DAY), 1);
+
+    expect(leaderboard.items).toHaveLength(1);
+  });
+});
+
+describe('scoreValidator', () => {
+  const inputs = {
+    roundsObserved: 10,
+    roundsParticipated: 10,
+    signaturesGiven: BigInt(20),
+    signaturesExpected: BigInt(20),
+    grossReward: BigInt(1000),
+    commissionReward: BigInt(0),
+    stakeShare: 0.25,
+    rankedValidators: 4,
+    tenureDays: 90,
+  };
+
+  it('scores a flawless validator 100', () => {
+    expect(scoreValidator(inputs).score).toBe(100);
+  });
+
+  it('scores stake above an equal share down in proportion', () => {
+    const { components } = scoreValidator({ ...inputs, stakeShare: 0.5 });
+
+    expect(components.stake_concentration.score).toBe(0.5);
+  });
+
+  it('counts components that cannot be measured as 0', () => {
+    const { score, components } = scoreValidator({ ...inputs, grossReward: BigInt(0), roundsParticipated: 5 });
+
+    expect(components.commission).toEqual({ value: null, score: null, weight: SCORE_WEIGHTS.commission });
+    expect(score).toBeCloseTo(100 * (1 - SCORE_WEIGHTS.commission - SCORE_WEIGHTS.participation / 2), 2);
+  });
+
+  it('never ranks a validator with missing data above an equal one measured on every component', () => {
+    // Weak signatures and commission, which an average over the measured components alone would reward leaving out
+    const measured = scoreValidator({ ...inputs, roundsParticipated: 8, signaturesGiven: BigInt(18), commissionReward: BigInt(500) });
+    const unmeasured = scoreValidator({ ...inputs, roundsParticipated: 8, signaturesExpected: BigInt(0), grossReward: BigInt(0) });
+
+    expect(unmeasured.components.signatures.score).toBeNull();
+    expect(unmeasured.score).toBeLessThan(measured.score);
+  });
+});
@@ -0,0 +1,106 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MempoolService } from '../../src/services/MempoolService.js';
+import { PrimaryService } from '../../src/services/PrimaryService.js';
+import { InMemoryDatabase, createInMemoryRepositories } from '../../src/repositories/index.js';
+import { config } from '../../src/config/index.js';
+import { TransactionSummary } from '../../src/types/Transaction.js';
+import { GENESIS_TIME, buildBlock } from '../helpers/blocks.js';
+
+// Five seconds before block 1 of built chains
+const START = new Date((GENESIS_TIME + 5) * 1000);
+
+const execution = (id: string): TransactionSummary => ({
+  id,
+  position: 0,
+  type: 'execute',
+  status: 'accepted',
+  base_fee: BigInt(1000),
+  priority_fee: BigInt(0),
+  fee_payer: null,
+  deployed_program: null,
+  program_ids: ['credits.aleo'],
+  function_names: ['transfer_public', 'fee_public'],
+  transitions: [],
+});
+
+describe('MempoolService', () => {
+  let db: InMemoryDatabase;
+  let pending: { id: string }[];
+  let samples: string[][];
+  let reconciliations: [number, number][];
+  let mempoolService: MempoolService;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ now: START });
+    db = new InMemoryDatabase();
+    pending = [];
+    samples = [];
+    reconciliations = [];
+    const recordMempoolSample = db.recordMempoolSample.bind(db);
+    db.recordMempoolSample = async ids => {
+      samples.push(ids);
+      return recordMempoolSample(ids);
+    };
+    const reconcileMempool = db.reconcileMempool.bind(db);
+    db.reconcileMempool = async (droppedAfterSeconds, recheckDepth) => {
+      reconciliations.push([droppedAfterSeconds, recheckDepth]);
+      return reconcileMempool(droppedAfterSeconds, recheckDepth);
+    };
+    const primaryService = { collectTransmissions: async () => pending.map(tx => ({ id: tx.id, data: tx })) };
+    mempoolService = new MempoolService(primaryService as unknown as PrimaryService, createInMemoryRepositories(db).mempool);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('records each pending transaction once and reconciles against blocks that may still reorg', async () => {
+    pending = [{ id: 'at1a' }, { id: 'at1b' }, { id: 'at1a' }];
+
+    await mempoolService.sample();
+
+    expect(samples).toEqual([['at1a', 'at1b']]);
+    expect(reconciliations).toEqual([[config.mempool.droppedAfterSeconds, config.sync.maxReorgDepth]]);
+    expect((await mempoolService.getHistory()).map(snapshot => [snapshot.size, snapshot.new_count])).toEqual([[2, 2]]);
+  });
+
+  it('skips a sample while another one is in progress', async () => {
+    await Promise.all([mempoolService.sample(), mempoolService.sample()]);
+
+    expect(samples).toHaveLength(1);
+  });
+
+  it('marks sampled transactions as included or, once gone long enough, dropped', async () => {
+    pending = [{ id: 'at1a' }, { id: 'at1b' }];
+    await mempoolService.sample();
+    await db.saveBlocks([{ ...buildBlock(1), transaction_summaries: [execution('at1a')] }]);
+    vi.advanceTimersByTime((config.mempool.droppedAfterSeconds + 10) * 1000);
+    pending = [];
+
+    await mempoolService.sample();
+
+    const stats = await mempoolService.getStats();
+    expect(stats).toMatchObject({
+      current_size: 0,
+      average_size: 1,
+      max_size: 2,
+      seen: 2,
+      included: 1,
+      pending: 0,
+      dropped: 1,
+      inclusion_latency_seconds: { count: 1, p50: 5 },
+    });
+    expect((await mempoolService.getDropped()).map(transaction => transaction.id)).toEqual(['at1b']);
+  });
+
+  it('reports the last day unless a range is given', async () => {
+    pending = [{ id: 'at1a' }];
+    await mempoolService.sample();
+
+    const stats = await mempoolService.getStats(undefined, new Date(START.getTime() + 24 * 60 * 60 * 1000));
+    const later = await mempoolService.getStats(undefined, new Date(START.getTime() + 24 * 60 * 60 * 1000 + 1));
+
+    expect(stats).toMatchObject({ from: START.toISOString(), seen: 1, pending: 1, average_size: 1 });
+    expect(later).toMatchObject({ seen: 0, average_size: null, current_size: 1 });
+  });
+});
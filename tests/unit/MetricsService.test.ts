@@ -0,0 +1,63 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { MetricsService } from '../../src/services/MetricsService.js';
+import { InMemoryDatabase, createInMemoryRepositories } from '../../src/repositories/index.js';
+import { UpstreamStatus } from '../../src/types/Upstream.js';
+import { address, buildBlock, certificate, createChainSDK } from '../helpers/blocks.js';
+
+const alice = address('alice');
+const bob = address('bob');
+
+describe('MetricsService', () => {
+  let db: InMemoryDatabase;
+  let metricsService: MetricsService;
+
+  beforeEach(async () => {
+    db = new InMemoryDatabase();
+    const sdk = Object.assign(createChainSDK(), {
+      getUpstreamStatus: () => ({
+        network_height: 5,
+        selected: 'primary',
+        endpoints: [{ name: 'primary', state: 'healthy', height: 5, latency_ms: 250, error_rate: 0.1 } as UpstreamStatus],
+      }),
+    });
+    sdk.latestHeight = 5;
+    const repositories = createInMemoryRepositories(db);
+    metricsService = new MetricsService(repositories.validators, repositories.blocks, sdk);
+
+    await db.upsertValidator({ address: alice, stake: 1000, is_active: true, bonded: 900 });
+    await db.upsertValidator({ address: bob, stake: 500, is_active: false, bonded: 0 });
+    await db.saveBlocks([
+      buildBlock(1, { certificates: [certificate(10, alice)] }),
+      buildBlock(2, { certificates: [certificate(11, alice), certificate(11, bob)] }),
+    ]);
+  });
+
+  it('exports validator, sync and upstream gauges', async () => {
+    const metrics = await metricsService.getMetrics();
+
+    expect(metrics).toContain(`aleo_validator_stake_microcredits{address="${alice}"} 1000`);
+    expect(metrics).toContain(`aleo_validator_bonded_microcredits{address="${alice}"} 900`);
+    expect(metrics).toContain(`aleo_validator_is_active{address="${bob}"} 0`);
+    expect(metrics).toContain(`aleo_validator_participation_rate{address="${alice}"} 1`);
+    expect(metrics).toContain(`aleo_validator_participation_rate{address="${bob}"} 0.5`);
+    expect(metrics).toContain('aleo_sync_local_height 2');
+    expect(metrics).toContain('aleo_sync_network_height 5');
+    expect(metrics).toContain('aleo_sync_lag_blocks 3');
+    expect(metrics).toContain('aleo_upstream_endpoint_healthy{endpoint="primary"} 1');
+    expect(metrics).toContain('aleo_upstream_endpoint_latency_seconds{endpoint="primary"} 0.25');
+  });
+
+  it('reads the participation of every validator in a single query', async () => {
+    let calls = 0;
+    const getRoundParticipationByAddress = db.getRoundParticipationByAddress.bind(db);
+    db.getRoundParticipationByAddress = async (addresses, windowRounds) => {
+      calls++;
+      return getRoundParticipationByAddress(addresses, windowRounds);
+    };
+    db.getRoundParticipation = async () => { throw new Error('queried one validator at a time'); };
+
+    await metricsService.getMetrics();
+
+    expect(calls).toBe(1);
+  });
+});
@@ -0,0 +1,79 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { NetworkService } from '../../src/services/NetworkService.js';
+import { InMemoryDatabase, createInMemoryRepositories } from '../../src/repositories/index.js';
+import { GENESIS_TIME, address, buildBlock, certificate } from '../helpers/blocks.js';
+
+// 22:14:35 UTC, 35 seconds into the minute of the newest block
+const NOW = new Date((GENESIS_TIME + 75) * 1000);
+const NOW_SECONDS = NOW.getTime() / 1000;
+
+const alice = address('alice');
+const bob = address('bob');
+
+describe('NetworkService', () => {
+  let queries: [number, number, string | undefined][];
+  let networkService: NetworkService;
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ now: NOW });
+    const db = new InMemoryDatabase();
+    await db.insertCommitteeSnapshot({ members: { [alice]: [1000, true, 0], [bob]: [1000, true, 0] }, total_stake: 2000 }, 0);
+    // Blocks 1-3 fall in the 22:13 minute and 4-7 in the 22:14 one; only alice signs certificates
+    await db.saveBlocks([1, 2, 3, 4, 5, 6, 7].map(height => ({
+      ...buildBlock(height, { certificates: [certificate(2 * height, alice), certificate(2 * height + 1, alice)] }),
+      transactions: new Array(10).fill({}),
+    })));
+    queries = [];
+    const getNetworkStats = db.getNetworkStats.bind(db);
+    db.getNetworkStats = async (from, to, bucket) => {
+      queries.push([from, to, bucket]);
+      return getNetworkStats(from, to, bucket);
+    };
+    const repositories = createInMemoryRepositories(db);
+    networkService = new NetworkService(repositories.blocks, repositories.network);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('reports each rolling window ending now', async () => {
+    const stats = await networkService.getStats();
+
+    expect(queries.map(([from, to]) => to - from)).toEqual([60 * 60, 24 * 60 * 60, 7 * 24 * 60 * 60]);
+    expect(queries.every(([, to]) => to === NOW_SECONDS)).toBe(true);
+    expect(stats.current_round).toBe(15);
+    expect(stats.windows['1h']).toEqual({
+      blocks: 7,
+      from_height: 1,
+      to_height: 7,
+      transactions: 70,
+      transactions_per_second: 0.0194,
+      block_interval_seconds: { p50: 10, p95: 10, max: 10, average: 10 },
+      rounds_per_block: 2,
+      committee_size: 2,
+      total_stake: '2000',
+      stake_participation: 0.5,
+    });
+  });
+
+  it('reports a window without blocks as empty', async () => {
+    vi.advanceTimersByTime(2 * 60 * 60 * 1000);
+
+    const stats = await networkService.getStats();
+
+    expect(stats.windows['1h']).toMatchObject({ blocks: 0, from_height: null, transactions_per_second: 0, total_stake: null });
+    expect(stats.windows['24h']).toMatchObject({ blocks: 7, from_height: 1 });
+  });
+
+  it('measures the throughput of the newest bucket over the part that has elapsed', async () => {
+    const series = await networkService.getSeries('1h');
+
+    expect(series.bucket).toBe('minute');
+    expect(queries).toEqual([[NOW_SECONDS - 60 * 60, NOW_SECONDS, 'minute']]);
+    expect(series.points.map(point => [point.bucket.toISOString(), point.blocks, point.transactions_per_second])).toEqual([
+      ['2023-11-14T22:13:00.000Z', 3, 0.5],
+      ['2023-11-14T22:14:00.000Z', 4, 1.1429],
+    ]);
+  });
+});
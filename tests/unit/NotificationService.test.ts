@@ -0,0 +1,193 @@
+import crypto from 'crypto';
+import http from 'http';
+import { AddressInfo } from 'net';
+import express from 'express';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { NotificationService } from '../../src/services/NotificationService.js';
+import { InMemoryDatabase, createInMemoryRepositories } from '../../src/repositories/index.js';
+import { config } from '../../src/config/index.js';
+import { publicOnlyLookup } from '../../src/utils/network.js';
+import { NotificationChannelInput } from '../../src/types/Notification.js';
+import notificationRoutes from '../../src/api/routes/notifications.js';
+import { address } from '../helpers/blocks.js';
+
+describe('NotificationService', () => {
+  const original = { ...config.notifications };
+  let db: InMemoryDatabase;
+  let notificationService: NotificationService;
+  let server: http.Server;
+  let received: number;
+  let failures: number;
+  let requests: { headers: http.IncomingHttpHeaders, body: string }[];
+  let localUrl: string;
+
+  const channel = (input: Partial<NotificationChannelInput>, ownerId: number | null = null) =>
+    db.createNotificationChannel({ name: 'test', type: 'webhook', config: { url: localUrl }, ...input }, ownerId);
+
+  beforeEach(async () => {
+    config.notifications.maxAttempts = 1;
+    config.notifications.retryBaseDelayMs = 1;
+    db = new InMemoryDatabase();
+    notificationService = new NotificationService(createInMemoryRepositories(db).notifications);
+    received = 0;
+    failures = 0;
+    requests = [];
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => body += chunk);
+      req.on('end', () => {
+        received++;
+        requests.push({ headers: req.headers, body });
+        res.statusCode = received <= failures ? 503 : 200;
+        res.end();
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    localUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+  });
+
+  afterEach(async () => {
+    Object.assign(config.notifications, original);
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('renders the template, signs webhook bodies and retries failed deliveries', async () => {
+    config.notifications.maxAttempts = 3;
+    failures = 2;
+    const webhook = await channel({ config: { url: localUrl, secret: 's3cret' }, template: '{{event}} on {{subject}}: {{unknown}}' });
+
+    const delivery = await notificationService.sendTestNotification(webhook);
+
+    expect(delivery).toMatchObject({ status: 'delivered', attempts: 3, last_error: null, payload: 'test on network: {{unknown}}' });
+    expect(delivery.delivered_at).not.toBeNull();
+    const { headers, body } = requests[2];
+    const expected = crypto.createHmac('sha256', 's3cret').update(`${headers['x-signature-timestamp']}.${body}`).digest('hex');
+    expect(headers['x-signature-256']).toBe(`sha256=${expected}`);
+    expect(JSON.parse(body)).toMatchObject({ event: 'test', subject: 'network', text: 'test on network: {{unknown}}' });
+  });
+
+  it('records the last error once every attempt failed', async () => {
+    config.notifications.maxAttempts = 2;
+    failures = 2;
+
+    const webhook = await channel({});
+    const delivery = await notificationService.sendTestNotification(webhook);
+
+    expect(delivery).toMatchObject({ status: 'failed', attempts: 2, last_error: 'Request failed with status code 503', delivered_at: null });
+    expect(await notificationService.getDeliveries({ channelId: webhook.id })).toEqual([delivery]);
+  });
+
+  it('notifies the rule\'s channels and the enabled channels subscribed to the subject once each', async () => {
+    const alice = address('alice');
+    const shared = await channel({ name: 'shared' });
+    const personal = await channel({ name: 'personal' }, 7);
+    const muted = await channel({ name: 'muted', enabled: false }, 8);
+    const other = await channel({ name: 'other' }, 9);
+    await db.upsertWatchlistEntry(7, alice, null);
+    await db.upsertWatchlistEntry(8, alice, null);
+    await db.createWatchlistSubscription(7, personal.id, [], false);
+    await db.createWatchlistSubscription(7, shared.id, ['validator_participation'], true);
+    await db.createWatchlistSubscription(8, muted.id, [], true);
+    await db.createWatchlistSubscription(9, other.id, [], true);
+    const rule = await db.createAlertRule({ name: 'participation', type: 'validator_participation', params: { minRate: 0.5 }, channel_ids: [shared.id] });
+    const alert = await db.insertAlert(rule.id, alice, 'Participation below 50.00%', 0.25);
+
+    await notificationService.notifyAlert(rule, alert);
+    await notificationService.notifyAlert(rule, await db.resolveAlert(alert.id));
+
+    const deliveries = await db.getNotificationDeliveries({ limit: 100 });
+    expect(deliveries.map(delivery => [delivery.channel_id, delivery.event]).sort()).toEqual([
+      [shared.id, 'firing'],
+      [shared.id, 'resolved'],
+      [personal.id, 'firing'],
+    ].sort());
+    expect(deliveries.every(delivery => delivery.alert_id === alert.id)).toBe(true);
+
+    // The operators' delivery log leaves out personal channels
+    expect((await notificationService.getDeliveries({})).map(delivery => delivery.channel_id)).toEqual([shared.id, shared.id]);
+    expect(await notificationService.getDeliveries({ channelId: personal.id })).toEqual([]);
+  });
+
+  it('limits personal channels to safe types and public destinations', () => {
+    const input = (type: string, channelConfig: Record<string, any>) => ({ name: 'mine', type, config: channelConfig });
+
+    expect(notificationService.validateChannel(input('webhook', { url: 'https://hooks.example.com/alerts' }), true)).toBeNull();
+    expect(notificationService.validateChannel(input('email', { host: 'smtp.internal', port: 25, from: 'a@b.c', to: 'x@y.z' }), true))
+      .toBe('type must be one of: webhook, slack, discord, telegram');
+    expect(notificationService.validateChannel(input('telegram', { botToken: 't', chatId: '1', apiUrl: 'http://10.0.0.1' }), true))
+      .toBe('config.apiUrl is not supported for personal channels');
+    for (const url of [localUrl, 'http://169.254.169.254/latest/meta-data', 'http://[::1]/', 'http://localhost./', 'http://[::ffff:10.0.0.1]/']) {
+      expect(notificationService.validateChannel(input('webhook', { url }), true))
+        .toBe('config.url must not point to a loopback, private or link-local address');
+    }
+    expect(notificationService.validateChannel(input('slack', { webhookUrl: 'file:///etc/passwd' }), true))
+      .toBe('config.webhookUrl must be an http or https URL');
+
+    // Shared channels are configured by administrators and may use internal hosts
+    expect(notificationService.validateChannel(input('webhook', { url: localUrl }))).toBeNull();
+  });
+
+  it('does not deliver through a stored personal channel that points at a private address', async () => {
+    const personal = await notificationService.sendTestNotification(await channel({}, 7));
+    expect(personal).toMatchObject({ status: 'failed' });
+    expect(received).toBe(0);
+
+    const shared = await notificationService.sendTestNotification(await channel({}));
+    expect(shared).toMatchObject({ status: 'delivered' });
+    expect(received).toBe(1);
+  });
+
+  it('refuses names that resolve to private addresses unless they are allowed', async () => {
+    const resolve = (allowedHosts: string[]) => new Promise<string>((done, fail) =>
+      publicOnlyLookup(allowedHosts)('localhost', {}, (error, address) => error ? fail(error) : done(address as string)));
+
+    await expect(resolve([])).rejects.toThrow('localhost resolves to a non-public address');
+    expect(await resolve(['localhost'])).toMatch(/^(127\.0\.0\.1|::1)$/);
+  });
+});
+
+describe('notification channel routes', () => {
+  let db: InMemoryDatabase;
+  let server: http.Server;
+  let url: string;
+
+  beforeAll(async () => {
+    db = new InMemoryDatabase();
+    const app = express();
+    app.use(express.json());
+    app.use((req, res, next) => {
+      req.user = { userId: 1, username: 'operator', role: 'operator', method: 'jwt' };
+      next();
+    });
+    app.use('/api/notifications', notificationRoutes(new NotificationService(createInMemoryRepositories(db).notifications)));
+    server = app.listen(0, '127.0.0.1');
+    await new Promise(resolve => server.once('listening', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/notifications/channels`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('hides personal channels from operators', async () => {
+    const input = { name: 'mine', type: 'telegram' as const, config: { botToken: 'secret-token', chatId: '1' } };
+    const personal = await db.createNotificationChannel(input, 7);
+    const shared = await db.createNotificationChannel({ ...input, name: 'shared' }, null);
+    const send = (method: string, path: string, body?: unknown) => fetch(`${url}${path}`, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+    expect((await send('GET', `/${shared.id}`)).status).toBe(200);
+    const fetched = await send('GET', `/${personal.id}`);
+    expect(fetched.status).toBe(404);
+    expect(JSON.stringify(await fetched.json())).not.toContain('secret-token');
+    expect((await send('PUT', `/${personal.id}`, { ...input, name: 'taken' })).status).toBe(404);
+    expect((await send('POST', `/${personal.id}/test`)).status).toBe(404);
+    expect((await send('DELETE', `/${personal.id}`)).status).toBe(404);
+    expect(await send('GET', '').then(res => res.json())).toEqual([expect.objectContaining({ id: shared.id })]);
+
+    expect(await db.getNotificationChannel(personal.id)).toMatchObject({ name: 'mine', owner_id: 7 });
+  });
+});
@@ -0,0 +1,74 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { RewardService } from '../../src/services/RewardService.js';
+import { InMemoryDatabase, createInMemoryRepositories } from '../../src/repositories/index.js';
+import { Block } from '../../src/types/Block.js';
+import { address, buildBlock, certificate, createChainSDK } from '../helpers/blocks.js';
+
+const alice = address('alice');
+const bob = address('bob');
+
+const rewardedBlock = (height: number, blockReward: number): Block => ({
+  ...buildBlock(height, { certificates: [certificate(height * 2, alice)] }),
+  rewards: { block_reward: BigInt(blockReward), puzzle_reward: BigInt(500), base_fees: BigInt(0), priority_fees: BigInt(0) },
+});
+
+describe('RewardService', () => {
+  let db: InMemoryDatabase;
+  let sdk: ReturnType<typeof createChainSDK>;
+  let rewardService: RewardService;
+
+  beforeEach(() => {
+    db = new InMemoryDatabase();
+    // Alice holds 3/4 of the stake at 10% commission; bob 1/4 and keeps nothing
+    sdk = createChainSDK(new Map(), { members: { [alice]: [3000, true, 10], [bob]: [1000, true, 0] } });
+    const repositories = createInMemoryRepositories(db);
+    rewardService = new RewardService(sdk, repositories.committees, repositories.validators);
+  });
+
+  it('splits the block reward by stake share and commission', async () => {
+    const block = rewardedBlock(1, 1001);
+
+    await rewardService.attributeRewards([block]);
+
+    expect(block.validator_rewards).toEqual([
+      expect.objectContaining({ address: alice, stake_share: 0.75, gross_reward: BigInt(750), commission_reward: BigInt(75), delegator_reward: BigInt(675) }),
+      expect.objectContaining({ address: bob, stake_share: 0.25, gross_reward: BigInt(250), commission_reward: BigInt(0), delegator_reward: BigInt(250) }),
+    ]);
+  });
+
+  it('attributes nothing for blocks without a block reward', async () => {
+    const block = rewardedBlock(1, 0);
+
+    await rewardService.attributeRewards([block]);
+
+    expect(block.validator_rewards).toEqual([]);
+  });
+
+  it('falls back to the stored committee snapshot when the upstream has none', async () => {
+    await db.insertCommitteeSnapshot({ id: 'committee1old', members: { [alice]: [1000, true, 1000], [bob]: [1000, true, 50] } }, 0);
+    sdk.getCommitteeByHeight = async () => { throw new Error('upstream unavailable'); };
+    const block = rewardedBlock(1, 100);
+
+    await rewardService.attributeRewards([block]);
+
+    // A bonded amount stored where the commission now is counts as no commission
+    expect(block.validator_rewards!.map(reward => [reward.address, reward.gross_reward, reward.commission_reward])).toEqual([
+      [alice, BigInt(50), BigInt(0)],
+      [bob, BigInt(50), BigInt(25)],
+    ]);
+  });
+
+  it('sums stored rewards per epoch', async () => {
+    const blocks = [rewardedBlock(1, 400), rewardedBlock(2, 400), rewardedBlock(360, 800)];
+    await rewardService.attributeRewards(blocks);
+    await db.saveBlocks(blocks);
+
+    const rewards = await rewardService.getValidatorRewards(bob, 'epoch');
+
+    expect(rewards.totals).toEqual({ gross_reward: '400', commission_reward: '0', delegator_reward: '400' });
+    expect(rewards.buckets.map(bucket => [bucket.epoch, bucket.blocks, bucket.gross_reward])).toEqual([
+      [0, 2, '200'],
+      [1, 1, '200'],
+    ]);
+  });
+});
@@ -0,0 +1,132 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { RollupService } from '../../src/services/RollupService.js';
+import { InMemoryDatabase, createInMemoryRepositories } from '../../src/repositories/index.js';
+import { config } from '../../src/config/index.js';
+import { Block } from '../../src/types/Block.js';
+import { address, buildBlock, certificate } from '../helpers/blocks.js';
+
+const alice = address('alice');
+const bob = address('bob');
+const carol = address('carol');
+
+// Midnight UTC; blocks are 20 minutes apart so heights 0-2 fall into the first hour and 3-5 into the second
+const DAY_START = 1_699_920_000;
+const HOUR = 3600;
+const at = (seconds: number) => new Date(seconds * 1000);
+
+// Alice and bob alternate as leaders; every member certifies the round unless absent, and each
+// certificate is signed by the other authors except for the `unsigned` [signer, author] pairs.
+function block(height: number, options: { branch?: string, absent?: string[], unsigned?: [string, string][], bobStake?: number } = {}): Block {
+  const round = height * 2 + 1;
+  const authors = [alice, bob, carol].filter(member => !options.absent?.includes(member));
+  const built = buildBlock(height, {
+    branch: options.branch,
+    validator: height % 2 === 0 ? alice : bob,
+    timestamp: DAY_START + height * 1200,
+    certificates: authors.map(author => certificate(round, author, authors.filter(signer =>
+      signer !== author && !options.unsigned?.some(([s, a]) => s === signer && a === author)))),
+  });
+  built.validator_rewards = [
+    { address: bob, stake: BigInt(options.bobStake ?? 4000), stake_share: 0.4, commission_rate: 10, gross_reward: BigInt(100), commission_reward: BigInt(10), delegator_reward: BigInt(90) },
+  ];
+  return built;
+}
+
+describe('RollupService', () => {
+  let db: InMemoryDatabase;
+  let rollupService: RollupService;
+  const original = { sync: { ...config.sync }, retention: { ...config.retention } };
+
+  beforeEach(async () => {
+    db = new InMemoryDatabase();
+    const repositories = createInMemoryRepositories(db);
+    rollupService = new RollupService(repositories.rollups, repositories.checkpoints, repositories.blocks);
+    await db.saveBlocks([
+      block(0),
+      block(1, { unsigned: [[bob, alice]] }),
+      block(2),
+      block(3),
+      block(4, { absent: [bob], bobStake: 4500 }),
+      block(5, { bobStake: 4500 }),
+    ]);
+  });
+
+  afterEach(() => {
+    Object.assign(config.sync, original.sync);
+    Object.assign(config.retention, original.retention);
+  });
+
+  it('aggregates blocks, rounds, signatures, rewards and stake per hour and day', async () => {
+    await rollupService.updateRollups();
+
+    const hourly = await rollupService.getPerformanceHistory(bob, at(DAY_START), at(DAY_START + 3 * HOUR));
+    expect(hourly.granularity).toBe('hour');
+    expect(hourly.points).toMatchObject([
+      { bucket: at(DAY_START).toISOString(), blocks_authored: 1, rounds_observed: 3, rounds_participated: 3, gross_reward: '300', stake: '4000' },
+      { bucket: at(DAY_START + HOUR).toISOString(), blocks_authored: 2, rounds_observed: 3, rounds_participated: 2, gross_reward: '300', stake: '4500' },
+    ]);
+    // 5 of 6 signatures in the first hour, where bob did not sign alice's certificate
+    expect(hourly.points[0].signature_rate).toBeCloseTo(5 / 6);
+    expect(hourly.totals).toMatchObject({ blocks_authored: 3, rounds_observed: 6, rounds_participated: 5, gross_reward: '600', delegator_reward: '540' });
+    expect(hourly.totals.participation_rate).toBeCloseTo(5 / 6);
+    expect(hourly.totals.signature_rate).toBeCloseTo(9 / 10);
+
+    const daily = await rollupService.getPerformanceHistory(bob, at(DAY_START), at(DAY_START + 3 * HOUR), 'day');
+    expect(daily.points).toMatchObject([{ bucket: at(DAY_START).toISOString(), ...hourly.totals, stake: '4500' }]);
+    expect(await db.getSyncCheckpoint('rollups')).toBe(5);
+  });
+
+  it('rebuilds the rollups of blocks replaced by a reorg', async () => {
+    await rollupService.updateRollups();
+    await db.rollbackToHeight(3, []);
+    await db.saveBlocks([block(4, { branch: 'fork' }), block(5, { branch: 'fork', absent: [bob] })]);
+    await rollupService.updateRollups();
+
+    const { points } = await rollupService.getPerformanceHistory(bob, at(DAY_START), at(DAY_START + 3 * HOUR), 'hour');
+    expect(points[1]).toMatchObject({ rounds_observed: 3, rounds_participated: 2, blocks_authored: 2 });
+    const { points: [day] } = await rollupService.getPerformanceHistory(bob, at(DAY_START), at(DAY_START + 3 * HOUR), 'day');
+    expect(day).toMatchObject({ rounds_observed: 6, rounds_participated: 5 });
+  });
+
+  it('defaults to the last 30 days in daily buckets and to hourly buckets for up to a week', async () => {
+    const to = at(DAY_START + 10 * 24 * HOUR);
+    expect(await rollupService.getPerformanceHistory(bob, undefined, to)).toMatchObject({
+      granularity: 'day',
+      from: at(DAY_START - 20 * 24 * HOUR).toISOString(),
+    });
+    expect((await rollupService.getPerformanceHistory(bob, at(DAY_START + 3 * 24 * HOUR), to)).granularity).toBe('hour');
+  });
+
+  it('prunes raw data past its retention but keeps the rollups and everything the next update rebuilds', async () => {
+    config.sync.maxReorgDepth = 2;
+    config.retention.rawDays = 1;
+    config.retention.hourlyRollupDays = 1;
+    await rollupService.updateRollups();
+
+    await rollupService.applyRetention();
+
+    // Height 4 and above may still be rebuilt, and so may the rest of its hour (from height 3)
+    const { rows } = await db.listBlocks({ order: 'asc', limit: 10 });
+    expect(rows.map(row => Number(row.height))).toEqual([3, 4, 5]);
+    // Hourly rows of the day the next update rebuilds are kept
+    const before = await rollupService.getPerformanceHistory(bob, at(DAY_START), at(DAY_START + 3 * HOUR), 'hour');
+    expect(before.points).toHaveLength(2);
+
+    await rollupService.updateRollups();
+    const after = await rollupService.getPerformanceHistory(bob, at(DAY_START), at(DAY_START + 3 * HOUR), 'hour');
+    expect(after).toEqual(before);
+  });
+
+  it('skips retention until blocks beyond the reorg depth are rolled up', async () => {
+    config.retention.rawDays = 1;
+
+    await rollupService.applyRetention();
+
+    expect((await db.listBlocks({ order: 'asc', limit: 10 })).total).toBe(6);
+  });
+
+  it('validates history queries', () => {
+    expect(rollupService.validateHistoryQuery({ from: '2023-11-01', to: '1700000000', bucket: 'day' })).toBeNull();
+    expect(rollupService.validateHistoryQuery({ from: '1700000100', to: '1700000000' })).toBe('from must not be after to');
+  });
+});
@@ -0,0 +1,82 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { TransactionService } from '../../src/services/TransactionService.js';
+import { InMemoryDatabase, createInMemoryRepositories } from '../../src/repositories/index.js';
+import { Block } from '../../src/types/Block.js';
+import { TransactionSummary } from '../../src/types/Transaction.js';
+import { GENESIS_TIME, buildBlock } from '../helpers/blocks.js';
+
+// An execution of `calls` (program/function pairs) paying its fee publicly
+const execution = (id: string, position: number, calls: [string, string][]): TransactionSummary => {
+  const transitions = [...calls, ['credits.aleo', 'fee_public']].map(([program_id, function_name], i) => ({
+    id: `au1${id}${i}`,
+    program_id,
+    function_name,
+    is_fee: i === calls.length,
+  }));
+  return {
+    id,
+    position,
+    type: 'execute',
+    status: 'accepted',
+    base_fee: BigInt(1000),
+    priority_fee: BigInt(10),
+    fee_payer: null,
+    deployed_program: null,
+    program_ids: [...new Set(transitions.map(t => t.program_id))],
+    function_names: [...new Set(transitions.map(t => t.function_name))],
+    transitions,
+  };
+};
+
+const blockWith = (height: number, transactions: TransactionSummary[]): Block => ({
+  ...buildBlock(height),
+  transaction_summaries: transactions,
+});
+
+describe('TransactionService', () => {
+  let db: InMemoryDatabase;
+  let transactionService: TransactionService;
+
+  beforeEach(async () => {
+    db = new InMemoryDatabase();
+    transactionService = new TransactionService(createInMemoryRepositories(db).transactions);
+    await db.saveBlocks([
+      blockWith(1, [execution('at1swap', 0, [['token_registry.aleo', 'transfer_public'], ['amm.aleo', 'swap']])]),
+      blockWith(2, [
+        execution('at1transfer', 0, [['credits.aleo', 'transfer_public']]),
+        execution('at1mint', 1, [['token_registry.aleo', 'mint_public']]),
+      ]),
+    ]);
+  });
+
+  it('indexes transactions with their fees and transitions', async () => {
+    const transaction = await transactionService.getTransaction('at1swap');
+
+    expect(transaction).toMatchObject({ block_height: '1', fee: '1010', transition_count: 3, timestamp: String(GENESIS_TIME + 10) });
+    expect(transaction!.transitions.map(t => [t.program_id, t.function_name, t.is_fee])).toEqual([
+      ['token_registry.aleo', 'transfer_public', false],
+      ['amm.aleo', 'swap', false],
+      ['credits.aleo', 'fee_public', true],
+    ]);
+    expect((await transactionService.getBlockTransactions(2)).map(t => t.id)).toEqual(['at1transfer', 'at1mint']);
+  });
+
+  it('filters by program and by function within that program, newest first', async () => {
+    const byProgram = await transactionService.getTransactions({ program: 'token_registry.aleo' });
+    expect(byProgram.map(t => t.id)).toEqual(['at1mint', 'at1swap']);
+
+    // Every execution calls credits.aleo for its fee, but only one calls its transfer_public
+    const byFunction = await transactionService.getTransactions({ program: 'credits.aleo', function: 'transfer_public' });
+    expect(byFunction.map(t => t.id)).toEqual(['at1transfer']);
+
+    const inTime = await transactionService.getTransactions({ to: new Date((GENESIS_TIME + 10) * 1000), limit: 10 });
+    expect(inTime.map(t => t.id)).toEqual(['at1swap']);
+  });
+
+  it('drops the transactions of blocks removed by a reorg', async () => {
+    await db.rollbackToHeight(1, ['ab1fork2']);
+
+    expect(await transactionService.getTransaction('at1transfer')).toBeNull();
+    expect(await transactionService.getBlockTransactions(2)).toEqual([]);
+  });
+});
@@ -0,0 +1,78 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { UpstreamCache } from '../../src/services/UpstreamCache.js';
+
+describe('UpstreamCache', () => {
+  let cache: UpstreamCache;
+  let loads: number;
+
+  const load = (value: unknown) => async () => {
+    loads++;
+    return value;
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    cache = new UpstreamCache(2);
+    loads = 0;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('serves an entry until its TTL expires', async () => {
+    expect(await cache.get('latest', 'height', load(10), () => 1000)).toBe(10);
+    vi.advanceTimersByTime(999);
+    expect(await cache.get('latest', 'height', load(11), () => 1000)).toBe(10);
+    vi.advanceTimersByTime(1);
+    expect(await cache.get('latest', 'height', load(11), () => 1000)).toBe(11);
+    expect(loads).toBe(2);
+  });
+
+  it('reloads an invalidated entry', async () => {
+    await cache.get('block', 'block:10', load('ab10'), () => null);
+    cache.invalidate('block:10');
+
+    expect(await cache.get('block', 'block:10', load('ab10fork'), () => null)).toBe('ab10fork');
+    expect(loads).toBe(2);
+  });
+
+  it('keeps entries without a TTL and never stores a TTL of zero, empty results or failures', async () => {
+    await cache.get('block', 'block:1', load('ab1'), () => null);
+    vi.advanceTimersByTime(24 * 60 * 60 * 1000);
+    expect(await cache.get('block', 'block:1', load('other'), () => null)).toBe('ab1');
+
+    await cache.get('mempool', 'mempool', load([]), () => 0);
+    await cache.get('mempool', 'mempool', load([]), () => 0);
+    await cache.get('block', 'block:2', load(null), () => null);
+    await cache.get('block', 'block:2', load(null), () => null);
+    await expect(cache.get('block', 'block:3', () => Promise.reject(new Error('unavailable')), () => null)).rejects.toThrow();
+    expect(await cache.get('block', 'block:3', load('ab3'), () => null)).toBe('ab3');
+    expect(loads).toBe(6);
+  });
+
+  it('shares one request between identical concurrent reads', async () => {
+    let resolve!: (value: string) => void;
+    const pending = new Promise<string>(done => { resolve = done; });
+    const first = cache.get('transaction', 'tx', () => pending, () => null);
+    const second = cache.get('transaction', 'tx', load('other'), () => null);
+
+    resolve('at1');
+
+    expect(await Promise.all([first, second])).toEqual(['at1', 'at1']);
+    expect(loads).toBe(0);
+    expect(cache.getStats().categories.transaction).toEqual({ hits: 0, misses: 1, coalesced: 1, hit_rate: 0.5 });
+  });
+
+  it('evicts the least recently used entry', async () => {
+    await cache.get('block', 'a', load('a'), () => null);
+    await cache.get('block', 'b', load('b'), () => null);
+    // Reading `a` makes `b` the least recently used
+    await cache.get('block', 'a', load('a'), () => null);
+    await cache.get('block', 'c', load('c'), () => null);
+
+    expect(await cache.get('block', 'a', load('a2'), () => null)).toBe('a');
+    expect(await cache.get('block', 'b', load('b2'), () => null)).toBe('b2');
+    expect(cache.getStats()).toMatchObject({ entries: 2, max_entries: 2, evictions: 2 });
+  });
+});
@@ -0,0 +1,99 @@
+import { AleoNetworkClient } from '@provablehq/sdk';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { UpstreamPool } from '../../src/services/UpstreamPool.js';
+import { config } from '../../src/config/index.js';
+import { UpstreamEndpoint } from '../../src/types/Upstream.js';
+
+// A client whose answers the test controls per endpoint
+interface FakeNode {
+  height: number;
+  hash: string;
+  failing: boolean;
+  calls: number;
+}
+
+const endpoint = (name: string, fallback = false): UpstreamEndpoint => ({ name, url: `http://${name}.test`, fallback });
+
+describe('UpstreamPool', () => {
+  let nodes: Record<string, FakeNode>;
+  let pool: UpstreamPool;
+
+  const createPool = (endpoints: UpstreamEndpoint[]) => new UpstreamPool(endpoints, ({ name }) => {
+    const node = nodes[name];
+    return {
+      getLatestHeight: async () => {
+        node.calls++;
+        if (node.failing) throw new Error(`${name} unavailable`);
+        return node.height;
+      },
+      getBlock: async (height: number) => {
+        node.calls++;
+        return { block_hash: `${node.hash}${height}` };
+      },
+    } as unknown as AleoNetworkClient;
+  });
+  const latestHeight = () => pool.request('getLatestHeight', client => client.getLatestHeight());
+  const states = () => Object.fromEntries(pool.getStatus().endpoints.map(status => [status.name, status.state]));
+
+  beforeEach(() => {
+    nodes = {
+      own: { height: 100, hash: 'ab1', failing: false, calls: 0 },
+      public: { height: 100, hash: 'ab1', failing: false, calls: 0 },
+    };
+    pool = createPool([endpoint('public', true), endpoint('own')]);
+  });
+
+  it('prefers our own node over a fallback', async () => {
+    expect(await latestHeight()).toBe(100);
+    expect(nodes.own.calls).toBe(1);
+    expect(nodes.public.calls).toBe(0);
+    expect(pool.getStatus().selected).toBe('own');
+  });
+
+  it('fails over on errors and marks an endpoint down after repeated failures', async () => {
+    nodes.own.failing = true;
+
+    for (let i = 0; i < config.aleo.upstream.failureThreshold; i++) {
+      expect(await latestHeight()).toBe(100);
+    }
+    expect(nodes.public.calls).toBe(config.aleo.upstream.failureThreshold);
+    expect(states()).toEqual({ own: 'down', public: 'healthy' });
+
+    // While it cools off, the down endpoint is only tried after the others
+    await latestHeight();
+    expect(nodes.own.calls).toBe(config.aleo.upstream.failureThreshold);
+  });
+
+  it('treats SDK errors returned as values as failures', async () => {
+    const result = pool.request('getBlock', async () => new Error('not found'));
+
+    await expect(result).rejects.toThrow('not found');
+    expect(pool.getStatus().endpoints.map(status => status.failures)).toEqual([1, 1]);
+  });
+
+  it('routes around endpoints that lag behind or lack the requested height', async () => {
+    nodes.own.height = 100 - config.aleo.upstream.maxLagBlocks - 1;
+    await pool.checkHealth();
+
+    expect(states()).toEqual({ own: 'lagging', public: 'healthy' });
+    expect(pool.getStatus().selected).toBe('public');
+
+    nodes.own.height = 99;
+    await pool.checkHealth();
+    expect(pool.getStatus().selected).toBe('own');
+    nodes.own.calls = 0;
+    await pool.request('getBlock', client => client.getBlock(100), { minHeight: 100 });
+    expect(nodes.own.calls).toBe(0);
+  });
+
+  it('flags an endpoint that disagrees with the majority on block hashes', async () => {
+    nodes.other = { height: 100, hash: 'ab1', failing: false, calls: 0 };
+    nodes.own.hash = 'ab1fork';
+    pool = createPool([endpoint('own'), endpoint('public', true), endpoint('other', true)]);
+
+    await pool.checkHealth();
+
+    expect(states()).toEqual({ own: 'diverged', public: 'healthy', other: 'healthy' });
+    expect(pool.getStatus().endpoints[0].diverged_at_height).toBe(100 - config.aleo.upstream.hashCheckDepth);
+  });
+});
@@ -0,0 +1,227 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { ValidatorService } from '../../src/services/ValidatorService.js';
+import { InMemoryDatabase, createInMemoryRepositories } from '../../src/repositories/index.js';
+import { eventBus } from '../../src/utils/eventBus.js';
+import { StreamEvent } from '../../src/types/Event.js';
+import { address, buildBlock, certificate, createChainSDK } from '../helpers/blocks.js';
+
+const alice = address('alice');
+const bob = address('bob');
+const carol = address('carol');
+
+describe('ValidatorService', () => {
+  let db: InMemoryDatabase;
+  let sdk: ReturnType<typeof createChainSDK>;
+  let validatorService: ValidatorService;
+
+  beforeEach(() => {
+    db = new InMemoryDatabase();
+    sdk = createChainSDK();
+    const repositories = createInMemoryRepositories(db);
+    validatorService = new ValidatorService(sdk, repositories.validators, repositories.committees, repositories.blocks);
+  });
+
+  describe('updateValidators', () => {
+    let events: StreamEvent[];
+    let unsubscribe: () => void;
+
+    beforeEach(() => {
+      events = [];
+      unsubscribe = eventBus.subscribe(event => events.push(event));
+    });
+
+    afterEach(() => unsubscribe());
+
+    it('keeps the previous stake and deactivates validators that left the committee', async () => {
+      sdk.committee = { members: { [alice]: [1000, true, 10], [bob]: [500, true, 0] } };
+      sdk.latestHeight = 100;
+      await validatorService.updateValidators();
+
+      sdk.committee = { members: { [alice]: [1200, true, 10], [carol]: [300, true, 5] } };
+      sdk.latestHeight = 200;
+      await validatorService.updateValidators();
+
+      const validators = new Map((await db.getValidators()).map(validator => [validator.address, validator]));
+      expect(validators.get(alice)).toMatchObject({ stake: '1200', previous_stake: '1000', is_active: true });
+      expect(validators.get(bob)).toMatchObject({ stake: '500', is_active: false });
+      expect(validators.get(carol)).toMatchObject({ stake: '300', previous_stake: null, is_active: true });
+
+      const committeeChanged = events.filter(event => event.type === 'committee.changed').map(event => event.data);
+      expect(committeeChanged[1]).toEqual({ joined: [carol], left: [bob], size: 2 });
+    });
+
+    it('only announces validators whose state changed', async () => {
+      sdk.committee = { members: { [alice]: [1000, true, 10], [bob]: [500, true, 0] } };
+      await validatorService.updateValidators();
+      events.length = 0;
+
+      sdk.committee = { members: { [alice]: [1000, true, 10], [bob]: [700, true, 0] } };
+      await validatorService.updateValidators();
+
+      expect(events.map(event => [event.type, event.data.address])).toEqual([['validator.updated', bob]]);
+      expect(events[0].data).toMatchObject({ stake: '700', previous_stake: '500' });
+    });
+
+    it('snapshots the committee at the local height when the upstream height is unknown', async () => {
+      await db.saveBlocks([buildBlock(41), buildBlock(42)]);
+      sdk.committee = { id: 'committee1abc', members: { [alice]: [1000, true, 10] } };
+      sdk.latestHeight = null;
+      sdk.getLatestBlockHeight = async () => null;
+
+      await validatorService.updateValidators();
+
+      const snapshot = await db.getCommitteeSnapshotAtHeight(42);
+      expect(snapshot).toMatchObject({ committee_id: 'committee1abc', block_height: 42, member_count: 1 });
+    });
+
+    it('leaves stored validators untouched when the committee cannot be fetched', async () => {
+      await db.upsertValidator({ address: alice, stake: 1000, is_active: true, bonded: 10 });
+      sdk.getLatestCommittee = async () => { throw new Error('upstream unavailable'); };
+
+      await validatorService.updateValidators();
+
+      expect(await db.getValidator(alice)).toMatchObject({ stake: '1000', is_active: true });
+    });
+  });
+
+  describe('listValidators', () => {
+    beforeEach(async () => {
+      for (const [index, name] of ['a', 'b', 'c', 'd', 'e'].entries()) {
+        await db.upsertValidator({ address: address(name), stake: (index + 1) * 100, is_active: name !== 'e', bonded: 0 });
+      }
+    });
+
+    it('pages through validators by stake with a cursor', async () => {
+      const first = await validatorService.listValidators({ limit: '2' });
+      expect(first.items.map(validator => validator.stake)).toEqual(['500', '400']);
+      expect(first.total).toBe(5);
+      expect(first.items[0]).not.toHaveProperty('sort_value');
+
+      const second = await validatorService.listValidators({ limit: '2', cursor: first.nextCursor });
+      expect(second.items.map(validator => validator.stake)).toEqual(['300', '200']);
+
+      const third = await validatorService.listValidators({ limit: '2', cursor: second.nextCursor });
+      expect(third.items.map(validator => validator.stake)).toEqual(['100']);
+      expect(third.nextCursor).toBeNull();
+    });
+
+    it('continues after the last row seen when stakes tie or rows are added between pages', async () => {
+      await db.upsertValidator({ address: address('f'), stake: 300, is_active: true, bonded: 0 });
+      const first = await validatorService.listValidators({ limit: '3' });
+      expect(first.items.map(validator => validator.address)).toEqual([address('e'), address('d'), address('f')]);
+
+      // A validator that sorts onto the first page does not push rows already seen onto the next one
+      await db.upsertValidator({ address: address('g'), stake: 450, is_active: true, bonded: 0 });
+      const second = await validatorService.listValidators({ limit: '3', cursor: first.nextCursor });
+      expect(second.items.map(validator => validator.address)).toEqual([address('c'), address('b'), address('a')]);
+      expect(second.nextCursor).toBeNull();
+    });
+
+    it('filters by committee membership and sorts ascending', async () => {
+      const page = await validatorService.listValidators({ is_active: 'false' });
+      expect(page.items.map(validator => validator.address)).toEqual([address('e')]);
+
+      const ascending = await validatorService.listValidators({ order: 'asc', is_active: 'true' });
+      expect(ascending.items.map(validator => validator.stake)).toEqual(['100', '200', '300', '400']);
+      expect(ascending.total).toBe(4);
+    });
+
+    it('sorts by participation in the recent rounds', async () => {
+      await db.saveBlocks([
+        buildBlock(1, { certificates: [certificate(10, address('a')), certificate(10, address('b'))] }),
+        buildBlock(2, { certificates: [certificate(11, address('a'))] }),
+      ]);
+
+      const page = await validatorService.listValidators({ sort: 'participation', limit: '2' });
+      expect(page.items.map(validator => [validator.address, validator.participation])).toEqual([
+        [address('a'), 1],
+        [address('b'), 0.5],
+      ]);
+    });
+
+    it('rejects a cursor issued for another sort order', () => {
+      const cursor = Buffer.from(JSON.stringify({ sort: 'stake', order: 'desc', value: '300', address: address('c') })).toString('base64url');
+      expect(validatorService.validateListQuery({ cursor, order: 'asc' })).toBe('cursor was issued for a different sort order');
+      expect(validatorService.validateListQuery({ cursor })).toBeNull();
+      expect(validatorService.validateListQuery({ cursor: 'not-a-cursor' })).toBe('cursor is invalid');
+    });
+
+    it('rejects a cursor whose sort value does not match the sort', () => {
+      const cursor = (sort: string, value: unknown) =>
+        Buffer.from(JSON.stringify({ sort, order: 'desc', value, address: address('c') })).toString('base64url');
+
+      for (const value of ['x', {}, null, '1.5', 1.5]) {
+        expect(validatorService.validateListQuery({ cursor: cursor('stake', value) })).toBe('cursor is invalid');
+      }
+      expect(validatorService.validateListQuery({ cursor: cursor('blocks_produced', 12), sort: 'blocks_produced' })).toBeNull();
+      expect(validatorService.validateListQuery({ cursor: cursor('participation', '0.5'), sort: 'participation' })).toBe('cursor is invalid');
+      expect(validatorService.validateListQuery({ cursor: cursor('participation', 0.5), sort: 'participation' })).toBeNull();
+    });
+  });
+
+  describe('getValidatorPerformance', () => {
+    it('reports participation and signature rates over the window', async () => {
+      await db.upsertValidator({ address: alice, stake: 1000, is_active: true, bonded: 10 });
+      await db.saveBlocks([
+        buildBlock(1, { validator: alice, certificates: [certificate(1, alice, [bob, carol]), certificate(1, bob, [alice, carol]), certificate(1, carol, [alice, bob])] }),
+        buildBlock(2, { certificates: [certificate(2, bob, [carol]), certificate(2, carol, [bob])] }),
+        // Alice did not sign carol's certificate; dave's was stored without signers and is not counted
+        buildBlock(3, { validator: alice, certificates: [
+          certificate(3, alice, [bob]), certificate(3, bob, [alice, carol]), certificate(3, carol, [bob]),
+          { ...certificate(3, address('dave')), signers: undefined },
+        ] }),
+      ]);
+
+      const { validator, performance } = await validatorService.getValidatorPerformance(alice, 3);
+
+      expect(validator.total_blocks_produced).toBe(2);
+      expect(performance).toMatchObject({
+        fromRound: 1,
+        toRound: 3,
+        roundsCovered: 3,
+        roundsObserved: 3,
+        roundsParticipated: 2,
+        missedRounds: 1,
+        signatureRate: 0.75,
+      });
+      expect(performance.participationRate).toBeCloseTo(2 / 3);
+    });
+
+    it('leaves the signature rate unmeasured when no signer could be recovered', async () => {
+      await db.upsertValidator({ address: alice, stake: 1000, is_active: true, bonded: 10 });
+      // Bob's signatures did not parse, so recovery found no signers at all
+      await db.saveBlocks([buildBlock(1, { certificates: [certificate(1, alice, [bob]), { ...certificate(1, bob, [alice]), signers: [] }] })]);
+
+      const { performance } = await validatorService.getValidatorPerformance(alice, 10);
+
+      expect(performance).toMatchObject({ roundsParticipated: 1, signatureRate: null });
+    });
+
+    it('reports the rounds still covered once older certificates were pruned', async () => {
+      await db.upsertValidator({ address: alice, stake: 1000, is_active: true, bonded: 10 });
+      await db.saveBlocks([1, 2, 3, 4].map(round => buildBlock(round, { certificates: [certificate(round, alice, [bob]), certificate(round, bob, [alice])] })));
+      await db.pruneRawData(new Date(Date.now() + 60_000), 3);
+
+      const { performance } = await validatorService.getValidatorPerformance(alice, 10);
+
+      expect(performance).toMatchObject({ windowRounds: 10, fromRound: 3, toRound: 4, roundsCovered: 2, roundsObserved: 2, roundsParticipated: 2 });
+    });
+
+    it('returns null for an unknown validator', async () => {
+      expect(await validatorService.getValidatorPerformance(alice)).toBeNull();
+    });
+  });
+
+  describe('getStakeHistory', () => {
+    it('derives join and leave events from consecutive snapshots', async () => {
+      await db.insertCommitteeSnapshot({ members: { [alice]: [1000, true, 10] } }, 10);
+      await db.insertCommitteeSnapshot({ members: { [bob]: [500, true, 0] } }, 20);
+      await db.insertCommitteeSnapshot({ members: { [alice]: [1100, true, 10], [bob]: [500, true, 0] } }, 30);
+
+      const history = await validatorService.getStakeHistory(alice);
+
+      expect(history.points.map(point => [point.block_height, point.stake])).toEqual([[10, '1000'], [30, '1100']]);
+      expect(history.events.map(event => [event.type, event.block_height])).toEqual([['left', 20], ['joined', 30]]);
+    });
+  });
+});
@@ -0,0 +1,85 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { WatchlistService } from '../../src/services/WatchlistService.js';
+import { NotificationService } from '../../src/services/NotificationService.js';
+import { InMemoryDatabase, createInMemoryRepositories } from '../../src/repositories/index.js';
+import { address, buildBlock, certificate } from '../helpers/blocks.js';
+
+const alice = address('alice');
+const bob = address('bob');
+
+describe('WatchlistService', () => {
+  let db: InMemoryDatabase;
+  let participationQueries: string[][];
+  let watchlistService: WatchlistService;
+
+  beforeEach(async () => {
+    db = new InMemoryDatabase();
+    await db.upsertValidator({ address: alice, stake: 1000, is_active: true, bonded: 900 });
+    await db.upsertValidator({ address: bob, stake: 500, is_active: false, bonded: 0 });
+    await db.saveBlocks([
+      buildBlock(1, { certificates: [certificate(10, alice, [bob]), certificate(10, bob, [alice])] }),
+      buildBlock(2, { certificates: [certificate(11, alice)] }),
+    ]);
+    participationQueries = [];
+    const getRoundParticipationByAddress = db.getRoundParticipationByAddress.bind(db);
+    db.getRoundParticipationByAddress = async (addresses, windowRounds) => {
+      participationQueries.push(addresses);
+      return getRoundParticipationByAddress(addresses, windowRounds);
+    };
+
+    const repositories = createInMemoryRepositories(db);
+    watchlistService = new WatchlistService(
+      repositories.watchlists,
+      repositories.alerts,
+      repositories.blocks,
+      new NotificationService(repositories.notifications)
+    );
+  });
+
+  it('summarizes the watched validators with participation from a single query', async () => {
+    await watchlistService.addEntry(7, alice, 'mine');
+    await watchlistService.addEntry(7, bob);
+    await watchlistService.addEntry(8, bob);
+    const rule = await db.createAlertRule({ name: 'participation', type: 'validator_participation', params: { minRate: 0.5 } });
+    const resolved = await db.resolveAlert((await db.insertAlert(rule.id, bob, 'Participation below 50.00%', 0.25)).id);
+    const firing = await db.insertAlert(rule.id, bob, 'Participation below 50.00%', 0.5);
+
+    const { summary, validators } = await watchlistService.getWatchlist(7);
+
+    expect(participationQueries).toEqual([[alice, bob]]);
+    expect(summary).toEqual({ validators: 2, active: 1, totalStake: '1500', firingAlerts: 1 });
+    expect(validators.map(validator => [validator.address, validator.label, validator.stake])).toEqual([[alice, 'mine', '1000'], [bob, null, '500']]);
+    expect(validators[0].participation).toEqual({ roundsObserved: 2, roundsParticipated: 2, participationRate: 1, signatureRate: 1 });
+    expect(validators[1].participation).toMatchObject({ roundsParticipated: 1, participationRate: 0.5 });
+    expect(validators[1].recentAlerts.map(alert => [alert.id, alert.rule_name])).toEqual([
+      [firing.id, 'participation'],
+      [resolved.id, 'participation'],
+    ]);
+  });
+
+  it('updates the label of an address already on the list and removes entries per user', async () => {
+    await watchlistService.addEntry(7, alice, 'first');
+    await watchlistService.addEntry(7, alice, 'second');
+    await watchlistService.addEntry(8, alice);
+
+    expect((await watchlistService.getWatchlist(7)).validators.map(validator => validator.label)).toEqual(['second']);
+    expect(await watchlistService.removeEntry(7, alice)).toBe(true);
+    expect(await watchlistService.removeEntry(7, alice)).toBe(false);
+    expect((await watchlistService.getWatchlist(8)).validators).toHaveLength(1);
+  });
+
+  it('only subscribes to the user\'s own channels', async () => {
+    const own = await db.createNotificationChannel({ name: 'mine', type: 'webhook', config: { url: 'https://hooks.example.com' } }, 7);
+    const foreign = await db.createNotificationChannel({ name: 'theirs', type: 'webhook', config: { url: 'https://hooks.example.com' } }, 8);
+
+    expect(await watchlistService.validateSubscription(7, { channel_id: own.id, rule_types: ['validator_participation'] })).toBeNull();
+    expect(await watchlistService.validateSubscription(7, { channel_id: foreign.id })).toBe('channel_id must reference one of your channels');
+    expect(await watchlistService.validateSubscription(7, { channel_id: own.id, rule_types: ['bogus'] }))
+      .toMatch(/^rule_types must be a list of: /);
+
+    const subscription = await watchlistService.createSubscription(7, { channel_id: own.id });
+    expect(subscription).toMatchObject({ user_id: 7, channel_id: own.id, rule_types: [], include_resolved: true });
+    expect(await watchlistService.deleteSubscription(8, subscription.id)).toBe(false);
+    expect(await watchlistService.getSubscriptions(7)).toHaveLength(1);
+  });
+});
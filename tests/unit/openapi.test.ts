@@ -0,0 +1,79 @@
+import express from 'express';
+import { AddressInfo } from 'net';
+import http from 'http';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { z } from 'zod';
+import { documentedRouter, getOpenApiDocument } from '../../src/api/openapi.js';
+import { IdParams } from '../../src/api/schemas/common.js';
+
+describe('documentedRouter', () => {
+  let server: http.Server;
+  let url: string;
+
+  beforeAll(async () => {
+    const app = express();
+    app.use(express.json());
+    app.use((req, res, next) => {
+      if (req.header('X-Test-Role')) req.user = { userId: 1, username: 'test', role: req.header('X-Test-Role') as any, method: 'jwt' };
+      next();
+    });
+    const router = express.Router();
+    const routes = documentedRouter(router, '/api/things', 'Things');
+    routes.put('/:id', {
+      summary: 'Update a thing',
+      params: IdParams,
+      body: z.object({ name: z.string() }),
+      response: z.object({ id: z.string(), name: z.string() }),
+      role: 'operator',
+    }, (req, res) => {
+      res.json({ id: req.params.id, name: req.body.name });
+    });
+    app.use('/api/things', router);
+
+    server = app.listen(0, '127.0.0.1');
+    await new Promise(resolve => server.once('listening', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/things`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  const put = (path: string, body: unknown, role?: string) => fetch(`${url}${path}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json', ...(role ? { 'X-Test-Role': role } : {}) },
+    body: JSON.stringify(body),
+  });
+
+  it('checks the role before validating the request', async () => {
+    expect((await put('/not-a-number', {})).status).toBe(401);
+    expect((await put('/not-a-number', {}, 'viewer')).status).toBe(403);
+  });
+
+  it('rejects invalid fields and out-of-range ids with a 400', async () => {
+    const invalid = await put('/not-a-number', { name: 7 }, 'operator');
+    expect(invalid.status).toBe(400);
+    expect(await invalid.json()).toEqual({
+      error: 'Invalid request',
+      details: [
+        { field: 'params.id', message: 'must be a non-negative integer' },
+        { field: 'body.name', message: 'Expected string, received number' },
+      ],
+    });
+
+    const tooLarge = await put('/2147483648', { name: 'x' }, 'operator');
+    expect((await tooLarge.json()).details).toEqual([{ field: 'params.id', message: 'must be at most 2147483647' }]);
+
+    const valid = await put('/2147483647', { name: 'x' }, 'operator');
+    expect(await valid.json()).toEqual({ id: '2147483647', name: 'x' });
+  });
+
+  it('documents the operation with its role and error responses', () => {
+    const operation = getOpenApiDocument().paths['/api/things/{id}'].put!;
+
+    expect(operation.summary).toBe('Update a thing');
+    expect(operation.description).toBe('Requires the `operator` role.');
+    expect(operation.security).toEqual([{ bearerAuth: [] }, { apiKey: [] }]);
+    expect(Object.keys(operation.responses).sort()).toEqual(['200', '400', '401', '403', '500']);
+  });
+});
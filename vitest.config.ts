@@ -0,0 +1,21 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    include: ['tests/**/*.test.ts'],
+    environment: 'node',
+    // Starts Postgres for the suites that need one unless TEST_DATABASE_URL points at a server
+    globalSetup: ['tests/setup/postgres.ts'],
+    // Services log through winston at debug level; keep test output readable
+    silent: true,
+    env: {
+      UPSTREAM_MODE: 'replay',
+      UPSTREAM_FIXTURES_DIR: 'tests/fixtures/upstream',
+      // Mock nodes change their chain between requests, so nothing near the tip may be served from cache
+      UPSTREAM_CACHE_LATEST_TTL_MS: '0',
+      UPSTREAM_CACHE_COMMITTEE_TTL_MS: '0',
+      UPSTREAM_REQUEST_TIMEOUT_MS: '1000',
+      UPSTREAM_MAX_REQUESTS_PER_SECOND: '0',
+    },
+  },
+});